@@ -0,0 +1,61 @@
+import type { CliAuth, CliConfig } from "./config";
+
+// A thin fetch wrapper around the server's REST API. Failed requests throw an
+// Error with the server's message.
+
+function authHeaders(auth?: CliAuth): Record<string, string> {
+  if (!auth) return {};
+  return auth.type === "token"
+    ? { Authorization: `Bearer ${auth.token}` }
+    : { "x-session-token": auth.token };
+}
+
+export class ApiClient {
+  constructor(private config: CliConfig) {}
+
+  async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const url = new URL(path, this.config.server);
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        method,
+        headers: {
+          ...authHeaders(this.config.auth),
+          ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new Error(`Could not reach ${this.config.server}: ${(error as Error).message}`);
+    }
+
+    if (!res.ok) {
+      const payload = await res.json().catch(() => null);
+      if (res.status === 401 && this.config.auth) {
+        throw new Error("The saved credentials are no longer valid; run `snipclip login` again");
+      }
+      const details = Array.isArray(payload?.errors)
+        ? payload.errors.map((issue: { path?: string[]; message: string }) => `\n  ${issue.path?.join(".") || "value"}: ${issue.message}`).join("")
+        : "";
+      throw new Error(`${payload?.message || res.statusText}${details}`);
+    }
+    if (res.status === 204) return undefined as T;
+    return res.json() as Promise<T>;
+  }
+
+  get<T>(path: string): Promise<T> {
+    return this.request<T>("GET", path);
+  }
+
+  post<T>(path: string, body?: unknown): Promise<T> {
+    return this.request<T>("POST", path, body ?? {});
+  }
+
+  patch<T>(path: string, body: unknown): Promise<T> {
+    return this.request<T>("PATCH", path, body);
+  }
+
+  delete<T>(path: string): Promise<T> {
+    return this.request<T>("DELETE", path);
+  }
+}
@@ -0,0 +1,51 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Where the CLI keeps the server address and the credentials it signs in with.
+// SNIPCLIP_SERVER and SNIPCLIP_TOKEN override the file, for scripts and CI.
+
+export type CliAuth =
+  // Opened with `snipclip login` from a PIN and passphrase
+  | { type: "session"; token: string; userId: string }
+  // A personal API token, created in Settings
+  | { type: "token"; token: string };
+
+export interface CliConfig {
+  server: string;
+  auth?: CliAuth;
+}
+
+// The port the server listens on in production
+export const DEFAULT_SERVER = "http://localhost:5001";
+
+export function configPath(): string {
+  if (process.env.SNIPCLIP_CONFIG) return process.env.SNIPCLIP_CONFIG;
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+  return path.join(base, "snipclip", "config.json");
+}
+
+// The saved configuration, without the environment overrides
+export function readConfigFile(): CliConfig {
+  try {
+    const saved = JSON.parse(fs.readFileSync(configPath(), "utf8"));
+    return { server: saved.server || DEFAULT_SERVER, auth: saved.auth };
+  } catch (error) {
+    return { server: DEFAULT_SERVER };
+  }
+}
+
+export function loadConfig(): CliConfig {
+  const config = readConfigFile();
+  return {
+    server: process.env.SNIPCLIP_SERVER || config.server,
+    auth: process.env.SNIPCLIP_TOKEN ? { type: "token", token: process.env.SNIPCLIP_TOKEN } : config.auth,
+  };
+}
+
+// Only the owner may read the file, as it holds credentials
+export function saveConfig(config: CliConfig): void {
+  const file = configPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(config, null, 2), { mode: 0o600 });
+}
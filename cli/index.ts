@@ -0,0 +1,360 @@
+import { parseArgs, type ParseArgsConfig } from "util";
+import readline from "readline/promises";
+import { Writable } from "stream";
+import { insertSnippetSchema, type ClipboardItem, type Folder, type Snippet } from "../shared/schema";
+import { expandTemplate, getTemplateFields, formatFieldLabel, usesClipboard } from "../shared/templates";
+import { FOLDER_PATH_SEPARATOR, folderPath } from "../shared/folders";
+import type { SearchResult } from "../shared/search";
+import { snippetSorts, type ListPage } from "../shared/listing";
+import { clipboardTypes } from "../shared/clipboard";
+import { ApiClient } from "./api";
+import { loadConfig, readConfigFile, saveConfig, configPath } from "./config";
+import { copyToClipboard, readClipboard } from "./system-clipboard";
+
+const USAGE = `Usage: snipclip <command> [options]
+
+Snippets
+  list [--folder <folder>] [--tag <tag>] [--sort <order>] [--json]
+                                  List snippets, most recently updated first, or
+                                  by ${snippetSorts.filter(sort => sort !== "updatedAt").join(", ")}
+  search <query> [--clipboard] [--limit <n>] [--json]
+                                  Search snippets, or clipboard history
+  get <trigger> [--set name=value]... [--copy] [--no-prompt]
+                                  Print a snippet with its template filled in;
+                                  fields not set are asked for, or left at their
+                                  defaults with --no-prompt or when piped
+  add --title <title> --trigger <trigger> [--folder <folder>] [--tag <tag>]...
+      [--description <text>] [--abbreviation <abbr>] < content
+                                  Add a snippet with the content piped in
+
+Clipboard history
+  clip [text]                     Save text, or what is piped in, to the history
+  clips [--limit <n>] [--type <type>] [--json]
+                                  List the history, newest first; types are
+                                  ${clipboardTypes.join(", ")}
+
+Folders (a folder is given by id or path, such as "Work/Email")
+  folders [--json]                List folders
+  folders add <path>              Create a folder; its parent must exist
+  folders rename <folder> <name>  Rename a folder
+  folders move <folder> <parent>  Move a folder under another, or "/" for the top
+  folders rm <folder>             Move a folder and its snippets to the trash
+
+Account
+  login [--server <url>] [--token <token>]
+                                  Sign in with your PIN and passphrase, or save an
+                                  API token from Settings; SNIPCLIP_PIN and
+                                  SNIPCLIP_PASSPHRASE skip the prompts
+  logout                          Sign out and forget the saved credentials
+
+SNIPCLIP_SERVER and SNIPCLIP_TOKEN override the saved server and credentials.
+Configuration is kept in ${configPath()}.
+`;
+
+class UsageError extends Error {}
+
+function parse<T extends NonNullable<ParseArgsConfig["options"]>>(args: string[], options: T) {
+  try {
+    return parseArgs({ args, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// Ask on the terminal; hidden answers are not echoed
+async function prompt(question: string, hidden = false): Promise<string> {
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stderr.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+  try {
+    const answer = rl.question(question);
+    muted = hidden;
+    return await answer;
+  } finally {
+    if (hidden) process.stderr.write("\n");
+    rl.close();
+  }
+}
+
+function printJson(value: unknown) {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+// Rows of columns, padded to line up
+function printTable(rows: string[][]) {
+  const widths = rows.reduce<number[]>((max, row) => row.map((cell, i) => Math.max(max[i] ?? 0, cell.length)), []);
+  for (const row of rows) {
+    console.log(row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join("  ").trimEnd());
+  }
+}
+
+const firstLine = (text: string, length = 60) => {
+  const line = text.trim().split("\n")[0];
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+};
+
+// A folder given by id or by its path, case-insensitively
+function findFolder(folders: Folder[], ref: string): Folder {
+  const byId = /^\d+$/.test(ref) ? folders.find(folder => folder.id === Number(ref)) : undefined;
+  const wanted = ref.replace(/^\/+|\/+$/g, "").toLowerCase();
+  const folder = byId ?? folders.find(f => folderPath(folders, f.id).toLowerCase() === wanted);
+  if (!folder) throw new Error(`No folder "${ref}"`);
+  return folder;
+}
+
+async function listSnippets(api: ApiClient, args: string[]) {
+  const { values } = parse(args, {
+    folder: { type: "string" },
+    tag: { type: "string" },
+    sort: { type: "string" },
+    json: { type: "boolean" },
+  });
+  const folders = await api.get<Folder[]>("/api/folders");
+  const params = new URLSearchParams();
+  if (values.folder) params.set("folderId", String(findFolder(folders, values.folder).id));
+  if (values.sort) params.set("sort", values.sort);
+  const snippets = await api.get<Snippet[]>(`/api/snippets?${params}`);
+  const tag = values.tag?.toLowerCase();
+  const shown = snippets.filter(snippet => !tag || snippet.tags?.includes(tag));
+  if (values.json) return printJson(shown);
+  printTable(shown.map(snippet => [
+    snippet.trigger,
+    snippet.title,
+    snippet.folderId != null ? folderPath(folders, snippet.folderId) : "",
+  ]));
+}
+
+async function search(api: ApiClient, args: string[]) {
+  const { values, positionals } = parse(args, {
+    clipboard: { type: "boolean" },
+    limit: { type: "string" },
+    json: { type: "boolean" },
+  });
+  const query = positionals.join(" ");
+  if (!query) throw new UsageError("search needs a query");
+  const params = new URLSearchParams({ q: query, type: values.clipboard ? "clipboard" : "snippet" });
+  if (values.limit) params.set("limit", values.limit);
+  const results = await api.get<SearchResult[]>(`/api/search?${params}`);
+  if (values.json) return printJson(results.map(result => result.item));
+  printTable(results.map(result => result.kind === "snippet"
+    ? [result.item.trigger, result.item.title]
+    : [String(result.item.id), firstLine(result.item.content)]
+  ));
+}
+
+async function getSnippet(api: ApiClient, args: string[]) {
+  const { values, positionals } = parse(args, {
+    set: { type: "string", multiple: true },
+    copy: { type: "boolean" },
+    "no-prompt": { type: "boolean" },
+  });
+  const [trigger] = positionals;
+  if (!trigger) throw new UsageError("get needs a trigger");
+  const snippets = await api.get<Snippet[]>("/api/snippets");
+  const snippet = snippets.find(s => s.trigger === trigger);
+  if (!snippet) throw new Error(`No snippet with the trigger "${trigger}"`);
+  // Counts towards sorting by usage; not worth failing over
+  api.post(`/api/snippets/${snippet.id}/use`).catch(() => {});
+
+  const fields: Record<string, string> = {};
+  for (const assignment of values.set ?? []) {
+    const separator = assignment.indexOf("=");
+    if (separator < 1) throw new UsageError(`--set takes name=value, not "${assignment}"`);
+    fields[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+  }
+  const interactive = process.stdin.isTTY && !values["no-prompt"];
+  for (const field of getTemplateFields(snippet.content)) {
+    if (field.name in fields || !interactive) continue;
+    const hint = field.defaultValue ? ` [${field.defaultValue}]` : "";
+    fields[field.name] = (await prompt(`${formatFieldLabel(field.name)}${hint}: `)) || field.defaultValue;
+  }
+
+  const { text } = expandTemplate(snippet.content, {
+    fields,
+    clipboard: usesClipboard(snippet.content) ? readClipboard() : undefined,
+  });
+  if (values.copy) {
+    copyToClipboard(text);
+    console.error(`Copied "${snippet.title}"`);
+  } else {
+    process.stdout.write(process.stdout.isTTY ? `${text}\n` : text);
+  }
+}
+
+async function addSnippet(api: ApiClient, args: string[]) {
+  const { values } = parse(args, {
+    title: { type: "string" },
+    trigger: { type: "string" },
+    folder: { type: "string" },
+    tag: { type: "string", multiple: true },
+    description: { type: "string" },
+    abbreviation: { type: "string" },
+  });
+  if (process.stdin.isTTY) throw new UsageError("add reads the snippet's content from stdin; pipe it in");
+  const content = await readStdin();
+  const folders = values.folder ? await api.get<Folder[]>("/api/folders") : [];
+
+  // Checked here too, so mistakes show before anything is sent
+  const parsed = insertSnippetSchema.safeParse({
+    title: values.title,
+    trigger: values.trigger,
+    content,
+    description: values.description ?? null,
+    abbreviation: values.abbreviation,
+    folderId: values.folder ? findFolder(folders, values.folder).id : null,
+    tags: values.tag,
+  });
+  if (!parsed.success) {
+    throw new Error(`Invalid snippet:${parsed.error.issues.map(issue => `\n  ${issue.path.join(".")}: ${issue.message}`).join("")}`);
+  }
+  const snippet = await api.post<Snippet>("/api/snippets", parsed.data);
+  console.error(`Added "${snippet.title}" (${snippet.trigger})`);
+}
+
+async function pushClip(api: ApiClient, args: string[]) {
+  const { positionals } = parse(args, {});
+  const content = positionals.length > 0 ? positionals.join(" ") : process.stdin.isTTY ? "" : await readStdin();
+  if (!content.trim()) throw new UsageError("clip needs text, as arguments or piped in");
+  const item = await api.post<ClipboardItem>("/api/clipboard", { content });
+  console.error(`Saved to clipboard history as ${item.type}`);
+}
+
+async function listClips(api: ApiClient, args: string[]) {
+  const { values } = parse(args, {
+    limit: { type: "string" },
+    type: { type: "string" },
+    json: { type: "boolean" },
+  });
+  const params = new URLSearchParams();
+  if (values.type) params.set("type", values.type);
+  // With a limit the server sends one page
+  if (values.limit) params.set("limit", values.limit);
+  const shown = values.limit
+    ? (await api.get<ListPage<ClipboardItem>>(`/api/clipboard?${params}`)).items
+    : await api.get<ClipboardItem[]>(`/api/clipboard?${params}`);
+  if (values.json) return printJson(shown);
+  printTable(shown.map(item => [
+    `${item.pinned ? "*" : " "}${item.id}`,
+    new Date(item.createdAt).toLocaleString(),
+    item.type,
+    firstLine(item.content),
+  ]));
+}
+
+async function manageFolders(api: ApiClient, args: string[]) {
+  const { values, positionals } = parse(args, { json: { type: "boolean" } });
+  const [action = "list", ...rest] = positionals;
+  const folders = await api.get<Folder[]>("/api/folders");
+
+  switch (action) {
+    case "list": {
+      if (values.json) return printJson(folders);
+      const rows = folders.map(folder => [String(folder.id), folderPath(folders, folder.id)]);
+      return printTable(rows.sort((a, b) => a[1].localeCompare(b[1])));
+    }
+    case "add": {
+      const [path] = rest;
+      if (!path) throw new UsageError("folders add needs a path");
+      const segments = path.split(FOLDER_PATH_SEPARATOR).filter(Boolean);
+      const name = segments.pop()!;
+      const parentId = segments.length > 0 ? findFolder(folders, segments.join(FOLDER_PATH_SEPARATOR)).id : null;
+      const folder = await api.post<Folder>("/api/folders", { name, parentId });
+      return console.error(`Created folder ${folder.id}`);
+    }
+    case "rename": {
+      const [ref, name] = rest;
+      if (!ref || !name) throw new UsageError("folders rename needs a folder and a name");
+      await api.patch(`/api/folders/${findFolder(folders, ref).id}/rename`, { name });
+      return console.error("Renamed");
+    }
+    case "move": {
+      const [ref, parent] = rest;
+      if (!ref || !parent) throw new UsageError("folders move needs a folder and a parent, or / for the top");
+      const parentId = parent === FOLDER_PATH_SEPARATOR ? null : findFolder(folders, parent).id;
+      await api.patch(`/api/folders/${findFolder(folders, ref).id}/move`, { parentId });
+      return console.error("Moved");
+    }
+    case "rm": {
+      const [ref] = rest;
+      if (!ref) throw new UsageError("folders rm needs a folder");
+      await api.delete(`/api/folders/${findFolder(folders, ref).id}`);
+      return console.error("Moved to the trash");
+    }
+    default:
+      throw new UsageError(`Unknown folders command "${action}"`);
+  }
+}
+
+async function login(args: string[]) {
+  const { values } = parse(args, {
+    server: { type: "string" },
+    token: { type: "string" },
+  });
+  const config = readConfigFile();
+  const server = values.server ?? process.env.SNIPCLIP_SERVER ?? config.server;
+
+  if (values.token) {
+    // Check the token works before saving it
+    await new ApiClient({ server, auth: { type: "token", token: values.token } }).get("/api/settings");
+    saveConfig({ server, auth: { type: "token", token: values.token } });
+    return console.error(`Saved the API token for ${server}`);
+  }
+
+  const pin = process.env.SNIPCLIP_PIN ?? await prompt("PIN: ", true);
+  const passphrase = process.env.SNIPCLIP_PASSPHRASE ?? await prompt("Passphrase: ", true);
+  const { userId, sessionToken } = await new ApiClient({ server }).post<{ userId: string; sessionToken: string }>("/api/auth/login", { pin, passphrase });
+  saveConfig({ server, auth: { type: "session", token: sessionToken, userId } });
+  console.error(`Signed in to ${server}`);
+}
+
+async function logout() {
+  const config = readConfigFile();
+  if (config.auth?.type === "session") {
+    await new ApiClient(config).post("/api/auth/logout").catch(() => undefined);
+  }
+  saveConfig({ server: config.server });
+  console.error("Signed out");
+}
+
+const COMMANDS: Record<string, (api: ApiClient, args: string[]) => Promise<void>> = {
+  list: listSnippets,
+  search,
+  get: getSnippet,
+  add: addSnippet,
+  clip: pushClip,
+  clips: listClips,
+  folders: manageFolders,
+};
+
+async function main(argv: string[]) {
+  const [command, ...args] = argv;
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command === "login") return login(args);
+  if (command === "logout") return logout();
+
+  const run = COMMANDS[command];
+  if (!run) throw new UsageError(`Unknown command "${command}"`);
+  const config = loadConfig();
+  if (!config.auth) throw new Error("Not signed in; run `snipclip login` first");
+  await run(new ApiClient(config), args);
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`snipclip: ${error.message}`);
+  if (error instanceof UsageError) console.error("Run `snipclip help` for usage.");
+  process.exit(error instanceof UsageError ? 2 : 1);
+});
@@ -0,0 +1,40 @@
+import { spawnSync } from "child_process";
+
+// Reading and writing the system clipboard through the platform's own tools,
+// trying each until one is installed
+
+type Command = [string, ...string[]];
+
+const COPY_COMMANDS: Record<string, Command[]> = {
+  darwin: [["pbcopy"]],
+  win32: [["clip"]],
+  linux: [["wl-copy"], ["xclip", "-selection", "clipboard"], ["xsel", "--clipboard", "--input"]],
+};
+
+const PASTE_COMMANDS: Record<string, Command[]> = {
+  darwin: [["pbpaste"]],
+  win32: [["powershell", "-NoProfile", "-Command", "Get-Clipboard -Raw"]],
+  linux: [["wl-paste", "--no-newline"], ["xclip", "-selection", "clipboard", "-o"], ["xsel", "--clipboard", "--output"]],
+};
+
+function run(commands: Command[], input?: string): string {
+  for (const [command, ...args] of commands) {
+    const result = spawnSync(command, args, { input, encoding: "utf8" });
+    // Not installed; try the next one
+    if (result.error && (result.error as NodeJS.ErrnoException).code === "ENOENT") continue;
+    if (result.error) throw result.error;
+    if (result.status !== 0) throw new Error(`${command} failed: ${result.stderr.trim() || `exit code ${result.status}`}`);
+    return result.stdout;
+  }
+  throw new Error(process.platform === "linux"
+    ? "No clipboard tool found; install wl-clipboard, xclip or xsel"
+    : "The clipboard is not supported on this platform");
+}
+
+export function copyToClipboard(text: string): void {
+  run(COPY_COMMANDS[process.platform] ?? [], text);
+}
+
+export function readClipboard(): string {
+  return run(PASTE_COMMANDS[process.platform] ?? []);
+}
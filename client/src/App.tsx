@@ -1,18 +1,27 @@
-import { Switch, Route } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { Switch, Route, useRoute } from "wouter";
+import { queryClient, AUTH_REQUIRED_EVENT } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
 import SnippetsPage from "@/pages/snippets";
+import SharedPage from "@/pages/shared";
 import { useState, useEffect } from "react";
 import LoginModal from "@/components/login-modal";
 import ClipboardHistory from "@/components/clipboard-history";
 import SnippetManager from "@/components/snippet-manager";
-import SnippetEditor from "@/components/snippet-editor";
+import SnippetEditor, { type SnippetPrefill } from "@/components/snippet-editor";
+import TemplateFieldsDialog from "@/components/template-fields-dialog";
+import SettingsModal from "@/components/settings-modal";
+import ShortcutCheatSheet from "@/components/shortcut-cheat-sheet";
+import OfflineIndicator from "@/components/offline-indicator";
 import { useClipboardMonitor } from "@/hooks/use-clipboard-monitor";
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
-import type { Snippet } from "@shared/schema";
+import { useAbbreviationExpansion } from "@/hooks/use-abbreviation-expansion";
+import { useAppShortcuts, type ShortcutHandlers } from "@/hooks/use-app-shortcuts";
+import { FOCUS_SNIPPET_SEARCH_EVENT } from "@/lib/shortcuts";
+import { useSync } from "@/hooks/use-sync";
+import type { ClipboardItem, Snippet } from "@shared/schema";
 
 function Router() {
   return (
@@ -32,7 +41,12 @@ function App() {
   // Overlay state for global access
   const [clipboardModalOpen, setClipboardModalOpen] = useState(false);
   const [snippetModalOpen, setSnippetModalOpen] = useState(false);
+  const [snippetEditorOpen, setSnippetEditorOpen] = useState(false);
   const [editingSnippet, setEditingSnippet] = useState<Snippet | null>(null);
+  const [snippetPrefill, setSnippetPrefill] = useState<SnippetPrefill | null>(null);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [cheatSheetOpen, setCheatSheetOpen] = useState(false);
+  const [isSharePage, shareParams] = useRoute("/s/:token");
 
   useEffect(() => {
     // Check if user is already logged in
@@ -47,32 +61,61 @@ function App() {
     }
   }, []);
 
-  // Keyboard shortcut logic for overlays
+  useSync(isLoggedIn);
+
+  // The server stopped accepting our session; go back to the login without a reload,
+  // so changes still queued offline are kept for after signing in again
   useEffect(() => {
-    const handleGlobalShortcut = (e: KeyboardEvent) => {
-      // Clipboard overlay: Ctrl+Alt+Enter
-      if ((e.ctrlKey || e.metaKey) && e.altKey && e.key.toLowerCase() === "enter") {
-        e.preventDefault();
-        setClipboardModalOpen(true);
-      }
-      // Snippet overlay: Alt+Enter
-      if (!e.ctrlKey && e.altKey && e.key.toLowerCase() === "enter") {
-        e.preventDefault();
-        setSnippetModalOpen(true);
-      }
+    const handleAuthRequired = () => {
+      setIsLoggedIn(false);
+      setUserId(null);
+      setShowLogin(true);
+      queryClient.clear();
     };
+    window.addEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+    return () => window.removeEventListener(AUTH_REQUIRED_EVENT, handleAuthRequired);
+  }, []);
+
+  // The dashboard's buttons open the overlays through these events
+  useEffect(() => {
     const openSnippetListener = () => setSnippetModalOpen(true);
     const openClipboardListener = () => setClipboardModalOpen(true);
-    window.addEventListener("keydown", handleGlobalShortcut);
     window.addEventListener("open-snippet-overlay", openSnippetListener);
     window.addEventListener("open-clipboard-overlay", openClipboardListener);
     return () => {
-      window.removeEventListener("keydown", handleGlobalShortcut);
       window.removeEventListener("open-snippet-overlay", openSnippetListener);
       window.removeEventListener("open-clipboard-overlay", openClipboardListener);
     };
   }, []);
 
+  const openSnippetEditor = (snippet: Snippet | null, prefill: SnippetPrefill | null = null) => {
+    setEditingSnippet(snippet);
+    setSnippetPrefill(prefill);
+    setSnippetEditorOpen(true);
+  };
+
+  // Save a clipboard item as a new snippet, titled after its first line
+  const promoteClipboardItem = (item: ClipboardItem) => {
+    const firstLine = item.content.trim().split("\n")[0].trim();
+    const title = firstLine.length > 60 ? `${firstLine.slice(0, 59)}…` : firstLine;
+    setClipboardModalOpen(false);
+    openSnippetEditor(null, { title, content: item.content });
+  };
+
+  // What the keyboard shortcuts from the user's settings do
+  const shortcutHandlers: ShortcutHandlers = {
+    snippetShortcut: () => setSnippetModalOpen(true),
+    clipboardShortcut: () => setClipboardModalOpen(true),
+    newSnippetShortcut: () => openSnippetEditor(null),
+    searchShortcut: () => {
+      // A page with its own snippet search takes it; otherwise the overlay opens on its search box
+      const handled = !window.dispatchEvent(new CustomEvent(FOCUS_SNIPPET_SEARCH_EVENT, { cancelable: true }));
+      if (!handled) setSnippetModalOpen(true);
+    },
+    settingsShortcut: () => setSettingsOpen(true),
+    cheatSheet: () => setCheatSheetOpen(true),
+  };
+
   const handleLoginSuccess = (newUserId: string, sessionToken: string) => {
     setIsLoggedIn(true);
     setUserId(newUserId);
@@ -87,6 +130,18 @@ function App() {
     setShowLogin(true);
   };
 
+  // Share links open for anyone, signed in or not, without the app around them
+  if (isSharePage) {
+    return (
+      <QueryClientProvider client={queryClient}>
+        <TooltipProvider>
+          <SharedPage token={shareParams.token} />
+          <Toaster />
+        </TooltipProvider>
+      </QueryClientProvider>
+    );
+  }
+
   // Show login modal if not logged in
   if (!isLoggedIn) {
     return (
@@ -109,21 +164,41 @@ function App() {
           <ClipboardHistory 
             isOpen={clipboardModalOpen} 
             onClose={() => setClipboardModalOpen(false)} 
+            onPromoteToSnippet={promoteClipboardItem}
           />
           
           <SnippetManager 
             isOpen={snippetModalOpen} 
             onClose={() => setSnippetModalOpen(false)}
-            onEditSnippet={setEditingSnippet}
-            onNewSnippet={() => setEditingSnippet(null)}
+            onEditSnippet={openSnippetEditor}
+            onNewSnippet={() => openSnippetEditor(null)}
           />
           
           <SnippetEditor 
-            isOpen={!!editingSnippet} 
-            onClose={() => setEditingSnippet(null)}
+            isOpen={snippetEditorOpen} 
+            onClose={() => {
+              setSnippetEditorOpen(false);
+              setEditingSnippet(null);
+              setSnippetPrefill(null);
+            }}
             editingSnippet={editingSnippet}
+            prefill={snippetPrefill}
+          />
+
+          <SettingsModal
+            isOpen={settingsOpen}
+            onClose={() => setSettingsOpen(false)}
+          />
+
+          <ShortcutCheatSheet
+            isOpen={cheatSheetOpen}
+            onClose={() => setCheatSheetOpen(false)}
           />
           
+          <TemplateFieldsDialog />
+          <AppShortcutsWrapper handlers={shortcutHandlers} />
+          <AbbreviationExpansionWrapper />
+          <OfflineIndicator />
           <Toaster />
         </div>
       </TooltipProvider>
@@ -142,4 +217,14 @@ function KeyboardShortcutsWrapper() {
   return null;
 }
 
+function AppShortcutsWrapper({ handlers }: { handlers: ShortcutHandlers }) {
+  useAppShortcuts(handlers);
+  return null;
+}
+
+function AbbreviationExpansionWrapper() {
+  useAbbreviationExpansion();
+  return null;
+}
+
 export default App;
@@ -1,6 +1,11 @@
 import React from "react";
 import { Button } from "./ui/button";
-import { Copy, Edit, Trash2 } from "lucide-react";
+import { Checkbox } from "./ui/checkbox";
+import { Copy, Edit, FilePlus, Pin, PinOff, Trash2 } from "lucide-react";
+import HighlightedText from "./highlighted-text";
+import ClipboardPreview, { clipboardTypeDescription } from "./clipboard-preview";
+import { clipboardClassificationOf } from "@shared/clipboard";
+import type { SearchHighlight } from "@/hooks/use-search";
 
 interface SnippetListProps {
   items: Array<any>;
@@ -8,32 +13,76 @@ interface SnippetListProps {
   onCopy: (item: any) => void;
   onEdit?: (item: any) => void;
   onDelete?: (item: any) => void;
+  // Clipboard items only
+  onPin?: (item: any) => void;
+  onPromote?: (item: any) => void;
   selectedIndex?: number;
   setSelectedIndex?: (index: number) => void;
+  // Search matches keyed by item id; matched words are marked in the title and preview
+  highlights?: Map<number, SearchHighlight>;
+  // Multi-select: a Ctrl/Cmd-click or shift-click on a row, or its checkbox, toggles it instead of copying
+  isSelected?: (id: number) => boolean;
+  onToggleSelect?: (id: number, event: { shiftKey: boolean }) => void;
 }
 
-export default function SnippetList({ items, type, onCopy, onEdit, onDelete, selectedIndex, setSelectedIndex }: SnippetListProps) {
+export default function SnippetList({ items, type, onCopy, onEdit, onDelete, onPin, onPromote, selectedIndex, setSelectedIndex, highlights, isSelected, onToggleSelect }: SnippetListProps) {
+  const selecting = !!onToggleSelect && items.some(item => isSelected?.(item.id));
   return (
     <ul className="space-y-1">
-      {items.map((item, index) => (
+      {items.map((item, index) => {
+        const highlight = highlights?.get(item.id);
+        const classification = type === "clipboard" ? clipboardClassificationOf(item) : null;
+        const checked = !!isSelected?.(item.id);
+        return (
         <li
           key={item.id}
           className={`group flex items-center gap-3 px-4 py-4 rounded-xl cursor-pointer select-none transition-all duration-200 text-[16px] font-sans
-            ${selectedIndex === index ? "bg-gradient-to-r from-blue-600/20 to-purple-600/20 border border-blue-500/30 shadow-lg" : "hover:bg-slate-800/50 border border-transparent"}
+            ${checked ? "bg-blue-500/15 border border-blue-400/40" : selectedIndex === index ? "bg-gradient-to-r from-blue-600/20 to-purple-600/20 border border-blue-500/30 shadow-lg" : "hover:bg-slate-800/50 border border-transparent"}
           `}
-          onClick={() => onCopy(item)}
+          onClick={e => {
+            if (onToggleSelect && (e.ctrlKey || e.metaKey || e.shiftKey || selecting)) onToggleSelect(item.id, e);
+            else onCopy(item);
+          }}
           onMouseEnter={() => setSelectedIndex && setSelectedIndex(index)}
           style={{ fontFamily: 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif', fontSize: 16 }}
         >
+          {onToggleSelect && (
+            <Checkbox
+              checked={checked}
+              aria-label="Select"
+              tabIndex={-1}
+              onClick={e => { e.preventDefault(); e.stopPropagation(); onToggleSelect(item.id, e); }}
+              className={`border-slate-500 transition-opacity ${selecting ? "opacity-100" : "opacity-0 group-hover:opacity-100"}`}
+            />
+          )}
           <div className="flex-1 min-w-0">
             <div className="truncate font-semibold text-white text-lg leading-5">
-              {type === "snippet" ? item.title : item.content.slice(0, 40) + (item.content.length > 40 ? "…" : "")}
+              {highlight ? (
+                <HighlightedText segments={highlight.title} />
+              ) : (
+                classification ? <ClipboardPreview content={item.content} classification={classification} /> : item.title
+              )}
             </div>
-            {type === "snippet" && (
+            {highlight ? (
+              <div className="text-slate-400 text-sm truncate mt-1"><HighlightedText segments={highlight.excerpt} /></div>
+            ) : type === "snippet" && (
               <div className="text-slate-400 text-sm truncate mt-1">{item.content.length > 80 ? item.content.slice(0, 80) + "…" : item.content}</div>
             )}
-            {type === "clipboard" && (
-              <div className="text-slate-400 text-xs mt-1">{new Date(item.createdAt).toLocaleString()}</div>
+            {type === "snippet" && item.tags?.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-1.5">
+                {item.tags.map((tag: string) => (
+                  <span key={tag} className="text-[11px] px-1.5 py-0.5 rounded-full bg-slate-700/60 text-slate-300">#{tag}</span>
+                ))}
+              </div>
+            )}
+            {classification && (
+              <div className="flex items-center gap-1 text-slate-400 text-xs mt-1">
+                {item.pinned ? <Pin className="h-3 w-3 text-amber-400" aria-label="Pinned" /> : null}
+                {clipboardTypeDescription(classification) && (
+                  <span className="px-1.5 py-0.5 rounded bg-slate-700/60 text-slate-300">{clipboardTypeDescription(classification)}</span>
+                )}
+                {new Date(item.createdAt).toLocaleString()}
+              </div>
             )}
           </div>
           <div className="flex items-center gap-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -45,6 +94,16 @@ export default function SnippetList({ items, type, onCopy, onEdit, onDelete, sel
                 <Edit className="h-4 w-4" />
               </Button>
             )}
+            {onPromote && type === "clipboard" && (
+              <Button size="icon" variant="ghost" title="Save as snippet" onClick={e => { e.stopPropagation(); onPromote(item); }} className="h-8 w-8 text-slate-400 hover:text-blue-400 hover:bg-blue-500/20 rounded-lg" tabIndex={-1}>
+                <FilePlus className="h-4 w-4" />
+              </Button>
+            )}
+            {onPin && type === "clipboard" && (
+              <Button size="icon" variant="ghost" title={item.pinned ? "Unpin" : "Pin"} onClick={e => { e.stopPropagation(); onPin(item); }} className="h-8 w-8 text-slate-400 hover:text-amber-400 hover:bg-amber-500/20 rounded-lg" tabIndex={-1}>
+                {item.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+            )}
             {onDelete && (
               <Button size="icon" variant="ghost" onClick={e => { e.stopPropagation(); onDelete(item.id); }} className="h-8 w-8 text-slate-400 hover:text-red-400 hover:bg-red-500/20 rounded-lg" tabIndex={-1}>
                 <Trash2 className="h-4 w-4" />
@@ -52,7 +111,8 @@ export default function SnippetList({ items, type, onCopy, onEdit, onDelete, sel
             )}
           </div>
         </li>
-      ))}
+        );
+      })}
     </ul>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ApiTokenInfo, ApiTokenScope, CreateApiToken } from "@shared/schema";
+
+// Expiry choices in days; "never" for a token that does not expire
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Lists the user's personal API tokens, creates new ones and revokes them
+export default function ApiTokenList() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState<ApiTokenScope>("read");
+  const [expiry, setExpiry] = useState("90");
+  // The token just created, shown until dismissed as it cannot be seen again
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<ApiTokenInfo[]>({
+    queryKey: ["/api/auth/tokens"],
+    staleTime: 0,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateApiToken): Promise<ApiTokenInfo & { token: string }> => {
+      const res = await apiRequest("POST", "/api/auth/tokens", data);
+      return res.json();
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      setCreatedToken(token);
+      setName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to create the API token."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/auth/tokens/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      toast({ title: "Revoked", description: "The API token no longer works." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke the API token.", variant: "destructive" });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createMutation.mutate({
+      name: name.trim(),
+      scope,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+    });
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast({ title: "Copied", description: "API token copied to the clipboard." });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to copy the token.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Scripts and other tools can call the API with a token in an <code className="font-mono">Authorization: Bearer</code> header.
+        Read tokens can only fetch data.
+      </p>
+
+      {createdToken && (
+        <div className="space-y-2 rounded-xl border border-green-200 bg-green-50 p-4">
+          <p className="text-sm font-medium text-green-900">Copy your new token now. It will not be shown again.</p>
+          <div className="flex gap-2">
+            <Input readOnly value={createdToken} onFocus={(e) => e.target.select()} className="font-mono text-xs rounded-xl bg-white" />
+            <Button type="button" variant="outline" onClick={copyToken} className="flex items-center gap-2 rounded-xl">
+              <Copy className="h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+          <div className="flex justify-end">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setCreatedToken(null)}>
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-[1fr_auto_auto_auto] items-end gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="api-token-name">Name</Label>
+          <Input
+            id="api-token-name"
+            placeholder="e.g. Backup script"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            className="rounded-xl"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Access</Label>
+          <Select value={scope} onValueChange={(value) => setScope(value as ApiTokenScope)}>
+            <SelectTrigger className="w-28 rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="read">Read</SelectItem>
+              <SelectItem value="write">Read &amp; write</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Expires</Label>
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="w-28 rounded-xl">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="button"
+          onClick={handleCreate}
+          disabled={!name.trim() || createMutation.isPending}
+          className="flex items-center gap-2 rounded-xl"
+        >
+          <Plus className="h-4 w-4" />
+          Create
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading API tokens...</p>
+      ) : tokens.length > 0 && (
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200">
+          {tokens.map(token => (
+            <li key={token.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="flex items-center gap-3 min-w-0">
+                <KeyRound className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-2">
+                    {token.name}
+                    <Badge variant="outline">{token.scope === "write" ? "Read & write" : "Read"}</Badge>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    <span className="font-mono">{token.prefix}…</span>
+                    {" · "}created {formatDate(token.createdAt)}
+                    {" · "}{token.lastUsedAt ? `last used ${formatDate(token.lastUsedAt)}` : "never used"}
+                    {" · "}{token.expiresAt ? `expires ${formatDate(token.expiresAt)}` : "no expiry"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                title="Revoke"
+                onClick={() => revokeMutation.mutate(token.id)}
+                disabled={revokeMutation.isPending}
+                className="h-7 w-7 text-red-600 hover:text-red-800 rounded-full"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const emptyFields = { currentPin: "", currentPassphrase: "", newPin: "", newPassphrase: "", confirmPassphrase: "" };
+
+// Change the PIN and passphrase; the server moves the library over, so nothing is lost
+export default function ChangeCredentialsForm() {
+  const { toast } = useToast();
+  const [fields, setFields] = useState(emptyFields);
+
+  const setField = (name: keyof typeof emptyFields) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setFields(current => ({ ...current, [name]: e.target.value }));
+
+  const changeMutation = useMutation({
+    mutationFn: async (): Promise<{ userId: string }> => {
+      const { confirmPassphrase: _confirm, ...body } = fields;
+      const res = await apiRequest("POST", "/api/auth/change-credentials", body);
+      return res.json();
+    },
+    onSuccess: ({ userId }) => {
+      localStorage.setItem("userKey", userId);
+      setFields(emptyFields);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Credentials changed",
+        description: "Use your new PIN and passphrase from now on. Other devices have been signed out.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not change credentials",
+        description: apiErrorMessage(error, "Failed to change your PIN and passphrase."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!/^\d{4,6}$/.test(fields.newPin)) {
+      toast({ title: "Error", description: "PIN must be 4-6 digits", variant: "destructive" });
+      return;
+    }
+    if (fields.newPassphrase.length < 8) {
+      toast({ title: "Error", description: "Passphrase must be at least 8 characters", variant: "destructive" });
+      return;
+    }
+    if (fields.newPassphrase !== fields.confirmPassphrase) {
+      toast({ title: "Error", description: "The new passphrases do not match", variant: "destructive" });
+      return;
+    }
+    changeMutation.mutate();
+  };
+
+  const complete = Object.values(fields).every(Boolean);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="current-pin">Current PIN</Label>
+          <Input id="current-pin" type="password" inputMode="numeric" maxLength={6} value={fields.currentPin} onChange={setField("currentPin")} className="rounded-xl" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="current-passphrase">Current Passphrase</Label>
+          <Input id="current-passphrase" type="password" value={fields.currentPassphrase} onChange={setField("currentPassphrase")} className="rounded-xl" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-pin">New PIN</Label>
+          <Input id="new-pin" type="password" inputMode="numeric" maxLength={6} value={fields.newPin} onChange={setField("newPin")} className="rounded-xl" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-passphrase">New Passphrase</Label>
+          <Input id="new-passphrase" type="password" value={fields.newPassphrase} onChange={setField("newPassphrase")} className="rounded-xl" />
+        </div>
+        <div className="space-y-2 col-start-2">
+          <Label htmlFor="confirm-passphrase">Confirm New Passphrase</Label>
+          <Input id="confirm-passphrase" type="password" value={fields.confirmPassphrase} onChange={setField("confirmPassphrase")} className="rounded-xl" />
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleSubmit}
+          disabled={!complete || changeMutation.isPending}
+          className="flex items-center gap-2 rounded-xl"
+        >
+          <KeyRound className="h-4 w-4" />
+          {changeMutation.isPending ? "Changing..." : "Change PIN & Passphrase"}
+        </Button>
+      </div>
+    </div>
+  );
+}
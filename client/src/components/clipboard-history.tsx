@@ -1,55 +1,153 @@
 import React, { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Copy, Trash2, Search } from "lucide-react";
+import { Copy, Trash2, Search, Pin, PinOff, X } from "lucide-react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { ClipboardItem } from "@shared/schema";
 import SnippetList from "./SnippetList";
+import { useSearch } from "@/hooks/use-search";
+import { useInfiniteList } from "@/hooks/use-infinite-list";
+import { useMultiSelect } from "@/hooks/use-multi-select";
+import type { BulkResult, ClipboardBulkAction } from "@shared/bulk";
+import { CLIPBOARD_TYPE_LABELS, type ClipboardType, type ClipboardTypeCount } from "@shared/clipboard";
 
 interface ClipboardHistoryProps {
   isOpen: boolean;
   onClose: () => void;
+  // Opens the snippet editor prefilled from the item
+  onPromoteToSnippet?: (item: ClipboardItem) => void;
 }
 
 /** Custom scrollbar for clipboard history overlay */
 const customScrollbar = `clipboard-scrollbar`;
 
-export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryProps) {
+export default function ClipboardHistory({ isOpen, onClose, onPromoteToSnippet }: ClipboardHistoryProps) {
   const overlayInstance = Math.random().toString(36).slice(2, 8);
   console.log('ClipboardHistory rendered', overlayInstance);
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [typeFilter, setTypeFilter] = useState<ClipboardType | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLUListElement>(null);
   const itemRefs = useRef<(HTMLLIElement | null)[]>([]);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: clipboardItems = [], isLoading } = useQuery<ClipboardItem[]>({
-    queryKey: ["/api/clipboard"],
-    refetchOnWindowFocus: false,
-    staleTime: 1000, // Consider data fresh for 1 second
+  // Filters for the types in the history, with how many items each has; kept
+  // under ["/api/clipboard"] so they refresh along with the history
+  const { data: typeCounts = [] } = useQuery<ClipboardTypeCount[]>({
+    queryKey: ["/api/clipboard", "types"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/clipboard/types");
+      return res.json();
+    },
+    enabled: isOpen,
   });
+  // A filter for a type no longer in the history shows everything
+  const activeTypeFilter = typeCounts.some(({ type }) => type === typeFilter) ? typeFilter : null;
 
-  const filteredItems = clipboardItems.filter(item =>
-    item.content.toLowerCase().includes(searchTerm.toLowerCase())
+  // Pinned items first, then newest first, a page at a time as the list is scrolled
+  const { items: clipboardItems, isLoading, hasNextPage, isFetchingNextPage, loadMoreRef } = useInfiniteList<ClipboardItem>(
+    "/api/clipboard",
+    { type: activeTypeFilter },
+    { enabled: isOpen },
   );
 
+  const { results: searchResults, highlights } = useSearch<ClipboardItem>(searchTerm, "clipboard");
+
+  // Pinned items come first; the server already lists them that way, search keeps its ranking below them
+  const filteredItems = searchResults
+    ? [...searchResults].sort((a, b) => b.pinned - a.pinned).filter(item => !activeTypeFilter || item.type === activeTypeFilter)
+    : clipboardItems.filter(item => item.content.toLowerCase().includes(searchTerm.toLowerCase()));
+
+  const selection = useMultiSelect(filteredItems.map(item => item.id), {
+    label: "Select all clipboard items",
+    group: "Clipboard",
+    enabled: isOpen,
+  });
+  const selectedItems = filteredItems.filter(item => selection.isSelected(item.id));
+
   const deleteItemMutation = useMutation({
     mutationFn: (id: number) => apiRequest("DELETE", `/api/clipboard/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
-      toast({ title: "Deleted", description: "Clipboard item deleted." });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Deleted", description: "Clipboard item moved to trash." });
     },
   });
 
-  const clearHistoryMutation = useMutation({
-    mutationFn: () => apiRequest("DELETE", "/api/clipboard"),
+  const pinItemMutation = useMutation({
+    mutationFn: (item: ClipboardItem) => apiRequest("PATCH", `/api/clipboard/${item.id}`, { pinned: !item.pinned }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to update clipboard item.", variant: "destructive" });
+    },
+  });
+
+  const restoreItemsMutation = useMutation({
+    mutationFn: (ids: number[]) => apiRequest("POST", "/api/trash/restore", { type: "clipboard", ids }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
-      toast({ title: "Cleared", description: "Clipboard history cleared." });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Restored", description: "Clipboard history restored." });
+    },
+  });
+
+  const bulkItemsMutation = useMutation({
+    mutationFn: async (action: ClipboardBulkAction): Promise<BulkResult<ClipboardItem>> => {
+      const res = await apiRequest("POST", "/api/clipboard/bulk", action);
+      return res.json();
+    },
+    onSuccess: ({ saved, deleted }, action) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      selection.clear();
+      if (action.action === "delete") {
+        queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+        toast({
+          title: "Moved to trash",
+          description: `${deleted.length} clipboard ${deleted.length === 1 ? "item" : "items"} deleted.`,
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => restoreItemsMutation.mutate(deleted)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      } else {
+        toast({ title: action.pinned ? "Pinned" : "Unpinned", description: `${saved.length} clipboard ${saved.length === 1 ? "item" : "items"} updated.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to update clipboard items.", variant: "destructive" });
+    },
+  });
+
+  const clearHistoryMutation = useMutation({
+    mutationFn: async (): Promise<{ ids: number[] }> => {
+      const res = await apiRequest("DELETE", "/api/clipboard");
+      return res.json();
+    },
+    onSuccess: ({ ids }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({
+        title: "Moved to trash",
+        description: "Clipboard history cleared. Pinned items were kept.",
+        action: ids.length > 0 ? (
+          <ToastAction altText="Undo clear" onClick={() => restoreItemsMutation.mutate(ids)}>
+            Undo
+          </ToastAction>
+        ) : undefined,
+      });
     },
   });
 
@@ -61,7 +159,7 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
 
   useEffect(() => {
     setSelectedIndex(0);
-  }, [searchTerm, isOpen]);
+  }, [searchTerm, typeFilter, isOpen]);
 
   // Scroll selected item into view
   useEffect(() => {
@@ -72,10 +170,15 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (!isOpen) return;
+    // The search box has the focus most of the time; while it's empty there's no text for Ctrl+A to select
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "a" && !searchTerm) {
+      e.preventDefault();
+      selection.selectAll();
+      return;
+    }
     if ((e.ctrlKey || e.metaKey) && e.key === "Backspace") {
       e.preventDefault();
       clearHistoryMutation.mutate();
-      toast({ title: "Cleared", description: "Clipboard history cleared via shortcut." });
       return;
     }
     switch (e.key) {
@@ -95,7 +198,8 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
         break;
       case "Escape":
         e.preventDefault();
-        onClose();
+        if (selection.selectedIds.length > 0) selection.clear();
+        else onClose();
         break;
     }
   };
@@ -147,7 +251,7 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
             </div>
             <div className="flex items-center gap-2">
               <span className="text-sm text-blue-200 bg-blue-800/40 px-3 py-1 rounded-md font-mono">
-                {filteredItems.length} items
+                {filteredItems.length}{!searchResults && hasNextPage ? "+" : ""} items
               </span>
             </div>
           </div>
@@ -167,8 +271,66 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
             style={{ fontFamily: 'system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, Helvetica, Arial, sans-serif' }}
           />
           </div>
+          {typeCounts.length > 1 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {[{ type: null, count: typeCounts.reduce((total, { count }) => total + count, 0) }, ...typeCounts].map(({ type, count }) => (
+                <button
+                  key={type ?? "all"}
+                  type="button"
+                  onClick={() => setTypeFilter(type)}
+                  className={`text-xs px-2.5 py-1 rounded-full transition-colors ${
+                    activeTypeFilter === type ? "bg-blue-500/40 text-white" : "bg-slate-800/60 text-slate-300 hover:bg-slate-700/60"
+                  }`}
+                >
+                  {type ? CLIPBOARD_TYPE_LABELS[type] : "All"} <span className="text-slate-400">{count}</span>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
 
+        {selectedItems.length > 0 && (
+          <div className="flex items-center gap-2 px-6 py-2 bg-blue-900/40 border-y border-blue-800/40 text-sm text-blue-100">
+            <span className="font-medium">{selectedItems.length} selected</span>
+            <div className="flex items-center gap-1 ml-auto">
+              {selectedItems.some(item => !item.pinned) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={bulkItemsMutation.isPending}
+                  onClick={() => bulkItemsMutation.mutate({ action: "pin", ids: selection.selectedIds, pinned: true })}
+                  className="text-blue-100 hover:text-amber-300 hover:bg-amber-500/20"
+                >
+                  <Pin className="h-4 w-4 mr-1" /> Pin
+                </Button>
+              )}
+              {selectedItems.some(item => item.pinned) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={bulkItemsMutation.isPending}
+                  onClick={() => bulkItemsMutation.mutate({ action: "pin", ids: selection.selectedIds, pinned: false })}
+                  className="text-blue-100 hover:text-amber-300 hover:bg-amber-500/20"
+                >
+                  <PinOff className="h-4 w-4 mr-1" /> Unpin
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={bulkItemsMutation.isPending}
+                onClick={() => bulkItemsMutation.mutate({ action: "delete", ids: selection.selectedIds })}
+                className="text-blue-100 hover:text-red-400 hover:bg-red-500/20"
+              >
+                <Trash2 className="h-4 w-4 mr-1" /> Delete
+              </Button>
+              <Button variant="ghost" size="icon" title="Clear selection" onClick={selection.clear} className="h-8 w-8 text-blue-200 hover:bg-blue-800/40">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* List */}
         <div className={`max-h-80 overflow-y-auto ${customScrollbar} px-2`}>
           {isLoading ? (
@@ -179,7 +341,7 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
           ) : filteredItems.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-slate-400 text-sm mb-2">
-              {searchTerm ? "No items match your search" : "No clipboard history found"}
+              {searchTerm || activeTypeFilter ? "No items match your search" : "No clipboard history found"}
               </div>
               <div className="text-slate-500 text-xs">Start copying items to see them here</div>
             </div>
@@ -193,10 +355,20 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
                 onClose();
               }}
               onDelete={(id) => deleteItemMutation.mutate(id)}
+              onPin={(item) => pinItemMutation.mutate(item)}
+              onPromote={onPromoteToSnippet}
               selectedIndex={selectedIndex}
               setSelectedIndex={setSelectedIndex}
+              highlights={highlights}
+              isSelected={selection.isSelected}
+              onToggleSelect={selection.toggle}
             />
           )}
+          {!searchResults && hasNextPage && (
+            <div ref={loadMoreRef} className="py-3 text-center text-xs text-slate-500">
+              {isFetchingNextPage ? "Loading more..." : ""}
+            </div>
+          )}
         </div>
 
         {/* Footer */}
@@ -218,6 +390,8 @@ export default function ClipboardHistory({ isOpen, onClose }: ClipboardHistoryPr
               <span>•</span>
               <span>Enter to copy</span>
               <span>•</span>
+              <span>Shift-click to select</span>
+              <span>•</span>
             <span>Esc to close</span>
             </div>
           </div>
@@ -0,0 +1,93 @@
+import { Braces, Code2, File, Link, Mail, Phone } from "lucide-react";
+import type { ClipboardClassification } from "@shared/clipboard";
+
+interface ClipboardPreviewProps {
+  content: string;
+  classification: ClipboardClassification;
+}
+
+const truncate = (text: string, length: number) => text.length > length ? text.slice(0, length) + "…" : text;
+
+// The title line of a clipboard item, shown according to what it contains
+export default function ClipboardPreview({ content, classification: { type, metadata } }: ClipboardPreviewProps) {
+  const text = content.trim();
+  switch (type) {
+    case "url":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <Link className="h-4 w-4 shrink-0 text-sky-400" />
+          <span className="truncate">{metadata.host}</span>
+          <span className="truncate text-sm font-normal text-slate-400">{truncate(text, 60)}</span>
+        </span>
+      );
+    case "email":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <Mail className="h-4 w-4 shrink-0 text-sky-400" />
+          <span className="truncate">{text.replace(/^mailto:/i, "")}</span>
+        </span>
+      );
+    case "phone":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <Phone className="h-4 w-4 shrink-0 text-emerald-400" />
+          <span className="truncate font-mono">{text}</span>
+        </span>
+      );
+    case "color":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <span className="h-4 w-4 shrink-0 rounded border border-white/30" style={{ backgroundColor: metadata.color }} />
+          <span className="truncate font-mono">{text}</span>
+        </span>
+      );
+    case "path":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <File className="h-4 w-4 shrink-0 text-amber-400" />
+          <span className="truncate">{metadata.fileName}</span>
+          <span className="truncate text-sm font-normal font-mono text-slate-400">{text}</span>
+        </span>
+      );
+    case "json":
+      return (
+        <span className="flex items-center gap-2 min-w-0">
+          <Braces className="h-4 w-4 shrink-0 text-violet-400" />
+          <span className="truncate font-mono text-base font-normal">{truncate(text.replace(/\s+/g, " "), 60)}</span>
+        </span>
+      );
+    case "code":
+      return (
+        <span className="flex items-start gap-2 min-w-0">
+          <Code2 className="h-4 w-4 shrink-0 mt-0.5 text-violet-400" />
+          <pre className="min-w-0 overflow-hidden whitespace-pre text-sm font-normal leading-5 text-slate-200">
+            {text.split("\n").slice(0, 3).map(line => truncate(line, 80)).join("\n")}
+          </pre>
+        </span>
+      );
+    default:
+      return <>{truncate(text, 40)}</>;
+  }
+}
+
+// What kind of item it is, with the details the preview leaves out
+export function clipboardTypeDescription({ type, metadata }: ClipboardClassification): string {
+  switch (type) {
+    case "code":
+      return [metadata.language ?? "Code", metadata.lines && metadata.lines > 1 ? `${metadata.lines} lines` : null].filter(Boolean).join(" · ");
+    case "json":
+      return `JSON ${metadata.jsonKind} · ${metadata.entries} ${metadata.jsonKind === "array" ? "items" : "keys"}`;
+    case "email":
+      return `Email · ${metadata.host}`;
+    case "path":
+      return metadata.pathStyle === "windows" ? "Windows path" : "Path";
+    case "url":
+      return "Link";
+    case "phone":
+      return "Phone number";
+    case "color":
+      return "Colour";
+    default:
+      return "";
+  }
+}
@@ -3,15 +3,19 @@ import { useMutation } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { FolderPlus, X } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { FOLDER_PATH_SEPARATOR } from "@shared/folders";
 import { useToast } from "@/hooks/use-toast";
 
 interface FolderCreationModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Creates a subfolder of this folder instead of a top-level one
+  parentId?: number | null;
+  parentPath?: string;
 }
 
-export default function FolderCreationModal({ isOpen, onClose }: FolderCreationModalProps) {
+export default function FolderCreationModal({ isOpen, onClose, parentId = null, parentPath }: FolderCreationModalProps) {
   const [folderName, setFolderName] = useState("");
   const [isCreating, setIsCreating] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -27,7 +31,7 @@ export default function FolderCreationModal({ isOpen, onClose }: FolderCreationM
   const createFolderMutation = useMutation({
     mutationFn: async (name: string) => {
       // Use the new folders API
-      return await apiRequest("POST", "/api/folders", { name });
+      return await apiRequest("POST", "/api/folders", { name, parentId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
@@ -40,7 +44,7 @@ export default function FolderCreationModal({ isOpen, onClose }: FolderCreationM
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to create folder",
+        description: apiErrorMessage(error, "Failed to create folder"),
         variant: "destructive",
       });
     },
@@ -69,6 +73,15 @@ export default function FolderCreationModal({ isOpen, onClose }: FolderCreationM
       return;
     }
     
+    if (folderName.includes(FOLDER_PATH_SEPARATOR)) {
+      toast({
+        title: "Invalid folder name",
+        description: `Folder names cannot contain "${FOLDER_PATH_SEPARATOR}". Create a subfolder instead.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
     setIsCreating(true);
     try {
       await createFolderMutation.mutateAsync(folderName.trim());
@@ -102,7 +115,7 @@ export default function FolderCreationModal({ isOpen, onClose }: FolderCreationM
               className="text-[18px] font-semibold text-white"
               style={{ fontFamily: '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Helvetica Neue", sans-serif' }}
             >
-              Create New Folder
+              {parentPath ? "Create Subfolder" : "Create New Folder"}
             </h2>
           </div>
           <Button
@@ -118,6 +131,11 @@ export default function FolderCreationModal({ isOpen, onClose }: FolderCreationM
         {/* Content */}
         <div className="px-6 py-6">
           <div className="space-y-4">
+            {parentPath && (
+              <p className="text-[12px] text-blue-300/80">
+                Inside <span className="font-medium text-blue-100">{parentPath}</span>
+              </p>
+            )}
             <div>
               <label 
                 className="text-[13px] font-medium text-blue-200 mb-2 block"
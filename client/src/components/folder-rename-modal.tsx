@@ -3,7 +3,7 @@ import { useMutation } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Edit, X } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 interface FolderRenameModalProps {
@@ -45,7 +45,7 @@ export default function FolderRenameModal({ isOpen, onClose, folderId, currentNa
     onError: (error: Error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to rename folder",
+        description: apiErrorMessage(error, "Failed to rename folder"),
         variant: "destructive",
       });
     },
@@ -0,0 +1,238 @@
+import { useState, type DragEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Edit, Folder, FolderPlus, Share2, Trash2 } from "lucide-react";
+import { wouldCreateCycle } from "@shared/folders";
+import type { Folder as FolderRecord } from "@shared/schema";
+
+// Drag payloads: folders are dragged within the tree, snippets from the snippet table
+export const FOLDER_DRAG_TYPE = "application/x-snipclip-folder";
+export const SNIPPET_DRAG_TYPE = "application/x-snipclip-snippet";
+
+interface FolderTreeProps {
+  folders: FolderRecord[];
+  selectedId: number | null;
+  expandedIds: Set<number>;
+  onToggle: (id: number) => void;
+  onSelect: (id: number) => void;
+  onRename: (id: number, name: string) => void;
+  onDelete: (id: number) => void;
+  onCreateSubfolder: (parentId: number) => void;
+  onShare: (id: number, name: string) => void;
+  onMoveFolder: (id: number, parentId: number | null) => void;
+  // Sibling folder ids in their new order
+  onReorderFolders: (ids: number[]) => void;
+  onMoveSnippet: (snippetId: number, folderId: number) => void;
+  // How many snippets each folder holds, by folder id
+  snippetCounts?: Record<number, number>;
+}
+
+type DropPosition = "before" | "inside" | "after";
+type DropTarget = { id: number; position: DropPosition } | "top" | null;
+
+const parentOf = (folder: FolderRecord) => folder.parentId ?? null;
+
+// The sidebar's folder hierarchy. Folders can be dragged onto other folders, to
+// the top level, or next to a sibling to reorder them, and snippets dragged from
+// the table onto any folder.
+export default function FolderTree({
+  folders,
+  selectedId,
+  expandedIds,
+  onToggle,
+  onSelect,
+  onRename,
+  onDelete,
+  onCreateSubfolder,
+  onShare,
+  onMoveFolder,
+  onReorderFolders,
+  onMoveSnippet,
+  snippetCounts = {},
+}: FolderTreeProps) {
+  const [draggingFolderId, setDraggingFolderId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget>(null);
+
+  const childrenOf = (parentId: number | null) => folders.filter(folder => parentOf(folder) === parentId);
+  const draggingFolder = folders.find(folder => folder.id === draggingFolderId);
+
+  // Near the top or bottom edge of a sibling, a dragged folder goes next to it rather than inside
+  const positionOver = (event: DragEvent<HTMLElement>, folder: FolderRecord): DropPosition => {
+    if (!draggingFolder || draggingFolder.id === folder.id || parentOf(draggingFolder) !== parentOf(folder)) return "inside";
+    const { top, height } = event.currentTarget.getBoundingClientRect();
+    const offset = (event.clientY - top) / height;
+    return offset < 0.25 ? "before" : offset > 0.75 ? "after" : "inside";
+  };
+
+  // A folder cannot go into itself, one of its subfolders, or where it already is
+  const canDropInside = (event: DragEvent, parentId: number | null) => {
+    if (event.dataTransfer.types.includes(SNIPPET_DRAG_TYPE)) return parentId !== null;
+    if (!draggingFolder) return false;
+    return parentOf(draggingFolder) !== parentId && !wouldCreateCycle(folders, draggingFolder.id, parentId);
+  };
+
+  const handleDragOver = (event: DragEvent<HTMLElement>, folder: FolderRecord | "top") => {
+    const target: DropTarget = folder === "top" ? "top" : { id: folder.id, position: positionOver(event, folder) };
+    const isInside = target === "top" || target.position === "inside";
+    if (isInside && !canDropInside(event, target === "top" ? null : target.id)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    if (JSON.stringify(dropTarget) !== JSON.stringify(target)) setDropTarget(target);
+  };
+
+  const handleDrop = (event: DragEvent, folder: FolderRecord | "top") => {
+    event.preventDefault();
+    const target = dropTarget;
+    setDropTarget(null);
+    setDraggingFolderId(null);
+    if (!target) return;
+
+    const parentId = target === "top" ? null : target.id;
+    const snippetId = event.dataTransfer.getData(SNIPPET_DRAG_TYPE);
+    if (snippetId && parentId !== null) {
+      onMoveSnippet(Number(snippetId), parentId);
+    } else if (draggingFolderId !== null && folder !== "top" && target !== "top" && target.position !== "inside") {
+      const siblings = childrenOf(parentOf(folder)).map(f => f.id).filter(id => id !== draggingFolderId);
+      siblings.splice(siblings.indexOf(folder.id) + (target.position === "after" ? 1 : 0), 0, draggingFolderId);
+      onReorderFolders(siblings);
+    } else if (draggingFolderId !== null) {
+      onMoveFolder(draggingFolderId, parentId);
+      // Show where the folder went
+      if (parentId !== null && !expandedIds.has(parentId)) onToggle(parentId);
+    }
+  };
+
+  const renderFolders = (parentId: number | null, depth: number) => (
+    <ul className="space-y-1">
+      {childrenOf(parentId).map(folder => {
+        const isGeneralFolder = folder.name === "General" && folder.parentId == null;
+        const isSelected = selectedId === folder.id;
+        const hasChildren = folders.some(child => child.parentId === folder.id);
+        const isExpanded = expandedIds.has(folder.id);
+        const dropPosition = dropTarget !== null && dropTarget !== "top" && dropTarget.id === folder.id ? dropTarget.position : null;
+        const isDropTarget = dropPosition === "inside";
+
+        return (
+          <li key={folder.id}>
+            <div
+              className={`flex items-center gap-1 cursor-pointer rounded-lg pr-3 py-2 transition-all duration-150 ${
+                isSelected
+                  ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-md'
+                  : isDropTarget
+                    ? 'bg-blue-100 ring-2 ring-blue-400 text-gray-900'
+                    : 'hover:bg-blue-50 text-gray-700 hover:text-gray-900'
+              } ${draggingFolderId === folder.id ? 'opacity-50' : ''}`}
+              style={{
+                paddingLeft: 4 + depth * 16,
+                // A line where a reordered folder will land
+                boxShadow: dropPosition === "before" ? "inset 0 2px 0 #3b82f6" : dropPosition === "after" ? "inset 0 -2px 0 #3b82f6" : undefined,
+              }}
+              draggable={!isGeneralFolder}
+              onDragStart={event => {
+                event.dataTransfer.setData(FOLDER_DRAG_TYPE, String(folder.id));
+                event.dataTransfer.effectAllowed = "move";
+                setDraggingFolderId(folder.id);
+              }}
+              onDragEnd={() => {
+                setDraggingFolderId(null);
+                setDropTarget(null);
+              }}
+              onDragOver={event => handleDragOver(event, folder)}
+              onDragLeave={() => dropPosition && setDropTarget(null)}
+              onDrop={event => handleDrop(event, folder)}
+              onClick={() => onSelect(folder.id)}
+            >
+              <button
+                type="button"
+                className={`h-5 w-5 flex items-center justify-center rounded ${hasChildren ? '' : 'invisible'}`}
+                onClick={event => { event.stopPropagation(); onToggle(folder.id); }}
+                title={isExpanded ? "Collapse" : "Expand"}
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+              </button>
+              <Folder className={`h-4 w-4 mr-2 flex-shrink-0 ${isGeneralFolder ? 'text-blue-500' : 'text-purple-500'}`} />
+              <span className="truncate flex-1 font-medium">{folder.name}</span>
+              {snippetCounts[folder.id] > 0 && (
+                <span className={`text-xs mr-1 ${isSelected ? 'text-blue-100' : 'text-gray-400'}`}>{snippetCounts[folder.id]}</span>
+              )}
+
+              <Button
+                size="icon"
+                variant="ghost"
+                className={`h-7 w-7 ${isSelected ? 'text-white hover:bg-blue-600' : 'text-blue-600 hover:text-blue-800'}`}
+                onClick={event => { event.stopPropagation(); onCreateSubfolder(folder.id); }}
+                title="New subfolder"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className={`h-7 w-7 ${isSelected ? 'text-white hover:bg-blue-600' : 'text-blue-600 hover:text-blue-800'}`}
+                onClick={event => { event.stopPropagation(); onShare(folder.id, folder.name); }}
+                title="Share folder"
+              >
+                <Share2 className="h-4 w-4" />
+              </Button>
+
+              {/* Only show rename and delete if not General folder */}
+              {!isGeneralFolder && (
+                <>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className={`h-7 w-7 ${isSelected ? 'text-white hover:bg-blue-600' : 'text-blue-600 hover:text-blue-800'}`}
+                    onClick={event => { event.stopPropagation(); onRename(folder.id, folder.name); }}
+                    title="Rename folder"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className={`h-7 w-7 ${isSelected ? 'text-white hover:bg-blue-600' : 'text-red-600 hover:text-red-800'}`}
+                    onClick={event => {
+                      event.stopPropagation();
+                      const subfolders = hasChildren ? " and its subfolders" : "";
+                      if (window.confirm(`Move "${folder.name}"${subfolders} to trash, with their snippets?`)) {
+                        onDelete(folder.id);
+                      }
+                    }}
+                    title="Delete folder"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+
+              {/* Show special indicator for General folder */}
+              {isGeneralFolder && (
+                <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">
+                  Default
+                </span>
+              )}
+            </div>
+            {hasChildren && isExpanded && renderFolders(folder.id, depth + 1)}
+          </li>
+        );
+      })}
+    </ul>
+  );
+
+  return (
+    <div>
+      {renderFolders(null, 0)}
+      {draggingFolder && draggingFolder.parentId != null && (
+        <div
+          className={`mt-2 rounded-lg border-2 border-dashed px-3 py-2 text-sm text-center transition-all duration-150 ${
+            dropTarget === "top" ? 'border-blue-400 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-500'
+          }`}
+          onDragOver={event => handleDragOver(event, "top")}
+          onDragLeave={() => dropTarget === "top" && setDropTarget(null)}
+          onDrop={event => handleDrop(event, "top")}
+        >
+          Move to top level
+        </div>
+      )}
+    </div>
+  );
+}
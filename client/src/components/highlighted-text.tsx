@@ -0,0 +1,21 @@
+import type { HighlightSegment } from "@shared/search";
+
+interface HighlightedTextProps {
+  segments: HighlightSegment[];
+  className?: string;
+}
+
+// Renders search highlight segments, marking the matched words
+export default function HighlightedText({ segments, className = "bg-yellow-300/40 text-inherit rounded-sm px-0.5" }: HighlightedTextProps) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className={className}>{segment.text}</mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
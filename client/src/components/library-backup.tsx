@@ -0,0 +1,273 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Upload, FileJson } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BUNDLE_FORMAT,
+  snippetFormatInfo,
+  snippetFormats,
+  type ConflictStrategy,
+  type ImportMode,
+  type ImportReport,
+  type LibraryBundle,
+  type SnippetFormat,
+} from "@shared/bundle";
+
+type ImportPayload =
+  | { bundle: LibraryBundle }
+  | { source: { format: SnippetFormat; content: string; folder: string } };
+
+// Work out what a chosen file contains from its extension, and for .json from its content
+function toImportPayload(fileName: string, text: string): ImportPayload {
+  const extension = fileName.toLowerCase().split(".").pop();
+  const folder = fileName.replace(/\.[^.]+$/, "");
+  if (extension === "yml" || extension === "yaml") return { source: { format: "espanso", content: text, folder } };
+  if (extension === "csv") return { source: { format: "textexpander", content: text, folder } };
+  if (extension === "json") {
+    try {
+      const parsed = JSON.parse(text);
+      if (parsed?.format === BUNDLE_FORMAT) return { bundle: parsed };
+    } catch {
+      // Not plain JSON; VS Code snippet files may contain comments
+    }
+  }
+  return { source: { format: "vscode", content: text, folder } };
+}
+
+function ReportSummary({ report }: { report: ImportReport }) {
+  const lines = [
+    report.mode === "replace" &&
+      `Moves ${report.removed.snippets} snippet(s), ${report.removed.folders} folder(s)` +
+      (report.removed.clipboard ? ` and ${report.removed.clipboard} clipboard item(s)` : "") + " to the trash",
+    `${report.folders.created} new folder(s), ${report.folders.existing} already present`,
+    `${report.snippets.created} new snippet(s), ${report.snippets.updated} overwritten, ${report.snippets.skipped} skipped`,
+    (report.clipboard.created > 0 || report.clipboard.skipped > 0) &&
+      `${report.clipboard.created} clipboard item(s), ${report.clipboard.skipped} already in history`,
+    report.settings && "Settings will be replaced",
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="rounded-xl bg-gray-50 border border-gray-200 p-4 space-y-2 text-sm">
+      <p className="font-medium text-gray-900">{report.dryRun ? "Preview" : "Imported"}</p>
+      <ul className="list-disc pl-5 text-gray-700 space-y-1">
+        {lines.map(line => <li key={line}>{line}</li>)}
+      </ul>
+      {report.conflicts.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-900 mt-2">Trigger conflicts</p>
+          <ul className="text-gray-700 space-y-1 max-h-32 overflow-y-auto">
+            {report.conflicts.map((conflict, index) => (
+              <li key={index} className="font-mono text-xs">
+                {conflict.trigger}: "{conflict.title}" vs "{conflict.existingTitle}" →{" "}
+                {conflict.resolution === "rename" ? `renamed to ${conflict.renamedTo}` : conflict.resolution}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {report.issues.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-900 mt-2">Not fully converted</p>
+          <ul className="text-gray-700 space-y-1 max-h-32 overflow-y-auto">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="text-xs">
+                <span className="font-medium">{issue.snippet}:</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Export the library as a bundle or another expander's file, or import one after previewing what it changes
+export default function LibraryBackup() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeClipboard, setIncludeClipboard] = useState(false);
+  const [exportFormat, setExportFormat] = useState<"snipclip" | SnippetFormat>("snipclip");
+  const [isExporting, setIsExporting] = useState(false);
+  const [payload, setPayload] = useState<ImportPayload | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [onConflict, setOnConflict] = useState<ConflictStrategy>("skip");
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const date = new Date().toISOString().slice(0, 10);
+      if (exportFormat === "snipclip") {
+        const res = await apiRequest("GET", `/api/export?clipboard=${includeClipboard}`);
+        const data: LibraryBundle = await res.json();
+        downloadFile(JSON.stringify(data, null, 2), `snipclip-export-${date}.json`, "application/json");
+      } else {
+        const { extension, mimeType, label } = snippetFormatInfo[exportFormat];
+        const res = await apiRequest("GET", `/api/export?format=${exportFormat}`);
+        downloadFile(await res.text(), `snipclip-${date}.${extension}`, mimeType);
+        const issues = Number(res.headers.get("X-Conversion-Issues") ?? 0);
+        if (issues > 0) {
+          toast({
+            title: "Exported with changes",
+            description: `${issues} placeholder(s) have no ${label} equivalent and were simplified or dropped.`,
+          });
+        }
+      }
+    } catch (error) {
+      toast({ title: "Export failed", description: "Could not export your library.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean): Promise<ImportReport> => {
+      const res = await apiRequest("POST", "/api/import", { ...payload, mode, onConflict, dryRun });
+      return res.json();
+    },
+    onSuccess: (report) => {
+      if (report.dryRun) return;
+      ["/api/snippets", "/api/tags", "/api/folders", "/api/clipboard", "/api/settings", "/api/search", "/api/trash"].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      toast({
+        title: "Import complete",
+        description: `${report.snippets.created} snippet(s) added, ${report.snippets.updated} updated.`,
+      });
+      setPayload(null);
+      setFileName("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: apiErrorMessage(error, "The file could not be imported."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Refresh the preview whenever the file or the options change
+  useEffect(() => {
+    if (payload) importMutation.mutate(true);
+  }, [payload, mode, onConflict]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      setPayload(toImportPayload(file.name, await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      toast({ title: "Invalid file", description: "The selected file could not be read.", variant: "destructive" });
+    }
+  };
+
+  const report = payload ? importMutation.data : undefined;
+
+  return (
+    <div className="grid gap-6">
+      <div className="flex items-center justify-between gap-4">
+        <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as typeof exportFormat)}>
+          <SelectTrigger className="rounded-xl w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="snipclip">SnipClip bundle</SelectItem>
+            {snippetFormats.map(format => (
+              <SelectItem key={format} value={format}>{snippetFormatInfo[format].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className={`flex items-center gap-2 ${exportFormat === "snipclip" ? "" : "invisible"}`}>
+          <Checkbox
+            id="export-clipboard"
+            checked={includeClipboard}
+            onCheckedChange={(checked) => setIncludeClipboard(checked === true)}
+          />
+          <Label htmlFor="export-clipboard" className="text-sm font-normal">Include clipboard history</Label>
+        </div>
+        <Button type="button" variant="outline" onClick={handleExport} disabled={isExporting} className="flex items-center gap-2 rounded-xl">
+          <Download className="h-4 w-4" />
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500 flex items-center gap-2 truncate">
+            <FileJson className="h-4 w-4 flex-shrink-0" />
+            {fileName || "No file selected"}
+          </p>
+          <input ref={fileInputRef} type="file" accept=".json,.yml,.yaml,.csv,.code-snippets" className="hidden" onChange={handleFileChange} />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()} className="flex items-center gap-2 rounded-xl">
+            <Upload className="h-4 w-4" />
+            Choose File
+          </Button>
+        </div>
+
+        {payload && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Mode</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="merge">Merge into library</SelectItem>
+                    <SelectItem value="replace">Replace library</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Trigger Conflicts</Label>
+                <Select value={onConflict} onValueChange={(value) => setOnConflict(value as ConflictStrategy)}>
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="skip">Keep existing</SelectItem>
+                    <SelectItem value="overwrite">Overwrite existing</SelectItem>
+                    <SelectItem value="rename">Import with new trigger</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {report && <ReportSummary report={report} />}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" onClick={() => { setPayload(null); setFileName(""); }} className="rounded-xl">
+                Cancel
+              </Button>
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate(false)}
+                disabled={!report || importMutation.isPending}
+                className="bg-primary hover:bg-primary/90 text-white rounded-xl"
+              >
+                {importMutation.isPending ? "Working..." : "Import"}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
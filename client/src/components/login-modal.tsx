@@ -4,7 +4,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage } from "@/lib/queryClient";
 import { Eye, EyeOff } from "lucide-react";
 import { Code } from "lucide-react";
 
@@ -65,7 +65,7 @@ export default function LoginModal({ isOpen, onLoginSuccess }: LoginModalProps)
       console.error("Login error:", error);
       toast({
         title: "Error",
-        description: "Login failed. Please check your PIN and passphrase.",
+        description: apiErrorMessage(error as Error, "Login failed. Please check your PIN and passphrase."),
         variant: "destructive",
       });
     } finally {
@@ -149,6 +149,7 @@ export default function LoginModal({ isOpen, onLoginSuccess }: LoginModalProps)
               <li>Use the same PIN and passphrase on any device</li>
               <li>Your data will automatically sync</li>
               <li>No account creation required</li>
+              <li>You can change your PIN and passphrase later in Settings without losing data</li>
               <li>Your data is stored locally and securely</li>
             </ul>
           </div>
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CloudOff, RefreshCw } from "lucide-react";
+import { resolveConflict } from "@/lib/offline";
+import type { SyncConflict } from "@/lib/offline-db";
+import { useOfflineQueue } from "@/hooks/use-offline-queue";
+import { useToast } from "@/hooks/use-toast";
+
+// "PUT /api/snippets/12" → "Edit snippet"
+function describeMutation(conflict: SyncConflict): string {
+  const { method, url } = conflict.mutation;
+  const resource = url.split("/")[2]?.replace(/s$/, "") ?? "item";
+  const action = method === "POST" ? "Create" : method === "DELETE" ? "Delete" : "Edit";
+  const title = (conflict.mutation.body as { title?: string } | undefined)?.title;
+  return `${action} ${resource}${title ? ` "${title}"` : ""}`;
+}
+
+// Shows when the app is working offline, how many changes wait to be sent,
+// and lets the user settle changes the server turned down
+export default function OfflineIndicator() {
+  const { online, pending, conflicts } = useOfflineQueue(true);
+  const [resolving, setResolving] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  if (online && pending === 0 && conflicts.length === 0) return null;
+
+  const handleResolve = async (conflict: SyncConflict, keep: "mine" | "theirs") => {
+    setResolving(conflict.id!);
+    try {
+      await resolveConflict(conflict, keep);
+    } catch (error) {
+      console.error("Failed to resolve conflict:", error);
+      toast({ title: "Error", description: "Failed to resolve the conflict", variant: "destructive" });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const label = conflicts.length > 0
+    ? `${conflicts.length} conflict${conflicts.length === 1 ? "" : "s"}`
+    : !online
+      ? pending > 0 ? `Offline · ${pending} pending` : "Offline"
+      : `Syncing ${pending} change${pending === 1 ? "" : "s"}`;
+  const Icon = conflicts.length > 0 ? AlertTriangle : online ? RefreshCw : CloudOff;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={`rounded-full shadow-md ${conflicts.length > 0 ? "border-amber-400 text-amber-700" : "text-gray-700"}`}
+          >
+            <Icon className={`h-4 w-4 mr-2 ${online && conflicts.length === 0 ? "animate-spin" : ""}`} />
+            {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80">
+          {conflicts.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              {online
+                ? "Sending changes made while offline…"
+                : "You're offline. Changes are saved on this device and sent once the connection is back."}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-sm font-medium text-gray-900">Changes the server did not accept</p>
+              {conflicts.map(conflict => (
+                <div key={conflict.id} className="border rounded-md p-2 space-y-2">
+                  <div>
+                    <p className="text-sm text-gray-900">{describeMutation(conflict)}</p>
+                    <p className="text-xs text-gray-500">{conflict.message}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {conflict.serverSnippet ? (
+                      <>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={resolving === conflict.id}
+                          onClick={() => handleResolve(conflict, "mine")}
+                        >
+                          Keep mine
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={resolving === conflict.id}
+                          onClick={() => handleResolve(conflict, "theirs")}
+                        >
+                          Keep theirs
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resolving === conflict.id}
+                        onClick={() => handleResolve(conflict, "theirs")}
+                      >
+                        Dismiss
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LogOut, Monitor } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AuthSession } from "@shared/schema";
+
+type SessionInfo = Omit<AuthSession, "tokenHash"> & { current: boolean };
+
+// A short "Browser on OS" label from the user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = /Edg\//.test(userAgent) ? "Edge"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os = /Windows/.test(userAgent) ? "Windows"
+    : /Android/.test(userAgent) ? "Android"
+    : /iPhone|iPad/.test(userAgent) ? "iOS"
+    : /Mac OS X/.test(userAgent) ? "macOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.slice(0, 40);
+}
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+// Lists the sessions signed in to this account and lets the user end them
+export default function SessionList() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<SessionInfo[]>({
+    queryKey: ["/api/auth/sessions"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/auth/sessions/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out", description: "The device has been signed out." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to sign out the device.", variant: "destructive" });
+    },
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async (): Promise<{ revoked: number }> => {
+      const res = await apiRequest("DELETE", "/api/auth/sessions");
+      return res.json();
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Signed out", description: `${revoked} other session(s) have been signed out.` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to sign out other sessions.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading sessions...</p>;
+  }
+
+  const others = sessions.filter(session => !session.current);
+
+  return (
+    <div className="space-y-4">
+      <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200">
+        {sessions.map(session => (
+          <li key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+            <div className="flex items-center gap-3 min-w-0">
+              <Monitor className="h-4 w-4 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-2">
+                  {describeDevice(session.userAgent)}
+                  {session.current && <Badge variant="outline">This device</Badge>}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Signed in {formatDate(session.createdAt)} · last active {formatDate(session.lastSeenAt)}
+                </p>
+              </div>
+            </div>
+            {!session.current && (
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                title="Sign out"
+                onClick={() => revokeMutation.mutate(session.id)}
+                disabled={revokeMutation.isPending}
+                className="h-7 w-7 text-red-600 hover:text-red-800 rounded-full"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {others.length > 0 && (
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            className="flex items-center gap-2 rounded-xl"
+          >
+            <LogOut className="h-4 w-4" />
+            Sign out other sessions
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
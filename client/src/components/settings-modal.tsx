@@ -15,12 +15,23 @@ import { insertSettingsSchema, type Settings as SettingsType, type InsertSetting
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { ShortcutInput } from "@/components/ui/shortcut-input";
 import { ShortcutTester } from "@/components/ui/shortcut-tester";
+import { CHEAT_SHEET_HOTKEY, SHORTCUT_ACTIONS, formatHotkey } from "@shared/hotkeys";
+import LibraryBackup from "@/components/library-backup";
+import SessionList from "@/components/session-list";
+import ApiTokenList from "@/components/api-token-list";
+import ShareLinkList from "@/components/share-link-list";
+import ChangeCredentialsForm from "@/components/change-credentials-form";
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Actions whose shortcuts get a plain recorder; the overlays above come with a tester and examples
+const OTHER_SHORTCUT_ACTIONS = SHORTCUT_ACTIONS.filter(action =>
+  action.setting !== "snippetShortcut" && action.setting !== "clipboardShortcut"
+);
+
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
@@ -35,8 +46,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     defaultValues: {
       snippetShortcut: "ctrl+;",
       clipboardShortcut: "ctrl+shift+v",
+      newSnippetShortcut: "ctrl+k ctrl+e",
+      searchShortcut: "ctrl+k ctrl+f",
+      settingsShortcut: "ctrl+k ctrl+s",
       clipboardEnabled: 1,
       historyLimit: 100,
+      clipboardRetentionDays: 0,
+      trashRetentionDays: 30,
       launchOnStartup: 0,
       theme: "light",
     },
@@ -48,8 +64,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       form.reset({
         snippetShortcut: settings.snippetShortcut,
         clipboardShortcut: settings.clipboardShortcut,
+        newSnippetShortcut: settings.newSnippetShortcut,
+        searchShortcut: settings.searchShortcut,
+        settingsShortcut: settings.settingsShortcut,
         clipboardEnabled: settings.clipboardEnabled,
         historyLimit: settings.historyLimit,
+        clipboardRetentionDays: settings.clipboardRetentionDays,
+        trashRetentionDays: settings.trashRetentionDays,
         launchOnStartup: settings.launchOnStartup,
         theme: settings.theme,
       });
@@ -92,8 +113,13 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
       form.reset({
         snippetShortcut: settings.snippetShortcut,
         clipboardShortcut: settings.clipboardShortcut,
+        newSnippetShortcut: settings.newSnippetShortcut,
+        searchShortcut: settings.searchShortcut,
+        settingsShortcut: settings.settingsShortcut,
         clipboardEnabled: settings.clipboardEnabled,
         historyLimit: settings.historyLimit,
+        clipboardRetentionDays: settings.clipboardRetentionDays,
+        trashRetentionDays: settings.trashRetentionDays,
         launchOnStartup: settings.launchOnStartup,
         theme: settings.theme,
       });
@@ -101,22 +127,6 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     onClose();
   };
 
-  const parseShortcut = (shortcut: string) => {
-    const parts = shortcut.toLowerCase().split('+');
-    const modifiers = parts.slice(0, -1);
-    const key = parts[parts.length - 1];
-    return { modifiers, key };
-  };
-
-  const formatShortcut = (modifiers: string[], key: string) => {
-    return [...modifiers, key].join('+');
-  };
-
-  const handleShortcutChange = (field: any, modifiers: string[], key: string) => {
-    const shortcut = formatShortcut(modifiers, key);
-    field.onChange(shortcut);
-  };
-
   return (
     <PopupOverlay 
       isOpen={isOpen} 
@@ -144,6 +154,10 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     <Keyboard className="h-5 w-5 text-primary" />
                     <h3 className="text-lg font-semibold text-gray-900">Keyboard Shortcuts</h3>
                   </div>
+                  <p className="text-sm text-gray-500">
+                    Press a second key right after the first to record a chord such as Ctrl+K Ctrl+S.
+                    Press {formatHotkey(CHEAT_SHEET_HOTKEY)} anywhere to see every shortcut.
+                  </p>
                   
                   <div className="grid gap-6">
                     <FormField
@@ -160,6 +174,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 placeholder="e.g., ctrl+;"
                                 className="rounded-xl font-mono"
                                 showSaveButton={true}
+                                allowChords={true}
                                 onSave={async (value) => {
                                   await updateMutation.mutateAsync({
                                     snippetShortcut: value
@@ -200,6 +215,7 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                                 placeholder="e.g., ctrl+shift+v"
                                 className="rounded-xl font-mono"
                                 showSaveButton={true}
+                                allowChords={true}
                                 onSave={async (value) => {
                                   await updateMutation.mutateAsync({
                                     clipboardShortcut: value
@@ -225,6 +241,35 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                         </FormItem>
                       )}
                     />
+
+                    {OTHER_SHORTCUT_ACTIONS.map(action => (
+                      <FormField
+                        key={action.setting}
+                        control={form.control}
+                        name={action.setting}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{action.label} Shortcut</FormLabel>
+                            <FormControl>
+                              <ShortcutInput
+                                value={field.value || ""}
+                                onChange={field.onChange}
+                                placeholder="e.g., ctrl+k ctrl+s"
+                                className="rounded-xl font-mono"
+                                showSaveButton={true}
+                                allowChords={true}
+                                onSave={async (value) => {
+                                  await updateMutation.mutateAsync({
+                                    [action.setting]: value
+                                  });
+                                }}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
                   </div>
                 </div>
 
@@ -275,6 +320,55 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                         </FormItem>
                       )}
                     />
+
+                    <FormField
+                      control={form.control}
+                      name="clipboardRetentionDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Keep Clipboard Items For</FormLabel>
+                          <FormControl>
+                            <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()}>
+                              <SelectTrigger className="rounded-xl">
+                                <SelectValue placeholder="Select clipboard retention" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="0">Until the limit is reached</SelectItem>
+                                <SelectItem value="1">1 day</SelectItem>
+                                <SelectItem value="7">7 days</SelectItem>
+                                <SelectItem value="30">30 days</SelectItem>
+                                <SelectItem value="90">90 days</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="trashRetentionDays"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Keep Deleted Items For</FormLabel>
+                          <FormControl>
+                            <Select onValueChange={(value) => field.onChange(parseInt(value))} value={field.value?.toString()}>
+                              <SelectTrigger className="rounded-xl">
+                                <SelectValue placeholder="Select trash retention" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="7">7 days</SelectItem>
+                                <SelectItem value="30">30 days</SelectItem>
+                                <SelectItem value="90">90 days</SelectItem>
+                                <SelectItem value="365">1 year</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   </div>
                 </div>
 
@@ -326,6 +420,36 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                     />
                   </div>
                 </div>
+
+                {/* Backup Section */}
+                <div className="space-y-6 border-t border-gray-200 pt-8">
+                  <h3 className="text-lg font-semibold text-gray-900">Backup &amp; Restore</h3>
+                  <LibraryBackup />
+                </div>
+
+                {/* Credentials Section */}
+                <div className="space-y-6 border-t border-gray-200 pt-8">
+                  <h3 className="text-lg font-semibold text-gray-900">PIN &amp; Passphrase</h3>
+                  <ChangeCredentialsForm />
+                </div>
+
+                {/* Sessions Section */}
+                <div className="space-y-6 border-t border-gray-200 pt-8">
+                  <h3 className="text-lg font-semibold text-gray-900">Signed-in Devices</h3>
+                  <SessionList />
+                </div>
+
+                {/* API Tokens Section */}
+                <div className="space-y-6 border-t border-gray-200 pt-8">
+                  <h3 className="text-lg font-semibold text-gray-900">API Tokens</h3>
+                  <ApiTokenList />
+                </div>
+
+                {/* Share Links Section */}
+                <div className="space-y-6 border-t border-gray-200 pt-8">
+                  <h3 className="text-lg font-semibold text-gray-900">Shared Links</h3>
+                  <ShareLinkList />
+                </div>
               </div>
 
               {/* Footer */}
@@ -0,0 +1,166 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Share2 } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CreateShareLink, CreatedShareLink, ShareTargetType } from "@shared/schema";
+
+// Expiry choices in days and view limits; "never" and "unlimited" for none
+const EXPIRY_OPTIONS = [
+  { value: "1", label: "1 day" },
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "never", label: "Never" },
+];
+
+const VIEW_LIMIT_OPTIONS = [
+  { value: "1", label: "1 view" },
+  { value: "10", label: "10 views" },
+  { value: "100", label: "100 views" },
+  { value: "unlimited", label: "Unlimited" },
+];
+
+// The page that opens a share link; anyone with it can see what it shares
+export function shareLinkUrl(token: string): string {
+  return `${window.location.origin}/s/${token}`;
+}
+
+export async function copyShareLink(token: string, toast: ReturnType<typeof useToast>["toast"]) {
+  try {
+    await navigator.clipboard.writeText(shareLinkUrl(token));
+    toast({ title: "Copied", description: "Share link copied to the clipboard." });
+  } catch (error) {
+    toast({ title: "Error", description: "Failed to copy the link.", variant: "destructive" });
+  }
+}
+
+export interface ShareTarget {
+  type: ShareTargetType;
+  id: number;
+  title: string;
+}
+
+interface ShareLinkDialogProps {
+  // What to share; the dialog is open while set
+  target: ShareTarget | null;
+  onClose: () => void;
+}
+
+// Creates a read-only link to a snippet or folder and shows it for copying
+export default function ShareLinkDialog({ target, onClose }: ShareLinkDialogProps) {
+  const { toast } = useToast();
+  const [expiry, setExpiry] = useState("7");
+  const [viewLimit, setViewLimit] = useState("unlimited");
+  const [createdLink, setCreatedLink] = useState<CreatedShareLink | null>(null);
+
+  useEffect(() => {
+    if (target) setCreatedLink(null);
+  }, [target]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CreateShareLink): Promise<CreatedShareLink> => {
+      const res = await apiRequest("POST", "/api/shares", data);
+      return res.json();
+    },
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      setCreatedLink(link);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to create the share link."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    if (!target) return;
+    createMutation.mutate({
+      targetType: target.type,
+      targetId: target.id,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      maxViews: viewLimit === "unlimited" ? null : parseInt(viewLimit),
+    });
+  };
+
+  return (
+    <Dialog open={target !== null} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-blue-600" />
+            Share {target?.type === "folder" ? "Folder" : "Snippet"}
+          </DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            Anyone with the link can view <span className="font-medium text-gray-700">{target?.title}</span>
+            {target?.type === "folder" ? " and the snippets in it and its subfolders" : ""} without signing in, but cannot change anything.
+          </p>
+          {createdLink ? (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-gray-900">Copy the link now. It will not be shown again.</p>
+              <div className="flex gap-2">
+                <Input readOnly value={shareLinkUrl(createdLink.token)} onFocus={(e) => e.target.select()} className="font-mono text-xs rounded-xl" />
+                <Button type="button" variant="outline" onClick={() => copyShareLink(createdLink.token, toast)} className="flex items-center gap-2 rounded-xl">
+                  <Copy className="h-4 w-4" />
+                  Copy
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Expires</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>View limit</Label>
+                <Select value={viewLimit} onValueChange={setViewLimit}>
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VIEW_LIMIT_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {createdLink ? (
+            <Button onClick={onClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={createMutation.isPending} className="bg-blue-600 hover:bg-blue-700">
+                {createMutation.isPending ? "Creating..." : "Create Link"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
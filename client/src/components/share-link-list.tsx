@@ -0,0 +1,82 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Folder, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ShareLinkInfo } from "@shared/schema";
+
+function formatDate(value: Date | string): string {
+  return new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+}
+
+// Lists the user's active share links and revokes them. Links are created from
+// the snippet and folder actions on the snippets page.
+export default function ShareLinkList() {
+  const { toast } = useToast();
+
+  const { data: links = [], isLoading } = useQuery<ShareLinkInfo[]>({
+    queryKey: ["/api/shares"],
+    staleTime: 0,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/shares/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/shares"] });
+      toast({ title: "Revoked", description: "The share link no longer opens." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to revoke the share link.", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-500">
+        Anyone with one of these links can view the snippet or folder it shares, without signing in.
+        A link is only shown when it is created; share again for a new one.
+      </p>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading share links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No shared links. Share a snippet or folder from the snippets page.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 rounded-xl border border-gray-200">
+          {links.map(link => (
+            <li key={link.id} className="flex items-center justify-between gap-4 px-4 py-3">
+              <div className="flex items-center gap-3 min-w-0">
+                {link.targetType === "folder"
+                  ? <Folder className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  : <FileText className="h-4 w-4 text-gray-400 flex-shrink-0" />}
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate flex items-center gap-2">
+                    {link.title ?? <span className="italic text-gray-500">In the trash</span>}
+                    <Badge variant="outline">{link.targetType === "folder" ? "Folder" : "Snippet"}</Badge>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    created {formatDate(link.createdAt)}
+                    {" · "}{link.maxViews != null ? `${link.viewCount} of ${link.maxViews} views` : `${link.viewCount} ${link.viewCount === 1 ? "view" : "views"}`}
+                    {" · "}{link.expiresAt ? `expires ${formatDate(link.expiresAt)}` : "no expiry"}
+                  </p>
+                </div>
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                title="Revoke"
+                onClick={() => revokeMutation.mutate(link.id)}
+                disabled={revokeMutation.isPending}
+                className="h-7 w-7 text-red-600 hover:text-red-800 rounded-full"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { subscribeShortcuts, type ShortcutBinding } from "@/lib/shortcuts";
+import { formatShortcut } from "@shared/hotkeys";
+
+interface ShortcutCheatSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Everything currently bound to the keyboard, grouped as registered
+export default function ShortcutCheatSheet({ isOpen, onClose }: ShortcutCheatSheetProps) {
+  const [bindings, setBindings] = useState<ShortcutBinding[]>([]);
+
+  useEffect(() => subscribeShortcuts(setBindings), []);
+
+  const groups = new Map<string, ShortcutBinding[]>();
+  for (const binding of bindings) {
+    groups.set(binding.group, [...(groups.get(binding.group) ?? []), binding]);
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>
+            Shortcuts with two steps are chords: press the first, let go, then press the second.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {Array.from(groups.entries()).map(([group, entries]) => (
+            <div key={group} className="space-y-2">
+              <h3 className="text-sm font-semibold text-gray-900">{group}</h3>
+              <ul className="divide-y divide-gray-100">
+                {entries.map(binding => (
+                  <li key={`${binding.shortcut}-${binding.label}`} className="flex items-center justify-between gap-4 py-2 text-sm">
+                    <span className="text-gray-700 truncate">{binding.label}</span>
+                    <span className="flex gap-1 shrink-0">
+                      {formatShortcut(binding.shortcut).split(" ").map((step, index) => (
+                        <kbd key={index} className="px-2 py-1 bg-gray-100 border border-gray-300 rounded font-mono text-xs">
+                          {step}
+                        </kbd>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
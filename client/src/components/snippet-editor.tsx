@@ -5,13 +5,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Plus, Save, X, Keyboard, ChevronUp, ChevronDown, Folder } from "lucide-react";
+import { Plus, Save, X, Keyboard, ChevronUp, ChevronDown, Folder, History } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertSnippetSchema, type Snippet, type InsertSnippet } from "@shared/schema";
+import { insertSnippetSchema, type Snippet, type InsertSnippet, type Folder as FolderRecord, type TagSummary, type Settings } from "@shared/schema";
+import { folderPath } from "@shared/folders";
+import { formatHotkey, hotkeyFromEvent, isUsableHotkey, reservedHotkeyConflict } from "@shared/hotkeys";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import SnippetRevisions from "./snippet-revisions";
+import TagInput from "./tag-input";
 
 interface SnippetEditorProps {
   isOpen: boolean;
@@ -19,18 +23,26 @@ interface SnippetEditorProps {
   editingSnippet?: Snippet | null;
   onCreate?: (snippet: Snippet) => void;
   folderId?: number | null;
+  // Starting values for a new snippet, such as a clipboard item being saved as one
+  prefill?: SnippetPrefill | null;
 }
 
-export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreate, folderId }: SnippetEditorProps) {
+export interface SnippetPrefill {
+  title: string;
+  content: string;
+}
+
+export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreate, folderId, prefill }: SnippetEditorProps) {
   const { toast } = useToast();
   const [isSaving, setIsSaving] = useState(false);
   const [shortcut, setShortcut] = useState("");
   const [isRecordingShortcut, setIsRecordingShortcut] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const shortcutInputRef = useRef<HTMLInputElement>(null);
   const formContentRef = useRef<HTMLDivElement>(null);
 
   // Fetch folders for dropdown
-  const { data: folders = [] } = useQuery<any[]>({
+  const { data: folders = [] } = useQuery<FolderRecord[]>({
     queryKey: ["/api/folders"],
     queryFn: async () => {
       const res = await apiRequest("GET", "/api/folders");
@@ -38,14 +50,29 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
     },
   });
 
+  const { data: allTags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  // To reject hotkeys that are already taken while recording; the server checks again on save
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+  const { data: allSnippets = [] } = useQuery<Snippet[]>({
+    queryKey: ["/api/snippets"],
+  });
+
   const form = useForm<InsertSnippet>({
     resolver: zodResolver(insertSnippetSchema),
     defaultValues: {
       title: "",
       content: "",
       trigger: "",
+      hotkey: "",
+      abbreviation: "",
       description: "",
       folderId: folderId ?? null,
+      tags: [],
     },
     mode: "onChange",
   });
@@ -53,31 +80,34 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
   // Reset form when opening/closing or editing different snippet
   useEffect(() => {
     if (isOpen) {
+      setShowHistory(false);
       if (editingSnippet) {
         form.reset({
           title: editingSnippet.title,
           content: editingSnippet.content,
           trigger: editingSnippet.trigger,
+          hotkey: editingSnippet.hotkey ?? "",
+          abbreviation: editingSnippet.abbreviation ?? "",
           description: editingSnippet.description || "",
           folderId: editingSnippet.folderId ?? folderId ?? null,
+          tags: editingSnippet.tags ?? [],
         });
-        // Extract shortcut from trigger if it exists
-        const triggerParts = editingSnippet.trigger?.split('-') || [];
-        if (triggerParts.length > 1) {
-          setShortcut(triggerParts[0]);
-        }
+        setShortcut(editingSnippet.hotkey ? formatHotkey(editingSnippet.hotkey) : "");
       } else {
         form.reset({
-          title: "",
-          content: "",
+          title: prefill?.title ?? "",
+          content: prefill?.content ?? "",
           trigger: "",
+          hotkey: "",
+          abbreviation: "",
           description: "",
           folderId: folderId ?? null,
+          tags: [],
         });
         setShortcut("");
       }
     }
-  }, [isOpen, editingSnippet, form, folderId]);
+  }, [isOpen, editingSnippet, form, folderId, prefill]);
 
   // Handle keyboard shortcut recording
   const handleShortcutKeyDown = (e: React.KeyboardEvent) => {
@@ -86,26 +116,24 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
     e.preventDefault();
     e.stopPropagation();
     
-    const keys: string[] = [];
-    
-    if (e.ctrlKey) keys.push('Ctrl');
-    if (e.metaKey) keys.push('Cmd');
-    if (e.altKey) keys.push('Alt');
-    if (e.shiftKey) keys.push('Shift');
-    
-    // Add the main key
-    if (e.key !== 'Control' && e.key !== 'Meta' && e.key !== 'Alt' && e.key !== 'Shift') {
-      keys.push(e.key.toUpperCase());
+    // Wait until a key other than the modifiers is pressed
+    const hotkey = hotkeyFromEvent(e);
+    if (!hotkey) return;
+    if (!isUsableHotkey(hotkey)) {
+      setShortcut(`${formatHotkey(hotkey)} types text; add Ctrl, Alt or Cmd`);
+      return;
     }
     
-    if (keys.length > 1) {
-      const shortcutString = keys.join('+');
-      setShortcut(shortcutString);
-      setIsRecordingShortcut(false);
-      
-      // Update the trigger field with the shortcut
-      form.setValue('trigger', `${shortcutString}-${Date.now()}`);
+    const taken = allSnippets.find(snippet => snippet.hotkey === hotkey && snippet.id !== editingSnippet?.id);
+    const conflict = reservedHotkeyConflict(hotkey, settings) ?? (taken && `"${taken.title}"`);
+    if (conflict) {
+      setShortcut(`${formatHotkey(hotkey)} is used by ${conflict}`);
+      return;
     }
+    
+    setShortcut(formatHotkey(hotkey));
+    setIsRecordingShortcut(false);
+    form.setValue('hotkey', hotkey);
   };
 
   // Listen for keyboard events when recording
@@ -126,16 +154,21 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
 
   const stopRecordingShortcut = () => {
     setIsRecordingShortcut(false);
-    if (shortcut === "Press keys...") {
-      setShortcut("");
-    }
+    // Show the saved hotkey again, not the prompt or a rejected one
+    const hotkey = form.getValues("hotkey");
+    setShortcut(hotkey ? formatHotkey(hotkey) : "");
+  };
+
+  const clearShortcut = () => {
+    setShortcut("");
+    form.setValue('hotkey', null);
   };
 
   const createMutation = useMutation({
     mutationFn: async (data: InsertSnippet) => {
-      // Ensure trigger is unique
-      const timestamp = Date.now();
-      const uniqueTrigger = data.trigger ? `${data.trigger}-${timestamp}` : `snippet-${timestamp}`;
+      // The trigger is only the snippet's unique key; the hotkey and
+      // abbreviation the user picked have fields of their own
+      const uniqueTrigger = `snippet-${Date.now()}`;
       const response = await apiRequest("POST", "/api/snippets", {
         ...data,
         trigger: uniqueTrigger,
@@ -148,6 +181,8 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Success",
         description: "Snippet created successfully",
@@ -178,6 +213,8 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Success",
         description: "Snippet updated successfully",
@@ -333,6 +370,18 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
             </h2>
           </div>
           <div className="flex items-center gap-2">
+            {editingSnippet && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowHistory(prev => !prev)}
+                className={`h-8 px-2 rounded-lg hover:bg-blue-800/40 hover:text-white transition-all duration-150 ${showHistory ? "bg-blue-800/40 text-white" : "text-blue-300"}`}
+                title="Version history"
+              >
+                <History className="h-4 w-4 mr-1" />
+                History
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -367,6 +416,21 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
           ref={formContentRef}
           className="flex-1 overflow-y-auto px-6 py-6 space-y-6"
         >
+          {showHistory && editingSnippet ? (
+            <SnippetRevisions
+              snippet={editingSnippet}
+              current={{ title: form.getValues("title"), content: form.getValues("content") }}
+              onRestored={(restored) => {
+                form.reset({
+                  ...form.getValues(),
+                  title: restored.title,
+                  content: restored.content,
+                  description: restored.description || "",
+                });
+                setShowHistory(false);
+              }}
+            />
+          ) : (
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
               <div className="grid grid-cols-2 gap-6">
@@ -396,23 +460,28 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
 
                 <FormField
                   control={form.control}
-                  name="trigger"
+                  name="abbreviation"
                   render={({ field }) => (
                     <FormItem>
                       <FormLabel 
                         className="text-[13px] font-medium text-blue-200"
                         style={{ fontFamily: '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Helvetica Neue", sans-serif' }}
                       >
-                        Trigger
+                        Abbreviation
                       </FormLabel>
                       <FormControl>
                         <Input 
-                          placeholder="e.g., useeffect, cl, arrow" 
+                          placeholder="e.g., ;sig, :addr" 
                           className="rounded-xl font-mono text-[14px] border-0 bg-blue-900/50 text-white placeholder:text-blue-300/60 focus:ring-2 focus:ring-blue-400 focus:outline-none border border-blue-700/30"
-                          {...field} 
+                          data-no-expansion
+                          {...field}
+                          value={field.value ?? ""}
                         />
                       </FormControl>
                       <FormMessage />
+                      <p className="text-[11px] text-blue-300/70 mt-1">
+                        Typing it in any text field replaces it with the snippet
+                      </p>
                     </FormItem>
                   )}
                 />
@@ -445,8 +514,8 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
                                   <div className="w-4 h-4 rounded bg-purple-500/20 flex items-center justify-center">
                                     <div className="w-2 h-2 rounded bg-purple-500"></div>
                                   </div>
-                                  {folder.name}
-                                  {folder.name === "General" && (
+                                  {folderPath(folders, folder.id)}
+                                  {folder.name === "General" && folder.parentId == null && (
                                     <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">
                                       Default
                                     </span>
@@ -461,7 +530,7 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
                       {field.value && (
                         <p className="text-[11px] text-blue-300/70 mt-1">
                           Snippet will be created in: <span className="font-medium text-blue-200">
-                            {folders.find(f => f.id === field.value)?.name || 'Unknown folder'}
+                            {folders.some(f => f.id === field.value) ? folderPath(folders, field.value!) : 'Unknown folder'}
                           </span>
                         </p>
                       )}
@@ -495,6 +564,18 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
                       <Keyboard className="h-4 w-4 mr-2" />
                       {isRecordingShortcut ? "Stop" : "Record"}
                     </Button>
+                    {shortcut && !isRecordingShortcut && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={clearShortcut}
+                        className="rounded-xl text-blue-300 hover:text-white hover:bg-blue-700/40"
+                        title="Remove shortcut"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                   <p className="text-[11px] text-blue-300/70 mt-1">
                     Press the keys you want to use as a shortcut (e.g., Ctrl+Shift+S)
@@ -502,6 +583,29 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
                 </FormItem>
               </div>
 
+              <FormField
+                control={form.control}
+                name="tags"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel 
+                      className="text-[13px] font-medium text-blue-200"
+                      style={{ fontFamily: '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Helvetica Neue", sans-serif' }}
+                    >
+                      Tags
+                    </FormLabel>
+                    <FormControl>
+                      <TagInput
+                        value={field.value ?? []}
+                        onChange={field.onChange}
+                        suggestions={allTags}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="content"
@@ -521,6 +625,9 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
                       />
                     </FormControl>
                     <FormMessage />
+                    <p className="text-[11px] text-blue-300/70 mt-1">
+                      Placeholders: <code>{"{{date}}"}</code>, <code>{"{{time:HH:mm}}"}</code>, <code>{"{{clipboard}}"}</code>, <code>{"{{cursor}}"}</code> or a named field like <code>{"{{customer_name}}"}</code>. Write <code>{"\\{{"}</code> for literal braces.
+                    </p>
                   </FormItem>
                 )}
               />
@@ -528,6 +635,7 @@ export default function SnippetEditor({ isOpen, onClose, editingSnippet, onCreat
               <button type="submit" style={{ display: 'none' }} />
             </form>
           </Form>
+          )}
         </div>
         {/* Sticky Footer for Actions */}
         <div className="sticky-footer-actions px-6 py-4 border-t border-blue-800/30 bg-gradient-to-r from-blue-900/80 to-blue-800/80 flex items-center justify-between" style={{ position: 'sticky', bottom: 0, zIndex: 10 }}>
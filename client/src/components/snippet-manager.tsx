@@ -7,7 +7,10 @@ import { Code, Search, Plus, Edit, Trash2, Folder, Copy, FolderPlus } from "luci
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { copyToClipboard } from "@/lib/clipboard";
-import type { Snippet } from "@shared/schema";
+import { expandSnippet } from "@/lib/snippet-expansion";
+import { useSearch } from "@/hooks/use-search";
+import { parseTagQuery, normalizeTags, hasAllTags } from "@shared/tags";
+import type { Snippet, TagSummary } from "@shared/schema";
 import SnippetList from "./SnippetList";
 
 interface SnippetManagerProps {
@@ -24,6 +27,7 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
   const overlayInstance = Math.random().toString(36).slice(2, 8);
   console.log('SnippetManager rendered', overlayInstance);
   const [searchTerm, setSearchTerm] = useState("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const searchInputRef = useRef<HTMLInputElement>(null);
   const listRef = useRef<HTMLUListElement>(null);
@@ -32,14 +36,30 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
   const { data: snippets = [], isLoading } = useQuery<Snippet[]>({
     queryKey: ["/api/snippets"],
   });
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  // "#tag" words in the search box narrow the list like the tag chips do; the
+  // rest of the query is the text search
+  const tagQuery = useMemo(() => parseTagQuery(searchTerm), [searchTerm]);
+  const searchText = tagQuery.text;
+  const activeTags = useMemo(() => normalizeTags([...selectedTags, ...tagQuery.tags]), [selectedTags, tagQuery]);
+  const { results: searchResults, highlights } = useSearch<Snippet>(searchText, "snippet");
+
+  const toggleTag = (name: string) => {
+    setSelectedTags(current => current.includes(name) ? current.filter(tag => tag !== name) : [...current, name]);
+  };
 
   const deleteSnippetMutation = useMutation({
     mutationFn: (id: number) => apiRequest("DELETE", `/api/snippets/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Snippet deleted",
-        description: "The snippet has been removed successfully.",
+        description: "The snippet has been moved to trash.",
       });
     },
     onError: () => {
@@ -53,8 +73,10 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
 
   // Memoized data processing for better performance
   const { groupedSnippets, flattenedSnippets, filteredItems } = useMemo(() => {
+    const tagged = activeTags.length > 0 ? snippets.filter(snippet => hasAllTags(snippet, activeTags)) : snippets;
+
     // Group snippets by folder, excluding folder markers
-    const grouped = snippets.reduce((acc, snippet) => {
+    const grouped = tagged.reduce((acc, snippet) => {
       const category = "General"; // Default category since we don't have folder names here
       if (!acc[category]) {
         acc[category] = [];
@@ -91,34 +113,46 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
       }
     });
 
+    // Ranked server results replace the list while searching; the local
+    // substring filter only covers the moment before they arrive
+    if (searchResults) {
+      // Search results don't carry tags, so take each one from the tagged list
+      const taggedById = new Map(tagged.map(snippet => [snippet.id, snippet]));
+      const ranked = searchResults
+        .filter(snippet => !snippet.title.startsWith('📁') && taggedById.has(snippet.id))
+        .map((snippet, index) => ({ type: 'snippet' as const, data: taggedById.get(snippet.id)!, index }));
+      return { groupedSnippets: grouped, flattenedSnippets: flattened, filteredItems: ranked };
+    }
+
     // Filter based on search term
-    const filtered = searchTerm 
+    const filtered = searchText 
       ? flattened.filter(item => {
           if (item.type === 'category') {
-            return item.data.name.toLowerCase().includes(searchTerm.toLowerCase());
+            return item.data.name.toLowerCase().includes(searchText.toLowerCase());
           } else {
             const snippet = item.data as Snippet;
-            return snippet.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                   snippet.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                   snippet.trigger.toLowerCase().includes(searchTerm.toLowerCase());
+            return snippet.title.toLowerCase().includes(searchText.toLowerCase()) ||
+                   snippet.content.toLowerCase().includes(searchText.toLowerCase()) ||
+                   snippet.trigger.toLowerCase().includes(searchText.toLowerCase());
           }
         })
       : flattened;
 
     return { groupedSnippets: grouped, flattenedSnippets: flattened, filteredItems: filtered };
-  }, [snippets, searchTerm]);
+  }, [snippets, searchText, searchResults, activeTags]);
 
   useEffect(() => {
     if (isOpen) {
       setTimeout(() => searchInputRef.current?.focus(), 100);
       setSearchTerm("");
+      setSelectedTags([]);
       setSelectedIndex(0);
     }
   }, [isOpen]);
 
   useEffect(() => {
     setSelectedIndex(0);
-  }, [searchTerm]);
+  }, [searchTerm, selectedTags]);
 
   // Ensure selectedIndex doesn't go out of bounds
   useEffect(() => {
@@ -176,7 +210,9 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
 
   const handleSelectSnippet = async (snippet: Snippet) => {
     try {
-      await copyToClipboard(snippet.content);
+      const expanded = await expandSnippet(snippet);
+      if (!expanded) return;
+      await copyToClipboard(expanded.text);
       toast({
         title: "Snippet copied",
         description: `"${snippet.title}" has been copied to clipboard.`,
@@ -269,13 +305,32 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
             <Input
               ref={searchInputRef}
               type="text"
-              placeholder="Search snippets by title, content, or category..."
+              placeholder="Search snippets by title, content, or #tag..."
               value={searchTerm}
               onChange={e => setSearchTerm(e.target.value)}
               className="pl-10 pr-4 py-3 text-sm rounded-xl border-0 bg-slate-800/50 text-white placeholder:text-slate-400 focus:ring-2 focus:ring-emerald-500/50 focus:outline-none backdrop-blur-sm"
               style={{ fontFamily: '-apple-system, BlinkMacSystemFont, "SF Pro Display", "Helvetica Neue", sans-serif' }}
             />
           </div>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5 mt-3">
+              {tags.map(tag => {
+                const isActive = activeTags.includes(tag.name);
+                return (
+                  <button
+                    key={tag.name}
+                    type="button"
+                    onClick={() => toggleTag(tag.name)}
+                    className={`text-xs px-2 py-1 rounded-full transition-colors duration-150 ${
+                      isActive ? 'bg-emerald-600 text-white' : 'bg-slate-800/60 text-slate-300 hover:bg-slate-700'
+                    }`}
+                  >
+                    #{tag.name} <span className="opacity-60">{tag.count}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
         </div>
 
         {/* List */}
@@ -290,7 +345,7 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
           ) : filteredItems.length === 0 ? (
             <div className="text-center py-12">
               <div className="text-slate-400 text-sm mb-2">
-                {searchTerm ? "No snippets match your search" : "No snippets found"}
+                {searchTerm || activeTags.length > 0 ? "No snippets match your search" : "No snippets found"}
               </div>
               <div className="text-slate-500 text-xs">Create your first snippet to get started</div>
             </div>
@@ -298,18 +353,12 @@ export default function SnippetManager({ isOpen, onClose, onEditSnippet, onNewSn
             <SnippetList
               items={filteredItems.filter(item => item.type === 'snippet').map(item => item.data)}
               type="snippet"
-              onCopy={async (snippet) => {
-                await copyToClipboard(snippet.content);
-                toast({
-                  title: "Snippet copied",
-                  description: `\"${snippet.title}\" has been copied to clipboard.`,
-                });
-                onClose();
-                          }}
+              onCopy={handleSelectSnippet}
               onEdit={onEditSnippet}
               onDelete={(id) => deleteSnippetMutation.mutate(id)}
               selectedIndex={selectedIndex}
               setSelectedIndex={setSelectedIndex}
+              highlights={highlights}
             />
           )}
         </div>
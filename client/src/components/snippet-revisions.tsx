@@ -0,0 +1,157 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { RotateCcw } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { diffLines, toSideBySide, type DiffLine } from "@/lib/diff";
+import type { Snippet, SnippetRevision } from "@shared/schema";
+
+interface SnippetRevisionsProps {
+  snippet: Snippet;
+  // Text currently in the editor, compared against the selected revision
+  current: { title: string; content: string };
+  onRestored: (snippet: Snippet) => void;
+}
+
+const lineClasses: Record<DiffLine["type"], string> = {
+  same: "text-blue-100",
+  removed: "bg-red-500/20 text-red-200",
+  added: "bg-emerald-500/20 text-emerald-200",
+};
+
+function DiffCell({ line }: { line: DiffLine | null }) {
+  if (!line) return <td className="bg-blue-950/40" />;
+  return (
+    <td className={`px-2 py-0.5 whitespace-pre-wrap break-all align-top ${lineClasses[line.type]}`}>
+      {line.text || " "}
+    </td>
+  );
+}
+
+export default function SnippetRevisions({ snippet, current, onRestored }: SnippetRevisionsProps) {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data: revisions = [], isLoading } = useQuery<SnippetRevision[]>({
+    queryKey: [`/api/snippets/${snippet.id}/revisions`],
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (revisions.length > 0 && !revisions.some(r => r.id === selectedId)) {
+      setSelectedId(revisions[0].id);
+    }
+  }, [revisions, selectedId]);
+
+  const selected = revisions.find(r => r.id === selectedId);
+  const rows = useMemo(
+    () => (selected ? toSideBySide(diffLines(selected.content, current.content)) : []),
+    [selected, current.content]
+  );
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const res = await apiRequest("POST", `/api/snippets/${snippet.id}/revisions/${revisionId}/restore`);
+      return res.json() as Promise<Snippet>;
+    },
+    onSuccess: (restored) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/snippets/${snippet.id}/revisions`] });
+      toast({
+        title: "Revision restored",
+        description: `"${restored.title}" has been restored to the selected version.`,
+      });
+      onRestored(restored);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore revision.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-12 text-blue-300 text-sm">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-blue-200 text-sm mb-1">No earlier versions yet</div>
+        <div className="text-blue-300/60 text-xs">A revision is saved each time the title, content or description changes.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex gap-4 min-h-[300px]">
+      <ul className="w-48 shrink-0 space-y-1 overflow-y-auto max-h-[420px]">
+        {revisions.map((revision, index) => (
+          <li key={revision.id}>
+            <button
+              type="button"
+              onClick={() => setSelectedId(revision.id)}
+              className={`w-full text-left rounded-lg px-3 py-2 text-[12px] transition-all duration-150 ${
+                revision.id === selectedId ? "bg-blue-600/40 text-white" : "text-blue-200 hover:bg-blue-800/40"
+              }`}
+            >
+              <div className="font-medium truncate">{revision.title}</div>
+              <div className="text-blue-300/70">
+                {new Date(revision.createdAt).toLocaleString()}
+                {index === 0 && " · latest"}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <div className="flex-1 min-w-0 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="text-[12px] text-blue-300">
+              {selected.title !== current.title ? (
+                <span>
+                  Title: <span className="line-through text-red-300">{selected.title}</span> → <span className="text-emerald-300">{current.title}</span>
+                </span>
+              ) : (
+                <span>Title unchanged</span>
+              )}
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => restoreMutation.mutate(selected.id)}
+              disabled={restoreMutation.isPending}
+              className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-[12px]"
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Restore this version
+            </Button>
+          </div>
+          <div className="rounded-xl border border-blue-700/30 overflow-auto max-h-[380px]">
+            <table className="w-full table-fixed font-mono text-[12px]">
+              <thead>
+                <tr className="text-blue-300 bg-blue-900/60">
+                  <th className="px-2 py-1 text-left font-medium">Selected version</th>
+                  <th className="px-2 py-1 text-left font-medium">Current</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr key={index}>
+                    <DiffCell line={row.left} />
+                    <DiffCell line={row.right} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
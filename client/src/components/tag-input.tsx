@@ -0,0 +1,107 @@
+import { useState, useRef } from "react";
+import { X } from "lucide-react";
+import { normalizeTag, MAX_TAGS_PER_SNIPPET } from "@shared/tags";
+import type { TagSummary } from "@shared/schema";
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // The user's existing tags, offered as completions
+  suggestions: TagSummary[];
+  placeholder?: string;
+}
+
+// Chips for the chosen tags followed by a text box. Enter, Tab or a comma adds
+// the typed tag, Backspace in the empty box removes the last one.
+export default function TagInput({ value, onChange, suggestions, placeholder = "Add tags..." }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const [isFocused, setIsFocused] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const typed = normalizeTag(draft);
+  const matches = suggestions
+    .filter(tag => !value.includes(tag.name) && (typed === "" || tag.name.includes(typed)))
+    // Completions of what was typed before tags that merely contain it
+    .sort((a, b) => Number(b.name.startsWith(typed)) - Number(a.name.startsWith(typed)))
+    .slice(0, MAX_SUGGESTIONS);
+  const isFull = value.length >= MAX_TAGS_PER_SNIPPET;
+
+  const addTag = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !value.includes(tag) && !isFull) onChange([...value, tag]);
+    setDraft("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => Math.min(index + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp" && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted(index => Math.max(index - 1, 0));
+    } else if (e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Enter" || (e.key === "Tab" && typed)) {
+      // Enter would otherwise submit the surrounding form
+      e.preventDefault();
+      addTag(typed && matches[highlighted] ? matches[highlighted].name : draft);
+    } else if (e.key === "Backspace" && draft === "" && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className="flex flex-wrap items-center gap-1.5 min-h-[40px] rounded-xl px-2 py-1.5 bg-blue-900/50 border border-blue-700/30 focus-within:ring-2 focus-within:ring-blue-400"
+        onClick={() => inputRef.current?.focus()}
+      >
+        {value.map(tag => (
+          <span key={tag} className="flex items-center gap-1 rounded-full bg-blue-500/30 text-blue-100 text-xs px-2 py-1">
+            #{tag}
+            <button
+              type="button"
+              className="text-blue-300 hover:text-white"
+              onClick={(e) => { e.stopPropagation(); onChange(value.filter(t => t !== tag)); }}
+              title={`Remove ${tag}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          ref={inputRef}
+          value={draft}
+          disabled={isFull}
+          placeholder={value.length === 0 ? placeholder : isFull ? "" : "Add another..."}
+          className="flex-1 min-w-[120px] bg-transparent text-[14px] text-white placeholder:text-blue-300/60 outline-none"
+          onChange={(e) => { setDraft(e.target.value); setHighlighted(0); }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          // Leave time for a click on a suggestion to land
+          onBlur={() => setTimeout(() => setIsFocused(false), 150)}
+        />
+      </div>
+      {isFocused && !isFull && matches.length > 0 && (
+        <ul className="absolute z-10 mt-1 w-full rounded-xl bg-slate-900 border border-blue-700/40 shadow-lg py-1">
+          {matches.map((tag, index) => (
+            <li
+              key={tag.name}
+              className={`flex items-center justify-between px-3 py-1.5 text-sm cursor-pointer ${index === highlighted ? "bg-blue-700/50 text-white" : "text-blue-100"}`}
+              onMouseDown={(e) => { e.preventDefault(); addTag(tag.name); }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <span>#{tag.name}</span>
+              <span className="text-xs text-blue-300/70">{tag.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { subscribeTemplatePrompt, type TemplatePromptRequest } from "@/lib/snippet-expansion";
+import { formatFieldLabel } from "@shared/templates";
+
+// Rendered once at the app root; opens whenever a snippet with named fields is copied
+export default function TemplateFieldsDialog() {
+  const [request, setRequest] = useState<TemplatePromptRequest | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => subscribeTemplatePrompt(setRequest), []);
+
+  useEffect(() => {
+    if (request) {
+      setValues(Object.fromEntries(request.fields.map(field => [field.name, field.defaultValue])));
+    }
+  }, [request]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    request?.resolve(values);
+  };
+
+  return (
+    <Dialog open={!!request} onOpenChange={(open) => { if (!open) request?.resolve(null); }}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Fill in "{request?.title}"</DialogTitle>
+          <DialogDescription>These values are inserted into the snippet before it is copied.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {request?.fields.map((field, index) => (
+            <div key={field.name} className="space-y-2">
+              <Label htmlFor={`template-field-${field.name}`}>{formatFieldLabel(field.name)}</Label>
+              <Input
+                id={`template-field-${field.name}`}
+                value={values[field.name] ?? ""}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                autoFocus={index === 0}
+              />
+            </div>
+          ))}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => request?.resolve(null)}>
+              Cancel
+            </Button>
+            <Button type="submit" className="bg-blue-600 hover:bg-blue-700">
+              Copy
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
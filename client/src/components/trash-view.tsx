@@ -0,0 +1,193 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw, Trash2, Code, Folder, Clipboard } from "lucide-react";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { TrashEntry, TrashItemType } from "@shared/schema";
+
+const typeLabels: Record<TrashItemType, string> = {
+  snippet: "Snippet",
+  folder: "Folder",
+  clipboard: "Clipboard",
+};
+
+const typeIcons: Record<TrashItemType, typeof Code> = {
+  snippet: Code,
+  folder: Folder,
+  clipboard: Clipboard,
+};
+
+function entryTitle(entry: TrashEntry): string {
+  switch (entry.type) {
+    case "snippet":
+      return entry.item.title;
+    case "folder":
+      return entry.item.name;
+    case "clipboard":
+      return entry.item.content.split("\n")[0].slice(0, 80);
+  }
+}
+
+function entryDetail(entry: TrashEntry): string {
+  if (entry.type === "folder") return "";
+  const { content } = entry.item;
+  return content.length > 80 ? content.slice(0, 80) + "…" : content;
+}
+
+function invalidateAfterTrashChange() {
+  queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/clipboard"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+}
+
+export default function TrashView() {
+  const { toast } = useToast();
+
+  const { data: entries = [], isLoading } = useQuery<TrashEntry[]>({
+    queryKey: ["/api/trash"],
+    staleTime: 0,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (entry: TrashEntry) => apiRequest("POST", `/api/trash/${entry.type}/${entry.item.id}/restore`),
+    onSuccess: (_res, entry) => {
+      invalidateAfterTrashChange();
+      toast({
+        title: "Restored",
+        description: `"${entryTitle(entry)}" has been restored.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cannot restore",
+        description: apiErrorMessage(error, "Failed to restore item."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (entry: TrashEntry) => apiRequest("DELETE", `/api/trash/${entry.type}/${entry.item.id}`),
+    onSuccess: () => {
+      invalidateAfterTrashChange();
+      toast({ title: "Deleted", description: "The item has been permanently deleted." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete item.", variant: "destructive" });
+    },
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", "/api/trash"),
+    onSuccess: () => {
+      invalidateAfterTrashChange();
+      toast({ title: "Trash emptied", description: "All items in the trash have been permanently deleted." });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to empty trash.", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="text-gray-600 mt-4">Loading trash...</p>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Card className="border-0 shadow-sm bg-white/70 backdrop-blur-md">
+        <CardContent className="p-12 text-center">
+          <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Trash is empty</h3>
+          <p className="text-gray-600">Deleted snippets, folders and clipboard items show up here until they expire.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="w-full">
+      <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg p-4">
+        <div className="flex items-center justify-between mb-2 px-2">
+          <p className="text-sm text-gray-500">{entries.length} item{entries.length === 1 ? "" : "s"} in trash</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-red-600 hover:text-red-800 rounded-full"
+            disabled={emptyMutation.isPending}
+            onClick={() => {
+              if (window.confirm("Permanently delete everything in the trash?")) {
+                emptyMutation.mutate();
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Empty Trash
+          </Button>
+        </div>
+        <table className="w-full text-sm text-left">
+          <thead>
+            <tr className="border-b border-gray-200 text-gray-700 font-semibold">
+              <th className="py-3 px-2 w-1/6">Type</th>
+              <th className="py-3 px-2 w-3/6">Item</th>
+              <th className="py-3 px-2 w-1/6 text-right">Deleted</th>
+              <th className="py-3 px-2 w-1/6 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map((entry) => {
+              const Icon = typeIcons[entry.type];
+              return (
+                <tr key={`${entry.type}-${entry.item.id}`} className="border-b border-gray-100 hover:bg-blue-50/60 transition">
+                  <td className="py-2 px-2">
+                    <Badge variant="outline" className="flex w-fit items-center gap-1">
+                      <Icon className="h-3 w-3" />
+                      {typeLabels[entry.type]}
+                    </Badge>
+                  </td>
+                  <td className="py-2 px-2 truncate max-w-[320px]">
+                    <div className="font-semibold text-gray-900 truncate">{entryTitle(entry)}</div>
+                    {entryDetail(entry) && <div className="text-gray-500 truncate">{entryDetail(entry)}</div>}
+                  </td>
+                  <td className="py-2 px-2 text-gray-500 text-right">
+                    {new Date(entry.deletedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}
+                  </td>
+                  <td className="py-2 px-2 text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button size="icon" variant="ghost" title="Restore" onClick={() => restoreMutation.mutate(entry)} disabled={restoreMutation.isPending} className="h-7 w-7 text-green-600 hover:text-green-800 rounded-full transition-all duration-150">
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete permanently"
+                        onClick={() => {
+                          if (window.confirm(`Permanently delete "${entryTitle(entry)}"?`)) {
+                            purgeMutation.mutate(entry);
+                          }
+                        }}
+                        disabled={purgeMutation.isPending}
+                        className="h-7 w-7 text-red-600 hover:text-red-800 rounded-full transition-all duration-150"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
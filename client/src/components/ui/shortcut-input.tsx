@@ -7,6 +7,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { InsertSettings } from "@shared/schema";
+import { HOTKEY_MODIFIERS, MAX_CHORD_STEPS, formatHotkey, formatShortcut, hotkeyFromEvent } from "@shared/hotkeys";
 
 interface ShortcutInputProps {
   value: string;
@@ -16,8 +17,13 @@ interface ShortcutInputProps {
   disabled?: boolean;
   showSaveButton?: boolean;
   onSave?: (value: string) => void;
+  // Record chords such as "ctrl+k ctrl+s": a second key pressed soon after the first is added to it
+  allowChords?: boolean;
 }
 
+// How long a second chord step is waited for while recording
+const CHORD_RECORD_MS = 1000;
+
 export function ShortcutInput({ 
   value, 
   onChange, 
@@ -25,13 +31,17 @@ export function ShortcutInput({
   className,
   disabled = false,
   showSaveButton = false,
-  onSave
+  onSave,
+  allowChords = false,
 }: ShortcutInputProps) {
   const [isRecording, setIsRecording] = useState(false);
   const [currentKeys, setCurrentKeys] = useState<string[]>([]);
   const [hasChanges, setHasChanges] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  // Chord steps recorded so far; the key listener is only set up once per recording
+  const stepsRef = useRef<string[]>([]);
+  const chordTimerRef = useRef<ReturnType<typeof setTimeout>>();
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -56,36 +66,13 @@ export function ShortcutInput({
     },
   });
 
-  const formatShortcut = (keys: string[]) => {
-    if (keys.length === 0) return "";
-    
-    // Sort modifiers in a consistent order
-    const modifiers = keys.filter(key => ['ctrl', 'alt', 'shift', 'meta', 'cmd'].includes(key.toLowerCase()));
-    const regularKeys = keys.filter(key => !['ctrl', 'alt', 'shift', 'meta', 'cmd'].includes(key.toLowerCase()));
-    
-    const sortedModifiers = modifiers.sort((a, b) => {
-      const order = ['ctrl', 'alt', 'shift', 'meta', 'cmd'];
-      return order.indexOf(a.toLowerCase()) - order.indexOf(b.toLowerCase());
-    });
-    
-    return [...sortedModifiers, ...regularKeys].join('+').toLowerCase();
-  };
-
-  const parseKeyEvent = (e: KeyboardEvent) => {
-    const keys: string[] = [];
-    
-    // Add modifiers
-    if (e.ctrlKey) keys.push('ctrl');
-    if (e.altKey) keys.push('alt');
-    if (e.shiftKey) keys.push('shift');
-    if (e.metaKey) keys.push('meta');
-    
-    // Add the main key
-    if (e.key && e.key !== 'Control' && e.key !== 'Alt' && e.key !== 'Shift' && e.key !== 'Meta') {
-      keys.push(e.key.toLowerCase());
-    }
-    
-    return keys;
+  const finishRecording = (shortcut: string) => {
+    clearTimeout(chordTimerRef.current);
+    stepsRef.current = [];
+    onChange(shortcut);
+    setHasChanges(true);
+    setIsRecording(false);
+    setCurrentKeys([]);
   };
 
   const handleKeyDown = (e: KeyboardEvent) => {
@@ -94,32 +81,32 @@ export function ShortcutInput({
     e.preventDefault();
     e.stopPropagation();
     
-    const keys = parseKeyEvent(e);
-    if (keys.length > 0) {
-      setCurrentKeys(keys);
+    // Wait for a key other than the modifiers, showing the modifiers held so far
+    const hotkey = hotkeyFromEvent(e);
+    if (!hotkey) {
+      const held = HOTKEY_MODIFIERS.filter(modifier => e[`${modifier}Key`]);
+      setCurrentKeys([...stepsRef.current.map(formatHotkey), `${held.join("+")}+...`]);
+      return;
     }
-  };
-
-  const handleKeyUp = (e: KeyboardEvent) => {
-    if (!isRecording) return;
-    
-    e.preventDefault();
-    e.stopPropagation();
-    
-    const keys = parseKeyEvent(e);
-    if (keys.length > 0) {
-      const shortcut = formatShortcut(keys);
-      if (shortcut) {
-        onChange(shortcut);
-        setHasChanges(true);
-        setIsRecording(false);
-        setCurrentKeys([]);
-      }
+    if (!allowChords) {
+      finishRecording(hotkey);
+      return;
+    }
+    const steps = [...stepsRef.current, hotkey];
+    if (steps.length >= MAX_CHORD_STEPS) {
+      finishRecording(steps.join(" "));
+      return;
     }
+    stepsRef.current = steps;
+    setCurrentKeys(steps.map(formatHotkey));
+    clearTimeout(chordTimerRef.current);
+    chordTimerRef.current = setTimeout(() => finishRecording(steps.join(" ")), CHORD_RECORD_MS);
   };
 
   const handleClick = () => {
     if (disabled) return;
+    clearTimeout(chordTimerRef.current);
+    stepsRef.current = [];
     setIsRecording(true);
     setCurrentKeys([]);
     inputRef.current?.focus();
@@ -127,6 +114,8 @@ export function ShortcutInput({
 
   const handleClear = (e: React.MouseEvent) => {
     e.stopPropagation();
+    clearTimeout(chordTimerRef.current);
+    stepsRef.current = [];
     onChange("");
     setHasChanges(true);
     setIsRecording(false);
@@ -154,18 +143,17 @@ export function ShortcutInput({
   useEffect(() => {
     if (isRecording) {
       document.addEventListener('keydown', handleKeyDown, true);
-      document.addEventListener('keyup', handleKeyUp, true);
       
       return () => {
         document.removeEventListener('keydown', handleKeyDown, true);
-        document.removeEventListener('keyup', handleKeyUp, true);
+        clearTimeout(chordTimerRef.current);
       };
     }
   }, [isRecording]);
 
   const displayValue = isRecording 
-    ? (currentKeys.length > 0 ? formatShortcut(currentKeys) : "Press keys...")
-    : value;
+    ? (currentKeys.length > 0 ? currentKeys.join(" ") : "Press keys...")
+    : value && formatShortcut(value);
 
   return (
     <div className={cn("relative", className)}>
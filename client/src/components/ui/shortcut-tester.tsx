@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Button } from "./button";
 import { Play, Check, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatHotkey, formatShortcut, hotkeyFromEvent, parseShortcut } from "@shared/hotkeys";
 
 interface ShortcutTesterProps {
   shortcut: string;
@@ -13,44 +14,7 @@ export function ShortcutTester({ shortcut, onTrigger, className }: ShortcutTeste
   const [isListening, setIsListening] = useState(false);
   const [lastPressed, setLastPressed] = useState<string>("");
   const [isMatch, setIsMatch] = useState<boolean | null>(null);
-
-  const parseShortcut = (shortcut: string) => {
-    const parts = shortcut.toLowerCase().split('+');
-    const modifiers = parts.slice(0, -1);
-    const key = parts[parts.length - 1];
-    return { modifiers, key };
-  };
-
-  const checkShortcut = (e: KeyboardEvent, shortcut: string) => {
-    const { modifiers, key } = parseShortcut(shortcut);
-    
-    const pressedModifiers: string[] = [];
-    if (e.ctrlKey || e.metaKey) pressedModifiers.push('ctrl');
-    if (e.altKey) pressedModifiers.push('alt');
-    if (e.shiftKey) pressedModifiers.push('shift');
-    
-    const pressedKey = e.key.toLowerCase();
-    
-    return (
-      modifiers.length === pressedModifiers.length &&
-      modifiers.every(mod => pressedModifiers.includes(mod)) &&
-      key === pressedKey
-    );
-  };
-
-  const formatPressedKeys = (e: KeyboardEvent) => {
-    const keys: string[] = [];
-    
-    if (e.ctrlKey || e.metaKey) keys.push('ctrl');
-    if (e.altKey) keys.push('alt');
-    if (e.shiftKey) keys.push('shift');
-    
-    if (e.key && e.key !== 'Control' && e.key !== 'Alt' && e.key !== 'Shift' && e.key !== 'Meta') {
-      keys.push(e.key.toLowerCase());
-    }
-    
-    return keys.join('+');
-  };
+  const pressedRef = useRef<string[]>([]);
 
   const handleKeyDown = (e: KeyboardEvent) => {
     if (!isListening) return;
@@ -58,10 +22,19 @@ export function ShortcutTester({ shortcut, onTrigger, className }: ShortcutTeste
     e.preventDefault();
     e.stopPropagation();
     
-    const pressedKeys = formatPressedKeys(e);
-    setLastPressed(pressedKeys);
+    // Modifiers on their own are part of a hotkey still being pressed
+    const pressed = hotkeyFromEvent(e);
+    if (!pressed) return;
+    
+    // Chords are compared once as many steps as they have were pressed
+    const expected = parseShortcut(shortcut) ?? [];
+    const steps = [...pressedRef.current, pressed];
+    pressedRef.current = steps;
+    setLastPressed(steps.map(formatHotkey).join(" "));
+    if (steps.length < expected.length && steps.every((step, index) => expected[index] === step)) return;
+    pressedRef.current = [];
     
-    const matches = checkShortcut(e, shortcut);
+    const matches = steps.join(" ") === expected.join(" ");
     setIsMatch(matches);
     
     if (matches && onTrigger) {
@@ -77,6 +50,7 @@ export function ShortcutTester({ shortcut, onTrigger, className }: ShortcutTeste
   };
 
   const handleStartTest = () => {
+    pressedRef.current = [];
     setIsListening(true);
     setLastPressed("");
     setIsMatch(null);
@@ -126,7 +100,7 @@ export function ShortcutTester({ shortcut, onTrigger, className }: ShortcutTeste
         <div className="flex items-center gap-2 text-sm">
           <span className="text-gray-600">Press:</span>
           <kbd className="px-2 py-1 bg-gray-100 border border-gray-300 rounded font-mono text-xs">
-            {shortcut}
+            {formatShortcut(shortcut)}
           </kbd>
         </div>
       )}
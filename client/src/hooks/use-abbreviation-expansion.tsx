@@ -0,0 +1,23 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { attachTextExpander } from "@/lib/text-expander";
+import { expandSnippet } from "@/lib/snippet-expansion";
+import type { Snippet } from "@shared/schema";
+
+// Expand snippet abbreviations typed into any text field of the app
+export function useAbbreviationExpansion() {
+  const { data: snippets = [] } = useQuery<Snippet[]>({
+    queryKey: ["/api/snippets"],
+  });
+
+  // The listener stays attached while the list changes underneath it
+  const snippetsRef = useRef<Snippet[]>(snippets);
+  snippetsRef.current = snippets;
+
+  useEffect(() => {
+    return attachTextExpander(document, {
+      getSnippets: () => snippetsRef.current,
+      expand: expandSnippet,
+    });
+  }, []);
+}
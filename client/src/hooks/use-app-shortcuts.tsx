@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { attachShortcuts, registerShortcuts } from "@/lib/shortcuts";
+import { CHEAT_SHEET_HOTKEY, SHORTCUT_ACTIONS, type ShortcutSetting } from "@shared/hotkeys";
+import type { Settings } from "@shared/schema";
+
+export type ShortcutHandlers = Record<ShortcutSetting, () => void> & { cheatSheet: () => void };
+
+// Bind the app's actions to the shortcuts in the user's settings and start
+// listening for them; mounted once in App
+export function useAppShortcuts(handlers: ShortcutHandlers) {
+  const { data: settings } = useQuery<Settings>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Bindings call the latest handlers without being registered again
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => attachShortcuts(document), []);
+
+  useEffect(() => {
+    const actions = SHORTCUT_ACTIONS
+      .filter(action => settings?.[action.setting])
+      .map(action => ({
+        shortcut: settings![action.setting],
+        label: action.label,
+        group: "App",
+        inTextFields: true,
+        run: () => handlersRef.current[action.setting](),
+      }));
+    return registerShortcuts([
+      ...actions,
+      {
+        shortcut: CHEAT_SHEET_HOTKEY,
+        label: "Show keyboard shortcuts",
+        group: "App",
+        inTextFields: true,
+        run: () => handlersRef.current.cheatSheet(),
+      },
+    ]);
+  }, [settings]);
+}
@@ -18,7 +18,8 @@ export function useClipboardMonitor() {
   }, []);
 
   const addClipboardItemMutation = useMutation({
-    mutationFn: (data: { content: string; type: string }) =>
+    // The server classifies the content (shared/clipboard.ts)
+    mutationFn: (data: { content: string }) =>
       apiRequest("POST", "/api/clipboard", data),
     onSuccess: (_, variables) => {
       // Store the content that was just added to prevent immediate re-addition
@@ -29,6 +30,19 @@ export function useClipboardMonitor() {
     },
   });
 
+  // Save text read from the clipboard unless it is blank, unchanged or was just saved
+  const captureText = (text: string) => {
+    if (!text ||
+        text === lastClipboardContent.current ||
+        text === lastAddedContent.current ||
+        text.trim().length === 0) {
+      return;
+    }
+    lastClipboardContent.current = text;
+    sessionStorage.setItem("lastClipboardContent", text);
+    addClipboardItemMutation.mutate({ content: text });
+  };
+
   useEffect(() => {
     if (!settings?.clipboardEnabled) return;
 
@@ -39,32 +53,8 @@ export function useClipboardMonitor() {
         }
 
         const text = await navigator.clipboard.readText();
-        
-        // Don't add if it's the same as last clipboard content, empty, was just added, or user is actively copying
-        if (text && 
-            text !== lastClipboardContent.current && 
-            text !== lastAddedContent.current &&
-            text.trim().length > 0 &&
-            !isUserCopying.current) {
-          lastClipboardContent.current = text;
-          sessionStorage.setItem("lastClipboardContent", text);
-          // Determine content type
-          let type = "text";
-          if (text.match(/^https?:\/\//)) {
-            type = "url";
-          } else if (
-            text.includes("function") || 
-            text.includes("const") || 
-            text.includes("=>") || 
-            text.includes("class") ||
-            text.includes("{") ||
-            text.includes("}")
-          ) {
-            type = "code";
-          }
-
-          addClipboardItemMutation.mutate({ content: text, type });
-        }
+        // The copy listener handles text the user is copying
+        if (!isUserCopying.current) captureText(text);
       } catch (error) {
         // Clipboard access denied or not available
         // This is expected in many scenarios, so we silently ignore
@@ -95,31 +85,7 @@ export function useClipboardMonitor() {
             return;
           }
 
-          const text = await navigator.clipboard.readText();
-          
-          // Don't add if it's the same as last clipboard content, empty, was just added
-          if (text && 
-              text !== lastClipboardContent.current && 
-              text !== lastAddedContent.current &&
-              text.trim().length > 0) {
-            lastClipboardContent.current = text;
-            sessionStorage.setItem("lastClipboardContent", text);
-            let type = "text";
-            if (text.match(/^https?:\/\//)) {
-              type = "url";
-            } else if (
-              text.includes("function") || 
-              text.includes("const") || 
-              text.includes("=>") || 
-              text.includes("class") ||
-              text.includes("{") ||
-              text.includes("}")
-            ) {
-              type = "code";
-            }
-
-            addClipboardItemMutation.mutate({ content: text, type });
-          }
+          captureText(await navigator.clipboard.readText());
         } catch (error) {
           // Clipboard access denied
         } finally {
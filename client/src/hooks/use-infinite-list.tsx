@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_PAGE_SIZE, type ListPage } from "@shared/listing";
+
+export type ListParams = Record<string, string | number | null | undefined>;
+
+// Lists are cached under [path, params], so invalidating [path] refreshes them
+// along with the full list
+export function listQueryKey(path: string, params: ListParams) {
+  return [path, params] as const;
+}
+
+// Rewrite the items of a cached list in place, e.g. to show a new order before
+// the server confirms it; pages keep their sizes and cursors
+export function updateListItems<T>(path: string, params: ListParams, update: (items: T[]) => T[]) {
+  queryClient.setQueryData<InfiniteData<ListPage<T>, string | null>>(listQueryKey(path, params), data => {
+    if (!data) return data;
+    const items = update(data.pages.flatMap(page => page.items));
+    let start = 0;
+    const pages = data.pages.map(page => {
+      const slice = items.slice(start, start + page.items.length);
+      start += page.items.length;
+      return { ...page, items: slice };
+    });
+    return { ...data, pages };
+  });
+}
+
+// A server-side filtered and sorted list (see shared/listing.ts), fetched a
+// page at a time. Attach loadMoreRef to an element after the last item: the
+// next page is fetched when it scrolls into view.
+export function useInfiniteList<T>(path: string, params: ListParams, { enabled = true } = {}) {
+  const query = useInfiniteQuery({
+    queryKey: listQueryKey(path, params),
+    queryFn: async ({ pageParam }): Promise<ListPage<T>> => {
+      const search = new URLSearchParams({ limit: String(DEFAULT_PAGE_SIZE) });
+      Object.entries(params).forEach(([name, value]) => {
+        if (value != null) search.set(name, String(value));
+      });
+      if (pageParam) search.set("after", pageParam);
+      const res = await apiRequest("GET", `${path}?${search}`);
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: lastPage => lastPage.nextCursor,
+    enabled,
+  });
+  const { data, hasNextPage, isFetchingNextPage, fetchNextPage } = query;
+
+  const items = useMemo(() => data?.pages.flatMap(page => page.items) ?? [], [data]);
+
+  const observer = useRef<IntersectionObserver | null>(null);
+  const sentinel = useRef<Element | null>(null);
+  const loadMore = useRef(() => {});
+  loadMore.current = () => {
+    if (hasNextPage && !isFetchingNextPage) fetchNextPage();
+  };
+  const loadMoreRef = useCallback((node: Element | null) => {
+    observer.current?.disconnect();
+    sentinel.current = node;
+    if (!node) return;
+    observer.current = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) loadMore.current();
+    }, { rootMargin: "200px" });
+    observer.current.observe(node);
+  }, []);
+
+  // Observing again reports whether the end is still in view, as a page that
+  // arrives may not be enough to fill the list
+  useEffect(() => {
+    const node = sentinel.current;
+    if (!node || !observer.current || isFetchingNextPage) return;
+    observer.current.unobserve(node);
+    observer.current.observe(node);
+  }, [items, isFetchingNextPage]);
+
+  useEffect(() => () => observer.current?.disconnect(), []);
+
+  return {
+    items,
+    isLoading: query.isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMoreRef,
+  };
+}
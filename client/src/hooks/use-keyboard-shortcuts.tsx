@@ -2,6 +2,8 @@ import { useEffect, useCallback } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { expandSnippet } from '@/lib/snippet-expansion';
+import { registerShortcuts } from '@/lib/shortcuts';
 import { type Snippet } from '@shared/schema';
 
 export function useKeyboardShortcuts() {
@@ -12,10 +14,12 @@ export function useKeyboardShortcuts() {
     queryKey: ['/api/snippets'],
   });
 
-  // Function to copy text to clipboard
-  const copyToClipboard = useCallback(async (text: string) => {
+  // Function to expand a snippet's placeholders and copy it to the clipboard
+  const copyToClipboard = useCallback(async (snippet: Snippet) => {
     try {
-      await navigator.clipboard.writeText(text);
+      const expanded = await expandSnippet(snippet);
+      if (!expanded) return;
+      await navigator.clipboard.writeText(expanded.text);
       toast({
         title: "Snippet Copied",
         description: "Snippet content copied to clipboard",
@@ -30,60 +34,24 @@ export function useKeyboardShortcuts() {
     }
   }, [toast]);
 
-  // Function to find snippet by shortcut
-  const findSnippetByShortcut = useCallback((shortcut: string) => {
-    return snippets.find(snippet => {
-      if (!snippet.trigger) return false;
-      
-      // Extract shortcut from trigger (format: "shortcut-timestamp")
-      const triggerParts = snippet.trigger.split('-');
-      if (triggerParts.length < 2) return false;
-      
-      const snippetShortcut = triggerParts[0];
-      return snippetShortcut === shortcut;
-    });
+  // Function to find snippet by hotkey
+  const findSnippetByShortcut = useCallback((hotkey: string) => {
+    return snippets.find(snippet => snippet.hotkey === hotkey);
   }, [snippets]);
 
-  // Handle keyboard events
-  const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    // Don't trigger shortcuts when typing in input fields
-    const target = event.target as HTMLElement;
-    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.contentEditable === 'true') {
-      return;
-    }
-
-    const keys: string[] = [];
-    
-    if (event.ctrlKey) keys.push('Ctrl');
-    if (event.metaKey) keys.push('Cmd');
-    if (event.altKey) keys.push('Alt');
-    if (event.shiftKey) keys.push('Shift');
-    
-    // Add the main key
-    if (event.key !== 'Control' && event.key !== 'Meta' && event.key !== 'Alt' && event.key !== 'Shift') {
-      keys.push(event.key.toUpperCase());
-    }
-    
-    if (keys.length > 1) {
-      const shortcutString = keys.join('+');
-      const snippet = findSnippetByShortcut(shortcutString);
-      
-      if (snippet) {
-        event.preventDefault();
-        event.stopPropagation();
-        copyToClipboard(snippet.content);
-      }
-    }
-  }, [findSnippetByShortcut, copyToClipboard]);
-
-  // Set up global keyboard listener
+  // Bind each snippet's hotkey through the shortcut registry
   useEffect(() => {
-    document.addEventListener('keydown', handleKeyDown);
-    
-    return () => {
-      document.removeEventListener('keydown', handleKeyDown);
-    };
-  }, [handleKeyDown]);
+    return registerShortcuts(
+      snippets
+        .filter(snippet => snippet.hotkey)
+        .map(snippet => ({
+          shortcut: snippet.hotkey!,
+          label: snippet.title,
+          group: 'Snippets',
+          run: () => copyToClipboard(snippet),
+        }))
+    );
+  }, [snippets, copyToClipboard]);
 
   return {
     snippets,
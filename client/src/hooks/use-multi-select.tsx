@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { registerShortcuts } from "@/lib/shortcuts";
+
+// Selecting several items of a list for a bulk action: a click toggles one, a
+// shift-click adds the run from the last one clicked, and Ctrl+A (Cmd+A)
+// selects everything shown. ids are the items shown, in order; selected items
+// that stop being shown are dropped.
+export function useMultiSelect(ids: number[], { label, group, enabled = true }: { label: string; group: string; enabled?: boolean }) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const anchor = useRef<number | null>(null);
+  const idsKey = ids.join(",");
+
+  useEffect(() => {
+    const shown = new Set(ids);
+    setSelected(current => {
+      const kept = Array.from(current).filter(id => shown.has(id));
+      return kept.length === current.size ? current : new Set(kept);
+    });
+  }, [idsKey]);
+
+  const toggle = (id: number, event?: { shiftKey: boolean }) => {
+    const from = anchor.current !== null ? ids.indexOf(anchor.current) : -1;
+    const to = ids.indexOf(id);
+    if (event?.shiftKey && from !== -1 && to !== -1) {
+      const run = ids.slice(Math.min(from, to), Math.max(from, to) + 1);
+      setSelected(current => new Set([...Array.from(current), ...run]));
+    } else {
+      setSelected(current => {
+        const next = new Set(current);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+      });
+    }
+    anchor.current = id;
+  };
+
+  const selectAll = useCallback(() => setSelected(new Set(ids)), [idsKey]);
+
+  const clear = () => {
+    setSelected(new Set());
+    anchor.current = null;
+  };
+
+  // In text fields Ctrl+A still selects the text
+  useEffect(() => {
+    if (!enabled) return;
+    return registerShortcuts(["ctrl+a", "meta+a"].map(shortcut => ({ shortcut, label, group, run: selectAll })));
+  }, [enabled, label, group, selectAll]);
+
+  return {
+    selectedIds: ids.filter(id => selected.has(id)),
+    isSelected: (id: number) => selected.has(id),
+    toggle,
+    selectAll,
+    clear,
+  };
+}
@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+import { queryClient } from "@/lib/queryClient";
+import {
+  OFFLINE_CHANGED_EVENT,
+  getOfflineStatus,
+  persistQueryCache,
+  replayQueue,
+  type OfflineStatus,
+} from "@/lib/offline";
+
+// Keep the offline cache up to date and send queued changes whenever the connection comes back
+export function useOfflineQueue(enabled: boolean) {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [status, setStatus] = useState<OfflineStatus>({ pending: 0, conflicts: [], lastSyncedAt: null });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const refresh = () => {
+      getOfflineStatus().then(setStatus).catch(error => {
+        console.error("Failed to read offline queue:", error);
+      });
+    };
+    const replay = () => {
+      replayQueue().catch(error => console.error("Failed to replay offline changes:", error));
+    };
+    const handleOnline = () => {
+      setOnline(true);
+      replay();
+    };
+    const handleOffline = () => setOnline(false);
+
+    const unsubscribe = persistQueryCache(queryClient);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(OFFLINE_CHANGED_EVENT, refresh);
+    refresh();
+    replay();
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(OFFLINE_CHANGED_EVENT, refresh);
+    };
+  }, [enabled]);
+
+  return { online, pending: status.pending, conflicts: status.conflicts, lastSyncedAt: status.lastSyncedAt };
+}
@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import type { HighlightSegment, SearchResult, SearchResultKind } from "@shared/search";
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+export interface SearchHighlight {
+  title: HighlightSegment[];
+  excerpt: HighlightSegment[];
+}
+
+// Ranked server-side search for a search box. Results are null while the term
+// is empty or the first response for it has not arrived yet, so callers can
+// fall back to their local list.
+export function useSearch<T extends SearchResult["item"]>(searchTerm: string, kind: SearchResultKind) {
+  const [debouncedTerm, setDebouncedTerm] = useState(searchTerm.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedTerm(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data, isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", debouncedTerm, kind],
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedTerm, type: kind, limit: "100" });
+      const res = await apiRequest("GET", `/api/search?${params}`);
+      return res.json();
+    },
+    enabled: debouncedTerm !== "",
+    // Results depend on data edited elsewhere; always refetch when the search is reopened
+    staleTime: 0,
+  });
+
+  return useMemo(() => {
+    if (!debouncedTerm || !data) {
+      return { results: null, highlights: undefined, isSearching: isFetching };
+    }
+    const highlights = new Map<number, SearchHighlight>();
+    data.forEach(result => highlights.set(result.item.id, { title: result.title, excerpt: result.excerpt }));
+    return {
+      results: data.map(result => result.item as T),
+      highlights,
+      isSearching: isFetching,
+    };
+  }, [debouncedTerm, data, isFetching]);
+}
@@ -0,0 +1,10 @@
+import { useEffect } from "react";
+import { startSync } from "@/lib/sync";
+
+// Receive changes made in other tabs and on other devices while logged in
+export function useSync(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    return startSync();
+  }, [enabled]);
+}
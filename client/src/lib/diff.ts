@@ -0,0 +1,69 @@
+export type DiffLineType = "same" | "removed" | "added";
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// One row of a side-by-side view; a missing side is an empty gutter
+export interface DiffRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+// Line diff of two texts based on their longest common subsequence
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+// Arrange a line diff in two columns, pairing each run of removed lines
+// with the run of added lines that replaces it
+export function toSideBySide(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "same") {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== "same") {
+      (lines[index].type === "removed" ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,106 @@
+import { STORAGE_KEYS } from "./storage";
+import type { Snippet } from "@shared/schema";
+
+const DB_VERSION = 1;
+
+// A write made while the server was unreachable, replayed in order once it is back
+export interface QueuedMutation {
+  id?: number;
+  userId: string;
+  method: string;
+  url: string;
+  body?: unknown;
+  // updatedAt of the snippet as last seen from the server, for conflict detection
+  baseUpdatedAt?: string;
+  // Placeholder id of an item this mutation creates, swapped for the real one on replay
+  tempId?: number;
+  queuedAt: string;
+}
+
+// A queued mutation the server turned down on replay
+export interface SyncConflict {
+  id?: number;
+  userId: string;
+  mutation: QueuedMutation;
+  message: string;
+  // The server's version when it was changed elsewhere
+  serverSnippet?: Snippet;
+}
+
+type StoreName = "cache" | "queue" | "conflicts";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(STORAGE_KEYS.OFFLINE_DB, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore("cache", { keyPath: "key" });
+        db.createObjectStore("queue", { keyPath: "id", autoIncrement: true });
+        db.createObjectStore("conflicts", { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Cached API responses, per user and path
+
+export async function readCachedResponse<T>(userId: string, path: string): Promise<T | undefined> {
+  const entry = await run<{ data: T } | undefined>("cache", "readonly", store => store.get(`${userId}:${path}`));
+  return entry?.data;
+}
+
+export function writeCachedResponse(userId: string, path: string, data: unknown): Promise<unknown> {
+  return run("cache", "readwrite", store => store.put({ key: `${userId}:${path}`, data }));
+}
+
+// Mutation queue, oldest first
+
+export async function getQueue(userId: string): Promise<QueuedMutation[]> {
+  const all = await run<QueuedMutation[]>("queue", "readonly", store => store.getAll());
+  return all.filter(mutation => mutation.userId === userId);
+}
+
+export function addToQueue(mutation: QueuedMutation): Promise<unknown> {
+  return run("queue", "readwrite", store => store.add(mutation));
+}
+
+export function updateQueued(mutation: QueuedMutation): Promise<unknown> {
+  return run("queue", "readwrite", store => store.put(mutation));
+}
+
+export function removeQueued(id: number): Promise<unknown> {
+  return run("queue", "readwrite", store => store.delete(id));
+}
+
+// Conflicts waiting for the user to pick a side
+
+export async function getConflicts(userId: string): Promise<SyncConflict[]> {
+  const all = await run<SyncConflict[]>("conflicts", "readonly", store => store.getAll());
+  return all.filter(conflict => conflict.userId === userId);
+}
+
+export function addConflict(conflict: SyncConflict): Promise<unknown> {
+  return run("conflicts", "readwrite", store => store.add(conflict));
+}
+
+export function removeConflict(id: number): Promise<unknown> {
+  return run("conflicts", "readwrite", store => store.delete(id));
+}
@@ -0,0 +1,413 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { queryClient, authHeaders } from "./queryClient";
+import { applySyncEvent } from "./sync";
+import { LocalStorage, STORAGE_KEYS } from "./storage";
+import {
+  readCachedResponse,
+  writeCachedResponse,
+  getQueue,
+  addToQueue,
+  updateQueued,
+  removeQueued,
+  getConflicts,
+  addConflict,
+  removeConflict,
+  type QueuedMutation,
+  type SyncConflict,
+} from "./offline-db";
+import type { Snippet, ClipboardItem, Folder, Settings } from "@shared/schema";
+import { clipboardListQuerySchema, listClipboardItems, listSnippets, snippetListQuerySchema } from "@shared/listing";
+
+// Fired whenever the queue or the conflict list changes
+export const OFFLINE_CHANGED_EVENT = "snipclip:offline-changed";
+
+// Responses kept for reading while the server is unreachable
+const OFFLINE_PATHS = ["/api/snippets", "/api/tags", "/api/folders", "/api/clipboard", "/api/settings"];
+
+export interface OfflineStatus {
+  pending: number;
+  conflicts: SyncConflict[];
+  lastSyncedAt: string | null;
+}
+
+// fetch rejects with a TypeError when the request never reached the server
+export function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError;
+}
+
+function currentUserId(): string | null {
+  return localStorage.getItem("userKey");
+}
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(OFFLINE_CHANGED_EVENT));
+}
+
+function jsonResponse(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json", "X-Offline": "1" },
+  });
+}
+
+function pathOf(url: string): string {
+  return url.split("?")[0];
+}
+
+// Write successful responses and cache edits of the offline paths through to IndexedDB.
+// Returns a function that stops doing so.
+export function persistQueryCache(client: QueryClient): () => void {
+  return client.getQueryCache().subscribe(event => {
+    if (event.type !== "updated" || event.action.type !== "success") return;
+    const [path, ...params] = event.query.queryKey;
+    const userId = currentUserId();
+    // Only the full lists; filtered pages are made from them when offline
+    if (!userId || typeof path !== "string" || !OFFLINE_PATHS.includes(path) || params.length > 0) return;
+    writeCachedResponse(userId, path, event.query.state.data).catch(error => {
+      console.error("Failed to cache response for offline use:", error);
+    });
+  });
+}
+
+// Filter, sort and page a cached list the way the server would
+function listOffline(path: string, search: URLSearchParams, data: unknown): unknown {
+  const params = Object.fromEntries(Array.from(search.entries()));
+  if (path === "/api/snippets") {
+    const query = snippetListQuerySchema.parse(params);
+    const page = listSnippets(data as Snippet[], query);
+    return query.limit === undefined ? page.items : page;
+  }
+  if (path === "/api/clipboard") {
+    const query = clipboardListQuerySchema.parse(params);
+    const page = listClipboardItems(data as ClipboardItem[], query);
+    return query.limit === undefined ? page.items : page;
+  }
+  return data;
+}
+
+// Answer a GET from what was last seen, preferring the in-memory cache since it has queued edits applied
+export async function offlineRead(url: string): Promise<Response | null> {
+  const path = pathOf(url);
+  const userId = currentUserId();
+  if (!userId || !OFFLINE_PATHS.includes(path)) return null;
+  const data = queryClient.getQueryData([path]) ?? await readCachedResponse(userId, path);
+  if (data === undefined) return null;
+  const search = new URLSearchParams(url.split("?")[1] ?? "");
+  return jsonResponse(200, Array.from(search.keys()).length > 0 ? listOffline(path, search, data) : data);
+}
+
+// Placeholder ids are negative so they can never clash with the server's
+function newTempId(): number {
+  return -(Date.now() * 1000 + Math.floor(Math.random() * 1000));
+}
+
+function cachedSnippet(id: number): Snippet | undefined {
+  return queryClient.getQueriesData<Snippet[]>({ queryKey: ["/api/snippets"] })
+    .flatMap(([, snippets]) => Array.isArray(snippets) ? snippets : [])
+    .find(snippet => snippet.id === id);
+}
+
+// The server's updatedAt for a snippet; an earlier queued edit already knows it
+async function baseUpdatedAt(userId: string, id: number): Promise<string | undefined> {
+  const queued = (await getQueue(userId)).find(mutation => mutation.baseUpdatedAt && mutation.url === `/api/snippets/${id}`);
+  if (queued) return queued.baseUpdatedAt;
+  const snippet = cachedSnippet(id);
+  return snippet ? String(snippet.updatedAt) : undefined;
+}
+
+async function rewriteQueue(userId: string, rewrite: (mutation: QueuedMutation) => QueuedMutation | null) {
+  for (const mutation of await getQueue(userId)) {
+    const rewritten = rewrite(mutation);
+    if (!rewritten) await removeQueued(mutation.id!);
+    else if (rewritten !== mutation) await updateQueued(rewritten);
+  }
+}
+
+// Point queued mutations at the real id of an item created on replay
+function replaceTempIdIn(mutation: QueuedMutation, tempId: number, id: number | null): QueuedMutation {
+  const url = mutation.url.replace(new RegExp(`/${tempId}(?=/|\\?|$)`), `/${id}`);
+  const body = mutation.body as Record<string, unknown> | undefined;
+  // Snippets refer to folders through folderId, subfolders through parentId
+  const field = body?.folderId === tempId ? "folderId" : body?.parentId === tempId ? "parentId" : null;
+  if (url === mutation.url && !field) return mutation;
+  return { ...mutation, url, body: field ? { ...body, [field]: id } : body };
+}
+
+// An item that only exists locally is dropped with its queued changes instead of being deleted
+async function discardLocalItem(userId: string, tempId: number) {
+  await rewriteQueue(userId, mutation =>
+    mutation.tempId === tempId || new RegExp(`/${tempId}(?=/|\\?|$)`).test(mutation.url)
+      ? null
+      : replaceTempIdIn(mutation, tempId, null)
+  );
+}
+
+// Bulk moves and deletes (see shared/bulk.ts). Items created offline have no
+// server id to send yet, so actions on them fail as usual.
+function applyBulkOffline(resource: string, body: Record<string, any>, now: string): { response: unknown; queue: boolean } | null {
+  const ids: number[] = Array.isArray(body.ids) ? body.ids : [];
+  if (ids.length === 0 || ids.some(id => id < 0)) return null;
+
+  if (resource === "snippets" && (body.action === "move" || body.action === "delete")) {
+    const snippets = ids.map(cachedSnippet);
+    if (snippets.includes(undefined)) return null;
+    if (body.action === "delete") {
+      ids.forEach(id => applySyncEvent({ type: "snippet.deleted", id }));
+      return { response: { saved: [], deleted: ids }, queue: true };
+    }
+    const saved = (snippets as Snippet[]).map(snippet => ({ ...snippet, folderId: body.folderId ?? null, updatedAt: now }) as unknown as Snippet);
+    saved.forEach(snippet => applySyncEvent({ type: "snippet.saved", snippet }));
+    return { response: { saved, deleted: [] }, queue: true };
+  }
+
+  if (resource === "clipboard" && body.action === "delete") {
+    applySyncEvent({ type: "clipboard.deleted", ids });
+    return { response: { saved: [], deleted: ids }, queue: true };
+  }
+  return null;
+}
+
+// Apply a write to the cache as if the server had accepted it, and build the response it would have sent
+async function applyOffline(mutation: QueuedMutation): Promise<{ response: unknown; queue: boolean } | null> {
+  const { method, userId } = mutation;
+  const path = pathOf(mutation.url);
+  const body = (mutation.body ?? {}) as Record<string, any>;
+  const now = new Date().toISOString();
+  const [, , resource, rawId, action, ...rest] = path.split("/");
+  if (method === "POST" && rawId === "bulk" && action === undefined) return applyBulkOffline(resource, body, now);
+  const id = rawId !== undefined ? Number(rawId) : undefined;
+  if (rawId !== undefined && Number.isNaN(id)) return null;
+  // Of the routes below an item, only moving a folder works offline
+  if (rest.length > 0 || (action !== undefined && !(resource === "folders" && action === "move"))) return null;
+  const isLocal = id !== undefined && id < 0;
+
+  if (resource === "snippets") {
+    if (method === "POST" && id === undefined) {
+      mutation.tempId = newTempId();
+      const snippet = {
+        hotkey: null,
+        abbreviation: null,
+        description: null,
+        folderId: null,
+        tags: [],
+        sortOrder: 0,
+        ...body,
+        id: mutation.tempId,
+        userId,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      } as unknown as Snippet;
+      applySyncEvent({ type: "snippet.saved", snippet });
+      return { response: snippet, queue: true };
+    }
+    if (method === "PUT" && id !== undefined) {
+      const existing = cachedSnippet(id);
+      if (!existing) return null;
+      if (!isLocal) mutation.baseUpdatedAt = await baseUpdatedAt(userId, id);
+      const snippet = { ...existing, ...body, updatedAt: now } as unknown as Snippet;
+      applySyncEvent({ type: "snippet.saved", snippet });
+      return { response: snippet, queue: true };
+    }
+    if (method === "DELETE" && id !== undefined) {
+      if (isLocal) await discardLocalItem(userId, id);
+      else mutation.baseUpdatedAt = await baseUpdatedAt(userId, id);
+      applySyncEvent({ type: "snippet.deleted", id });
+      return { response: { message: "Snippet moved to trash" }, queue: !isLocal };
+    }
+  }
+
+  if (resource === "folders") {
+    if (method === "POST" && id === undefined) {
+      mutation.tempId = newTempId();
+      const folder = {
+        id: mutation.tempId,
+        name: body.name,
+        userId,
+        parentId: body.parentId ?? null,
+        sortOrder: 0,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      } as unknown as Folder;
+      applySyncEvent({ type: "folder.saved", folder });
+      return { response: folder, queue: true };
+    }
+    if (((method === "PUT" && action === undefined) || (method === "PATCH" && action === "move")) && id !== undefined) {
+      const existing = queryClient.getQueryData<Folder[]>(["/api/folders"])?.find(folder => folder.id === id);
+      if (!existing) return null;
+      const folder = (action === "move"
+        ? { ...existing, parentId: body.parentId ?? null, updatedAt: now }
+        : { ...existing, name: body.name, updatedAt: now }) as unknown as Folder;
+      applySyncEvent({ type: "folder.saved", folder });
+      return { response: folder, queue: true };
+    }
+    if (method === "DELETE" && id !== undefined && action === undefined) {
+      if (isLocal) await discardLocalItem(userId, id);
+      applySyncEvent({ type: "folder.deleted", id });
+      return { response: { success: true }, queue: !isLocal };
+    }
+  }
+
+  if (resource === "clipboard") {
+    if (method === "POST" && id === undefined) {
+      mutation.tempId = newTempId();
+      const item = { ...body, id: mutation.tempId, userId, createdAt: now, deletedAt: null } as unknown as ClipboardItem;
+      applySyncEvent({ type: "clipboard.saved", item });
+      return { response: item, queue: true };
+    }
+    if (method === "DELETE" && id !== undefined) {
+      if (isLocal) await discardLocalItem(userId, id);
+      applySyncEvent({ type: "clipboard.deleted", ids: [id] });
+      return { response: { message: "Clipboard item moved to trash" }, queue: !isLocal };
+    }
+    if (method === "DELETE" && id === undefined) {
+      const ids = (queryClient.getQueryData<ClipboardItem[]>(["/api/clipboard"]) ?? []).map(item => item.id);
+      applySyncEvent({ type: "clipboard.deleted", ids });
+      return { response: { message: "Clipboard history moved to trash", ids: ids.filter(itemId => itemId > 0) }, queue: true };
+    }
+  }
+
+  if (resource === "settings" && method === "PUT" && id === undefined) {
+    const existing = queryClient.getQueryData<Settings>(["/api/settings"]);
+    if (!existing) return null;
+    const settings = { ...existing, ...body } as Settings;
+    applySyncEvent({ type: "settings.saved", settings });
+    return { response: settings, queue: true };
+  }
+
+  return null;
+}
+
+// Queue a write made while the server is unreachable. Returns null for writes
+// that cannot be made offline, which then fail as usual.
+export async function queueMutation(method: string, url: string, body: unknown): Promise<Response | null> {
+  const userId = currentUserId();
+  if (!userId) return null;
+  const mutation: QueuedMutation = { userId, method, url, body, queuedAt: new Date().toISOString() };
+  const result = await applyOffline(mutation);
+  if (!result) return null;
+  if (result.queue) await addToQueue(mutation);
+  notifyChanged();
+  return jsonResponse(202, result.response);
+}
+
+// Swap the placeholder of an item created offline for the one the server returned
+function replaceLocalItem(path: string, tempId: number, created: any) {
+  if (path === "/api/snippets") {
+    applySyncEvent({ type: "snippet.deleted", id: tempId });
+    applySyncEvent({ type: "snippet.saved", snippet: created });
+  } else if (path === "/api/folders") {
+    queryClient.setQueryData<Folder[]>(["/api/folders"], folders =>
+      folders?.map(folder =>
+        folder.id === tempId ? created : folder.parentId === tempId ? { ...folder, parentId: created.id } : folder
+      )
+    );
+    queryClient.setQueriesData<Snippet[]>({ queryKey: ["/api/snippets"] }, snippets =>
+      Array.isArray(snippets)
+        ? snippets.map(snippet => snippet.folderId === tempId ? { ...snippet, folderId: created.id } : snippet)
+        : snippets
+    );
+  } else if (path === "/api/clipboard") {
+    applySyncEvent({ type: "clipboard.deleted", ids: [tempId] });
+    applySyncEvent({ type: "clipboard.saved", item: created });
+  }
+}
+
+async function sendQueued(mutation: QueuedMutation): Promise<Response> {
+  const headers: Record<string, string> = { ...authHeaders() };
+  if (mutation.body !== undefined) headers["Content-Type"] = "application/json";
+  if (mutation.baseUpdatedAt) headers["x-base-updated-at"] = mutation.baseUpdatedAt;
+  return fetch(mutation.url, {
+    method: mutation.method,
+    headers,
+    body: mutation.body !== undefined ? JSON.stringify(mutation.body) : undefined,
+    credentials: "include",
+  });
+}
+
+// Send queued mutations in order until the queue is empty or the server is unreachable.
+// Mutations the server turns down become conflicts for the user to resolve.
+async function drainQueue(userId: string) {
+  let replayed = 0;
+  try {
+    for (;;) {
+      const [mutation] = await getQueue(userId);
+      if (!mutation) {
+        LocalStorage.set(STORAGE_KEYS.LAST_SYNCED_AT, new Date().toISOString());
+        break;
+      }
+
+      let res: Response;
+      try {
+        res = await sendQueued(mutation);
+      } catch (error) {
+        if (isNetworkError(error)) break;
+        throw error;
+      }
+      // Leave the queue for after the user has logged in again
+      if (res.status === 401) break;
+
+      if (res.ok) {
+        if (mutation.tempId !== undefined) {
+          const created = await res.json();
+          replaceLocalItem(pathOf(mutation.url), mutation.tempId, created);
+          await rewriteQueue(userId, queued => replaceTempIdIn(queued, mutation.tempId!, created.id));
+        }
+      } else {
+        const data = await res.json().catch(() => ({}));
+        await addConflict({
+          userId,
+          mutation,
+          message: data.message || res.statusText,
+          serverSnippet: res.status === 409 ? data.snippet : undefined,
+        });
+      }
+      await removeQueued(mutation.id!);
+      replayed++;
+    }
+  } finally {
+    if (replayed > 0) {
+      ["/api/snippets", "/api/tags", "/api/folders", "/api/clipboard", "/api/settings"].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+      notifyChanged();
+    }
+  }
+}
+
+let replaying: Promise<void> | null = null;
+
+export function replayQueue(): Promise<void> {
+  const userId = currentUserId();
+  if (!userId) return Promise.resolve();
+  if (!replaying) {
+    replaying = drainQueue(userId).finally(() => { replaying = null; });
+  }
+  return replaying;
+}
+
+export async function getOfflineStatus(): Promise<OfflineStatus> {
+  const userId = currentUserId();
+  const lastSyncedAt = LocalStorage.get<string | null>(STORAGE_KEYS.LAST_SYNCED_AT, null);
+  if (!userId) return { pending: 0, conflicts: [], lastSyncedAt };
+  const [queue, conflicts] = await Promise.all([getQueue(userId), getConflicts(userId)]);
+  return { pending: queue.length, conflicts, lastSyncedAt };
+}
+
+// Settle a conflict: "mine" sends the offline change again without the
+// conflict check, "theirs" drops it and keeps the server's version
+export async function resolveConflict(conflict: SyncConflict, keep: "mine" | "theirs") {
+  await removeConflict(conflict.id!);
+  if (keep === "mine") {
+    const { id: _id, baseUpdatedAt: _base, ...mutation } = conflict.mutation;
+    await addToQueue({ ...mutation, queuedAt: new Date().toISOString() });
+    await replayQueue();
+  } else {
+    if (conflict.serverSnippet) {
+      applySyncEvent({ type: "snippet.saved", snippet: conflict.serverSnippet });
+    }
+    queryClient.invalidateQueries({ queryKey: [pathOf(conflict.mutation.url).split("/").slice(0, 3).join("/")] });
+  }
+  notifyChanged();
+}
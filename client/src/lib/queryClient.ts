@@ -1,4 +1,8 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { isNetworkError, offlineRead, queueMutation } from "./offline";
+
+// Dispatched on window when the server no longer accepts the stored credentials
+export const AUTH_REQUIRED_EVENT = "snipclip:auth-required";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,43 +11,64 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Errors thrown by apiRequest read `<status>: <body>`; pull out the server's message when there is one
+export function apiErrorMessage(error: Error, fallback: string): string {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// Session token if available, otherwise fall back to userKey
+export function authHeaders(): Record<string, string> {
+  const sessionToken = localStorage.getItem("sessionToken");
+  const userKey = localStorage.getItem("userKey");
+  if (sessionToken) return { "x-session-token": sessionToken };
+  if (userKey) return { "x-user-id": userKey };
+  return {};
+}
+
+// Clear invalid credentials and let the app show the login again
+export function signOutLocally() {
+  localStorage.removeItem("sessionToken");
+  localStorage.removeItem("userKey");
+  window.dispatchEvent(new Event(AUTH_REQUIRED_EVENT));
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const sessionToken = localStorage.getItem("sessionToken");
-  const userKey = localStorage.getItem("userKey");
-  
   const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
-  
-  // Use session token if available, otherwise fall back to userKey
-  if (sessionToken) {
-    headers["x-session-token"] = sessionToken;
-  } else if (userKey) {
-    headers["x-user-id"] = userKey;
+  Object.assign(headers, authHeaders());
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers,
+      body: data ? JSON.stringify(data) : undefined,
+      credentials: "include",
+    });
+  } catch (error) {
+    // The server is unreachable: answer from the offline cache, or queue the change for later
+    if (!isNetworkError(error)) throw error;
+    const offline = method === "GET" ? await offlineRead(url) : await queueMutation(method, url, data);
+    if (!offline) throw error;
+    return offline;
   }
-  
-  const res = await fetch(url, {
-    method,
-    headers,
-    body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
-  });
 
   // Handle authentication errors gracefully
   if (res.status === 401) {
-    // Clear invalid credentials
-    localStorage.removeItem("sessionToken");
-    localStorage.removeItem("userKey");
-    
     // If this is a login request, don't throw
     if (url.includes("/api/auth/login")) {
       return res;
     }
-    
-    // For other requests, redirect to login or show login modal
-    window.location.reload();
+
+    signOutLocally();
     throw new Error("Authentication required");
   }
 
@@ -57,34 +82,27 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const sessionToken = localStorage.getItem("sessionToken");
-    const userKey = localStorage.getItem("userKey");
-    
-    const headers: Record<string, string> = {};
-    
-    // Use session token if available, otherwise fall back to userKey
-    if (sessionToken) {
-      headers["x-session-token"] = sessionToken;
-    } else if (userKey) {
-      headers["x-user-id"] = userKey;
+    const url = queryKey[0] as string;
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        credentials: "include",
+        headers: authHeaders(),
+      });
+    } catch (error) {
+      const offline = isNetworkError(error) ? await offlineRead(url) : null;
+      if (!offline) throw error;
+      res = offline;
     }
-    
-    const res = await fetch(queryKey[0] as string, {
-      credentials: "include",
-      headers,
-    });
 
     if (res.status === 401) {
-      // Clear invalid credentials
-      localStorage.removeItem("sessionToken");
-      localStorage.removeItem("userKey");
-      
       if (unauthorizedBehavior === "returnNull") {
+        localStorage.removeItem("sessionToken");
+        localStorage.removeItem("userKey");
         return null;
       }
-      
-      // For throw behavior, reload the page to show login
-      window.location.reload();
+
+      signOutLocally();
       throw new Error("Authentication required");
     }
 
@@ -0,0 +1,108 @@
+import { hotkeyFromEvent, parseShortcut } from "@shared/hotkeys";
+
+// The registry of everything bound to the keyboard: the app's actions from the
+// shortcut settings and the snippets' hotkeys alike. Features register their
+// bindings here and a single keydown listener mounted in App dispatches them,
+// so chords work the same everywhere and the cheat sheet can list them all.
+
+export interface ShortcutBinding {
+  // Normalized, possibly a chord: "ctrl+k ctrl+s"
+  shortcut: string;
+  label: string;
+  // The cheat sheet section it is listed under
+  group: string;
+  run: () => void;
+  // Snippet hotkeys stay out of the way while typing; the app's shortcuts do not
+  inTextFields?: boolean;
+}
+
+type Listener = (bindings: ShortcutBinding[]) => void;
+
+// Dispatched (cancelable) on window by the search shortcut; a page with its own
+// snippet search focuses it and cancels the event, otherwise the overlay opens
+export const FOCUS_SNIPPET_SEARCH_EVENT = "focus-snippet-search";
+
+// How long the next step of a chord is waited for
+const CHORD_TIMEOUT_MS = 1500;
+
+let bindings: ShortcutBinding[] = [];
+const listeners: Listener[] = [];
+
+function setBindings(next: ShortcutBinding[]) {
+  bindings = next;
+  listeners.forEach(listener => listener(bindings));
+}
+
+// Bind shortcuts until the returned function is called
+export function registerShortcuts(added: ShortcutBinding[]): () => void {
+  setBindings([...bindings, ...added]);
+  return () => setBindings(bindings.filter(binding => !added.includes(binding)));
+}
+
+export function subscribeShortcuts(listener: Listener): () => void {
+  listeners.push(listener);
+  listener(bindings);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+// Start dispatching keystrokes under `root` to the registered bindings. Returns
+// a function that stops it.
+export function attachShortcuts(root: Document | HTMLElement): () => void {
+  let pending: string[] = [];
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const reset = () => {
+    pending = [];
+    clearTimeout(timer);
+  };
+
+  // Bindings whose shortcut starts with the given steps
+  const matching = (steps: string[], typing: boolean) =>
+    bindings
+      .filter(binding => !typing || binding.inTextFields)
+      .map(binding => ({ binding, steps: parseShortcut(binding.shortcut) ?? [] }))
+      .filter(entry => steps.every((step, index) => entry.steps[index] === step));
+
+  const handleKeyDown = (event: Event) => {
+    const keyEvent = event as KeyboardEvent;
+    // Shortcut recorders and other fields that took the key come first
+    if (keyEvent.defaultPrevented || keyEvent.repeat) return;
+    const hotkey = hotkeyFromEvent(keyEvent);
+    if (!hotkey) return;
+    const typing = isTextField(keyEvent.target);
+
+    let steps = [...pending, hotkey];
+    let matches = matching(steps, typing);
+    // A key that does not continue the chord may start a new one
+    if (matches.length === 0 && pending.length > 0) {
+      steps = [hotkey];
+      matches = matching(steps, typing);
+    }
+    reset();
+    if (matches.length === 0) return;
+
+    keyEvent.preventDefault();
+    keyEvent.stopPropagation();
+    // The latest registered wins, so an overlay's bindings take over from the page under it
+    const complete = matches.reverse().find(entry => entry.steps.length === steps.length);
+    if (complete) {
+      complete.binding.run();
+    } else {
+      pending = steps;
+      timer = setTimeout(reset, CHORD_TIMEOUT_MS);
+    }
+  };
+
+  root.addEventListener("keydown", handleKeyDown);
+  return () => {
+    reset();
+    root.removeEventListener("keydown", handleKeyDown);
+  };
+}
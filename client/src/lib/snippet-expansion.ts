@@ -0,0 +1,84 @@
+import {
+  expandTemplate,
+  getTemplateFields,
+  usesClipboard,
+  type ExpandedTemplate,
+  type TemplateField,
+} from "@shared/templates";
+import { readFromClipboard } from "./clipboard";
+import { apiRequest } from "./queryClient";
+
+export interface TemplatePromptRequest {
+  title: string;
+  fields: TemplateField[];
+  resolve: (values: Record<string, string> | null) => void;
+}
+
+type Listener = (request: TemplatePromptRequest | null) => void;
+
+// Only one prompt can be open at a time; the dialog mounted in App listens here
+let pendingRequest: TemplatePromptRequest | null = null;
+const listeners: Listener[] = [];
+
+function setPendingRequest(request: TemplatePromptRequest | null) {
+  pendingRequest = request;
+  listeners.forEach(listener => listener(pendingRequest));
+}
+
+export function subscribeTemplatePrompt(listener: Listener): () => void {
+  listeners.push(listener);
+  listener(pendingRequest);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+// Ask the user for field values; resolves to null when the prompt is cancelled
+export function promptTemplateFields(title: string, fields: TemplateField[]): Promise<Record<string, string> | null> {
+  // A newer prompt replaces one that is still open
+  pendingRequest?.resolve(null);
+
+  return new Promise(resolve => {
+    setPendingRequest({
+      title,
+      fields,
+      resolve: (values) => {
+        setPendingRequest(null);
+        resolve(values);
+      },
+    });
+  });
+}
+
+// Counted for sorting snippets by most used. Snippets created offline have no
+// server id yet, and a use that can't be sent is not worth queueing.
+function recordSnippetUse(id: number) {
+  if (id < 0) return;
+  apiRequest("POST", `/api/snippets/${id}/use`).catch(() => undefined);
+}
+
+// Expand a snippet's placeholders, prompting for named fields when needed, and
+// count the use. Returns null if the user cancelled the prompt.
+export async function expandSnippet(snippet: { id?: number; title: string; content: string }): Promise<ExpandedTemplate | null> {
+  const fields = getTemplateFields(snippet.content);
+  let values: Record<string, string> = {};
+  if (fields.length > 0) {
+    const result = await promptTemplateFields(snippet.title, fields);
+    if (!result) return null;
+    values = result;
+  }
+
+  let clipboard = "";
+  if (usesClipboard(snippet.content)) {
+    try {
+      clipboard = await readFromClipboard();
+    } catch (error) {
+      // Clipboard read permission denied; expand {{clipboard}} to nothing
+    }
+  }
+
+  const expanded = expandTemplate(snippet.content, { fields: values, clipboard });
+  if (snippet.id !== undefined) recordSnippetUse(snippet.id);
+  return expanded;
+}
@@ -41,4 +41,7 @@ export const STORAGE_KEYS = {
   SNIPPETS: "snipclip_snippets",
   CLIPBOARD_HISTORY: "snipclip_clipboard_history",
   LAST_CLIPBOARD_CONTENT: "snipclip_last_clipboard",
+  // IndexedDB database holding cached responses and the offline mutation queue
+  OFFLINE_DB: "snipclip_offline",
+  LAST_SYNCED_AT: "snipclip_last_synced_at",
 } as const;
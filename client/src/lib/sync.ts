@@ -0,0 +1,164 @@
+import { queryClient, signOutLocally } from "./queryClient";
+import { replayQueue } from "./offline";
+import {
+  SYNC_PATH,
+  SYNC_CLOSE_UNAUTHORIZED,
+  SYNC_CLOSE_SIGNED_OUT,
+  type SyncEvent,
+  type SyncServerMessage,
+} from "@shared/sync";
+import { descendantFolderIds } from "@shared/folders";
+import type { Snippet, ClipboardItem, Folder, Settings } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function newestFirst<T>(field: keyof T) {
+  return (a: T, b: T) => new Date(b[field] as any).getTime() - new Date(a[field] as any).getTime();
+}
+
+function upsert<T extends { id: number }>(items: T[], item: T): T[] {
+  return items.some(existing => existing.id === item.id)
+    ? items.map(existing => existing.id === item.id ? item : existing)
+    : [...items, item];
+}
+
+function invalidate(...keys: string[]) {
+  keys.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+}
+
+function updateSnippetLists(update: (snippets: Snippet[]) => Snippet[]) {
+  queryClient.setQueriesData<Snippet[]>({ queryKey: ["/api/snippets"] }, snippets =>
+    Array.isArray(snippets) ? update(snippets) : snippets
+  );
+}
+
+// Paged lists, cached under [path, params], are sorted and filtered by the
+// server; they are refetched rather than patched
+function invalidatePagedLists(path: string) {
+  queryClient.invalidateQueries({ queryKey: [path], predicate: query => query.queryKey.length > 1 });
+}
+
+// Apply a change made elsewhere to the cached queries, without refetching them
+export function applySyncEvent(event: SyncEvent) {
+  switch (event.type) {
+    case "snippet.saved":
+      updateSnippetLists(snippets => upsert(snippets, event.snippet).sort(newestFirst("updatedAt")));
+      invalidatePagedLists("/api/snippets");
+      invalidate(`/api/snippets/${event.snippet.id}/revisions`, "/api/tags", "/api/search", "/api/trash");
+      break;
+    case "snippet.deleted":
+      updateSnippetLists(snippets => snippets.filter(snippet => snippet.id !== event.id));
+      invalidatePagedLists("/api/snippets");
+      invalidate("/api/tags", "/api/search", "/api/trash");
+      break;
+    case "folder.saved":
+      queryClient.setQueryData<Folder[]>(["/api/folders"], folders => folders && upsert(folders, event.folder));
+      break;
+    case "folder.deleted": {
+      // Subfolders go to the trash along with the folder,
+      const cached = queryClient.getQueryData<Folder[]>(["/api/folders"]) ?? [];
+      const ids = new Set([event.id, ...descendantFolderIds(cached, event.id)]);
+      queryClient.setQueryData<Folder[]>(["/api/folders"], folders => folders?.filter(folder => !ids.has(folder.id)));
+      // and so do their snippets
+      updateSnippetLists(snippets => snippets.filter(snippet => snippet.folderId == null || !ids.has(snippet.folderId)));
+      invalidatePagedLists("/api/snippets");
+      invalidate("/api/tags", "/api/search", "/api/trash");
+      break;
+    }
+    case "clipboard.saved": {
+      // The server prunes the history the same way when it saves an item,
+      // leaving pinned items alone and listing them first
+      const settings = queryClient.getQueryData<Settings>(["/api/settings"]);
+      const cutoff = settings?.clipboardRetentionDays ? Date.now() - settings.clipboardRetentionDays * DAY_MS : 0;
+      queryClient.setQueryData<ClipboardItem[]>(["/api/clipboard"], items => {
+        if (!items) return items;
+        const updated = upsert(items, event.item).sort(newestFirst("createdAt"));
+        const unpinned = updated
+          .filter(item => !item.pinned && new Date(item.createdAt).getTime() >= cutoff);
+        return [
+          ...updated.filter(item => item.pinned),
+          ...(settings?.historyLimit ? unpinned.slice(0, settings.historyLimit) : unpinned),
+        ];
+      });
+      invalidatePagedLists("/api/clipboard");
+      invalidate("/api/search");
+      break;
+    }
+    case "clipboard.deleted": {
+      const ids = new Set(event.ids);
+      queryClient.setQueryData<ClipboardItem[]>(["/api/clipboard"], items => items?.filter(item => !ids.has(item.id)));
+      invalidatePagedLists("/api/clipboard");
+      invalidate("/api/search", "/api/trash");
+      break;
+    }
+    case "settings.saved":
+      queryClient.setQueryData(["/api/settings"], event.settings);
+      break;
+    case "invalidate":
+      invalidate(...event.keys);
+      break;
+  }
+}
+
+// Keep a sync connection open, reconnecting with backoff when it drops.
+// Returns a function that closes it for good.
+export function startSync(): () => void {
+  let socket: WebSocket | null = null;
+  let stopped = false;
+  let attempts = 0;
+  let connectedBefore = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    socket = new WebSocket(`${protocol}//${window.location.host}${SYNC_PATH}`);
+
+    socket.onopen = () => {
+      socket?.send(JSON.stringify({
+        type: "hello",
+        sessionToken: localStorage.getItem("sessionToken") ?? undefined,
+        userId: localStorage.getItem("userKey") ?? undefined,
+      }));
+    };
+
+    socket.onmessage = (message) => {
+      let data: SyncServerMessage;
+      try {
+        data = JSON.parse(message.data);
+      } catch {
+        return;
+      }
+      if (data.type === "ready") {
+        attempts = 0;
+        // Changes made while we were disconnected were never pushed
+        if (connectedBefore) invalidate("/api/snippets", "/api/folders", "/api/clipboard", "/api/settings");
+        connectedBefore = true;
+        // Back in touch with the server; send what was changed offline
+        replayQueue().catch(error => console.error("Failed to replay offline changes:", error));
+        return;
+      }
+      applySyncEvent(data);
+    };
+
+    socket.onclose = (event) => {
+      socket = null;
+      if (stopped) return;
+      if (event.code === SYNC_CLOSE_UNAUTHORIZED || event.code === SYNC_CLOSE_SIGNED_OUT) {
+        // The session ended, e.g. it was signed out from another device; show the login like a 401 does
+        signOutLocally();
+        return;
+      }
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts++);
+      reconnectTimer = setTimeout(connect, delay);
+    };
+  };
+
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+}
@@ -0,0 +1,98 @@
+import { matchAbbreviation } from "@shared/abbreviations";
+import type { ExpandedTemplate } from "@shared/templates";
+
+// Expands typed abbreviations in inputs, textareas and contenteditable elements.
+// It depends on nothing but the DOM and the shared matching rules, so a browser
+// extension can attach it to any page with its own snippet source.
+
+export interface ExpandableSnippet {
+  abbreviation?: string | null;
+}
+
+export interface TextExpanderOptions<T extends ExpandableSnippet> {
+  // Read on every keystroke, so it should return a list that is already at hand
+  getSnippets: () => T[];
+  // Resolves to null when the expansion was cancelled, e.g. a field prompt closed
+  expand: (snippet: T) => Promise<ExpandedTemplate | null>;
+}
+
+// Fields inside an element with this attribute are left alone, e.g. the
+// abbreviation input of the snippet editor
+export const NO_EXPANSION_ATTRIBUTE = "data-no-expansion";
+
+const TEXT_INPUT_TYPES = new Set(["text", "search", "email", "url", "tel", ""]);
+
+type TextField = HTMLInputElement | HTMLTextAreaElement;
+
+function isTextField(target: EventTarget | null): target is TextField {
+  if (target instanceof HTMLTextAreaElement) return true;
+  return target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type);
+}
+
+// Replace the abbreviation before the caret, if it is still there once the
+// expansion resolved, and put the caret at {{cursor}} or after the text
+function replaceInField(field: TextField, abbreviation: string, caret: number, expanded: ExpandedTemplate) {
+  const start = caret - abbreviation.length;
+  if (field.value.slice(start, caret) !== abbreviation) return;
+  field.setRangeText(expanded.text, start, caret, "end");
+  const offset = start + (expanded.cursorOffset ?? expanded.text.length);
+  field.setSelectionRange(offset, offset);
+  // setRangeText does not go through the value setter, so frameworks that
+  // track the value (React) see this as a change
+  field.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+function replaceInEditable(node: Text, abbreviation: string, caret: number, expanded: ExpandedTemplate) {
+  const start = caret - abbreviation.length;
+  if (!node.isConnected || node.data.slice(start, caret) !== abbreviation) return;
+  node.replaceData(start, abbreviation.length, expanded.text);
+  const selection = node.ownerDocument.getSelection();
+  if (selection) {
+    const offset = start + (expanded.cursorOffset ?? expanded.text.length);
+    selection.collapse(node, offset);
+  }
+  node.parentElement?.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+// Start expanding abbreviations typed anywhere under `root`. Returns a function
+// that stops it.
+export function attachTextExpander<T extends ExpandableSnippet>(
+  root: Document | HTMLElement,
+  options: TextExpanderOptions<T>,
+): () => void {
+  const handleInput = (event: Event) => {
+    const { inputType, isComposing } = event as InputEvent;
+    // Only typing expands; pasting, deleting and our own replacements do not
+    if (inputType !== "insertText" || isComposing) return;
+    const target = event.target as HTMLElement | null;
+    if (!target || target.closest(`[${NO_EXPANSION_ATTRIBUTE}]`)) return;
+
+    if (isTextField(target)) {
+      const caret = target.selectionStart;
+      if (caret === null || caret !== target.selectionEnd) return;
+      const match = matchAbbreviation(target.value.slice(0, caret), options.getSnippets());
+      if (!match) return;
+      const abbreviation = match.snippet.abbreviation!;
+      options.expand(match.snippet).then(expanded => {
+        if (expanded) replaceInField(target, abbreviation, caret, expanded);
+      }).catch(error => console.error("Failed to expand abbreviation:", error));
+      return;
+    }
+
+    if (target.isContentEditable) {
+      const selection = target.ownerDocument.getSelection();
+      const node = selection?.focusNode;
+      if (!selection || !selection.isCollapsed || !(node instanceof Text)) return;
+      const caret = selection.focusOffset;
+      const match = matchAbbreviation(node.data.slice(0, caret), options.getSnippets());
+      if (!match) return;
+      const abbreviation = match.snippet.abbreviation!;
+      options.expand(match.snippet).then(expanded => {
+        if (expanded) replaceInEditable(node, abbreviation, caret, expanded);
+      }).catch(error => console.error("Failed to expand abbreviation:", error));
+    }
+  };
+
+  root.addEventListener("input", handleInput, true);
+  return () => root.removeEventListener("input", handleInput, true);
+}
@@ -14,6 +14,7 @@ import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts";
 import { useClipboardMonitor } from "@/hooks/use-clipboard-monitor";
 import { apiRequest } from "@/lib/queryClient";
 import type { Snippet, ClipboardItem, Settings } from "@shared/schema";
+import { formatShortcut } from "@shared/hotkeys";
 import { Link } from "wouter";
 
 export default function Dashboard() {
@@ -56,7 +57,14 @@ export default function Dashboard() {
 
 
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    // End the session on the server too, so the token cannot be reused
+    try {
+      await apiRequest("POST", "/api/auth/logout");
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+    
     // Clear localStorage
     localStorage.removeItem("sessionToken");
     localStorage.removeItem("userKey");
@@ -178,7 +186,7 @@ export default function Dashboard() {
                   <Code className="w-6 h-6 text-white" />
                 </div>
                 <Badge variant="secondary" className="text-xs font-medium">
-                  {settings?.snippetShortcut || "alt+enter"}
+                  {settings && (formatShortcut(settings.snippetShortcut) || "No shortcut")}
                 </Badge>
               </div>
               <h3 className="text-lg font-semibold text-slate-900 mb-2">Quick Snippets</h3>
@@ -199,7 +207,7 @@ export default function Dashboard() {
                   <ClipboardList className="w-6 h-6 text-white" />
                 </div>
                 <Badge variant="secondary" className="text-xs font-medium">
-                  {settings?.clipboardShortcut || "ctrl+alt+enter"}
+                  {settings && (formatShortcut(settings.clipboardShortcut) || "No shortcut")}
                 </Badge>
               </div>
               <h3 className="text-lg font-semibold text-slate-900 mb-2">Clipboard History</h3>
@@ -0,0 +1,128 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, Copy, Folder } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { copyToClipboard } from "@/lib/clipboard";
+import type { SharedContent, SharedSnippet } from "@shared/schema";
+
+interface SharedPageProps {
+  token: string;
+}
+
+// Fetched without the viewer's credentials or the offline cache: the link is
+// all it takes, and each fetch counts as a view
+async function fetchShared(token: string): Promise<SharedContent> {
+  const res = await fetch(`/api/shared/${encodeURIComponent(token)}`);
+  if (!res.ok) throw new Error(`${res.status}`);
+  return res.json();
+}
+
+function SharedSnippetCard({ snippet }: { snippet: SharedSnippet }) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await copyToClipboard(snippet.content);
+      toast({ title: "Copied", description: `"${snippet.title}" copied to the clipboard.` });
+    } catch (error) {
+      toast({ title: "Error", description: "Failed to copy content.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="rounded-2xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="min-w-0">
+          <CardTitle className="text-lg text-gray-900 break-words">{snippet.title}</CardTitle>
+          {snippet.description && <p className="text-sm text-gray-500 mt-1">{snippet.description}</p>}
+          {snippet.tags && snippet.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {snippet.tags.map(tag => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">#{tag}</span>
+              ))}
+            </div>
+          )}
+        </div>
+        <Button variant="outline" onClick={handleCopy} className="flex items-center gap-2 rounded-xl flex-shrink-0">
+          <Copy className="h-4 w-4" />
+          Copy
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <pre className="whitespace-pre-wrap break-words rounded-xl bg-gray-50 border border-gray-200 p-4 text-sm font-mono text-gray-800">
+          {snippet.content}
+        </pre>
+      </CardContent>
+    </Card>
+  );
+}
+
+// The public, read-only page a share link opens (/s/:token); shown whether or
+// not the viewer is signed in
+export default function SharedPage({ token }: SharedPageProps) {
+  const { data, isLoading, isError } = useQuery<SharedContent>({
+    queryKey: ["/api/shared", token],
+    queryFn: () => fetchShared(token),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Link unavailable</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">
+              This share link has expired, reached its view limit or been revoked. Ask whoever sent it for a new one.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // Snippets of a shared folder, grouped by the subfolder they are in
+  const groups = data.type === "folder"
+    ? Array.from(new Set(data.snippets.map(snippet => snippet.folder)))
+        .sort()
+        .map(folder => ({ folder, snippets: data.snippets.filter(snippet => snippet.folder === folder) }))
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        {data.type === "snippet" ? (
+          <SharedSnippetCard snippet={data.snippet} />
+        ) : (
+          <>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+              <Folder className="h-6 w-6 text-blue-600" />
+              {data.name}
+            </h1>
+            {data.snippets.length === 0 && <p className="text-sm text-gray-500">This folder has no snippets.</p>}
+            {groups.map(({ folder, snippets }) => (
+              <section key={folder} className="space-y-4">
+                {folder && <h2 className="text-lg font-semibold text-gray-700">{folder}</h2>}
+                {snippets.map((snippet, index) => (
+                  <SharedSnippetCard key={index} snippet={snippet} />
+                ))}
+              </section>
+            ))}
+          </>
+        )}
+        <p className="text-center text-xs text-gray-400">Shared read-only from SnipClip</p>
+      </div>
+    </div>
+  );
+}
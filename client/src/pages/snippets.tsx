@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -18,91 +18,54 @@ import {
   Settings,
   ChevronDown,
   ChevronRight,
-  Save
+  Save,
+  CopyPlus,
+  Tag,
+  Share2,
+  X
 } from "lucide-react";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, apiErrorMessage, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { copyToClipboard } from "@/lib/clipboard";
+import { expandSnippet } from "@/lib/snippet-expansion";
+import { FOCUS_SNIPPET_SEARCH_EVENT } from "@/lib/shortcuts";
+import { useSearch } from "@/hooks/use-search";
+import { useInfiniteList, updateListItems } from "@/hooks/use-infinite-list";
+import { useMultiSelect } from "@/hooks/use-multi-select";
+import HighlightedText from "@/components/highlighted-text";
 import SnippetEditor from "@/components/snippet-editor";
+import TagInput from "@/components/tag-input";
 import FolderCreationModal from "@/components/folder-creation-modal";
 import FolderRenameModal from "@/components/folder-rename-modal";
-import type { Snippet } from "@shared/schema";
+import TrashView from "@/components/trash-view";
+import FolderTree, { SNIPPET_DRAG_TYPE } from "@/components/folder-tree";
+import ShareLinkDialog, { type ShareTarget } from "@/components/share-link-dialog";
+import type { Snippet, Folder as FolderRecord, Settings as SettingsRecord, SnippetSortMode, TagSummary } from "@shared/schema";
+import { parseTagQuery, normalizeTags, hasAllTags } from "@shared/tags";
+import { descendantFolderIds, folderAncestors, folderPath } from "@shared/folders";
+import { SNIPPET_SORT_FOR_MODE, type SnippetCounts } from "@shared/listing";
+import type { BulkResult, SnippetBulkAction } from "@shared/bulk";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 
-// Helper: Render the folder list
-function FolderList({ folders, selectedId, onSelect, onRename, onDelete, onCreateFolder }:{ folders: { id: number|null, name: string }[], selectedId: number|null, onSelect: (id: number|null) => void, onRename: (id: number|null, name: string) => void, onDelete: (id: number|null) => void, onCreateFolder: () => void }) {
-  return (
-    <ul className="space-y-1">
-      {folders.map(folder => {
-        const isGeneralFolder = folder.name === "General";
-        const isSelected = selectedId === folder.id;
-        
-        return (
-          <li key={folder.id ?? 'general'}>
-            <div className={`flex items-center gap-1 cursor-pointer rounded-lg px-3 py-2 transition-all duration-150 ${
-              isSelected 
-                ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-md' 
-                : 'hover:bg-blue-50 text-gray-700 hover:text-gray-900'
-            }`}
-                 onClick={() => onSelect(folder.id)}>
-              <Folder className={`h-4 w-4 mr-2 ${isGeneralFolder ? 'text-blue-500' : 'text-purple-500'}`} />
-              <span className="truncate flex-1 font-medium">{folder.name}</span>
-              
-              {/* Only show action buttons if not General folder */}
-              {!isGeneralFolder && (
-                <>
-                  <Button 
-                    size="icon" 
-                    variant="ghost" 
-                    className={`${isSelected ? 'text-white hover:bg-blue-600' : 'text-blue-600 hover:text-blue-800'}`} 
-                    onClick={e => { e.stopPropagation(); onRename(folder.id, folder.name); }}
-                    title="Rename folder"
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
-                  <Button 
-                    size="icon" 
-                    variant="ghost" 
-                    className={`${isSelected ? 'text-white hover:bg-blue-600' : 'text-red-600 hover:text-red-800'}`} 
-                    onClick={e => { 
-                      e.stopPropagation(); 
-                      if (window.confirm(`Delete "${folder.name}" folder and move all its snippets to General?`)) {
-                        onDelete(folder.id); 
-                      }
-                    }}
-                    title="Delete folder"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </>
-              )}
-              
-              {/* Show special indicator for General folder */}
-              {isGeneralFolder && (
-                <div className="flex items-center gap-1">
-                  <span className="text-xs px-2 py-1 rounded-full bg-blue-100 text-blue-700 font-medium">
-                    Default
-                  </span>
-                </div>
-              )}
-            </div>
-          </li>
-        );
-      })}
-    </ul>
-  );
-}
-
-// Find folder name by id
-function getFolderName(folderId: number|null, folders: {id: number, name: string}[]) {
+// Find folder path by id, e.g. "Team/Product"
+function getFolderName(folderId: number|null, folders: FolderRecord[]) {
   if (folderId == null) return 'General';
-  const folder = folders.find(f => f.id === folderId);
-  return folder ? folder.name : 'Unknown';
+  return folders.some(f => f.id === folderId) ? folderPath(folders, folderId) : 'Unknown';
 }
 
 export default function SnippetsPage() {
   const [searchTerm, setSearchTerm] = useState("");
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [snippetEditorOpen, setSnippetEditorOpen] = useState(false);
   const [folderCreationModalOpen, setFolderCreationModalOpen] = useState(false);
   const [folderRenameModalOpen, setFolderRenameModalOpen] = useState(false);
@@ -111,12 +74,23 @@ export default function SnippetsPage() {
   const [renamingFolderId, setRenamingFolderId] = useState<number | null>(null);
   const [renamingFolderName, setRenamingFolderName] = useState("");
   const [deletingFolderId, setDeletingFolderId] = useState<number | null>(null);
-  const [moveSnippetId, setMoveSnippetId] = useState<number | null>(null);
+  // The snippets the move dialog is open for
+  const [moveSnippetIds, setMoveSnippetIds] = useState<number[] | null>(null);
   const [moveTargetFolderId, setMoveTargetFolderId] = useState<number | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [expandedFolderIds, setExpandedFolderIds] = useState<Set<number>>(new Set());
+  const [subfolderParentId, setSubfolderParentId] = useState<number | null>(null);
+  // Rearranging snippets by dragging them in the table, in manual sort mode
+  const [draggingSnippetId, setDraggingSnippetId] = useState<number | null>(null);
+  const [snippetDropTarget, setSnippetDropTarget] = useState<{ id: number; position: "before" | "after" } | null>(null);
+  const [tagDialogOpen, setTagDialogOpen] = useState(false);
+  const [shareTarget, setShareTarget] = useState<ShareTarget | null>(null);
+  const [tagsToAdd, setTagsToAdd] = useState<string[]>([]);
+  const [tagsToRemove, setTagsToRemove] = useState<string[]>([]);
   const { toast } = useToast();
 
   // Fetch folders
-  const { data: folders = [], isLoading: isLoadingFolders } = useQuery<any[]>({
+  const { data: folders = [], isLoading: isLoadingFolders } = useQuery<FolderRecord[]>({
     queryKey: ["/api/folders"],
     queryFn: async () => {
       const res = await apiRequest("GET", "/api/folders");
@@ -124,17 +98,43 @@ export default function SnippetsPage() {
     },
   });
 
-  // Fetch snippets for selected folder
-  const { data: snippets = [], isLoading: isLoadingSnippets } = useQuery<Snippet[]>({
-    queryKey: ["/api/snippets", selectedFolderId],
+  // Totals for the header and the folder tree; kept under ["/api/snippets"] so
+  // they refresh along with the lists
+  const { data: counts } = useQuery<SnippetCounts>({
+    queryKey: ["/api/snippets", "counts"],
     queryFn: async () => {
-      const url = selectedFolderId ? `/api/snippets?folderId=${selectedFolderId}` : "/api/snippets";
-      const res = await apiRequest("GET", url);
+      const res = await apiRequest("GET", "/api/snippets/counts");
       return res.json();
     },
-    enabled: !!selectedFolderId,
   });
 
+  const { data: settings } = useQuery<SettingsRecord>({
+    queryKey: ["/api/settings"],
+  });
+  const sortMode: SnippetSortMode = settings?.snippetSort ?? "recent";
+
+  // The selected folder's snippets, sorted by the server and fetched a page at a time
+  const listParams = { folderId: selectedFolderId, sort: SNIPPET_SORT_FOR_MODE[sortMode] };
+  const {
+    items: folderSnippets,
+    isLoading: isLoadingSnippets,
+    hasNextPage,
+    isFetchingNextPage,
+    loadMoreRef,
+  } = useInfiniteList<Snippet>("/api/snippets", listParams, { enabled: !!selectedFolderId });
+
+  // The search shortcut focuses this page's search box instead of opening the overlay
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  useEffect(() => {
+    const focusSearch = (event: Event) => {
+      event.preventDefault();
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    };
+    window.addEventListener(FOCUS_SNIPPET_SEARCH_EVENT, focusSearch);
+    return () => window.removeEventListener(FOCUS_SNIPPET_SEARCH_EVENT, focusSearch);
+  }, []);
+
   // Select General folder by default
   useEffect(() => {
     if (folders.length > 0 && selectedFolderId === null) {
@@ -143,13 +143,23 @@ export default function SnippetsPage() {
     }
   }, [folders, selectedFolderId]);
 
+  // Keep the selected folder visible in the tree
+  useEffect(() => {
+    if (selectedFolderId === null) return;
+    const ancestors = folderAncestors(folders, selectedFolderId).slice(0, -1);
+    if (ancestors.every(folder => expandedFolderIds.has(folder.id))) return;
+    setExpandedFolderIds(expanded => new Set([...Array.from(expanded), ...ancestors.map(folder => folder.id)]));
+  }, [folders, selectedFolderId, expandedFolderIds]);
+
   const deleteSnippetMutation = useMutation({
     mutationFn: (id: number) => apiRequest("DELETE", `/api/snippets/${id}`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/search"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
       toast({
         title: "Snippet deleted",
-        description: "The snippet has been removed successfully.",
+        description: "The snippet has been moved to trash.",
       });
     },
     onError: () => {
@@ -166,40 +176,222 @@ export default function SnippetsPage() {
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/folders/${id}`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+    onSuccess: (_, id) => {
+      // The folder's snippets went to the trash with it
+      ["/api/folders", "/api/snippets", "/api/tags", "/api/search", "/api/trash"].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
       setDeletingFolderId(null);
-      // If deleted folder was selected, select General
-      if (selectedFolderId === deletingFolderId) {
+      toast({
+        title: "Folder deleted",
+        description: "The folder and its snippets have been moved to trash.",
+      });
+      // If the deleted folder or one of its subfolders was selected, select General
+      if (selectedFolderId !== null && (selectedFolderId === id || descendantFolderIds(folders, id).includes(selectedFolderId))) {
         const general = folders.find(f => f.name === "General");
         if (general) setSelectedFolderId(general.id);
       }
     },
   });
 
-  const moveSnippetMutation = useMutation({
-    mutationFn: async ({ snippetId, folderId }: { snippetId: number; folderId: number }) => {
-      await apiRequest("PUT", `/api/snippets/${snippetId}`, { folderId });
+  const moveFolderMutation = useMutation({
+    mutationFn: async ({ folderId, parentId }: { folderId: number; parentId: number | null }) => {
+      await apiRequest("PATCH", `/api/folders/${folderId}/move`, { parentId });
+    },
+    onSuccess: (_, { folderId, parentId }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      const destination = parentId === null ? "the top level" : `"${getFolderName(parentId, folders)}"`;
+      toast({
+        title: "Folder moved",
+        description: `"${getFolderName(folderId, folders).split("/").pop()}" is now in ${destination}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to move folder."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reorderFoldersMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      await apiRequest("PATCH", "/api/folders/reorder", { ids });
+    },
+    // Show the new order right away rather than after the round trip
+    onMutate: (ids: number[]) => {
+      queryClient.setQueryData<FolderRecord[]>(["/api/folders"], current => current?.map(folder =>
+        ids.includes(folder.id) ? { ...folder, sortOrder: ids.indexOf(folder.id) } : folder
+      ).sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id));
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to reorder folders."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reorderSnippetsMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      await apiRequest("PATCH", "/api/snippets/reorder", { ids });
+    },
+    onMutate: (ids: number[]) => {
+      updateListItems<Snippet>("/api/snippets", listParams, current => current.map(snippet =>
+        ids.includes(snippet.id) ? { ...snippet, sortOrder: ids.indexOf(snippet.id) } : snippet
+      ).sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id));
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/snippets"] });
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to reorder snippets."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sortModeMutation = useMutation({
+    mutationFn: async (snippetSort: SnippetSortMode) => {
+      await apiRequest("PUT", "/api/settings", { snippetSort });
+    },
+    onMutate: (snippetSort: SnippetSortMode) => {
+      queryClient.setQueryData<SettingsRecord>(["/api/settings"], current => current && { ...current, snippetSort });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    },
+  });
+
+  // Moves, deletes, duplicates and retags go through the bulk route, one snippet or many
+  const bulkSnippetsMutation = useMutation({
+    mutationFn: async (action: SnippetBulkAction): Promise<BulkResult<Snippet>> => {
+      const res = await apiRequest("POST", "/api/snippets/bulk", action);
+      return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/snippets", selectedFolderId] });
-      setMoveSnippetId(null);
-      setMoveTargetFolderId(null);
+      ["/api/snippets", "/api/tags", "/api/search", "/api/trash"].forEach(key =>
+        queryClient.invalidateQueries({ queryKey: [key] })
+      );
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: apiErrorMessage(error, "Failed to update snippets."),
+        variant: "destructive",
+      });
     },
   });
 
+  const moveSnippets = (ids: number[], folderId: number) => {
+    bulkSnippetsMutation.mutate({ action: "move", ids, folderId }, {
+      onSuccess: () => {
+        const moved = ids.length === 1 ? `"${filteredSnippets.find(s => s.id === ids[0])?.title ?? "The snippet"}" has` : `${ids.length} snippets have`;
+        toast({
+          title: ids.length === 1 ? "Snippet moved" : "Snippets moved",
+          description: `${moved} been moved to ${getFolderName(folderId, folders)}.`,
+        });
+        setMoveSnippetIds(null);
+        setMoveTargetFolderId(null);
+      },
+    });
+  };
+
   // Find the real General folder from the folders array
   const generalFolder = folders.find(f => f.name === 'General');
 
-  // Filter snippets by selected folder (use real General folder id)
-  const filteredSnippets = snippets.filter(snippet => snippet.folderId === selectedFolderId)
+  const { data: tags = [] } = useQuery<TagSummary[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  // "#tag" words in the search box filter like the selected tag chips; the rest is text search
+  const tagQuery = parseTagQuery(searchTerm);
+  const searchText = tagQuery.text;
+  const activeTags = normalizeTags([...selectedTags, ...tagQuery.tags]);
+  const { results: searchResults, highlights } = useSearch<Snippet>(searchText, "snippet");
+
+  const toggleTag = (name: string) => {
+    setSelectedTags(current => current.includes(name) ? current.filter(tag => tag !== name) : [...current, name]);
+  };
+
+  // Filter snippets by selected folder (use real General folder id).
+  // While searching, ranked server results take over from the substring match.
+  const filteredSnippets = (searchResults ?? folderSnippets)
+    .filter(snippet => snippet.folderId === selectedFolderId)
+    .filter(snippet => hasAllTags(snippet, activeTags))
     .filter(snippet => {
-      const matchesSearch = searchTerm === "" || 
-        snippet.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        snippet.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        snippet.trigger.toLowerCase().includes(searchTerm.toLowerCase());
+      if (searchResults) return true;
+      const matchesSearch = searchText === "" || 
+        snippet.title.toLowerCase().includes(searchText.toLowerCase()) ||
+        snippet.content.toLowerCase().includes(searchText.toLowerCase()) ||
+        snippet.trigger.toLowerCase().includes(searchText.toLowerCase());
       return matchesSearch;
     });
+  // Ranked search results keep their order
+  const isManualOrder = sortMode === "manual" && !searchResults;
+
+  const selection = useMultiSelect(filteredSnippets.map(snippet => snippet.id), {
+    label: "Select all snippets",
+    group: "Snippets",
+    enabled: !showTrash,
+  });
+  const selectedSnippets = filteredSnippets.filter(snippet => selection.isSelected(snippet.id));
+  const tagsOfSelection = normalizeTags(selectedSnippets.flatMap(snippet => snippet.tags ?? [])).sort();
+
+  const handleBulkDuplicate = () => {
+    bulkSnippetsMutation.mutate({ action: "duplicate", ids: selection.selectedIds }, {
+      onSuccess: ({ saved }) => {
+        selection.clear();
+        toast({
+          title: saved.length === 1 ? "Snippet duplicated" : "Snippets duplicated",
+          description: saved.length === 1 ? `Created "${saved[0].title}".` : `Created ${saved.length} copies.`,
+        });
+      },
+    });
+  };
+
+  const handleBulkDelete = () => {
+    bulkSnippetsMutation.mutate({ action: "delete", ids: selection.selectedIds }, {
+      onSuccess: ({ deleted }) => {
+        selection.clear();
+        toast({
+          title: deleted.length === 1 ? "Snippet deleted" : "Snippets deleted",
+          description: `${deleted.length === 1 ? "The snippet has" : `${deleted.length} snippets have`} been moved to trash.`,
+        });
+      },
+    });
+  };
+
+  const openTagDialog = () => {
+    setTagsToAdd([]);
+    setTagsToRemove([]);
+    setTagDialogOpen(true);
+  };
+
+  const handleBulkTag = () => {
+    bulkSnippetsMutation.mutate({ action: "tag", ids: selection.selectedIds, add: tagsToAdd, remove: tagsToRemove }, {
+      onSuccess: ({ saved }) => {
+        setTagDialogOpen(false);
+        toast({
+          title: "Tags updated",
+          description: `Updated the tags of ${saved.length === 1 ? `"${saved[0].title}"` : `${saved.length} snippets`}.`,
+        });
+      },
+    });
+  };
+
+  const handleSnippetDrop = (targetId: number) => {
+    const target = snippetDropTarget;
+    setSnippetDropTarget(null);
+    setDraggingSnippetId(null);
+    if (!target || draggingSnippetId === null || target.id !== targetId) return;
+    const ids = filteredSnippets.map(snippet => snippet.id).filter(id => id !== draggingSnippetId);
+    ids.splice(ids.indexOf(targetId) + (target.position === "after" ? 1 : 0), 0, draggingSnippetId);
+    reorderSnippetsMutation.mutate(ids);
+  };
 
   const handleEditSnippet = (snippet: Snippet) => {
     setEditingSnippet(snippet);
@@ -212,12 +404,37 @@ export default function SnippetsPage() {
   };
 
   const handleCreateFolder = () => {
+    setSubfolderParentId(null);
     setFolderCreationModalOpen(true);
   };
 
+  const handleCreateSubfolder = (parentId: number) => {
+    setSubfolderParentId(parentId);
+    setFolderCreationModalOpen(true);
+  };
+
+  const handleToggleFolder = (id: number) => {
+    setExpandedFolderIds(expanded => {
+      const next = new Set(expanded);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  // Dragging one of the selected snippets takes the whole selection along
+  const handleDropSnippet = (snippetId: number, folderId: number) => {
+    const ids = selection.isSelected(snippetId) ? selection.selectedIds : [snippetId];
+    const moving = ids.filter(id => filteredSnippets.find(s => s.id === id)?.folderId !== folderId);
+    if (moving.length === 0) return;
+    moveSnippets(moving, folderId);
+  };
+
   const handleSelectSnippet = async (snippet: Snippet) => {
     try {
-      await copyToClipboard(snippet.content);
+      const expanded = await expandSnippet(snippet);
+      if (!expanded) return;
+      await copyToClipboard(expanded.text);
       toast({
         title: "Snippet copied",
         description: `"${snippet.title}" has been copied to clipboard.`,
@@ -261,8 +478,8 @@ export default function SnippetsPage() {
     return icons[category.toLowerCase()] || Code;
   };
 
-  const totalSnippets = snippets.length;
-  const snippetsWithShortcuts = snippets.filter(s => s.trigger && s.trigger.includes('-')).length;
+  const totalSnippets = counts?.total ?? 0;
+  const snippetsWithShortcuts = counts?.withHotkey ?? 0;
 
   // Fix: wrap deleteFolderMutation.mutate to only call with a number
   const handleDeleteFolder = (id: number|null) => {
@@ -280,31 +497,9 @@ export default function SnippetsPage() {
         return;
       }
       
-      // For other folders, move their snippets to General before deletion
+      // Other folders go to the trash with their subfolders and snippets, to be restored together
       if (folderToDelete) {
-        const generalFolder = folders.find(f => f.name === "General");
-        if (generalFolder) {
-          // Move all snippets from the folder to General
-          const snippetsInFolder = snippets.filter(s => s.folderId === id);
-          Promise.all(
-            snippetsInFolder.map(snippet => 
-              apiRequest("PUT", `/api/snippets/${snippet.id}`, { folderId: generalFolder.id })
-            )
-          ).then(() => {
-            // After moving snippets, delete the folder
-            deleteFolderMutation.mutate(id);
-          }).catch(error => {
-            console.error("Error moving snippets:", error);
-            toast({
-              title: "Error",
-              description: "Failed to move snippets to General folder.",
-              variant: "destructive",
-            });
-          });
-        } else {
-          // If no General folder exists, just delete the folder
-          deleteFolderMutation.mutate(id);
-        }
+        deleteFolderMutation.mutate(id);
       }
     }
   };
@@ -336,14 +531,34 @@ export default function SnippetsPage() {
                 <FolderPlus className="h-5 w-5" />
               </Button>
             </div>
-            <FolderList
+            <FolderTree
               folders={folders}
-              selectedId={selectedFolderId}
-              onSelect={setSelectedFolderId}
+              selectedId={showTrash ? null : selectedFolderId}
+              expandedIds={expandedFolderIds}
+              onToggle={handleToggleFolder}
+              onSelect={(id) => { setShowTrash(false); setSelectedFolderId(id); }}
               onRename={handleRenameFolder}
               onDelete={handleDeleteFolder}
-              onCreateFolder={() => setFolderCreationModalOpen(true)}
+              onCreateSubfolder={handleCreateSubfolder}
+              onShare={(id, name) => setShareTarget({ type: "folder", id, title: folderPath(folders, id) || name })}
+              onMoveFolder={(folderId, parentId) => moveFolderMutation.mutate({ folderId, parentId })}
+              onReorderFolders={(ids) => reorderFoldersMutation.mutate(ids)}
+              onMoveSnippet={handleDropSnippet}
+              snippetCounts={counts?.byFolder}
             />
+            <div className="border-t border-gray-200 mt-3 pt-3">
+              <div
+                className={`flex items-center gap-1 cursor-pointer rounded-lg px-3 py-2 transition-all duration-150 ${
+                  showTrash
+                    ? 'bg-gradient-to-r from-blue-600 to-blue-700 text-white shadow-md'
+                    : 'hover:bg-blue-50 text-gray-700 hover:text-gray-900'
+                }`}
+                onClick={() => setShowTrash(true)}
+              >
+                <Trash2 className={`h-4 w-4 mr-2 ${showTrash ? '' : 'text-gray-500'}`} />
+                <span className="truncate flex-1 font-medium">Trash</span>
+              </div>
+            </div>
           </div>
         </aside>
         {/* Main Content */}
@@ -432,27 +647,92 @@ export default function SnippetsPage() {
             </Card>
           </div>
 
+          {/* Breadcrumbs for the selected folder */}
+          {!showTrash && selectedFolderId !== null && (
+            <Breadcrumb className="mb-4">
+              <BreadcrumbList>
+                {folderAncestors(folders, selectedFolderId).map((folder, index, path) => (
+                  <BreadcrumbItem key={folder.id}>
+                    {index > 0 && <BreadcrumbSeparator />}
+                    {index === path.length - 1 ? (
+                      <BreadcrumbPage className="font-semibold">{folder.name}</BreadcrumbPage>
+                    ) : (
+                      <BreadcrumbLink className="cursor-pointer" onClick={() => setSelectedFolderId(folder.id)}>
+                        {folder.name}
+                      </BreadcrumbLink>
+                    )}
+                  </BreadcrumbItem>
+                ))}
+              </BreadcrumbList>
+            </Breadcrumb>
+          )}
+
           {/* Filters and Search */}
-          <Card className="border-0 shadow-md rounded-2xl bg-white/70 backdrop-blur-md mb-6">
-            <CardContent className="p-6">
-              <div className="flex flex-col md:flex-row gap-4">
-                <div className="flex-1">
-                  <div className="relative">
-                    <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
-                    <Input
-                      placeholder="Search snippets..."
-                      value={searchTerm}
-                      onChange={(e) => setSearchTerm(e.target.value)}
-                      className="pl-10 bg-gray-100 border-0 rounded-xl text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                    />
+          {!showTrash && (
+            <Card className="border-0 shadow-md rounded-2xl bg-white/70 backdrop-blur-md mb-6">
+              <CardContent className="p-6">
+                <div className="flex flex-col md:flex-row gap-4">
+                  <div className="flex-1">
+                    <div className="relative">
+                      <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 transform -translate-y-1/2" />
+                      <Input
+                        ref={searchInputRef}
+                        placeholder="Search snippets, or filter with #tag..."
+                        value={searchTerm}
+                        onChange={(e) => setSearchTerm(e.target.value)}
+                        className="pl-10 bg-gray-100 border-0 rounded-xl text-gray-900 focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Select value={sortMode} onValueChange={(value) => sortModeMutation.mutate(value as SnippetSortMode)}>
+                      <SelectTrigger className="w-48 bg-gray-100 border-0 rounded-xl">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="recent">Recently updated</SelectItem>
+                        <SelectItem value="manual">Manual order</SelectItem>
+                        <SelectItem value="title">Title</SelectItem>
+                        <SelectItem value="usage">Most used</SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+                {tags.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mt-4">
+                    {tags.map(tag => {
+                      const isActive = activeTags.includes(tag.name);
+                      return (
+                        <button
+                          key={tag.name}
+                          type="button"
+                          onClick={() => toggleTag(tag.name)}
+                          className={`text-xs px-3 py-1 rounded-full font-medium transition-all duration-150 ${
+                            isActive ? 'bg-blue-600 text-white shadow-sm' : 'bg-gray-100 text-gray-700 hover:bg-blue-50'
+                          }`}
+                        >
+                          #{tag.name} <span className="opacity-60">{tag.count}</span>
+                        </button>
+                      );
+                    })}
+                    {selectedTags.length > 0 && (
+                      <button type="button" onClick={() => setSelectedTags([])} className="text-xs text-gray-500 hover:text-gray-700 underline">
+                        Clear tags
+                      </button>
+                    )}
+                  </div>
+                )}
+                {isManualOrder && filteredSnippets.length > 1 && (
+                  <p className="text-xs text-gray-500 mt-3">Drag snippets up or down to arrange them.</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
           {/* Snippets List/Table */}
-          {isLoadingSnippets ? (
+          {showTrash ? (
+            <TrashView />
+          ) : isLoadingSnippets ? (
             <div className="text-center py-12">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
               <p className="text-gray-600 mt-4">Loading snippets...</p>
@@ -462,10 +742,10 @@ export default function SnippetsPage() {
               <CardContent className="p-12 text-center">
                 <Code className="h-12 w-12 text-gray-400 mx-auto mb-4" />
                 <h3 className="text-lg font-medium text-gray-900 mb-2">
-                  {searchTerm ? "No snippets found" : "No snippets yet"}
+                  {searchTerm || activeTags.length > 0 ? "No snippets found" : "No snippets yet"}
                 </h3>
                 <p className="text-gray-600 mb-6">
-                  {searchTerm ? "Try adjusting your search" : "Create your first snippet to get started"}
+                  {searchTerm || activeTags.length > 0 ? "Try adjusting your search" : "Create your first snippet to get started"}
                 </p>
                 <Button onClick={handleNewSnippet} className="flex items-center gap-2 rounded-full bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 shadow-md transition-all duration-150">
                   <Plus className="h-4 w-4" />
@@ -476,9 +756,40 @@ export default function SnippetsPage() {
           ) : (
             <div className="w-full">
               <div className="bg-white/80 backdrop-blur-md rounded-2xl shadow-lg p-4">
+                {selection.selectedIds.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 mb-3 px-3 py-2 rounded-xl bg-blue-50 text-sm">
+                    <span className="font-medium text-blue-900 mr-2">{selection.selectedIds.length} selected</span>
+                    <Button size="sm" variant="ghost" onClick={() => setMoveSnippetIds(selection.selectedIds)} disabled={bulkSnippetsMutation.isPending} className="h-8 rounded-full">
+                      <Folder className="h-4 w-4 mr-1" />
+                      Move
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={handleBulkDuplicate} disabled={bulkSnippetsMutation.isPending} className="h-8 rounded-full">
+                      <CopyPlus className="h-4 w-4 mr-1" />
+                      Duplicate
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={openTagDialog} disabled={bulkSnippetsMutation.isPending} className="h-8 rounded-full">
+                      <Tag className="h-4 w-4 mr-1" />
+                      Tag
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={handleBulkDelete} disabled={bulkSnippetsMutation.isPending} className="h-8 rounded-full text-red-600 hover:text-red-800">
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete
+                    </Button>
+                    <Button size="icon" variant="ghost" title="Clear selection" onClick={selection.clear} className="h-8 w-8 ml-auto rounded-full">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
                 <table className="w-full text-sm text-left">
                   <thead>
                     <tr className="border-b border-gray-200 text-gray-700 font-semibold">
+                      <th className="py-3 px-2 w-8">
+                        <Checkbox
+                          aria-label="Select all snippets"
+                          checked={selection.selectedIds.length === 0 ? false : selection.selectedIds.length === filteredSnippets.length ? true : "indeterminate"}
+                          onCheckedChange={(checked) => checked === true ? selection.selectAll() : selection.clear()}
+                        />
+                      </th>
                       <th className="py-3 px-2 w-1/6">Name</th>
                       <th className="py-3 px-2 w-2/6">Content</th>
                       <th className="py-3 px-2 w-1/6">Folder</th>
@@ -488,9 +799,80 @@ export default function SnippetsPage() {
                   </thead>
                   <tbody>
                     {filteredSnippets.map((snippet) => (
-                      <tr key={snippet.id} className="border-b border-gray-100 hover:bg-blue-50/60 transition group cursor-pointer rounded-xl">
-                        <td className="py-2 px-2 font-semibold text-gray-900 truncate max-w-[180px]" title={snippet.title}>{snippet.title}</td>
-                        <td className="py-2 px-2 text-gray-700 truncate max-w-[320px]" title={snippet.content}>{snippet.content.length > 60 ? snippet.content.slice(0, 60) + '…' : snippet.content}</td>
+                      <tr
+                        key={snippet.id}
+                        className={`border-b border-gray-100 hover:bg-blue-50/60 transition group cursor-pointer rounded-xl ${selection.isSelected(snippet.id) ? "bg-blue-50" : ""}`}
+                        onMouseDown={(e) => {
+                          // Keep shift-clicks from selecting the text in between
+                          if (e.shiftKey) e.preventDefault();
+                        }}
+                        onClick={(e) => {
+                          // Ctrl-, Cmd- and shift-clicks select, like in a file manager
+                          if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                            e.preventDefault();
+                            selection.toggle(snippet.id, e);
+                          }
+                        }}
+                        style={{
+                          boxShadow: snippetDropTarget?.id !== snippet.id ? undefined
+                            : snippetDropTarget.position === "before" ? "inset 0 2px 0 #3b82f6" : "inset 0 -2px 0 #3b82f6",
+                        }}
+                        draggable
+                        onDragStart={(e) => {
+                          // Dropped on a folder in the sidebar to move it there, or
+                          // on another row to reorder in manual sort mode
+                          e.dataTransfer.setData(SNIPPET_DRAG_TYPE, String(snippet.id));
+                          e.dataTransfer.effectAllowed = "move";
+                          setDraggingSnippetId(snippet.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingSnippetId(null);
+                          setSnippetDropTarget(null);
+                        }}
+                        onDragOver={(e) => {
+                          if (!isManualOrder || draggingSnippetId === null || draggingSnippetId === snippet.id) return;
+                          e.preventDefault();
+                          const { top, height } = e.currentTarget.getBoundingClientRect();
+                          const position = e.clientY - top < height / 2 ? "before" : "after";
+                          if (snippetDropTarget?.id !== snippet.id || snippetDropTarget.position !== position) {
+                            setSnippetDropTarget({ id: snippet.id, position });
+                          }
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleSnippetDrop(snippet.id);
+                        }}
+                      >
+                        <td className="py-2 px-2" onClick={(e) => e.stopPropagation()}>
+                          <Checkbox
+                            aria-label={`Select "${snippet.title}"`}
+                            checked={selection.isSelected(snippet.id)}
+                            onClick={(e) => {
+                              e.preventDefault();
+                              selection.toggle(snippet.id, e);
+                            }}
+                          />
+                        </td>
+                        <td className="py-2 px-2 font-semibold text-gray-900 truncate max-w-[180px]" title={snippet.title}>
+                          {highlights?.get(snippet.id) ? <HighlightedText segments={highlights.get(snippet.id)!.title} className="bg-yellow-200 rounded-sm" /> : snippet.title}
+                          {snippet.tags && snippet.tags.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1 font-normal">
+                              {snippet.tags.map(tag => (
+                                <button
+                                  key={tag}
+                                  type="button"
+                                  onClick={(e) => { e.stopPropagation(); toggleTag(tag); }}
+                                  className="text-[11px] px-1.5 py-0.5 rounded-full bg-blue-50 text-blue-700 hover:bg-blue-100"
+                                >
+                                  #{tag}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 px-2 text-gray-700 truncate max-w-[320px]" title={snippet.content}>
+                          {highlights?.get(snippet.id) ? <HighlightedText segments={highlights.get(snippet.id)!.excerpt} className="bg-yellow-200 rounded-sm" /> : snippet.content.length > 60 ? snippet.content.slice(0, 60) + '…' : snippet.content}
+                        </td>
                         <td className="py-2 px-2 text-gray-700">
                           <div className="flex items-center gap-2">
                             <Folder className="h-4 w-4 text-purple-500" />
@@ -507,7 +889,7 @@ export default function SnippetsPage() {
                         <td className="py-2 px-2 text-gray-500 text-right">{snippet.updatedAt ? new Date(snippet.updatedAt).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : "-"}</td>
                         <td className="py-2 px-2 text-right">
                           <div className="flex justify-end gap-2">
-                            <Button size="icon" variant="ghost" title="Copy" onClick={async (e) => { e.stopPropagation(); await copyToClipboard(snippet.content); toast({ title: "Snippet copied", description: `\"${snippet.title}\" has been copied to clipboard.` }); }} className="h-7 w-7 text-blue-600 hover:text-blue-800 rounded-full transition-all duration-150">
+                            <Button size="icon" variant="ghost" title="Copy" onClick={(e) => { e.stopPropagation(); handleSelectSnippet(snippet); }} className="h-7 w-7 text-blue-600 hover:text-blue-800 rounded-full transition-all duration-150">
                               <Copy className="h-4 w-4" />
                             </Button>
                             <Button size="icon" variant="ghost" title="Edit" onClick={() => handleEditSnippet(snippet)} className="h-7 w-7 text-green-600 hover:text-green-800 rounded-full transition-all duration-150">
@@ -516,15 +898,23 @@ export default function SnippetsPage() {
                             <Button size="icon" variant="ghost" title="Delete" onClick={() => handleDeleteSnippet(snippet.id)} className="h-7 w-7 text-red-600 hover:text-red-800 rounded-full transition-all duration-150" disabled={deleteSnippetMutation.isPending}>
                               <Trash2 className="h-4 w-4" />
                             </Button>
-                            <Button size="icon" variant="ghost" title="Move" onClick={() => setMoveSnippetId(snippet.id)} className="h-7 w-7 text-gray-600 hover:text-blue-600 rounded-full transition-all duration-150">
+                            <Button size="icon" variant="ghost" title="Move" onClick={() => setMoveSnippetIds([snippet.id])} className="h-7 w-7 text-gray-600 hover:text-blue-600 rounded-full transition-all duration-150">
                               <Folder className="h-4 w-4" />
                             </Button>
+                            <Button size="icon" variant="ghost" title="Share" onClick={() => setShareTarget({ type: "snippet", id: snippet.id, title: snippet.title })} className="h-7 w-7 text-gray-600 hover:text-blue-600 rounded-full transition-all duration-150">
+                              <Share2 className="h-4 w-4" />
+                            </Button>
                           </div>
                         </td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
+                {!searchResults && hasNextPage && (
+                  <div ref={loadMoreRef} className="py-4 text-center text-sm text-gray-500">
+                    {isFetchingNextPage ? "Loading more snippets..." : ""}
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -552,6 +942,8 @@ export default function SnippetsPage() {
       <FolderCreationModal
         isOpen={folderCreationModalOpen}
         onClose={() => setFolderCreationModalOpen(false)}
+        parentId={subfolderParentId}
+        parentPath={subfolderParentId !== null ? getFolderName(subfolderParentId, folders) : undefined}
       />
       <FolderRenameModal
         isOpen={folderRenameModalOpen}
@@ -565,12 +957,12 @@ export default function SnippetsPage() {
       />
       
       {/* Move Snippet Modal */}
-      <Dialog open={moveSnippetId !== null} onOpenChange={() => setMoveSnippetId(null)}>
+      <Dialog open={moveSnippetIds !== null} onOpenChange={() => setMoveSnippetIds(null)}>
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
             <DialogTitle className="flex items-center gap-2">
               <Folder className="h-5 w-5 text-blue-600" />
-              Move Snippet
+              {moveSnippetIds && moveSnippetIds.length > 1 ? `Move ${moveSnippetIds.length} Snippets` : "Move Snippet"}
             </DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
@@ -590,18 +982,20 @@ export default function SnippetsPage() {
                     <SelectItem key={folder.id} value={folder.id.toString()}>
                       <div className="flex items-center gap-2">
                         <Folder className="h-4 w-4 text-purple-500" />
-                        {folder.name}
+                        {getFolderName(folder.id, folders)}
                       </div>
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
-            {moveSnippetId && (
+            {moveSnippetIds && (
               <div className="bg-gray-50 rounded-lg p-3">
                 <p className="text-sm text-gray-600">
                   Moving: <span className="font-medium text-gray-900">
-                    {snippets.find(s => s.id === moveSnippetId)?.title}
+                    {moveSnippetIds.length === 1
+                      ? filteredSnippets.find(s => s.id === moveSnippetIds[0])?.title
+                      : `${moveSnippetIds.length} snippets`}
                   </span>
                 </p>
               </div>
@@ -611,7 +1005,7 @@ export default function SnippetsPage() {
             <Button
               variant="outline"
               onClick={() => {
-                setMoveSnippetId(null);
+                setMoveSnippetIds(null);
                 setMoveTargetFolderId(null);
               }}
             >
@@ -619,25 +1013,76 @@ export default function SnippetsPage() {
             </Button>
             <Button
               onClick={() => {
-                if (moveSnippetId && moveTargetFolderId !== null) {
-                  moveSnippetMutation.mutate({
-                    snippetId: moveSnippetId,
-                    folderId: moveTargetFolderId
-                  });
-                  toast({
-                    title: "Snippet moved",
-                    description: "The snippet has been moved to the selected folder.",
-                  });
+                if (moveSnippetIds && moveTargetFolderId !== null) {
+                  moveSnippets(moveSnippetIds, moveTargetFolderId);
                 }
               }}
-              disabled={moveTargetFolderId === null || moveSnippetMutation.isPending}
+              disabled={moveTargetFolderId === null || bulkSnippetsMutation.isPending}
               className="bg-blue-600 hover:bg-blue-700"
             >
-              {moveSnippetMutation.isPending ? "Moving..." : "Move Snippet"}
+              {bulkSnippetsMutation.isPending ? "Moving..." : moveSnippetIds && moveSnippetIds.length > 1 ? "Move Snippets" : "Move Snippet"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Tag Selected Snippets Modal */}
+      <Dialog open={tagDialogOpen} onOpenChange={setTagDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Tag className="h-5 w-5 text-blue-600" />
+              Tag {selection.selectedIds.length === 1 ? "Snippet" : `${selection.selectedIds.length} Snippets`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Add tags
+              </label>
+              <TagInput value={tagsToAdd} onChange={setTagsToAdd} suggestions={tags} />
+            </div>
+            {tagsOfSelection.length > 0 && (
+              <div>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">
+                  Remove tags
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {tagsOfSelection.map(tag => {
+                    const removing = tagsToRemove.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        type="button"
+                        onClick={() => setTagsToRemove(current => removing ? current.filter(t => t !== tag) : [...current, tag])}
+                        className={`text-xs px-3 py-1 rounded-full font-medium transition-all duration-150 ${
+                          removing ? 'bg-red-100 text-red-700 line-through' : 'bg-gray-100 text-gray-700 hover:bg-red-50'
+                        }`}
+                      >
+                        #{tag}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleBulkTag}
+              disabled={(tagsToAdd.length === 0 && tagsToRemove.length === 0) || bulkSnippetsMutation.isPending}
+              className="bg-blue-600 hover:bg-blue-700"
+            >
+              {bulkSnippetsMutation.isPending ? "Saving..." : "Update Tags"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ShareLinkDialog target={shareTarget} onClose={() => setShareTarget(null)} />
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { db } from '../server/db';
+import { db, isSQLite } from '../server/db';
 import { snippets, snippetsSQLite, folders, foldersSQLite } from '../shared/schema';
 import { eq, and } from 'drizzle-orm';
 
@@ -11,7 +11,6 @@ async function deleteFolderWithSnippets() {
       return;
     }
     
-    const isSQLite = db.dialect && db.dialect.name === 'sqlite';
     const activeSnippets = isSQLite ? snippetsSQLite : snippets;
     const activeFolders = isSQLite ? foldersSQLite : folders;
     
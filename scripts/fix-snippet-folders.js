@@ -1,4 +1,4 @@
-const { db } = require('../server/db');
+const { db, isSQLite } = require('../server/db');
 const { sql } = require('drizzle-orm');
 
 async function fixSnippetFolders() {
@@ -10,8 +10,6 @@ async function fixSnippetFolders() {
   try {
     console.log("Starting snippet folder migration...");
     
-    const isSQLite = db.dialect && db.dialect.name === 'sqlite';
-    
     if (isSQLite) {
       console.log("Running SQLite snippet folder migration...");
       
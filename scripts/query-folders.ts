@@ -1,4 +1,4 @@
-import { db } from '../server/db';
+import { db, isSQLite } from '../server/db';
 import { folders, foldersSQLite } from '../shared/schema';
 
 async function queryAllFolders() {
@@ -10,7 +10,6 @@ async function queryAllFolders() {
       return;
     }
     
-    const isSQLite = db.dialect && db.dialect.name === 'sqlite';
     const activeFolders = isSQLite ? foldersSQLite : folders;
     
     console.log(`Using ${isSQLite ? 'SQLite' : 'PostgreSQL'} database`);
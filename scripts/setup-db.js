@@ -15,7 +15,7 @@
  */
 
 // Import the compiled JavaScript files
-import { db } from '../dist/db.js';
+import { db, isSQLite } from '../dist/db.js';
 import { runMigrations } from '../dist/migrations.js';
 import { storage } from '../dist/storage.js';
 
@@ -31,7 +31,6 @@ async function showStatus() {
     return;
   }
 
-  const isSQLite = db.dialect && db.dialect.name === 'sqlite';
   console.log(`✅ Database: ${isSQLite ? 'SQLite' : 'PostgreSQL'}`);
   
   if (isSQLite) {
@@ -81,7 +80,7 @@ async function testDatabase() {
     
     // Test settings
     console.log('Testing settings...');
-    const settings = await storage.getSettings();
+    const settings = await storage.getSettings(testUserId);
     console.log('✅ Settings retrieved:', settings);
     
     // Test snippet creation
@@ -109,6 +108,8 @@ async function testDatabase() {
     // Cleanup test data
     await storage.deleteSnippet(snippet.id, testUserId);
     await storage.deleteClipboardItem(clipboardItem.id, testUserId);
+    await storage.purgeFromTrash('snippet', snippet.id, testUserId);
+    await storage.purgeFromTrash('clipboard', clipboardItem.id, testUserId);
     
     console.log('✅ All database operations successful');
   } catch (error) {
@@ -123,8 +124,6 @@ async function resetDatabase() {
     console.log('❌ No database configured');
     return;
   }
-
-  const isSQLite = db.dialect && db.dialect.name === 'sqlite';
   
   try {
     if (isSQLite) {
@@ -14,7 +14,7 @@
  *   status   - Show current database status
  */
 
-import { db } from '../server/db';
+import { db, isSQLite } from '../server/db';
 import { runMigrations } from '../server/migrations';
 import { storage } from '../server/storage';
 
@@ -30,7 +30,6 @@ async function showStatus() {
     return;
   }
 
-  const isSQLite = db.dialect && db.dialect.name === 'sqlite';
   console.log(`✅ Database: ${isSQLite ? 'SQLite' : 'PostgreSQL'}`);
   
   if (isSQLite) {
@@ -80,7 +79,7 @@ async function testDatabase() {
     
     // Test settings
     console.log('Testing settings...');
-    const settings = await storage.getSettings();
+    const settings = await storage.getSettings(testUserId);
     console.log('✅ Settings retrieved:', settings);
     
     // Test snippet creation
@@ -108,6 +107,8 @@ async function testDatabase() {
     // Cleanup test data
     await storage.deleteSnippet(snippet.id, testUserId);
     await storage.deleteClipboardItem(clipboardItem.id, testUserId);
+    await storage.purgeFromTrash('snippet', snippet.id, testUserId);
+    await storage.purgeFromTrash('clipboard', clipboardItem.id, testUserId);
     
     console.log('✅ All database operations successful');
   } catch (error) {
@@ -122,8 +123,6 @@ async function resetDatabase() {
     console.log('❌ No database configured');
     return;
   }
-
-  const isSQLite = db.dialect && db.dialect.name === 'sqlite';
   
   try {
     if (isSQLite) {
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Typed abbreviation tests: which abbreviation the text before the caret
+ * expands, the abbreviations that clash, and the hotkeys and abbreviations
+ * split out of legacy triggers
+ *
+ * Usage:
+ *   npx tsx scripts/test-abbreviations.ts
+ */
+
+import assert from 'assert';
+import {
+  isValidAbbreviation,
+  findAbbreviationConflict,
+  matchAbbreviation,
+  splitLegacyTrigger,
+  MAX_ABBREVIATION_LENGTH,
+} from '../shared/abbreviations';
+import { test, finish } from './test-harness';
+
+const snippets = [';sig', 'sig', 'addr', 'brb', 'ésig'].map((abbreviation, id) => ({ id, abbreviation }));
+const match = (text: string) => {
+  const found = matchAbbreviation(text, snippets);
+  return found && [found.snippet.abbreviation, found.length];
+};
+
+console.log('Testing matching...');
+
+test('an abbreviation expands once typed, wherever the caret is in the text', () => {
+  assert.deepStrictEqual(match('sig'), ['sig', 3]);
+  assert.deepStrictEqual(match('Thanks, brb'), ['brb', 3]);
+  assert.strictEqual(match('sig '), null);
+  assert.strictEqual(match('si'), null);
+  assert.strictEqual(match(''), null);
+});
+
+test('one starting with a letter or digit must start a word', () => {
+  assert.strictEqual(match('desig'), null);
+  assert.strictEqual(match('my_sig'), null);
+  assert.strictEqual(match('2addr'), null);
+  assert.deepStrictEqual(match('(sig'), ['sig', 3]);
+  assert.deepStrictEqual(match('line\nsig'), ['sig', 3]);
+  assert.deepStrictEqual(match('x-sig'), ['sig', 3]);
+});
+
+test('letters in any script count as part of a word', () => {
+  assert.strictEqual(match('désig'), null);
+  assert.strictEqual(match('Маяsig'), null);
+  assert.strictEqual(match('reésig'), null);
+  assert.deepStrictEqual(match('« ésig'), ['ésig', 4]);
+});
+
+test('one starting with punctuation expands anywhere, and the longest wins', () => {
+  assert.deepStrictEqual(match('hello;sig'), [';sig', 4]);
+  assert.deepStrictEqual(match(';sig'), [';sig', 4]);
+  const reversed = [...snippets].reverse();
+  assert.strictEqual(matchAbbreviation('hello;sig', reversed)?.snippet.abbreviation, ';sig');
+});
+
+test('snippets without an abbreviation never match', () => {
+  assert.strictEqual(matchAbbreviation('sig', [{ abbreviation: null }, { abbreviation: '' }, {}]), null);
+});
+
+console.log('Testing validation...');
+
+test('abbreviations are short runs without whitespace', () => {
+  assert.ok(isValidAbbreviation(';sig'));
+  assert.ok(isValidAbbreviation('x'.repeat(MAX_ABBREVIATION_LENGTH)));
+  assert.ok(!isValidAbbreviation('x'));
+  assert.ok(!isValidAbbreviation('x'.repeat(MAX_ABBREVIATION_LENGTH + 1)));
+  assert.ok(!isValidAbbreviation('my sig'));
+});
+
+test('an abbreviation that starts another clashes with it', () => {
+  assert.strictEqual(findAbbreviationConflict(';s', [';sig', null]), ';sig');
+  assert.strictEqual(findAbbreviationConflict(';signature', [undefined, ';sig']), ';sig');
+  assert.strictEqual(findAbbreviationConflict(';sig', ['sig', ';addr']), undefined);
+});
+
+console.log('Testing legacy triggers...');
+
+test('a recorded shortcut with its stamps becomes the hotkey', () => {
+  assert.deepStrictEqual(splitLegacyTrigger('Ctrl+K-1712345678901'), { hotkey: 'ctrl+k', abbreviation: null });
+  assert.deepStrictEqual(splitLegacyTrigger('Ctrl+Shift+V-1712345678901-1712345678902'), { hotkey: 'ctrl+shift+v', abbreviation: null });
+  assert.deepStrictEqual(splitLegacyTrigger('F5-1712345678901'), { hotkey: 'f5', abbreviation: null });
+});
+
+test('a trigger that really ends in 13 digits stays an abbreviation', () => {
+  assert.deepStrictEqual(splitLegacyTrigger('order-1234567890123'), { hotkey: null, abbreviation: 'order-1234567890123' });
+  assert.deepStrictEqual(splitLegacyTrigger('Shift+A-1712345678901'), { hotkey: null, abbreviation: 'Shift+A-1712345678901' });
+  assert.deepStrictEqual(splitLegacyTrigger('id1234567890123'), { hotkey: null, abbreviation: 'id1234567890123' });
+});
+
+test('a stamp with no shortcut before it is neither', () => {
+  assert.deepStrictEqual(splitLegacyTrigger('-1712345678901'), { hotkey: null, abbreviation: null });
+  assert.deepStrictEqual(splitLegacyTrigger('-1712345678901-1712345678902'), { hotkey: null, abbreviation: null });
+});
+
+test('triggers without a stamp are abbreviations when they can be typed as one', () => {
+  assert.deepStrictEqual(splitLegacyTrigger(';sig'), { hotkey: null, abbreviation: ';sig' });
+  assert.deepStrictEqual(splitLegacyTrigger('Ctrl+K'), { hotkey: null, abbreviation: 'Ctrl+K' });
+  assert.deepStrictEqual(splitLegacyTrigger('my signature'), { hotkey: null, abbreviation: null });
+  assert.deepStrictEqual(splitLegacyTrigger(''), { hotkey: null, abbreviation: null });
+});
+
+finish('abbreviation');
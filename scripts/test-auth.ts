@@ -0,0 +1,168 @@
+#!/usr/bin/env node
+
+/**
+ * Login and API token tests against a throwaway in-memory SQLite database:
+ * accounts are found by a login key made with the server secret, accounts
+ * saved with the older unkeyed login key are moved off it at their next login,
+ * and the routes accept personal API tokens only within their scope
+ *
+ * Usage:
+ *   npx tsx scripts/test-auth.ts
+ */
+
+import assert from 'assert';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { test, finish } from './test-harness';
+
+process.env.NODE_ENV = 'development';
+process.env.DATABASE_URL = '';
+process.env.SQLITE_PATH = ':memory:';
+process.env.SNIPCLIP_LOGIN_SECRET = 'test-login-secret';
+
+const { runMigrations } = await import('../server/migrations');
+const { storage } = await import('../server/storage');
+const { login, changeCredentials, hashCredentials, loginKeyFor, legacyLoginKey, createSession, createApiToken, hashToken } = await import('../server/auth');
+const { registerRoutes } = await import('../server/routes');
+
+await runMigrations();
+
+console.log('Testing logins...');
+
+await test('the login key depends on the server secret', async () => {
+  const key = loginKeyFor('1234', 'passphrase1');
+  assert.match(key, /^[0-9a-f]{64}$/);
+  assert.notStrictEqual(key, legacyLoginKey('1234', 'passphrase1'));
+  assert.notStrictEqual(key, loginKeyFor('1234', 'passphrase2'));
+});
+
+await test('the first login creates an account with a random id and a keyed login key', async () => {
+  const result = await login('1111', 'first-login', 'test');
+  assert.ok(result);
+  assert.notStrictEqual(result.userId, legacyLoginKey('1111', 'first-login'));
+  const account = await storage.getAccount(result.userId);
+  assert.strictEqual(account?.loginKey, loginKeyFor('1111', 'first-login'));
+
+  const again = await login('1111', 'first-login', 'test');
+  assert.strictEqual(again?.userId, result.userId);
+  assert.strictEqual(again?.previousUserId, undefined);
+});
+
+await test('other credentials log in to an account of their own', async () => {
+  const first = await login('2222', 'one-passphrase', 'test');
+  const second = await login('2222', 'another-passphrase', 'test');
+  assert.ok(first && second);
+  assert.notStrictEqual(first.userId, second.userId);
+});
+
+await test('the login key only finds the account; the scrypt hash decides', async () => {
+  const legacyKey = legacyLoginKey('7777', 'looked-up');
+  await storage.createAccount({ userId: legacyKey, loginKey: legacyKey, credentialHash: await hashCredentials('7777', 'something-else') });
+  assert.strictEqual(await login('7777', 'looked-up', 'test'), null);
+  assert.strictEqual((await storage.getAccount(legacyKey))?.loginKey, legacyKey);
+});
+
+await test('an account with the unkeyed login key is moved off it, with its data', async () => {
+  const legacyKey = legacyLoginKey('3333', 'old-account');
+  await storage.createAccount({ userId: legacyKey, loginKey: legacyKey, credentialHash: await hashCredentials('3333', 'old-account') });
+  const snippet = await storage.createSnippet({ title: 'Old', content: 'old', trigger: 'old' }, legacyKey);
+
+  const result = await login('3333', 'old-account', 'test');
+  assert.ok(result);
+  assert.strictEqual(result.previousUserId, legacyKey);
+  assert.notStrictEqual(result.userId, legacyKey);
+  assert.strictEqual((await storage.getAccount(result.userId))?.loginKey, loginKeyFor('3333', 'old-account'));
+  assert.strictEqual(await storage.getAccountByLoginKey(legacyKey), undefined);
+  assert.strictEqual((await storage.getSnippet(snippet.id, result.userId))?.title, 'Old');
+});
+
+await test('credentials still held by an account with the unkeyed login key are in use', async () => {
+  const legacyKey = legacyLoginKey('4444', 'taken-passphrase');
+  await storage.createAccount({ userId: legacyKey, loginKey: legacyKey, credentialHash: await hashCredentials('4444', 'taken-passphrase') });
+  const result = await login('5555', 'my-passphrase', 'test');
+  assert.ok(result);
+  await assert.rejects(
+    changeCredentials(result.userId, { currentPin: '5555', currentPassphrase: 'my-passphrase', newPin: '4444', newPassphrase: 'taken-passphrase' }),
+    /already in use/,
+  );
+  await changeCredentials(result.userId, { currentPin: '5555', currentPassphrase: 'my-passphrase', newPin: '6666', newPassphrase: 'new-passphrase' });
+  assert.strictEqual((await login('6666', 'new-passphrase', 'test'))?.userId, result.userId);
+  // The old credentials now sign up a new account of their own
+  assert.notStrictEqual((await login('5555', 'my-passphrase', 'test'))?.userId, result.userId);
+});
+
+console.log('Testing API tokens...');
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+// The status of a request to the API made with the given credentials
+async function statusOf(method: string, path: string, headers: Record<string, string>, body?: unknown): Promise<number> {
+  const res = await fetch(baseUrl + path, {
+    method,
+    headers: { ...headers, ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}) },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  await res.arrayBuffer();
+  return res.status;
+}
+
+const bearer = (token: string) => ({ Authorization: `Bearer ${token}` });
+const tokenUser = 'token-user';
+const sessionToken = await createSession(tokenUser);
+const readToken = (await createApiToken(tokenUser, { name: 'Read', scope: 'read' })).token;
+const writeToken = (await createApiToken(tokenUser, { name: 'Write', scope: 'write' })).token;
+const newSnippet = (trigger: string) => ({ title: trigger, content: trigger, trigger });
+
+await test('a read token can read but not change anything', async () => {
+  assert.strictEqual(await statusOf('GET', '/api/snippets', bearer(readToken)), 200);
+  assert.strictEqual(await statusOf('HEAD', '/api/snippets', bearer(readToken)), 200);
+  assert.strictEqual(await statusOf('POST', '/api/snippets', bearer(readToken), newSnippet('read-only')), 403);
+  assert.strictEqual(await statusOf('DELETE', '/api/snippets/1', bearer(readToken)), 403);
+  assert.strictEqual(await statusOf('PUT', '/api/settings', bearer(readToken), {}), 403);
+  assert.deepStrictEqual(await storage.getSnippets(tokenUser), []);
+});
+
+await test('a write token can change data', async () => {
+  assert.strictEqual(await statusOf('POST', '/api/snippets', bearer(writeToken), newSnippet('written')), 201);
+  assert.deepStrictEqual((await storage.getSnippets(tokenUser)).map(snippet => snippet.trigger), ['written']);
+});
+
+await test('revoked, expired and unknown tokens are refused, even with a session', async () => {
+  const revoked = await createApiToken(tokenUser, { name: 'Revoked', scope: 'write' });
+  assert.strictEqual(await statusOf('GET', '/api/snippets', bearer(revoked.token)), 200);
+  await storage.revokeApiToken(revoked.apiToken.id, tokenUser);
+  assert.strictEqual(await statusOf('GET', '/api/snippets', bearer(revoked.token)), 401);
+
+  const expired = 'snip_expired-token';
+  await storage.createApiToken({ tokenHash: hashToken(expired), prefix: expired.slice(0, 11), userId: tokenUser, name: 'Expired', scope: 'write', expiresAt: new Date(Date.now() - 1000) });
+  assert.strictEqual(await statusOf('GET', '/api/snippets', bearer(expired)), 401);
+
+  assert.strictEqual(await statusOf('GET', '/api/snippets', { ...bearer('snip_unknown'), 'X-Session-Token': sessionToken }), 401);
+  assert.strictEqual(await statusOf('GET', '/api/snippets', { 'X-Session-Token': sessionToken }), 200);
+});
+
+await test('sessions, API tokens and credentials cannot be managed with an API token', async () => {
+  const routes: Array<[string, string, unknown?]> = [
+    ['GET', '/api/auth/sessions'],
+    ['DELETE', '/api/auth/sessions'],
+    ['DELETE', '/api/auth/sessions/1'],
+    ['GET', '/api/auth/tokens'],
+    ['POST', '/api/auth/tokens', { name: 'Minted', scope: 'write' }],
+    ['DELETE', '/api/auth/tokens/1'],
+    ['POST', '/api/auth/change-credentials', { currentPin: '1234', currentPassphrase: 'passphrase', newPin: '4321', newPassphrase: 'passphrase' }],
+  ];
+  for (const [method, path, body] of routes) {
+    assert.strictEqual(await statusOf(method, path, bearer(writeToken), body), 403, `${method} ${path}`);
+  }
+  assert.ok((await storage.getApiTokens(tokenUser)).every(token => token.name !== 'Minted'));
+  assert.strictEqual(await statusOf('GET', '/api/auth/sessions', { 'X-Session-Token': sessionToken }), 200);
+  assert.strictEqual(await statusOf('GET', '/api/auth/tokens', { 'X-Session-Token': sessionToken }), 200);
+});
+
+await new Promise(resolve => server.close(resolve));
+
+finish('auth');
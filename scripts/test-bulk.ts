@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Bulk action tests: validating requests to POST /api/snippets/bulk and
+ * POST /api/clipboard/bulk, and the tag changes, triggers and titles the
+ * actions produce
+ *
+ * Usage:
+ *   npx tsx scripts/test-bulk.ts
+ */
+
+import assert from 'assert';
+import {
+  snippetBulkActionSchema,
+  clipboardBulkActionSchema,
+  applyTagChanges,
+  copyTrigger,
+  copyTitle,
+  MAX_BULK_IDS,
+} from '../shared/bulk';
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_SNIPPET } from '../shared/tags';
+import { test, finish } from './test-harness';
+
+const valid = (schema: { safeParse: (value: unknown) => { success: boolean } }, value: unknown) => schema.safeParse(value).success;
+const ids = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+console.log('Testing validation...');
+
+test('every snippet action is accepted with its fields', () => {
+  assert.ok(valid(snippetBulkActionSchema, { action: 'move', ids: [1, 2], folderId: 3 }));
+  assert.ok(valid(snippetBulkActionSchema, { action: 'move', ids: [1, 2], folderId: null }));
+  assert.ok(valid(snippetBulkActionSchema, { action: 'delete', ids: [1] }));
+  assert.ok(valid(snippetBulkActionSchema, { action: 'duplicate', ids: [1] }));
+  assert.ok(valid(snippetBulkActionSchema, { action: 'tag', ids: [1], add: ['work'], remove: ['old'] }));
+});
+
+test('unknown actions and missing fields are rejected', () => {
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'rename', ids: [1] }));
+  assert.ok(!valid(snippetBulkActionSchema, { ids: [1] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'move', ids: [1] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'delete' }));
+  assert.ok(!valid(clipboardBulkActionSchema, { action: 'pin', ids: [1] }));
+  assert.ok(!valid(clipboardBulkActionSchema, { action: 'move', ids: [1], folderId: null }));
+});
+
+test('ids must be unique whole numbers, at least one and at most the limit', () => {
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'delete', ids: [] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'delete', ids: [1, 1] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'delete', ids: [1.5] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'delete', ids: ['1'] }));
+  assert.ok(valid(clipboardBulkActionSchema, { action: 'delete', ids: ids(MAX_BULK_IDS) }));
+  assert.ok(!valid(clipboardBulkActionSchema, { action: 'delete', ids: ids(MAX_BULK_IDS + 1) }));
+});
+
+test('tag lists default to empty and are limited like a snippet\'s tags', () => {
+  const parsed = snippetBulkActionSchema.parse({ action: 'tag', ids: [1], add: ['  work '] });
+  assert.deepStrictEqual(parsed, { action: 'tag', ids: [1], add: ['work'], remove: [] });
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'tag', ids: [1], add: ['  '] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'tag', ids: [1], add: ['x'.repeat(MAX_TAG_LENGTH + 1)] }));
+  assert.ok(!valid(snippetBulkActionSchema, { action: 'tag', ids: [1], remove: ids(MAX_TAGS_PER_SNIPPET + 1).map(String) }));
+});
+
+test('pinning needs a boolean', () => {
+  assert.ok(valid(clipboardBulkActionSchema, { action: 'pin', ids: [1], pinned: false }));
+  assert.ok(!valid(clipboardBulkActionSchema, { action: 'pin', ids: [1], pinned: 1 }));
+});
+
+console.log('Testing results...');
+
+test('applyTagChanges normalizes the tags, and removing wins over adding', () => {
+  assert.deepStrictEqual(applyTagChanges(['work'], { add: ['Code Review', '#work'], remove: [] }), ['work', 'code-review']);
+  assert.deepStrictEqual(applyTagChanges(['work', 'mail'], { add: ['urgent'], remove: ['WORK', 'urgent'] }), ['mail']);
+  assert.deepStrictEqual(applyTagChanges([], { add: [], remove: ['missing'] }), []);
+});
+
+test('copyTrigger takes the first free "-copy" trigger', () => {
+  assert.strictEqual(copyTrigger('sig', new Set(['sig'])), 'sig-copy');
+  assert.strictEqual(copyTrigger('sig', new Set(['sig', 'sig-copy'])), 'sig-copy-2');
+  assert.strictEqual(copyTrigger('sig', new Set(['sig', 'sig-copy', 'sig-copy-2', 'sig-copy-4'])), 'sig-copy-3');
+});
+
+test('copyTitle marks the copy', () => {
+  assert.strictEqual(copyTitle('Sign-off'), 'Sign-off (copy)');
+});
+
+finish('bulk');
@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Clipboard content classifier tests
+ *
+ * Usage:
+ *   npx tsx scripts/test-clipboard.ts
+ */
+
+import assert from 'assert';
+import { classifyClipboardContent, clipboardClassificationOf } from '../shared/clipboard';
+import { test, finish } from './test-harness';
+
+const typeOf = (content: string) => classifyClipboardContent(content).type;
+
+test('urls with their host', () => {
+  assert.deepStrictEqual(classifyClipboardContent('https://example.com/a?b=1'), { type: 'url', metadata: { host: 'example.com' } });
+  assert.deepStrictEqual(classifyClipboardContent('www.example.org/docs'), { type: 'url', metadata: { host: 'www.example.org' } });
+  assert.strictEqual(typeOf('see https://example.com for details'), 'text');
+});
+
+test('emails with their domain', () => {
+  assert.deepStrictEqual(classifyClipboardContent('Ada.Lovelace@Example.COM'), { type: 'email', metadata: { host: 'example.com' } });
+  assert.strictEqual(typeOf('mailto:someone@mail.example.net'), 'email');
+  assert.strictEqual(typeOf('someone@localhost'), 'text');
+});
+
+test('phone numbers, but not dates, addresses or amounts', () => {
+  assert.deepStrictEqual(classifyClipboardContent('+44 20 7946 0958'), { type: 'phone', metadata: { phone: '+442079460958' } });
+  assert.strictEqual(typeOf('(555) 123-4567'), 'phone');
+  assert.strictEqual(typeOf('5551234567'), 'phone');
+  assert.strictEqual(typeOf('2024-01-15'), 'text');
+  assert.strictEqual(typeOf('192.168.1.1'), 'text');
+  assert.strictEqual(typeOf('1234567'), 'text');
+  assert.strictEqual(typeOf('3.14'), 'text');
+});
+
+test('colours', () => {
+  assert.deepStrictEqual(classifyClipboardContent('#FF8800'), { type: 'color', metadata: { color: '#ff8800' } });
+  assert.strictEqual(typeOf('#abc'), 'color');
+  assert.strictEqual(typeOf('rgba(10, 20, 30, 0.5)'), 'color');
+  assert.strictEqual(typeOf('hsl(210deg 40% 50%)'), 'color');
+  assert.strictEqual(typeOf('#12345'), 'text');
+});
+
+test('file paths', () => {
+  assert.deepStrictEqual(classifyClipboardContent('/usr/local/bin/node'), { type: 'path', metadata: { pathStyle: 'posix', fileName: 'node' } });
+  assert.deepStrictEqual(classifyClipboardContent('~/projects/app/'), { type: 'path', metadata: { pathStyle: 'posix', fileName: 'app' } });
+  assert.deepStrictEqual(classifyClipboardContent('C:\\Users\\ada\\notes.txt'), { type: 'path', metadata: { pathStyle: 'windows', fileName: 'notes.txt' } });
+  assert.strictEqual(typeOf('and/or'), 'text');
+});
+
+test('json with its shape', () => {
+  assert.deepStrictEqual(classifyClipboardContent('{"a": 1, "b": [2]}'), { type: 'json', metadata: { jsonKind: 'object', entries: 2 } });
+  assert.deepStrictEqual(classifyClipboardContent('[1, 2, 3]'), { type: 'json', metadata: { jsonKind: 'array', entries: 3 } });
+  assert.strictEqual(typeOf('{not json}'), 'text');
+});
+
+test('code with a language guess', () => {
+  const language = (content: string) => classifyClipboardContent(content).metadata.language;
+  assert.strictEqual(language('const add = (a, b) => a + b;\nconsole.log(add(1, 2));'), 'javascript');
+  assert.strictEqual(language('interface User {\n  name: string;\n}\nconst user: User = { name: "a" };'), 'typescript');
+  assert.strictEqual(language('def greet(name):\n    print(f"hi {name}")'), 'python');
+  assert.strictEqual(language('SELECT id, name FROM users WHERE id = 1'), 'sql');
+  assert.strictEqual(language('<div class="card">\n  <p>Hi</p>\n</div>'), 'html');
+  assert.strictEqual(language('.card {\n  padding: 4px;\n}'), 'css');
+  assert.strictEqual(language('package main\n\nfunc main() {\n\tfmt.Println("hi")\n}'), 'go');
+  assert.strictEqual(language('fn main() {\n    let mut x = 1;\n    println!("{}", x);\n}'), 'rust');
+  assert.strictEqual(language('#!/bin/bash\ncd /tmp && ls -la'), 'shell');
+  assert.deepStrictEqual(classifyClipboardContent('x = 1;\nif (x) {\n  y();\n}'), { type: 'code', metadata: { lines: 4 } });
+});
+
+test('prose stays text', () => {
+  assert.strictEqual(typeOf('Meeting moved to Thursday. Please bring the {draft} notes.'), 'text');
+  assert.strictEqual(typeOf('I select the best option from the list.'), 'text');
+  assert.strictEqual(typeOf('The class starts at nine'), 'text');
+});
+
+test('items saved before classification are classified when read', () => {
+  assert.strictEqual(clipboardClassificationOf({ content: '#fff', type: 'text', metadata: null }).type, 'color');
+  assert.deepStrictEqual(
+    clipboardClassificationOf({ content: '#fff', type: 'text', metadata: {} }),
+    { type: 'text', metadata: {} },
+  );
+});
+
+finish('clipboard');
@@ -0,0 +1,146 @@
+#!/usr/bin/env node
+
+/**
+ * Snippet format converter tests
+ *
+ * Usage:
+ *   npx tsx scripts/test-converters.ts
+ */
+
+import assert from 'assert';
+import {
+  importEspanso,
+  exportEspanso,
+  importTextExpander,
+  exportTextExpander,
+  importVSCode,
+  exportVSCode,
+  parseCsv,
+} from '../shared/converters';
+import type { BundleSnippet } from '../shared/bundle';
+import { test, finish } from './test-harness';
+
+const snippet = (content: string, extra: Partial<BundleSnippet> = {}): BundleSnippet => ({
+  title: 'Test',
+  trigger: 'tst',
+  content,
+  description: null,
+  folder: null,
+  ...extra,
+});
+
+console.log('Testing espanso...');
+
+test('matches, vars and cursor are converted', () => {
+  const { bundle, issues } = importEspanso(`
+global_vars:
+  - name: clip
+    type: clipboard
+matches:
+  - trigger: ":today"
+    replace: "Today is {{mydate}}$|$"
+    vars:
+      - name: mydate
+        type: date
+        params:
+          format: "%d/%m/%Y"
+  - trigger: ":paste"
+    replace: "> {{clip}}"
+  - triggers: [":hi", ":hello"]
+    form: "Hi [[name]]"
+  - regex: ":(?P<x>.*)"
+    replace: "nope"
+`, 'base');
+  assert.deepStrictEqual(bundle.snippets.map(s => [s.trigger, s.content, s.folder]), [
+    [':today', 'Today is {{date:dd/MM/yyyy}}{{cursor}}', 'base'],
+    [':paste', '> {{clipboard}}', 'base'],
+    [':hi', 'Hi {{name}}', 'base'],
+  ]);
+  assert.deepStrictEqual(bundle.folders, [{ name: 'base' }]);
+  assert.strictEqual(issues.length, 2);
+});
+
+test('unsupported variables become fields and are reported', () => {
+  const { bundle, issues } = importEspanso(`
+matches:
+  - trigger: ":ip"
+    replace: "{{output}}"
+    vars:
+      - name: output
+        type: shell
+        params: { cmd: "curl ifconfig.me" }
+`);
+  assert.strictEqual(bundle.snippets[0].content, '{{output}}');
+  assert.match(issues[0].message, /shell/);
+});
+
+test('export round-trips through import', () => {
+  const original = [snippet('Dear {{name:Sir}}, {{date:dd.MM.yyyy}} {{clipboard}}{{cursor}}')];
+  const { content } = exportEspanso(original);
+  const { bundle } = importEspanso(content);
+  assert.strictEqual(bundle.snippets[0].content, original[0].content);
+  assert.strictEqual(bundle.snippets[0].trigger, 'tst');
+});
+
+console.log('\nTesting TextExpander CSV...');
+
+test('CSV parsing handles quotes, commas and line breaks', () => {
+  assert.deepStrictEqual(parseCsv('a,"b, ""c""",d\r\n"multi\nline",x,\n'), [
+    ['a', 'b, "c"', 'd'],
+    ['multi\nline', 'x', ''],
+  ]);
+});
+
+test('macros are converted and date runs merged', () => {
+  const { bundle, issues } = importTextExpander(
+    'abbreviation,content,label\n' +
+    ';d,%Y-%m-%d %H:%M,Date\n' +
+    ';sig,"Hi %filltext:name=who:default=there%,%| 100%% {{x}} %clipboard",Sig\n' +
+    ';s,%snippet:;d%,Nested\n'
+  );
+  assert.deepStrictEqual(bundle.snippets.map(s => [s.trigger, s.title, s.content]), [
+    [';d', 'Date', '{{date:yyyy-MM-dd HH:mm}}'],
+    [';sig', 'Sig', 'Hi {{who:there}},{{cursor}} 100% \\{{x}} {{clipboard}}'],
+    [';s', 'Nested', '%snippet:;d%'],
+  ]);
+  assert.strictEqual(issues.length, 1);
+});
+
+test('export escapes percent signs and round-trips', () => {
+  const original = [snippet('50% off {{date}} {{who:you}}{{cursor}}', { title: 'Sale, now' })];
+  const { content } = exportTextExpander(original);
+  assert.ok(content.startsWith('tst,50%% off %Y-%m-%d %filltext:name=who:default=you%%|,"Sale, now"'));
+  assert.strictEqual(importTextExpander(content).bundle.snippets[0].content, original[0].content);
+});
+
+console.log('\nTesting VS Code snippets...');
+
+test('tab stops, variables and comments are handled', () => {
+  const { bundle, issues } = importVSCode(`{
+    // a comment
+    "Log": {
+      "prefix": ["log", "cl"],
+      "body": ["console.log('\${1:msg}', $1);", "$0"],
+      "description": "Log output",
+    },
+    "Header": {
+      "prefix": "hdr",
+      "body": "/* $CURRENT_YEAR-$CURRENT_MONTH-$CURRENT_DATE \${2|a,b|} $TM_FILENAME \\\\$ */"
+    }
+  }`);
+  assert.deepStrictEqual(bundle.snippets.map(s => [s.trigger, s.content, s.description]), [
+    ['log', "console.log('{{field_1:msg}}', {{field_1:msg}});\n{{cursor}}", 'Log output'],
+    ['hdr', '/* {{date}} {{field_2:a}}  $ */', null],
+  ]);
+  assert.strictEqual(issues.length, 3);
+});
+
+test('export numbers fields and escapes dollars', () => {
+  const { content, issues } = exportVSCode([snippet('$5 for {{who}} on {{date:EEEE}} {{who}}{{cursor}}')]);
+  const document = JSON.parse(content);
+  assert.deepStrictEqual(document.Test.body, ['\\$5 for ${1:who} on $CURRENT_DAY_NAME ${1:who}$0']);
+  assert.strictEqual(issues.length, 0);
+  assert.strictEqual(importVSCode(content).bundle.snippets[0].content, '$5 for {{field_1:who}} on {{date:EEEE}} {{field_1:who}}{{cursor}}');
+});
+
+finish('converter');
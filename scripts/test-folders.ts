@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+/**
+ * Folder tree helper tests
+ *
+ * Usage:
+ *   npx tsx scripts/test-folders.ts
+ */
+
+import assert from 'assert';
+import {
+  folderAncestors,
+  folderPath,
+  descendantFolderIds,
+  wouldCreateCycle,
+  type FolderNode,
+} from '../shared/folders';
+import { test, finish } from './test-harness';
+
+// Team ─┬─ Product ── TypeScript
+//       └─ Support
+// Personal
+const tree: FolderNode[] = [
+  { id: 1, name: 'Team', parentId: null },
+  { id: 2, name: 'Product', parentId: 1 },
+  { id: 3, name: 'TypeScript', parentId: 2 },
+  { id: 4, name: 'Support', parentId: 1 },
+  { id: 5, name: 'Personal', parentId: null },
+];
+
+// 1 → 2 → 3 → 1, as a bad move could leave stored data
+const looped: FolderNode[] = [
+  { id: 1, name: 'A', parentId: 3 },
+  { id: 2, name: 'B', parentId: 1 },
+  { id: 3, name: 'C', parentId: 2 },
+];
+
+console.log('Testing ancestors and paths...');
+
+test('folderAncestors lists the top-level folder first', () => {
+  assert.deepStrictEqual(folderAncestors(tree, 3).map(folder => folder.id), [1, 2, 3]);
+  assert.deepStrictEqual(folderAncestors(tree, 5).map(folder => folder.id), [5]);
+});
+
+test('folderAncestors is empty for an unknown folder', () => {
+  assert.deepStrictEqual(folderAncestors(tree, 99), []);
+});
+
+test('folderAncestors stops at a missing parent', () => {
+  const orphaned: FolderNode[] = [{ id: 7, name: 'Orphan', parentId: 42 }];
+  assert.deepStrictEqual(folderAncestors(orphaned, 7).map(folder => folder.id), [7]);
+});
+
+test('folderAncestors stops at a cycle instead of looping', () => {
+  assert.deepStrictEqual(folderAncestors(looped, 1).map(folder => folder.id), [2, 3, 1]);
+});
+
+test('folderPath joins the names with the separator', () => {
+  assert.strictEqual(folderPath(tree, 3), 'Team/Product/TypeScript');
+  assert.strictEqual(folderPath(tree, 5), 'Personal');
+  assert.strictEqual(folderPath(tree, 99), '');
+});
+
+console.log('Testing descendants and cycles...');
+
+test('descendantFolderIds finds folders at any depth', () => {
+  assert.deepStrictEqual(descendantFolderIds(tree, 1).sort(), [2, 3, 4]);
+  assert.deepStrictEqual(descendantFolderIds(tree, 2), [3]);
+});
+
+test('descendantFolderIds is empty for a leaf or unknown folder', () => {
+  assert.deepStrictEqual(descendantFolderIds(tree, 3), []);
+  assert.deepStrictEqual(descendantFolderIds(tree, 99), []);
+});
+
+test('descendantFolderIds ends on a cycle and leaves out the folder itself', () => {
+  assert.deepStrictEqual(descendantFolderIds(looped, 1).sort(), [2, 3]);
+});
+
+test('wouldCreateCycle rejects moving a folder under itself or a descendant', () => {
+  assert.strictEqual(wouldCreateCycle(tree, 1, 1), true);
+  assert.strictEqual(wouldCreateCycle(tree, 1, 2), true);
+  assert.strictEqual(wouldCreateCycle(tree, 1, 3), true);
+});
+
+test('wouldCreateCycle allows moves to the top level, a sibling or an ancestor', () => {
+  assert.strictEqual(wouldCreateCycle(tree, 3, null), false);
+  assert.strictEqual(wouldCreateCycle(tree, 2, 4), false);
+  assert.strictEqual(wouldCreateCycle(tree, 3, 1), false);
+  assert.strictEqual(wouldCreateCycle(tree, 1, 5), false);
+});
+
+finish('folder');
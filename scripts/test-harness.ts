@@ -0,0 +1,34 @@
+/**
+ * The runner the test scripts share: test runs one test and prints whether it
+ * passed, and finish ends the script, failing it when any test failed
+ */
+
+let failures = 0;
+
+// Await the tests that return a promise; the others report before test returns,
+// so their output stays in order with what the script prints around them
+export function test(name: string, fn: () => Promise<void>): Promise<void>;
+export function test(name: string, fn: () => void): void;
+export function test(name: string, fn: () => void | Promise<void>): void | Promise<void> {
+  const passed = () => console.log(`✓ ${name}`);
+  const failed = (error: unknown) => {
+    failures++;
+    console.log(`✗ ${name}`);
+    console.log(`  ${(error as Error).message}`);
+  };
+  try {
+    const result = fn();
+    if (result instanceof Promise) return result.then(passed, failed);
+    passed();
+  } catch (error) {
+    failed(error);
+  }
+}
+
+export function finish(suite: string) {
+  if (failures > 0) {
+    console.log(`\n${failures} test(s) failed`);
+    process.exit(1);
+  }
+  console.log(`\nAll ${suite} tests passed`);
+}
@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Hotkey and shortcut tests: parsing, and the conflicts between snippet
+ * hotkeys, shortcut settings and the app's own hotkeys
+ *
+ * Usage:
+ *   npx tsx scripts/test-hotkeys.ts
+ */
+
+import assert from 'assert';
+import {
+  normalizeHotkey,
+  normalizeShortcut,
+  isUsableHotkey,
+  isUsableShortcut,
+  reservedHotkeyConflict,
+  shortcutSettingConflict,
+  findDuplicateHotkeys,
+  CHEAT_SHEET_HOTKEY,
+  type ShortcutSettings,
+} from '../shared/hotkeys';
+import { test, finish } from './test-harness';
+
+// The defaults in shared/schema.ts
+const settings: ShortcutSettings = {
+  snippetShortcut: 'ctrl+;',
+  clipboardShortcut: 'ctrl+shift+v',
+  newSnippetShortcut: 'ctrl+k ctrl+e',
+  searchShortcut: 'ctrl+k ctrl+f',
+  settingsShortcut: 'ctrl+k ctrl+s',
+};
+
+console.log('Testing parsing...');
+
+test('equal hotkeys normalize to the same string', () => {
+  assert.strictEqual(normalizeHotkey('Ctrl + Shift + V'), 'ctrl+shift+v');
+  assert.strictEqual(normalizeHotkey('shift+control+v'), 'ctrl+shift+v');
+  assert.strictEqual(normalizeHotkey('Cmd+K'), 'meta+k');
+  assert.strictEqual(normalizeHotkey('control+return'), 'ctrl+enter');
+  assert.strictEqual(normalizeHotkey('Ctrl++'), 'ctrl+plus');
+});
+
+test('hotkeys without exactly one known key do not parse', () => {
+  assert.strictEqual(normalizeHotkey('ctrl+shift'), null);
+  assert.strictEqual(normalizeHotkey('ctrl+a+b'), null);
+  assert.strictEqual(normalizeHotkey('ctrl+banana'), null);
+});
+
+test('snippet hotkeys need Ctrl, Alt or Cmd, or an F key', () => {
+  assert.strictEqual(isUsableHotkey('ctrl+a'), true);
+  assert.strictEqual(isUsableHotkey('f5'), true);
+  assert.strictEqual(isUsableHotkey('shift+a'), false);
+  assert.strictEqual(isUsableHotkey('a'), false);
+});
+
+test('shortcuts are chords of up to two steps, the first with a modifier', () => {
+  assert.strictEqual(normalizeShortcut('Ctrl+K  Ctrl + S'), 'ctrl+k ctrl+s');
+  assert.strictEqual(normalizeShortcut('ctrl+k ctrl+s ctrl+x'), null);
+  assert.strictEqual(isUsableShortcut('ctrl+k s'), true);
+  assert.strictEqual(isUsableShortcut('k ctrl+s'), false);
+});
+
+console.log('Testing conflicts...');
+
+test('a snippet hotkey conflicts with the app\'s own hotkeys', () => {
+  assert.strictEqual(reservedHotkeyConflict(CHEAT_SHEET_HOTKEY), 'the shortcut cheat sheet');
+  assert.strictEqual(reservedHotkeyConflict('Ctrl+/', settings), 'the shortcut cheat sheet');
+});
+
+test('a snippet hotkey conflicts with a shortcut setting, or the first step of a chord', () => {
+  assert.strictEqual(reservedHotkeyConflict('Ctrl+Shift+V', settings), 'the "Open clipboard history" shortcut');
+  assert.strictEqual(reservedHotkeyConflict('ctrl+k', settings), 'the "New snippet" shortcut');
+});
+
+test('a snippet hotkey is free when nothing uses it', () => {
+  assert.strictEqual(reservedHotkeyConflict('ctrl+alt+x', settings), undefined);
+  assert.strictEqual(reservedHotkeyConflict('ctrl+e', settings), undefined);
+  assert.strictEqual(reservedHotkeyConflict('ctrl+shift+v'), undefined);
+  assert.strictEqual(reservedHotkeyConflict('not a hotkey', settings), undefined);
+});
+
+test('a shortcut setting conflicts with the app\'s own hotkeys', () => {
+  assert.strictEqual(shortcutSettingConflict('snippetShortcut', 'ctrl+/ x', settings, []), 'the shortcut cheat sheet');
+});
+
+test('a shortcut setting conflicts with another setting it equals, starts or starts with', () => {
+  assert.strictEqual(shortcutSettingConflict('snippetShortcut', 'ctrl+shift+v', settings, []), 'the "Open clipboard history" shortcut');
+  assert.strictEqual(shortcutSettingConflict('snippetShortcut', 'ctrl+k', settings, []), 'the "New snippet" shortcut');
+  assert.strictEqual(shortcutSettingConflict('snippetShortcut', 'ctrl+; x', settings, []), undefined);
+  assert.strictEqual(shortcutSettingConflict('clipboardShortcut', 'ctrl+shift+v ctrl+x', { clipboardShortcut: 'ctrl+shift+v' }, []), undefined);
+});
+
+test('chords that share only their first step do not conflict', () => {
+  assert.strictEqual(shortcutSettingConflict('settingsShortcut', 'ctrl+k ctrl+o', settings, []), undefined);
+});
+
+test('a shortcut setting conflicts with a snippet hotkey on its first step', () => {
+  const snippets = [{ title: 'Sign-off', hotkey: 'ctrl+alt+s' }, { title: 'Plain', hotkey: null }];
+  assert.strictEqual(shortcutSettingConflict('searchShortcut', 'Ctrl+Alt+S', settings, snippets), 'the hotkey of "Sign-off"');
+  assert.strictEqual(shortcutSettingConflict('searchShortcut', 'ctrl+alt+s x', settings, snippets), 'the hotkey of "Sign-off"');
+  assert.strictEqual(shortcutSettingConflict('searchShortcut', 'ctrl+alt+f', settings, snippets), undefined);
+});
+
+test('findDuplicateHotkeys keeps the most recently updated live snippet of each user', () => {
+  const snippets = [
+    { id: 1, userId: 'alice', hotkey: 'ctrl+a', updatedAt: new Date(2024, 0, 1) },
+    { id: 2, userId: 'alice', hotkey: 'ctrl+a', updatedAt: new Date(2024, 0, 3) },
+    { id: 3, userId: 'alice', hotkey: 'ctrl+a', updatedAt: new Date(2024, 0, 2) },
+    { id: 4, userId: 'alice', hotkey: 'ctrl+a', updatedAt: new Date(2024, 0, 4), deletedAt: new Date(2024, 0, 5) },
+    { id: 5, userId: 'bob', hotkey: 'ctrl+a', updatedAt: new Date(2024, 0, 1) },
+    { id: 6, userId: 'bob', hotkey: null, updatedAt: new Date(2024, 0, 1) },
+  ];
+  assert.deepStrictEqual(findDuplicateHotkeys(snippets).sort(), [1, 3]);
+});
+
+finish('hotkey');
@@ -0,0 +1,159 @@
+#!/usr/bin/env node
+
+/**
+ * Listing tests: paging through snippets and clipboard items by cursor,
+ * including items that tie on their sort key
+ *
+ * Usage:
+ *   npx tsx scripts/test-listing.ts
+ */
+
+import assert from 'assert';
+import {
+  encodeCursor,
+  decodeCursor,
+  listSnippets,
+  listClipboardItems,
+  snippetListQuerySchema,
+  clipboardListQuerySchema,
+  snippetSorts,
+  type SnippetSort,
+} from '../shared/listing';
+import type { Snippet, ClipboardItem } from '../shared/schema';
+import { test, finish } from './test-harness';
+
+const day = (n: number) => new Date(2024, 0, n);
+
+function snippet(id: number, fields: Partial<Snippet>): Snippet {
+  return {
+    id,
+    title: `Snippet ${id}`,
+    content: '',
+    trigger: `s${id}`,
+    hotkey: null,
+    abbreviation: null,
+    description: null,
+    folderId: null,
+    sortOrder: 0,
+    usageCount: 0,
+    userId: 'alice',
+    createdAt: day(1),
+    updatedAt: day(1),
+    deletedAt: null,
+    ...fields,
+  };
+}
+
+function clipboardItem(id: number, fields: Partial<ClipboardItem>): ClipboardItem {
+  return { id, content: `item ${id}`, type: 'text', userId: 'alice', pinned: 0, metadata: null, createdAt: day(1), deletedAt: null, ...fields };
+}
+
+// Every sort key has ties: titles differing only in case, equal timestamps,
+// usage counts and manual positions
+const snippets = [
+  snippet(1, { title: 'Greeting', updatedAt: day(2), usageCount: 3, sortOrder: 1 }),
+  snippet(2, { title: 'greeting', updatedAt: day(2), usageCount: 3, sortOrder: 0 }),
+  snippet(3, { title: 'Äpfel', updatedAt: day(1), usageCount: 0, sortOrder: 1 }),
+  snippet(4, { title: 'Address', updatedAt: day(3), usageCount: 3, sortOrder: 1 }),
+  snippet(5, { title: 'Greeting', updatedAt: day(2), usageCount: 0, sortOrder: 0 }),
+  snippet(6, { title: 'Zebra', updatedAt: day(1), usageCount: 7, sortOrder: 2 }),
+  snippet(7, { title: 'address', updatedAt: day(3), usageCount: 0, sortOrder: 2 }),
+];
+
+// Follows the cursors from the first page to the last, the way a client
+// would, parsing each query string as the route does
+function allPages<T extends { id: number }>(
+  list: (query: Record<string, string>) => { items: T[]; nextCursor: string | null },
+  query: Record<string, string>,
+): number[][] {
+  const pages: number[][] = [];
+  let after: string | undefined;
+  do {
+    const page = list({ ...query, ...(after !== undefined ? { after } : {}) });
+    pages.push(page.items.map(item => item.id));
+    after = page.nextCursor ?? undefined;
+    assert.ok(pages.length <= snippets.length + 1, 'paging does not end');
+  } while (after !== undefined);
+  return pages;
+}
+
+const listSnippetPages = (query: Record<string, string>) =>
+  allPages(q => listSnippets(snippets, snippetListQuerySchema.parse(q)), query);
+
+console.log('Testing cursors...');
+
+test('cursors round-trip sort keys, non-ASCII text included', () => {
+  for (const key of [[0, 1], [1704067200000, 42], ['äpfel', 3], ['日本語 "quoted"', 9], ['', 0]]) {
+    const cursor = encodeCursor(key);
+    assert.match(cursor, /^[A-Za-z0-9_-]*$/);
+    assert.deepStrictEqual(decodeCursor(cursor), key);
+  }
+});
+
+test('malformed cursors decode to null', () => {
+  assert.strictEqual(decodeCursor('not a cursor!'), null);
+  assert.strictEqual(decodeCursor(encodeCursor([1, 2]).slice(0, -2)), null);
+  assert.strictEqual(decodeCursor(btoa('{"a":1}')), null);
+  assert.strictEqual(decodeCursor(btoa('[1,null]')), null);
+});
+
+test('a cursor of the wrong shape for the sort is rejected', () => {
+  assert.strictEqual(snippetListQuerySchema.safeParse({ sort: 'title', after: encodeCursor([1, 2]) }).success, false);
+  assert.strictEqual(snippetListQuerySchema.safeParse({ sort: 'usage', after: encodeCursor(['a', 2]) }).success, false);
+  assert.strictEqual(snippetListQuerySchema.safeParse({ after: encodeCursor([1, 2, 3]) }).success, false);
+  assert.strictEqual(clipboardListQuerySchema.safeParse({ after: encodeCursor([1, 2]) }).success, false);
+});
+
+console.log('Testing pages...');
+
+for (const sort of snippetSorts) {
+  test(`paging by ${sort} sends every snippet once, in the order of the whole list`, () => {
+    const whole = listSnippets(snippets, snippetListQuerySchema.parse({ sort })).items.map(item => item.id);
+    for (const limit of [1, 2, 3, snippets.length]) {
+      const pages = listSnippetPages({ sort, limit: String(limit) });
+      assert.deepStrictEqual(pages.flat(), whole, `limit ${limit}`);
+      assert.ok(pages.every(page => page.length <= limit));
+    }
+  });
+}
+
+test('ties are broken by id, in the direction of the sort', () => {
+  const order = (sort: SnippetSort) => listSnippets(snippets, snippetListQuerySchema.parse({ sort })).items.map(item => item.id);
+  assert.deepStrictEqual(order('title'), [4, 7, 1, 2, 5, 6, 3]);
+  assert.deepStrictEqual(order('updatedAt'), [7, 4, 5, 2, 1, 6, 3]);
+  assert.deepStrictEqual(order('usage'), [6, 4, 2, 1, 7, 5, 3]);
+  assert.deepStrictEqual(order('manual'), [2, 5, 1, 3, 4, 6, 7]);
+});
+
+test('the last page has no cursor, even when it is full', () => {
+  const page = listSnippets(snippets, snippetListQuerySchema.parse({ limit: String(snippets.length) }));
+  assert.strictEqual(page.items.length, snippets.length);
+  assert.strictEqual(page.nextCursor, null);
+});
+
+test('a snippet saved between pages does not shift the next page', () => {
+  const first = listSnippets(snippets, snippetListQuerySchema.parse({ sort: 'title', limit: '3' }));
+  assert.deepStrictEqual(first.items.map(item => item.id), [4, 7, 1]);
+  const added = [...snippets, snippet(8, { title: 'Aardvark' })];
+  const second = listSnippets(added, snippetListQuerySchema.parse({ sort: 'title', limit: '3', after: first.nextCursor! }));
+  assert.deepStrictEqual(second.items.map(item => item.id), [2, 5, 6]);
+});
+
+test('clipboard pages keep pinned items first and break ties by id', () => {
+  const items = [
+    clipboardItem(1, { createdAt: day(1) }),
+    clipboardItem(2, { createdAt: day(2) }),
+    clipboardItem(3, { createdAt: day(2) }),
+    clipboardItem(4, { createdAt: day(1), pinned: 1 }),
+    clipboardItem(5, { createdAt: day(1), pinned: 1 }),
+    clipboardItem(6, { createdAt: day(3) }),
+  ];
+  const list = (query: Record<string, string>) => listClipboardItems(items, clipboardListQuerySchema.parse(query));
+  const whole = [5, 4, 6, 3, 2, 1];
+  assert.deepStrictEqual(list({}).items.map(item => item.id), whole);
+  for (const limit of [1, 2, 4]) {
+    assert.deepStrictEqual(allPages(list, { limit: String(limit) }).flat(), whole, `limit ${limit}`);
+  }
+});
+
+finish('listing');
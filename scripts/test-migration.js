@@ -1,4 +1,4 @@
-import { db } from '../server/db.ts';
+import { db, isSQLite } from '../server/db.ts';
 import { runMigrations } from '../server/migrations.ts';
 import { folders, foldersSQLite } from '../shared/schema.js';
 
@@ -9,7 +9,6 @@ async function testMigration() {
     console.log('Migration completed successfully!');
     
     // Test if we can query the folders table
-    const isSQLite = db.dialect && db.dialect.name === 'sqlite';
     const foldersTable = isSQLite ? foldersSQLite : folders;
     
     const foldersResult = await db.select().from(foldersTable).limit(1);
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Offline replay tests against a throwaway in-memory SQLite database: edits
+ * and deletes queued while offline carry the updatedAt of the snippet they
+ * started from, and the server refuses them once someone else has changed it
+ *
+ * Usage:
+ *   npx tsx scripts/test-offline.ts
+ */
+
+import assert from 'assert';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { Snippet } from '../shared/schema';
+import { test, finish } from './test-harness';
+
+process.env.NODE_ENV = 'development';
+process.env.DATABASE_URL = '';
+process.env.SQLITE_PATH = ':memory:';
+
+const { runMigrations } = await import('../server/migrations');
+const { storage } = await import('../server/storage');
+const { createSession } = await import('../server/auth');
+const { registerRoutes } = await import('../server/routes');
+
+await runMigrations();
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const sessionToken = await createSession('offline-user');
+
+// A request as the offline queue replays it, with the snippet's updatedAt when the edit was made
+async function replay(method: string, path: string, baseUpdatedAt?: string, body?: unknown) {
+  const res = await fetch(baseUrl + path, {
+    method,
+    headers: {
+      'X-Session-Token': sessionToken,
+      ...(baseUpdatedAt !== undefined ? { 'X-Base-Updated-At': baseUpdatedAt } : {}),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  return { status: res.status, data: await res.json() };
+}
+
+// SQLite keeps updatedAt in unix seconds, which the client sends back as they are
+const base = (snippet: Snippet) => String(snippet.updatedAt);
+const minuteBefore = (snippet: Snippet) => String(Number(snippet.updatedAt) - 60);
+
+await test('an edit made from the current version is saved', async () => {
+  const snippet = await storage.createSnippet({ title: 'Current', content: 'v1', trigger: 'current' }, 'offline-user');
+  const { status, data } = await replay('PUT', `/api/snippets/${snippet.id}`, base(snippet), { content: 'v2' });
+  assert.strictEqual(status, 200);
+  assert.strictEqual(data.content, 'v2');
+});
+
+await test('an edit made from an older version is refused with the current snippet', async () => {
+  const snippet = await storage.createSnippet({ title: 'Stale', content: 'theirs', trigger: 'stale' }, 'offline-user');
+  const { status, data } = await replay('PUT', `/api/snippets/${snippet.id}`, minuteBefore(snippet), { content: 'mine' });
+  assert.strictEqual(status, 409);
+  assert.strictEqual(data.snippet.content, 'theirs');
+  assert.strictEqual((await storage.getSnippet(snippet.id, 'offline-user'))?.content, 'theirs');
+});
+
+await test('the base can also be an ISO date, as PostgreSQL and file storage send it', async () => {
+  const snippet = await storage.createSnippet({ title: 'ISO', content: 'theirs', trigger: 'iso' }, 'offline-user');
+  const date = (seconds: string) => new Date(Number(seconds) * 1000).toISOString();
+  assert.strictEqual((await replay('PUT', `/api/snippets/${snippet.id}`, date(minuteBefore(snippet)), { content: 'mine' })).status, 409);
+  assert.strictEqual((await replay('PUT', `/api/snippets/${snippet.id}`, date(base(snippet)), { content: 'mine' })).status, 200);
+});
+
+await test('a delete made from an older version is refused, and the snippet kept', async () => {
+  const snippet = await storage.createSnippet({ title: 'Kept', content: 'kept', trigger: 'kept' }, 'offline-user');
+  assert.strictEqual((await replay('DELETE', `/api/snippets/${snippet.id}`, minuteBefore(snippet))).status, 409);
+  assert.ok(await storage.getSnippet(snippet.id, 'offline-user'));
+});
+
+await test('requests without a base, like those made online, are never refused', async () => {
+  const snippet = await storage.createSnippet({ title: 'Online', content: 'v1', trigger: 'online' }, 'offline-user');
+  assert.strictEqual((await replay('PUT', `/api/snippets/${snippet.id}`, undefined, { content: 'v2' })).status, 200);
+  assert.strictEqual((await replay('PUT', `/api/snippets/${snippet.id}`, 'not a date', { content: 'v3' })).status, 200);
+  assert.strictEqual((await replay('DELETE', `/api/snippets/${snippet.id}`)).status, 200);
+});
+
+await new Promise(resolve => server.close(resolve));
+
+finish('offline');
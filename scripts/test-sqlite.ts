@@ -0,0 +1,392 @@
+#!/usr/bin/env node
+
+/**
+ * SQLite database tests: runs the migrations against a throwaway in-memory
+ * better-sqlite3 database, the one development uses without DATABASE_URL,
+ * and the storage on top of it
+ *
+ * Usage:
+ *   npx tsx scripts/test-sqlite.ts
+ */
+
+import assert from 'assert';
+import { test, finish } from './test-harness';
+
+process.env.NODE_ENV = 'development';
+process.env.DATABASE_URL = '';
+process.env.SQLITE_PATH = ':memory:';
+
+const { db, isSQLite } = await import('../server/db');
+const { runMigrations } = await import('../server/migrations');
+const { storage, DatabaseStorage } = await import('../server/storage');
+const { exportLibrary, importLibrary } = await import('../server/bundle');
+const { createShareLink, getShareLinkInfos, openShareLink } = await import('../server/sharing');
+const { startBackgroundJobs } = await import('../server/jobs');
+const { snippetListQuerySchema } = await import('../shared/listing');
+const { sql } = await import('drizzle-orm');
+
+const names = async (type: string) =>
+  (await db.all(sql`SELECT name FROM sqlite_master WHERE type = ${type}`)).map((row: any) => row.name);
+
+await test('the database is SQLite', async () => {
+  assert.strictEqual(isSQLite, true);
+  assert.ok(storage instanceof DatabaseStorage);
+});
+
+await test('migrations run on a fresh database, and again on a migrated one', async () => {
+  await runMigrations();
+  await runMigrations();
+});
+
+await test('migrations create the tables and indexes', async () => {
+  const tables = await names('table');
+  for (const table of ['folders', 'snippets', 'snippet_revisions', 'tags', 'snippet_tags', 'clipboard_items', 'settings', 'accounts', 'auth_sessions', 'api_tokens', 'share_links', 'snippets_fts']) {
+    assert.ok(tables.includes(table), `no ${table} table`);
+  }
+  const indexes = await names('index');
+  for (const index of ['folders_user_parent_name_unique', 'snippets_trigger_user_id_unique', 'snippets_user_hotkey_unique', 'settings_user_id_unique']) {
+    assert.ok(indexes.includes(index), `no ${index} index`);
+  }
+  const folderColumns = (await db.all(sql`PRAGMA table_info(folders)`)).map((row: any) => row.name);
+  assert.ok(folderColumns.includes('user_id') && folderColumns.includes('sort_order'));
+});
+
+await test('snippets and folders round-trip through the storage', async () => {
+  const folder = await storage.createFolder('Work', 'alice');
+  const snippet = await storage.createSnippet({ title: 'Sign-off', content: 'Best regards', trigger: 'sig', folderId: folder.id, tags: ['mail'] }, 'alice');
+  assert.strictEqual((await storage.getSnippet(snippet.id, 'alice'))?.content, 'Best regards');
+  assert.deepStrictEqual(snippet.tags, ['mail']);
+  assert.strictEqual(await storage.getSnippet(snippet.id, 'bob'), undefined);
+  assert.ok((await storage.getFolders('alice')).some(f => f.id === folder.id && f.name === 'Work'));
+});
+
+await test('triggers are unique per user, not across users', async () => {
+  await storage.createSnippet({ title: 'A', content: 'a', trigger: 'shared' }, 'alice');
+  await storage.createSnippet({ title: 'B', content: 'b', trigger: 'shared' }, 'bob');
+  await assert.rejects(storage.createSnippet({ title: 'C', content: 'c', trigger: 'shared' }, 'alice'));
+});
+
+await test('snippets saved at the same time each get their own transaction', async () => {
+  const created = await Promise.all([1, 2, 3, 4, 5].map(n =>
+    storage.createSnippet({ title: `Parallel ${n}`, content: `${n}`, trigger: `parallel-${n}`, tags: [`tag-${n}`] }, 'erin')
+  ));
+  assert.deepStrictEqual(created.map(snippet => snippet.tags), [['tag-1'], ['tag-2'], ['tag-3'], ['tag-4'], ['tag-5']]);
+  assert.strictEqual((await storage.getSnippets('erin')).length, 5);
+});
+
+await test('a failed transaction rolls back only its own writes', async () => {
+  const results = await Promise.allSettled([
+    storage.createSnippet({ title: 'First', content: 'first', trigger: 'settled-1', tags: ['kept'] }, 'erin'),
+    storage.createSnippet({ title: 'Taken', content: 'taken', trigger: 'parallel-1', tags: ['lost'] }, 'erin'),
+    storage.createSnippet({ title: 'Second', content: 'second', trigger: 'settled-2', tags: ['kept'] }, 'erin'),
+  ]);
+  assert.deepStrictEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+  const snippets = await storage.getSnippets('erin');
+  assert.ok(snippets.some(snippet => snippet.trigger === 'settled-1') && snippets.some(snippet => snippet.trigger === 'settled-2'));
+  assert.ok(!snippets.some(snippet => snippet.title === 'Taken'));
+  assert.ok(!snippets.some(snippet => snippet.tags?.includes('lost')));
+});
+
+await test('tag edits saved at the same time all land', async () => {
+  const snippets = (await storage.getSnippets('erin')).filter(snippet => snippet.trigger.startsWith('parallel-'));
+  const updated = await Promise.all(snippets.map(snippet =>
+    storage.updateSnippet(snippet.id, { content: 'edited', tags: ['edited', ...snippet.tags!] }, 'erin')
+  ));
+  assert.ok(updated.every(snippet => snippet?.content === 'edited' && snippet.tags?.length === 2));
+  for (const snippet of snippets) {
+    assert.deepStrictEqual((await storage.getSnippet(snippet.id, 'erin'))?.tags?.sort(), ['edited', ...snippet.tags!].sort());
+  }
+});
+
+await test("a snippet given a trashed snippet's trigger replaces it", async () => {
+  const old = await storage.createSnippet({ title: 'Old', content: 'old', trigger: 'sig' }, 'grace');
+  await storage.deleteSnippet(old.id, 'grace');
+  const renamed = await storage.createSnippet({ title: 'New', content: 'new', trigger: 'signature' }, 'grace');
+
+  assert.strictEqual((await storage.updateSnippet(renamed.id, { trigger: 'sig' }, 'grace'))?.trigger, 'sig');
+  assert.deepStrictEqual(await storage.getTrash('grace'), []);
+});
+
+await test("a folder renamed or moved onto a trashed folder's name replaces it", async () => {
+  const team = await storage.createFolder('Team', 'grace');
+  const old = await storage.createFolder('Work', 'grace');
+  await storage.deleteFolder(old.id, 'grace');
+  const oldInTeam = await storage.createFolder('Mail', 'grace', team.id);
+  await storage.deleteFolder(oldInTeam.id, 'grace');
+
+  const renamed = await storage.createFolder('Projects', 'grace');
+  assert.strictEqual((await storage.updateFolder(renamed.id, 'Work', 'grace'))?.name, 'Work');
+  const moved = await storage.createFolder('Mail', 'grace');
+  assert.strictEqual((await storage.moveFolder(moved.id, team.id, 'grace'))?.parentId, team.id);
+  assert.deepStrictEqual(await storage.getTrash('grace'), []);
+});
+
+await test('a page of snippets comes with the tags of each', async () => {
+  for (const n of [1, 2, 3]) {
+    await storage.createSnippet({ title: `Paged ${n}`, content: `${n}`, trigger: `paged-${n}`, tags: [`page-${n}`, 'paged'] }, 'heidi');
+  }
+  const page = await storage.getSnippetPage(snippetListQuerySchema.parse({ sort: 'title', limit: '2' }), 'heidi');
+  assert.deepStrictEqual(page.items.map(snippet => [snippet.title, snippet.tags]), [['Paged 1', ['page-1', 'paged']], ['Paged 2', ['page-2', 'paged']]]);
+});
+
+await test('search finds snippets through the full-text index, with their tags', async () => {
+  const results = await storage.search('alice', 'regards');
+  const found = results.find(result => result.kind === 'snippet' && result.item.title === 'Sign-off');
+  assert.ok(found);
+  assert.deepStrictEqual((found.item as { tags?: string[] }).tags, ['mail']);
+});
+
+await test('search matches prefixes, typos and accents, and skips the trash and other users', async () => {
+  const found = async (query: string, userId = 'judy') =>
+    (await storage.search(userId, query)).map(result => result.kind === 'snippet' ? result.item.trigger : result.item.content);
+  await storage.createSnippet({ title: 'Meeting notes', content: 'Agenda for the quarterly review', trigger: 'notes' }, 'judy');
+  await storage.createSnippet({ title: 'Café order', content: 'Two flat whites', trigger: 'order' }, 'judy');
+  const trashed = await storage.createSnippet({ title: 'Old agenda', content: 'agenda', trigger: 'old-agenda' }, 'judy');
+  await storage.deleteSnippet(trashed.id, 'judy');
+  await storage.createClipboardItem({ content: 'quarterly numbers', type: 'text' }, 'judy');
+
+  assert.deepStrictEqual(await found('quart'), ['notes', 'quarterly numbers']);
+  assert.deepStrictEqual(await found('agnda'), ['notes']);
+  assert.deepStrictEqual(await found('cafe'), ['order']);
+  assert.deepStrictEqual(await found('agenda', 'mallory'), []);
+  assert.deepStrictEqual(await storage.search('judy', 'quarterly', { kinds: ['clipboard'] }).then(results => results.map(result => result.kind)), ['clipboard']);
+
+  const [result] = await storage.search('judy', 'meeting');
+  assert.deepStrictEqual(result.title, [{ text: 'Meeting', match: true }, { text: ' notes', match: false }]);
+});
+
+await test('search follows edits, and the index is rebuilt for rows saved before it existed', async () => {
+  const snippet = await storage.createSnippet({ title: 'Directions', content: 'Take the first left', trigger: 'directions' }, 'judy');
+  await storage.updateSnippet(snippet.id, { content: 'Take the second right' }, 'judy');
+  assert.strictEqual((await storage.search('judy', 'first')).length, 0);
+  assert.strictEqual((await storage.search('judy', 'second')).length, 1);
+
+  for (const table of ['snippets', 'clipboard_items']) {
+    for (const trigger of ['insert', 'delete', 'update']) await db.run(sql.raw(`DROP TRIGGER ${table}_fts_${trigger}`));
+    await db.run(sql.raw(`DROP TABLE ${table}_fts_vocab`));
+    await db.run(sql.raw(`DROP TABLE ${table}_fts`));
+  }
+  await runMigrations();
+  assert.strictEqual((await storage.search('judy', 'second')).length, 1);
+  assert.strictEqual((await storage.search('judy', 'numbers', { kinds: ['clipboard'] })).length, 1);
+});
+
+await test('edits keep the text they replace as revisions, until the snippet is purged', async () => {
+  const snippet = await storage.createSnippet({ title: 'Greeting', content: 'Hello', trigger: 'hello' }, 'kim');
+  await storage.updateSnippet(snippet.id, { content: 'Hello there' }, 'kim');
+  await storage.updateSnippet(snippet.id, { tags: ['mail'], hotkey: 'ctrl+alt+h' }, 'kim');
+  await storage.updateSnippet(snippet.id, { title: 'Hi', content: 'Hi there' }, 'kim');
+  const revisions = await storage.getSnippetRevisions(snippet.id, 'kim');
+  assert.deepStrictEqual(revisions.map(revision => [revision.title, revision.content]), [['Greeting', 'Hello there'], ['Greeting', 'Hello']]);
+  assert.deepStrictEqual(await storage.getSnippetRevisions(snippet.id, 'mallory'), []);
+  assert.strictEqual(await storage.restoreSnippetRevision(snippet.id, revisions[0].id, 'mallory'), undefined);
+
+  const restored = await storage.restoreSnippetRevision(snippet.id, revisions[1].id, 'kim');
+  assert.deepStrictEqual([restored?.title, restored?.content, restored?.tags], ['Greeting', 'Hello', ['mail']]);
+  assert.deepStrictEqual((await storage.getSnippetRevisions(snippet.id, 'kim')).map(revision => revision.content), ['Hi there', 'Hello there', 'Hello']);
+
+  await storage.deleteSnippet(snippet.id, 'kim');
+  await storage.purgeFromTrash('snippet', snippet.id, 'kim');
+  assert.deepStrictEqual(await storage.getSnippetRevisions(snippet.id, 'kim'), []);
+});
+
+await test('snippets are counted in all, with a hotkey, and by folder', async () => {
+  const folder = await storage.createFolder('Counted', 'dave');
+  await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', hotkey: 'ctrl+alt+a', folderId: folder.id }, 'dave');
+  await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: folder.id }, 'dave');
+  const trashed = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', hotkey: 'ctrl+alt+c', folderId: folder.id }, 'dave');
+  await storage.deleteSnippet(trashed.id, 'dave');
+
+  const counts = await storage.getSnippetCounts('dave');
+  assert.strictEqual(counts.total, 2);
+  assert.strictEqual(counts.withHotkey, 1);
+  assert.strictEqual(counts.byFolder[folder.id], 2);
+});
+
+await test('reordering sets the manual order, all or nothing, without editing', async () => {
+  const work = await storage.createFolder('Work', 'liam');
+  const home = await storage.createFolder('Home', 'liam');
+  const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, 'liam');
+  const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: work.id }, 'liam');
+  const c = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', folderId: work.id }, 'liam');
+  const order = async (ids: number[]) => Promise.all(ids.map(async id => (await storage.getSnippet(id, 'liam'))?.sortOrder));
+
+  assert.ok(await storage.reorderSnippets([c.id, a.id, b.id], 'liam'));
+  assert.deepStrictEqual(await order([c.id, a.id, b.id]), [0, 1, 2]);
+  assert.strictEqual(new Date((await storage.getSnippet(a.id, 'liam'))!.updatedAt).getTime(), new Date(a.updatedAt).getTime());
+
+  const theirs = await storage.createSnippet({ title: 'Theirs', content: 't', trigger: 't' }, 'mallory');
+  assert.strictEqual(await storage.reorderSnippets([b.id, theirs.id, a.id], 'liam'), false);
+  await storage.deleteSnippet(c.id, 'liam');
+  assert.strictEqual(await storage.reorderSnippets([b.id, c.id, a.id], 'liam'), false);
+  assert.deepStrictEqual(await order([a.id, b.id]), [1, 2]);
+
+  assert.ok(await storage.reorderFolders([home.id, work.id], 'liam'));
+  assert.deepStrictEqual((await storage.getFolders('liam')).filter(folder => folder.id === work.id || folder.id === home.id).map(folder => folder.name), ['Home', 'Work']);
+  assert.strictEqual(await storage.reorderFolders([work.id, home.id, 9999], 'liam'), false);
+  assert.strictEqual((await storage.getFolder(home.id, 'liam'))?.sortOrder, 0);
+});
+
+await test("new snippets go last in their folder's order", async () => {
+  const folder = await storage.createFolder('Ordered', 'erin');
+  const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: folder.id }, 'erin');
+  const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: folder.id }, 'erin');
+  assert.deepStrictEqual([a.sortOrder, b.sortOrder], [0, 1]);
+  assert.ok(await storage.reorderSnippets([b.id, a.id], 'erin'));
+  const c = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', folderId: folder.id }, 'erin');
+  assert.strictEqual(c.sortOrder, 2);
+});
+
+await test('a deleted folder comes back with its snippets', async () => {
+  const folder = await storage.createFolder('Trashed', 'carol');
+  const child = await storage.createFolder('Child', 'carol', folder.id);
+  const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: folder.id }, 'carol');
+  const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: child.id }, 'carol');
+
+  assert.ok(await storage.deleteFolder(folder.id, 'carol'));
+  assert.deepStrictEqual(await storage.getSnippets('carol'), []);
+  assert.deepStrictEqual((await storage.getTrash('carol')).map(entry => [entry.type, entry.item.id]), [['folder', folder.id]]);
+
+  assert.ok(await storage.restoreFromTrash('folder', folder.id, 'carol'));
+  assert.strictEqual((await storage.getSnippet(a.id, 'carol'))?.folderId, folder.id);
+  assert.strictEqual((await storage.getSnippet(b.id, 'carol'))?.folderId, child.id);
+  assert.deepStrictEqual(await storage.getTrash('carol'), []);
+});
+
+await test('purging a folder purges the snippets trashed with it', async () => {
+  const folder = await storage.createFolder('Purged', 'carol');
+  const a = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', folderId: folder.id }, 'carol');
+  await storage.deleteFolder(folder.id, 'carol');
+
+  assert.ok(await storage.purgeFromTrash('folder', folder.id, 'carol'));
+  assert.deepStrictEqual(await storage.getTrash('carol'), []);
+  assert.strictEqual(await storage.restoreFromTrash('snippet', a.id, 'carol'), false);
+});
+
+await test('a replacing import leaves the old library in the trash', async () => {
+  const folder = await storage.createFolder('Work', 'frank');
+  const a = await storage.createSnippet({ title: 'A', content: 'old a', trigger: 'a', folderId: folder.id }, 'frank');
+  const bundle = await exportLibrary(storage, 'frank');
+
+  await importLibrary(storage, bundle, { mode: 'replace', onConflict: 'skip', dryRun: false }, 'frank');
+  assert.deepStrictEqual((await storage.getSnippets('frank')).map(snippet => snippet.trigger), ['a']);
+  assert.ok((await storage.getTrash('frank')).some(entry => entry.type === 'folder' && entry.item.id === folder.id));
+
+  assert.ok(await storage.restoreFromTrash('folder', folder.id, 'frank'));
+  await storage.restoreFromTrash('snippet', a.id, 'frank');
+  assert.strictEqual((await storage.getFolder(folder.id, 'frank'))?.name, 'Work-2');
+  assert.strictEqual((await storage.getSnippet(a.id, 'frank'))?.trigger, 'a-2');
+});
+
+await test('share links keep only the hash of their token', async () => {
+  const snippet = await storage.createSnippet({ title: 'Shared', content: 'shared', trigger: 'shared' }, 'ivan');
+  const created = await createShareLink('ivan', { targetType: 'snippet', targetId: snippet.id });
+  assert.ok(created?.token);
+  assert.ok(!('tokenHash' in created));
+
+  const rows = await db.all(sql`SELECT * FROM share_links WHERE id = ${created.id}`);
+  assert.ok(!('token' in rows[0]));
+  assert.notStrictEqual(rows[0].token_hash, created.token);
+  assert.strictEqual((await openShareLink(created.token))?.type, 'snippet');
+  assert.strictEqual(await openShareLink(rows[0].token_hash), undefined);
+
+  const [info] = await getShareLinkInfos('ivan');
+  assert.strictEqual(info.title, 'Shared');
+  assert.ok(!('token' in info) && !('tokenHash' in info));
+});
+
+await test('share links saved with their token still open once the token is hashed', async () => {
+  const snippet = await storage.createSnippet({ title: 'Old link', content: 'old link', trigger: 'old-link' }, 'ivan');
+  await db.run(sql`DROP TABLE share_links`);
+  await db.run(sql`
+    CREATE TABLE share_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id INTEGER NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER,
+      max_views INTEGER,
+      view_count INTEGER NOT NULL DEFAULT 0,
+      last_viewed_at INTEGER,
+      revoked_at INTEGER
+    )
+  `);
+  await db.run(sql`INSERT INTO share_links (token, user_id, target_type, target_id) VALUES ('old-token', 'ivan', 'snippet', ${snippet.id})`);
+
+  await runMigrations();
+  const [row] = await db.all(sql`SELECT * FROM share_links`);
+  assert.ok(!('token' in row));
+  assert.notStrictEqual(row.token_hash, 'old-token');
+  assert.strictEqual((await openShareLink('old-token'))?.type, 'snippet');
+});
+
+await test('pinned clipboard items come first and outlast the history limit and clearing', async () => {
+  const userId = 'olga';
+  await storage.updateSettings({ historyLimit: 2 }, userId);
+  const copy = (content: string) => storage.createClipboardItem({ content, type: 'text' }, userId);
+  const contents = async () => (await storage.getClipboardItems(userId)).map(item => item.content);
+  const pinned = await copy('pinned');
+  assert.strictEqual((await storage.setClipboardItemPinned(pinned.id, true, userId))?.pinned, 1);
+  const a = await copy('a');
+  const b = await copy('b');
+  const c = await copy('c');
+  assert.strictEqual((await contents())[0], 'pinned');
+  assert.deepStrictEqual((await contents()).sort(), ['b', 'c', 'pinned']);
+
+  assert.strictEqual(await storage.setClipboardItemsPinned([b.id, a.id], true, userId), undefined);
+  assert.strictEqual(await storage.setClipboardItemPinned(b.id, true, 'peggy'), undefined);
+  assert.deepStrictEqual((await storage.setClipboardItemsPinned([b.id], true, userId))?.map(item => item.pinned), [1]);
+  assert.deepStrictEqual(await storage.clearClipboardHistory(userId), [c.id]);
+  assert.deepStrictEqual((await contents()).sort(), ['b', 'pinned']);
+
+  // Unpinned again, the oldest items are over the limit
+  await copy('d');
+  await storage.setClipboardItemsPinned([pinned.id, b.id], false, userId);
+  assert.deepStrictEqual((await contents()).sort(), ['b', 'd']);
+});
+
+await test('the background jobs prune the clipboard history, empty the trash and drop ended sessions', async () => {
+  const now = Math.floor(Date.now() / 1000);
+  const daysAgo = (days: number) => now - days * 24 * 60 * 60;
+  const clip = async (content: string, createdAt: number, userId = 'nina') => {
+    const item = await storage.createClipboardItem({ content, type: 'text' }, userId);
+    await db.run(sql`UPDATE clipboard_items SET created_at = ${createdAt} WHERE id = ${item.id}`);
+    return item;
+  };
+  const stale = await clip('stale', daysAgo(10));
+  const pinned = await clip('pinned', daysAgo(10));
+  await storage.setClipboardItemPinned(pinned.id, true, 'nina');
+  const oldest = await clip('oldest', now - 3);
+  const older = await clip('older', now - 2);
+  const newest = await clip('newest', now - 1);
+  const kept = await clip('kept', daysAgo(10), 'oscar');
+  await storage.updateSettings({ historyLimit: 2, clipboardRetentionDays: 7, trashRetentionDays: 30 }, 'nina');
+
+  const expired = await storage.createSnippet({ title: 'Expired', content: 'expired', trigger: 'expired' }, 'nina');
+  const recent = await storage.createSnippet({ title: 'Recent', content: 'recent', trigger: 'recent' }, 'nina');
+  await storage.deleteSnippet(expired.id, 'nina');
+  await storage.deleteSnippet(recent.id, 'nina');
+  await db.run(sql`UPDATE snippets SET deleted_at = ${daysAgo(40)} WHERE id = ${expired.id}`);
+
+  const ended = await storage.createAuthSession({ tokenHash: 'ended-session', userId: 'nina', userAgent: null, expiresAt: new Date(Date.now() - 1000) });
+  const live = await storage.createAuthSession({ tokenHash: 'live-session', userId: 'nina', userAgent: null, expiresAt: new Date(Date.now() + 60_000) });
+
+  startBackgroundJobs();
+  const ids = async (table: string) => (await db.all(sql`SELECT id FROM ${sql.raw(table)}`)).map((row: any) => row.id);
+  for (let tries = 0; tries < 50 && (await ids('auth_sessions')).includes(ended.id); tries++) {
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  const clipboard = await ids('clipboard_items');
+  assert.deepStrictEqual([stale, oldest].filter(item => clipboard.includes(item.id)), []);
+  assert.ok([pinned, older, newest, kept].every(item => clipboard.includes(item.id)));
+  const snippets = await ids('snippets');
+  assert.ok(!snippets.includes(expired.id) && snippets.includes(recent.id));
+  const sessions = await ids('auth_sessions');
+  assert.ok(!sessions.includes(ended.id) && sessions.includes(live.id));
+});
+
+finish('SQLite');
@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Sync channel tests against a throwaway in-memory SQLite database: a
+ * connection is accepted for a live session only, gets the user's changes,
+ * and is closed once its session is signed out or has ended
+ *
+ * Usage:
+ *   npx tsx scripts/test-sync.ts
+ */
+
+import assert from 'assert';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { test, finish } from './test-harness';
+
+process.env.NODE_ENV = 'development';
+process.env.DATABASE_URL = '';
+process.env.SQLITE_PATH = ':memory:';
+
+const { runMigrations } = await import('../server/migrations');
+const { storage } = await import('../server/storage');
+const { createSession, getSession } = await import('../server/auth');
+const { registerRoutes } = await import('../server/routes');
+const { notifyUser, disconnectSession, recheckSessions } = await import('../server/sync');
+const { SYNC_PATH, SYNC_CLOSE_UNAUTHORIZED, SYNC_CLOSE_SIGNED_OUT } = await import('../shared/sync');
+
+await runMigrations();
+
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const syncUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${SYNC_PATH}`;
+
+// A sync connection that has said hello, with the messages and the close code it got
+interface Connection {
+  socket: WebSocket;
+  messages: any[];
+  closed: Promise<number>;
+}
+
+const connections: Connection[] = [];
+
+async function connect(sessionToken: string): Promise<Connection> {
+  const socket = new WebSocket(syncUrl);
+  const messages: any[] = [];
+  const closed = new Promise<number>(resolve => socket.on('close', code => resolve(code)));
+  const ready = new Promise<void>(resolve => socket.on('message', data => {
+    const message = JSON.parse(data.toString());
+    messages.push(message);
+    if (message.type === 'ready') resolve();
+  }));
+  await new Promise(resolve => socket.once('open', resolve));
+  socket.send(JSON.stringify({ type: 'hello', sessionToken }));
+  await Promise.race([ready, closed]);
+  const connection = { socket, messages, closed };
+  connections.push(connection);
+  return connection;
+}
+
+// The close code the connection gets within a second; null while it stays open
+function closeCode(connection: Connection): Promise<number | null> {
+  return Promise.race([connection.closed, new Promise<null>(resolve => setTimeout(() => resolve(null), 1000))]);
+}
+
+await test('a connection is refused without a live session', async () => {
+  const connection = await connect('not-a-session');
+  assert.strictEqual(await closeCode(connection), SYNC_CLOSE_UNAUTHORIZED);
+  assert.deepStrictEqual(connection.messages, []);
+});
+
+await test("a connection gets its user's changes only", async () => {
+  const mine = await connect(await createSession('sync-alice'));
+  const theirs = await connect(await createSession('sync-bob'));
+  notifyUser('sync-alice', { type: 'snippet.deleted', id: 1 });
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.deepStrictEqual(mine.messages, [{ type: 'ready' }, { type: 'snippet.deleted', id: 1 }]);
+  assert.deepStrictEqual(theirs.messages, [{ type: 'ready' }]);
+});
+
+await test('signing out a session closes its connections', async () => {
+  const token = await createSession('sync-carol');
+  const connection = await connect(token);
+  disconnectSession((await getSession(token))!.id);
+  assert.strictEqual(await closeCode(connection), SYNC_CLOSE_SIGNED_OUT);
+});
+
+await test('the periodic check closes connections whose session was revoked or ran out', async () => {
+  const revokedToken = await createSession('sync-dave');
+  const expiringToken = await createSession('sync-dave');
+  const liveToken = await createSession('sync-dave');
+  const revoked = await connect(revokedToken);
+  const expiring = await connect(expiringToken);
+  const live = await connect(liveToken);
+
+  // As another server process would: the session ends without disconnectSession
+  const revokedSession = (await getSession(revokedToken))!;
+  await storage.revokeAuthSession(revokedSession.id, 'sync-dave');
+  await storage.touchAuthSession((await getSession(expiringToken))!.id, new Date(Date.now() - 1000));
+  assert.strictEqual(revoked.socket.readyState, WebSocket.OPEN);
+
+  await recheckSessions();
+  assert.strictEqual(await closeCode(revoked), SYNC_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(await closeCode(expiring), SYNC_CLOSE_UNAUTHORIZED);
+  assert.strictEqual(live.socket.readyState, WebSocket.OPEN);
+});
+
+connections.forEach(connection => connection.socket.terminate());
+await new Promise(resolve => server.close(resolve));
+
+finish('sync');
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+/**
+ * Template engine tests
+ *
+ * Usage:
+ *   npx tsx scripts/test-templates.ts
+ */
+
+import assert from 'assert';
+import {
+  parseTemplate,
+  expandTemplate,
+  getTemplateFields,
+  hasTemplateVariables,
+  escapeTemplate,
+  formatFieldLabel,
+} from '../shared/templates';
+import { test, finish } from './test-harness';
+
+const now = new Date(2024, 2, 5, 9, 7, 3);
+console.log('Testing template parsing...');
+
+test('plain text is a single text token', () => {
+  assert.deepStrictEqual(parseTemplate('hello world'), [{ type: 'text', value: 'hello world' }]);
+});
+
+test('variables with and without arguments are parsed', () => {
+  assert.deepStrictEqual(parseTemplate('a {{date}} b {{ time : HH:mm }}'), [
+    { type: 'text', value: 'a ' },
+    { type: 'variable', name: 'date', arg: null, raw: '{{date}}' },
+    { type: 'text', value: ' b ' },
+    { type: 'variable', name: 'time', arg: 'HH:mm', raw: '{{ time : HH:mm }}' },
+  ]);
+});
+
+test('invalid placeholders stay as text', () => {
+  assert.strictEqual(hasTemplateVariables('{{}} {{1abc}} {{a b}} {{unclosed'), false);
+  assert.strictEqual(expandTemplate('{{}} {{a b}} {{unclosed', { now }).text, '{{}} {{a b}} {{unclosed');
+});
+
+test('escaped braces are literal', () => {
+  assert.deepStrictEqual(parseTemplate('\\{{date}}'), [{ type: 'text', value: '{{date}}' }]);
+  assert.strictEqual(expandTemplate('\\{{date}} {{date}}', { now }).text, '{{date}} 2024-03-05');
+});
+
+test('escapeTemplate round-trips through expansion', () => {
+  const text = 'const x = {{ a: 1 }}; {{date}}';
+  assert.strictEqual(expandTemplate(escapeTemplate(text), { now }).text, text);
+});
+
+console.log('\nTesting template expansion...');
+
+test('date and time use defaults and custom formats', () => {
+  assert.strictEqual(expandTemplate('{{date}} {{time}}', { now }).text, '2024-03-05 09:07');
+  assert.strictEqual(expandTemplate('{{date:dd/MM/yyyy}} {{time:HH:mm:ss}}', { now }).text, '05/03/2024 09:07:03');
+});
+
+test('invalid date formats leave the placeholder in place', () => {
+  assert.strictEqual(expandTemplate('{{date:YYYY}}', { now }).text, '{{date:YYYY}}');
+});
+
+test('clipboard is substituted', () => {
+  assert.strictEqual(expandTemplate('> {{clipboard}}', { clipboard: 'copied' }).text, '> copied');
+  assert.strictEqual(expandTemplate('> {{clipboard}}').text, '> ');
+});
+
+test('cursor is removed and its offset reported', () => {
+  const result = expandTemplate('Hi {{name}}, {{cursor}}!{{cursor}}', { fields: { name: 'Ann' } });
+  assert.strictEqual(result.text, 'Hi Ann, !');
+  assert.strictEqual(result.cursorOffset, 8);
+  assert.strictEqual(expandTemplate('no cursor').cursorOffset, null);
+});
+
+test('named fields use values, then defaults', () => {
+  const content = 'Dear {{customer_name:Customer}}, re {{ticket}}. {{customer_name}}';
+  assert.strictEqual(expandTemplate(content).text, 'Dear Customer, re . Customer');
+  assert.strictEqual(expandTemplate(content, { fields: { customer_name: 'Bob', ticket: '#42' } }).text, 'Dear Bob, re #42. Bob');
+});
+
+test('getTemplateFields lists unique named fields only', () => {
+  assert.deepStrictEqual(getTemplateFields('{{date}} {{a}} {{b:x}} {{a:y}} {{clipboard}} \\{{c}}'), [
+    { name: 'a', defaultValue: 'y' },
+    { name: 'b', defaultValue: 'x' },
+  ]);
+});
+
+test('formatFieldLabel humanises field names', () => {
+  assert.strictEqual(formatFieldLabel('customer_name'), 'Customer name');
+  assert.strictEqual(formatFieldLabel('order-id'), 'Order id');
+});
+
+finish('template');
@@ -0,0 +1,253 @@
+#!/usr/bin/env node
+
+/**
+ * Trash tests for the file and in-memory storage: deleting, restoring and
+ * purging folders with the snippets in them, the revisions snippets keep
+ * until they are purged, reordering and where new snippets land in a folder's
+ * order, the library a replacing import moves to the trash, and the pinned
+ * clipboard items that trimming and clearing leave in place.
+ * scripts/test-sqlite.ts covers the database storage.
+ *
+ * Usage:
+ *   npx tsx scripts/test-trash.ts
+ */
+
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test, finish } from './test-harness';
+
+// FileStorage keeps its files under ./data; use a throwaway directory instead
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snipclip-trash-'));
+process.chdir(workDir);
+
+const { FileStorage, MemStorage } = await import('../server/storage');
+const { exportLibrary, importLibrary } = await import('../server/bundle');
+type Storage = InstanceType<typeof MemStorage>;
+
+const backends: Array<[string, () => Storage]> = [
+  ['MemStorage', () => new MemStorage()],
+  ['FileStorage', () => new FileStorage() as unknown as Storage],
+];
+
+let user = 0;
+
+for (const [backend, create] of backends) {
+  const storage = create();
+
+  await test(`${backend}: edits keep the text they replace as revisions, until the snippet is purged`, async () => {
+    const userId = `user-${++user}`;
+    const otherUserId = `user-${++user}`;
+    const snippet = await storage.createSnippet({ title: 'Greeting', content: 'Hello', trigger: 'hello' }, userId);
+    await storage.updateSnippet(snippet.id, { content: 'Hello there' }, userId);
+    await storage.updateSnippet(snippet.id, { tags: ['mail'], hotkey: 'ctrl+alt+h' }, userId);
+    await storage.updateSnippet(snippet.id, { title: 'Hi', content: 'Hi there' }, userId);
+    const revisions = await storage.getSnippetRevisions(snippet.id, userId);
+    assert.deepStrictEqual(revisions.map(revision => [revision.title, revision.content]), [['Greeting', 'Hello there'], ['Greeting', 'Hello']]);
+    assert.deepStrictEqual(await storage.getSnippetRevisions(snippet.id, otherUserId), []);
+    assert.strictEqual(await storage.restoreSnippetRevision(snippet.id, revisions[0].id, otherUserId), undefined);
+
+    const restored = await storage.restoreSnippetRevision(snippet.id, revisions[1].id, userId);
+    assert.deepStrictEqual([restored?.title, restored?.content, restored?.tags], ['Greeting', 'Hello', ['mail']]);
+    assert.deepStrictEqual((await storage.getSnippetRevisions(snippet.id, userId)).map(revision => revision.content), ['Hi there', 'Hello there', 'Hello']);
+
+    await storage.deleteSnippet(snippet.id, userId);
+    await storage.purgeFromTrash('snippet', snippet.id, userId);
+    assert.deepStrictEqual(await storage.getSnippetRevisions(snippet.id, userId), []);
+  });
+
+  await test(`${backend}: a deleted folder comes back with its snippets and subfolders`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const mail = await storage.createFolder('Mail', userId, work.id);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: mail.id }, userId);
+
+    assert.ok(await storage.deleteFolder(work.id, userId));
+    assert.deepStrictEqual(await storage.getSnippets(userId), []);
+    const trash = await storage.getTrash(userId);
+    assert.deepStrictEqual(trash.map(entry => [entry.type, entry.item.id]), [['folder', work.id]]);
+
+    assert.ok(await storage.restoreFromTrash('folder', work.id, userId));
+    assert.strictEqual((await storage.getSnippet(a.id, userId))?.folderId, work.id);
+    assert.strictEqual((await storage.getSnippet(b.id, userId))?.folderId, mail.id);
+    assert.strictEqual((await storage.getFolder(mail.id, userId))?.parentId, work.id);
+    assert.deepStrictEqual(await storage.getTrash(userId), []);
+  });
+
+  await test(`${backend}: snippets trashed before their folder stay in the trash on their own`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    await storage.deleteSnippet(a.id, userId);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await storage.deleteFolder(work.id, userId);
+
+    assert.ok(await storage.restoreFromTrash('folder', work.id, userId));
+    assert.strictEqual(await storage.getSnippet(a.id, userId), undefined);
+    assert.deepStrictEqual((await storage.getTrash(userId)).map(entry => [entry.type, entry.item.id]), [['snippet', a.id]]);
+  });
+
+  await test(`${backend}: restoring a folder fails when one of its snippets' hotkeys is taken`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', hotkey: 'ctrl+alt+a', folderId: work.id }, userId);
+    await storage.deleteFolder(work.id, userId);
+    await storage.createSnippet({ title: 'Other', content: 'o', trigger: 'other', hotkey: 'ctrl+alt+a' }, userId);
+
+    await assert.rejects(storage.restoreFromTrash('folder', work.id, userId), /hotkey is already used/);
+    assert.strictEqual(await storage.getFolder(work.id, userId), undefined);
+    assert.strictEqual(await storage.getSnippet(a.id, userId), undefined);
+  });
+
+  await test(`${backend}: reordering sets the manual order, all or nothing, without editing`, async () => {
+    const userId = `user-${++user}`;
+    const otherUserId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const home = await storage.createFolder('Home', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: work.id }, userId);
+    const c = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', folderId: work.id }, userId);
+    const order = async (ids: number[]) => Promise.all(ids.map(async id => (await storage.getSnippet(id, userId))?.sortOrder));
+
+    assert.ok(await storage.reorderSnippets([c.id, a.id, b.id], userId));
+    assert.deepStrictEqual(await order([c.id, a.id, b.id]), [0, 1, 2]);
+    assert.strictEqual(new Date((await storage.getSnippet(a.id, userId))!.updatedAt).getTime(), new Date(a.updatedAt).getTime());
+
+    const theirs = await storage.createSnippet({ title: 'Theirs', content: 't', trigger: 't' }, otherUserId);
+    assert.strictEqual(await storage.reorderSnippets([b.id, theirs.id, a.id], userId), false);
+    await storage.deleteSnippet(c.id, userId);
+    assert.strictEqual(await storage.reorderSnippets([b.id, c.id, a.id], userId), false);
+    assert.deepStrictEqual(await order([a.id, b.id]), [1, 2]);
+
+    assert.ok(await storage.reorderFolders([home.id, work.id], userId));
+    assert.deepStrictEqual((await storage.getFolders(userId)).filter(folder => folder.id === work.id || folder.id === home.id).map(folder => folder.name), ['Home', 'Work']);
+    assert.strictEqual(await storage.reorderFolders([work.id, home.id, 9999], userId), false);
+    assert.strictEqual((await storage.getFolder(home.id, userId))?.sortOrder, 0);
+  });
+
+  await test(`${backend}: new snippets go last in their folder's order`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    const b = await storage.createSnippet({ title: 'B', content: 'b', trigger: 'b', folderId: work.id }, userId);
+    assert.deepStrictEqual([a.sortOrder, b.sortOrder], [0, 1]);
+    assert.ok(await storage.reorderSnippets([b.id, a.id], userId));
+    const c = await storage.createSnippet({ title: 'C', content: 'c', trigger: 'c', folderId: work.id }, userId);
+    assert.strictEqual(c.sortOrder, 2);
+  });
+
+  await test(`${backend}: purging a folder purges the snippets trashed with it`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    await storage.deleteFolder(work.id, userId);
+
+    assert.ok(await storage.purgeFromTrash('folder', work.id, userId));
+    assert.deepStrictEqual(await storage.getTrash(userId), []);
+    assert.strictEqual(await storage.restoreFromTrash('snippet', a.id, userId), false);
+  });
+
+  await test(`${backend}: a snippet given a trashed snippet's trigger replaces it`, async () => {
+    const userId = `user-${++user}`;
+    const old = await storage.createSnippet({ title: 'Old', content: 'old', trigger: 'sig' }, userId);
+    await storage.deleteSnippet(old.id, userId);
+    const renamed = await storage.createSnippet({ title: 'New', content: 'new', trigger: 'signature' }, userId);
+
+    assert.strictEqual((await storage.updateSnippet(renamed.id, { trigger: 'sig' }, userId))?.trigger, 'sig');
+    assert.deepStrictEqual(await storage.getTrash(userId), []);
+  });
+
+  await test(`${backend}: a folder renamed or moved onto a trashed folder's name replaces it`, async () => {
+    const userId = `user-${++user}`;
+    const team = await storage.createFolder('Team', userId);
+    const old = await storage.createFolder('Work', userId);
+    await storage.deleteFolder(old.id, userId);
+    const oldInTeam = await storage.createFolder('Mail', userId, team.id);
+    await storage.deleteFolder(oldInTeam.id, userId);
+
+    const renamed = await storage.createFolder('Projects', userId);
+    assert.strictEqual((await storage.updateFolder(renamed.id, 'Work', userId))?.name, 'Work');
+    const moved = await storage.createFolder('Mail', userId);
+    assert.strictEqual((await storage.moveFolder(moved.id, team.id, userId))?.parentId, team.id);
+    assert.deepStrictEqual(await storage.getTrash(userId), []);
+  });
+
+  await test(`${backend}: a replacing import leaves the old library in the trash`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'old a', trigger: 'a', folderId: work.id }, userId);
+    const b = await storage.createSnippet({ title: 'B', content: 'old b', trigger: 'b' }, userId);
+    const bundle = await exportLibrary(storage, userId);
+    bundle.snippets = bundle.snippets.map(snippet => ({ ...snippet, content: snippet.content.replace('old', 'new') }));
+
+    const report = await importLibrary(storage, bundle, { mode: 'replace', onConflict: 'skip', dryRun: false }, userId);
+    assert.deepStrictEqual(report.removed, { folders: 1, snippets: 2, clipboard: 0 });
+    assert.deepStrictEqual((await storage.getSnippets(userId)).map(snippet => [snippet.trigger, snippet.content]).sort(), [['a', 'new a'], ['b', 'new b']]);
+
+    // Under the next free trigger and name, as the imported ones took theirs
+    const trash = (await storage.getTrash(userId)).map(entry => `${entry.type} ${entry.item.id}`);
+    assert.ok(trash.includes(`folder ${work.id}`) && trash.includes(`snippet ${b.id}`));
+    assert.ok(await storage.restoreFromTrash('folder', work.id, userId));
+    // Unless it was trashed in the same instant as its folder and came back with it
+    await storage.restoreFromTrash('snippet', a.id, userId);
+    assert.ok(await storage.restoreFromTrash('snippet', b.id, userId));
+    assert.strictEqual((await storage.getFolder(work.id, userId))?.name, 'Work-2');
+    assert.deepStrictEqual(await storage.getSnippet(a.id, userId).then(snippet => [snippet?.trigger, snippet?.content]), ['a-2', 'old a']);
+    assert.deepStrictEqual(await storage.getSnippet(b.id, userId).then(snippet => [snippet?.trigger, snippet?.content]), ['b-2', 'old b']);
+  });
+
+  await test(`${backend}: an import that fails partway leaves the library as it was`, async () => {
+    const userId = `user-${++user}`;
+    const work = await storage.createFolder('Work', userId);
+    const a = await storage.createSnippet({ title: 'A', content: 'a', trigger: 'a', folderId: work.id }, userId);
+    const item = await storage.createClipboardItem({ content: 'copied', type: 'text' }, userId);
+    const bundle = await exportLibrary(storage, userId);
+    bundle.snippets.push({ ...bundle.snippets[0], title: 'New', trigger: 'new', folder: 'New folder' });
+    bundle.clipboard = [{ content: 'imported', type: 'text', createdAt: new Date().toISOString() }];
+
+    const failing = new Proxy(storage, {
+      get(target, key) {
+        if (key === 'createClipboardItem') return async () => { throw new Error('Disk full'); };
+        const value = Reflect.get(target, key);
+        return typeof value === 'function' ? value.bind(target) : value;
+      },
+    });
+    await assert.rejects(importLibrary(failing, bundle, { mode: 'replace', onConflict: 'skip', dryRun: false }, userId), /Disk full/);
+
+    assert.deepStrictEqual((await storage.getSnippets(userId)).map(snippet => [snippet.id, snippet.trigger, snippet.folderId]), [[a.id, 'a', work.id]]);
+    assert.deepStrictEqual((await storage.getFolders(userId)).filter(folder => folder.name !== 'General').map(folder => [folder.id, folder.name]), [[work.id, 'Work']]);
+    assert.deepStrictEqual((await storage.getClipboardItems(userId)).map(clip => clip.id), [item.id]);
+    assert.deepStrictEqual(await storage.getTrash(userId), []);
+  });
+
+  await test(`${backend}: pinned clipboard items come first and outlast the history limit and clearing`, async () => {
+    const userId = `user-${++user}`;
+    await storage.updateSettings({ historyLimit: 2 }, userId);
+    const copy = (content: string) => storage.createClipboardItem({ content, type: 'text' }, userId);
+    const contents = async () => (await storage.getClipboardItems(userId)).map(item => item.content);
+    const pinned = await copy('pinned');
+    assert.strictEqual((await storage.setClipboardItemPinned(pinned.id, true, userId))?.pinned, 1);
+    const a = await copy('a');
+    const b = await copy('b');
+    const c = await copy('c');
+    assert.strictEqual((await contents())[0], 'pinned');
+    assert.deepStrictEqual((await contents()).sort(), ['b', 'c', 'pinned']);
+
+    assert.strictEqual(await storage.setClipboardItemsPinned([b.id, a.id], true, userId), undefined);
+    assert.strictEqual(await storage.setClipboardItemPinned(b.id, true, `user-${++user}`), undefined);
+    assert.deepStrictEqual((await storage.setClipboardItemsPinned([b.id], true, userId))?.map(item => item.pinned), [1]);
+    assert.deepStrictEqual(await storage.clearClipboardHistory(userId), [c.id]);
+    assert.deepStrictEqual((await contents()).sort(), ['b', 'pinned']);
+
+    // Unpinned again, the oldest items are over the limit
+    await copy('d');
+    await storage.setClipboardItemsPinned([pinned.id, b.id], false, userId);
+    assert.deepStrictEqual((await contents()).sort(), ['b', 'd']);
+  });
+}
+
+fs.rmSync(workDir, { recursive: true, force: true });
+
+finish('trash');
@@ -1,27 +1,75 @@
 import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { promisify } from 'util';
+import { storage } from './storage';
+import { dialect } from './db';
+import type { Account, ApiToken, ApiTokenScope, CreateApiToken } from '@shared/schema';
 
 export interface UserCredentials {
   pin: string;
   passphrase: string;
 }
 
-export interface UserSession {
+export interface CredentialChange {
+  currentPin: string;
+  currentPassphrase: string;
+  newPin: string;
+  newPassphrase: string;
+}
+
+export interface AuthenticatedUser {
   userId: string;
-  pin: string;
-  passphrase: string;
+  // Unset when the request was let in by an API token or the development userId fallback
+  sessionId?: number;
+  // Set when the request was let in by a personal API token
+  apiTokenId?: number;
+  apiTokenScope?: ApiTokenScope;
+}
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SCRYPT_KEY_LENGTH = 64;
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Sliding expiry is only written back once in a while, not on every request
+const SESSION_TOUCH_INTERVAL_MS = 60 * 60 * 1000;
+// Likewise an API token's last use is only recorded to within this
+const API_TOKEN_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOGIN_WINDOW_MS = 15 * 60 * 1000;
+const MAX_LOGIN_ATTEMPTS = 10;
+
+// Accepting a bare x-user-id header is only for local development and must be switched on explicitly
+export const isDevAuthEnabled = process.env.SNIPCLIP_DEV_AUTH === '1';
+
+// The server's key for login keys. Accounts in PostgreSQL outlive data/ on a
+// host like Render, so production has to set SNIPCLIP_LOGIN_SECRET there;
+// otherwise a secret is made on first start and kept in data/.
+function loadLoginSecret(): string {
+  if (process.env.SNIPCLIP_LOGIN_SECRET) return process.env.SNIPCLIP_LOGIN_SECRET;
+  if (process.env.NODE_ENV === 'production' && dialect === 'postgresql') {
+    throw new Error('SNIPCLIP_LOGIN_SECRET must be set in production');
+  }
+  const file = path.resolve(process.cwd(), 'data', 'login-secret');
+  if (!fs.existsSync(file)) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return fs.readFileSync(file, 'utf8').trim();
+}
+
+const LOGIN_SECRET = loadLoginSecret();
+
+// What an account is looked up by at login. Keyed with the server secret, so a
+// copy of the accounts alone is no shortcut to guessing the credentials.
+export function loginKeyFor(pin: string, passphrase: string): string {
+  return crypto.createHmac('sha256', LOGIN_SECRET).update(`${pin}:${passphrase}`).digest('hex');
 }
 
-// Generate a consistent user ID from PIN and passphrase
-export function generateUserId(pin: string, passphrase: string): string {
-  // Combine PIN and passphrase with a salt for security
-  const salt = "SnipClip_Sync_v1"; // Version-specific salt
-  const combined = `${pin}:${passphrase}:${salt}`;
-  
-  // Create a SHA-256 hash
-  const hash = crypto.createHash('sha256').update(combined).digest('hex');
-  
-  // Return first 32 characters for a shorter but still unique ID
-  return hash.substring(0, 32);
+// The unkeyed login key of older versions, which was also the first user id
+// of each account. Only used to find those accounts and move them off it.
+export function legacyLoginKey(pin: string, passphrase: string): string {
+  return crypto.createHash('sha256').update(`${pin}:${passphrase}:SnipClip_Sync_v1`).digest('hex').substring(0, 32);
 }
 
 // Validate PIN format (4-6 digits)
@@ -34,83 +82,206 @@ export function validatePassphrase(passphrase: string): boolean {
   return passphrase.length >= 8 && /^[a-zA-Z0-9!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]+$/.test(passphrase);
 }
 
-// Create a session token for the user
-export function createSessionToken(userId: string, pin: string, passphrase: string): string {
-  const sessionData = `${userId}:${pin}:${passphrase}:${Date.now()}`;
-  return crypto.createHash('sha256').update(sessionData).digest('hex');
+// Slow, salted hash of the credentials, stored as "scrypt:<salt>:<hash>"
+export async function hashCredentials(pin: string, passphrase: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(`${pin}:${passphrase}`, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
 }
 
-// Verify session token
-export function verifySessionToken(token: string, userId: string, pin: string, passphrase: string): boolean {
-  const expectedToken = createSessionToken(userId, pin, passphrase);
-  return token === expectedToken;
+export async function verifyCredentials(pin: string, passphrase: string, stored: string): Promise<boolean> {
+  const [algorithm, salt, hash] = stored.split(':');
+  if (algorithm !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scrypt(`${pin}:${passphrase}`, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
 }
 
-// In-memory session store (for development)
-const sessions = new Map<string, UserSession>();
+// Personal API tokens start with this, which tells them apart from session tokens
+export const API_TOKEN_PREFIX = 'snip_';
+// How much of a token is kept in the clear to tell tokens apart
+const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
 
-// Check if we're in development mode
-const isDevelopment = process.env.NODE_ENV === 'development' || process.env.NODE_ENV === undefined;
+// Session, API and share link tokens are random; only their SHA-256 is stored
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
 
-export function createSession(userId: string, pin: string, passphrase: string): string {
-  const token = createSessionToken(userId, pin, passphrase);
-  sessions.set(token, { userId, pin, passphrase });
+export async function createSession(userId: string, userAgent?: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await storage.createAuthSession({
+    tokenHash: hashToken(token),
+    userId,
+    userAgent: userAgent?.slice(0, 255) ?? null,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
   return token;
 }
 
-export function getSession(token: string): UserSession | undefined {
-  return sessions.get(token);
+// Look up the session behind a token, extending its expiry while it is in use
+export async function getSession(token: string) {
+  const session = await storage.getAuthSessionByTokenHash(hashToken(token));
+  if (!session || session.revokedAt || new Date(session.expiresAt).getTime() <= Date.now()) {
+    return undefined;
+  }
+  if (Date.now() - new Date(session.lastSeenAt).getTime() > SESSION_TOUCH_INTERVAL_MS) {
+    await storage.touchAuthSession(session.id, new Date(Date.now() + SESSION_TTL_MS));
+  }
+  return session;
 }
 
-export function removeSession(token: string): boolean {
-  return sessions.delete(token);
+// Create a personal API token. The token is only ever returned here; the user
+// has to copy it now.
+export async function createApiToken(userId: string, { name, scope, expiresInDays }: CreateApiToken): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = API_TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+  const apiToken = await storage.createApiToken({
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+    userId,
+    name,
+    scope,
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+  });
+  return { token, apiToken };
 }
 
-// Enhanced authentication function that's more lenient in development
-export function authenticateUser(sessionToken?: string, userId?: string): string | null {
-  // In development mode, allow fallback to userId only
-  if (isDevelopment && userId) {
-    return userId;
+// Look up the API token, noting that it was used
+export async function getApiToken(token: string): Promise<ApiToken | undefined> {
+  const apiToken = await storage.getApiTokenByTokenHash(hashToken(token));
+  if (!apiToken || apiToken.revokedAt || (apiToken.expiresAt && new Date(apiToken.expiresAt).getTime() <= Date.now())) {
+    return undefined;
+  }
+  if (!apiToken.lastUsedAt || Date.now() - new Date(apiToken.lastUsedAt).getTime() > API_TOKEN_TOUCH_INTERVAL_MS) {
+    await storage.touchApiToken(apiToken.id);
   }
-  
-  // Check session token
+  return apiToken;
+}
+
+// Sign out the session behind a token; returns its id when there was one to sign out
+export async function removeSession(token: string): Promise<number | undefined> {
+  const session = await storage.getAuthSessionByTokenHash(hashToken(token));
+  if (!session || !(await storage.revokeAuthSession(session.id, session.userId))) return undefined;
+  return session.id;
+}
+
+// The account a PIN and passphrase log in to, under either kind of login key.
+// Only the scrypt hash says whether they are right.
+async function findAccount(pin: string, passphrase: string): Promise<Account | undefined> {
+  return (await storage.getAccountByLoginKey(loginKeyFor(pin, passphrase)))
+    ?? (await storage.getAccountByLoginKey(legacyLoginKey(pin, passphrase)));
+}
+
+// Verify the credentials and open a session. The first login with a new PIN and
+// passphrase creates the account, as there is no separate sign-up step.
+// previousUserId is set when the login moved the account to a new user id.
+export async function login(pin: string, passphrase: string, userAgent?: string): Promise<{ userId: string; sessionToken: string; previousUserId?: string } | null> {
+  const loginKey = loginKeyFor(pin, passphrase);
+  const legacyKey = legacyLoginKey(pin, passphrase);
+  let account = await findAccount(pin, passphrase);
+  if (account) {
+    if (!(await verifyCredentials(pin, passphrase, account.credentialHash))) return null;
+  } else {
+    // Data from before accounts existed is stored under the legacy key, so new
+    // accounts start out with it as their id and are moved off it below
+    try {
+      account = await storage.createAccount({ userId: legacyKey, loginKey, credentialHash: await hashCredentials(pin, passphrase) });
+    } catch (error) {
+      // A concurrent first login created it; check against that one instead
+      account = await findAccount(pin, passphrase);
+      if (!account || !(await verifyCredentials(pin, passphrase, account.credentialHash))) return null;
+    }
+  }
+  // Neither the login key nor the user id may stay an unkeyed hash of the credentials
+  const previousUserId = account.userId === legacyKey ? account.userId : undefined;
+  if (account.loginKey !== loginKey || previousUserId) {
+    account = await storage.updateAccountCredentials(account.userId, {
+      userId: previousUserId ? crypto.randomBytes(16).toString('hex') : account.userId,
+      loginKey,
+      credentialHash: account.credentialHash,
+    });
+  }
+  await storage.recordLogin(account.userId);
+  return { userId: account.userId, sessionToken: await createSession(account.userId, userAgent), previousUserId };
+}
+
+// The user id that a PIN and passphrase currently belong to
+export async function resolveUserId(pin: string, passphrase: string): Promise<string> {
+  const account = await findAccount(pin, passphrase);
+  return account ? account.userId : loginKeyFor(pin, passphrase);
+}
+
+// Replace the user's PIN and passphrase. Accounts still keyed by their old
+// credentials get a random id first, so the data survives this and later changes.
+// Every other session of the user is signed out. Returns the user's id afterwards.
+export async function changeCredentials(userId: string, change: CredentialChange, keepSessionId?: number): Promise<string> {
+  const account = await storage.getAccount(userId);
+  if (!account) throw new Error("Account not found");
+  if (!(await verifyCredentials(change.currentPin, change.currentPassphrase, account.credentialHash))) {
+    throw new Error("Current PIN or passphrase is incorrect");
+  }
+
+  if (change.newPin === change.currentPin && change.newPassphrase === change.currentPassphrase) {
+    throw new Error("The new PIN and passphrase must differ from the current ones");
+  }
+  // An account not logged in to since login keys were keyed still has the old kind
+  const legacyHolder = await storage.getAccountByLoginKey(legacyLoginKey(change.newPin, change.newPassphrase));
+  if (legacyHolder && legacyHolder.id !== account.id) throw new Error("Those credentials are already in use");
+
+  const stableUserId = account.userId === legacyLoginKey(change.currentPin, change.currentPassphrase)
+    ? crypto.randomBytes(16).toString('hex')
+    : account.userId;
+  await storage.updateAccountCredentials(userId, {
+    userId: stableUserId,
+    loginKey: loginKeyFor(change.newPin, change.newPassphrase),
+    credentialHash: await hashCredentials(change.newPin, change.newPassphrase),
+  });
+  await storage.revokeAuthSessions(stableUserId, keepSessionId);
+  return stableUserId;
+}
+
+export async function authenticateRequest(sessionToken?: string, userId?: string, apiToken?: string): Promise<AuthenticatedUser | null> {
+  // A bearer token that does not check out is refused outright rather than
+  // falling back to the other credentials
+  if (apiToken) {
+    const token = await getApiToken(apiToken);
+    return token ? { userId: token.userId, apiTokenId: token.id, apiTokenScope: token.scope } : null;
+  }
+
   if (sessionToken) {
-    const session = getSession(sessionToken);
+    const session = await getSession(sessionToken);
     if (session) {
-      return session.userId;
+      return { userId: session.userId, sessionId: session.id };
     }
   }
-  
-  // In development mode, if no valid session but userId is provided, allow it
-  if (isDevelopment && userId) {
-    console.log('Development mode: Allowing userId fallback authentication');
-    return userId;
+
+  if (isDevAuthEnabled && userId) {
+    return { userId };
   }
-  
+
   return null;
 }
 
-// Clean up old sessions (older than 24 hours)
-export function cleanupSessions(): void {
+// Login attempts per client address within the current window
+const loginAttempts = new Map<string, { count: number; windowStart: number }>();
+
+// Count a login attempt; returns the seconds to wait when the client is over the limit
+export function checkLoginRateLimit(key: string): number | null {
   const now = Date.now();
-  const oneDay = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
-  
-  const tokensToDelete: string[] = [];
-  
-  sessions.forEach((session, token) => {
-    // Extract timestamp from token (last part after the last colon)
-    const parts = token.split(':');
-    if (parts.length > 0) {
-      const timestamp = parseInt(parts[parts.length - 1]);
-      if (now - timestamp > oneDay) {
-        tokensToDelete.push(token);
-      }
-    }
-  });
-  
-  // Delete expired sessions
-  tokensToDelete.forEach(token => sessions.delete(token));
+  const entry = loginAttempts.get(key);
+  if (!entry || now - entry.windowStart >= LOGIN_WINDOW_MS) {
+    loginAttempts.set(key, { count: 1, windowStart: now });
+    return null;
+  }
+  entry.count++;
+  if (entry.count > MAX_LOGIN_ATTEMPTS) {
+    return Math.ceil((entry.windowStart + LOGIN_WINDOW_MS - now) / 1000);
+  }
+  return null;
 }
 
-// Run cleanup every hour
-setInterval(cleanupSessions, 60 * 60 * 1000); 
\ No newline at end of file
+export function pruneLoginAttempts(): void {
+  const now = Date.now();
+  Array.from(loginAttempts.entries()).forEach(([key, entry]) => {
+    if (now - entry.windowStart >= LOGIN_WINDOW_MS) loginAttempts.delete(key);
+  });
+}
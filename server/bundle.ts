@@ -0,0 +1,364 @@
+import type { IStorage } from "./storage";
+import type { TrashItemType } from "@shared/schema";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  type BundleSnippet,
+  type ImportOptions,
+  type ImportReport,
+  type LibraryBundle,
+} from "@shared/bundle";
+import { FOLDER_PATH_SEPARATOR, folderPath } from "@shared/folders";
+import { findAbbreviationConflict, isValidAbbreviation } from "@shared/abbreviations";
+import { isUsableHotkey, normalizeHotkey, reservedHotkeyConflict } from "@shared/hotkeys";
+import { classifyClipboardContent } from "@shared/clipboard";
+
+const GENERAL_FOLDER = "General";
+
+function toIsoString(value: Date | number | string): string {
+  // SQLite rows carry unix seconds
+  return (typeof value === "number" ? new Date(value * 1000) : new Date(value)).toISOString();
+}
+
+// "Team//Product/" and "Team/Product" name the same folder
+function normalizeFolderPath(path: string): string {
+  return path.split(FOLDER_PATH_SEPARATOR).map(name => name.trim()).filter(Boolean).join(FOLDER_PATH_SEPARATOR);
+}
+
+// The path of the folder that contains the given one, or null at the top level
+function parentFolderPath(path: string): string | null {
+  const index = path.lastIndexOf(FOLDER_PATH_SEPARATOR);
+  return index === -1 ? null : path.slice(0, index);
+}
+
+async function nextAvailableName(name: string, isTaken: (candidate: string) => Promise<boolean>): Promise<string> {
+  let suffix = 2;
+  while (await isTaken(`${name}-${suffix}`)) suffix++;
+  return `${name}-${suffix}`;
+}
+
+// Reverts the creation of an item by removing it for good
+function discard(storage: IStorage, type: TrashItemType, id: number, userId: string): () => Promise<unknown> {
+  return async () => {
+    if (type === "snippet") await storage.deleteSnippet(id, userId);
+    else if (type === "folder") await storage.deleteFolder(id, userId);
+    else await storage.deleteClipboardItem(id, userId);
+    await storage.purgeFromTrash(type, id, userId);
+  };
+}
+
+export async function exportLibrary(
+  storage: IStorage,
+  userId: string,
+  options: { includeClipboard?: boolean } = {},
+): Promise<LibraryBundle> {
+  const [folders, snippets, settings] = await Promise.all([
+    storage.getFolders(userId),
+    storage.getSnippets(userId),
+    storage.getSettings(userId),
+  ]);
+  const folderNames = new Map<number, string>(folders.map(folder => [folder.id, folderPath(folders, folder.id)]));
+  const { id: _id, userId: _userId, ...portableSettings } = settings;
+
+  const bundle: LibraryBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    folders: folders
+      .filter(folder => folderNames.get(folder.id) !== GENERAL_FOLDER)
+      .map(folder => ({ name: folderNames.get(folder.id)!, sortOrder: folder.sortOrder ?? 0 })),
+    snippets: snippets.map(snippet => {
+      const folderName = snippet.folderId != null ? folderNames.get(snippet.folderId) : undefined;
+      return {
+        title: snippet.title,
+        content: snippet.content,
+        trigger: snippet.trigger,
+        hotkey: snippet.hotkey,
+        abbreviation: snippet.abbreviation,
+        description: snippet.description,
+        folder: folderName && folderName !== GENERAL_FOLDER ? folderName : null,
+        tags: snippet.tags ?? [],
+        createdAt: toIsoString(snippet.createdAt),
+        updatedAt: toIsoString(snippet.updatedAt),
+      };
+    }),
+    settings: portableSettings,
+  };
+
+  if (options.includeClipboard) {
+    const items = await storage.getClipboardItems(userId);
+    bundle.clipboard = items.map(item => ({
+      content: item.content,
+      type: item.type,
+      createdAt: toIsoString(item.createdAt),
+    }));
+  }
+
+  return bundle;
+}
+
+// Apply a bundle to the user's library. With dryRun set nothing is written and
+// the report describes what the import would do. Each write is paired with one
+// that reverts it, so an import that fails partway leaves the library as it was.
+export async function importLibrary(
+  storage: IStorage,
+  bundle: LibraryBundle,
+  options: ImportOptions,
+  userId: string,
+): Promise<ImportReport> {
+  const undo: Array<() => Promise<unknown>> = [];
+  try {
+    return await applyBundle(storage, bundle, options, userId, undo);
+  } catch (error) {
+    for (const revert of undo.reverse()) {
+      try {
+        await revert();
+      } catch (revertError) {
+        console.error("Failed to revert part of an import:", revertError);
+      }
+    }
+    throw error;
+  }
+}
+
+async function applyBundle(
+  storage: IStorage,
+  bundle: LibraryBundle,
+  options: ImportOptions,
+  userId: string,
+  undo: Array<() => Promise<unknown>>,
+): Promise<ImportReport> {
+  const { mode, onConflict, dryRun } = options;
+  const replace = mode === "replace";
+  const report: ImportReport = {
+    dryRun,
+    mode,
+    removed: { folders: 0, snippets: 0, clipboard: 0 },
+    folders: { created: 0, existing: 0 },
+    snippets: { created: 0, updated: 0, skipped: 0 },
+    clipboard: { created: 0, skipped: 0 },
+    settings: false,
+    conflicts: [],
+    issues: [],
+  };
+
+  // Replacing moves the current library to the trash, so it can still be
+  // recovered. Trashed snippets and folders keep their triggers and names, so
+  // those the bundle brings back are given up first, for the next free ones.
+  if (replace) {
+    const existingSnippets = await storage.getSnippets(userId);
+    const existingFolders = (await storage.getFolders(userId)).filter(folder => folder.name !== GENERAL_FOLDER);
+    report.removed.snippets = existingSnippets.length;
+    report.removed.folders = existingFolders.length;
+    if (bundle.clipboard) {
+      report.removed.clipboard = (await storage.getClipboardItems(userId)).length;
+    }
+    if (!dryRun) {
+      const triggers = new Set(bundle.snippets.map(snippet => snippet.trigger));
+      const takenTriggers = new Set([...Array.from(triggers), ...(await storage.getSnippetTriggers(userId))]);
+      for (const snippet of existingSnippets.filter(snippet => triggers.has(snippet.trigger))) {
+        const trigger = await nextAvailableName(snippet.trigger, async candidate => takenTriggers.has(candidate));
+        takenTriggers.add(trigger);
+        await storage.updateSnippet(snippet.id, { trigger }, userId);
+        undo.push(() => storage.updateSnippet(snippet.id, { trigger: snippet.trigger }, userId));
+      }
+      for (const snippet of existingSnippets) {
+        await storage.deleteSnippet(snippet.id, userId);
+        undo.push(() => storage.restoreFromTrash("snippet", snippet.id, userId));
+      }
+
+      // Deleting a folder trashes its subfolders along with it, so only
+      // top-level names can be taken
+      const topLevelFolders = existingFolders.filter(folder => folder.parentId == null);
+      const names = new Set([...bundle.folders.map(folder => folder.name), ...bundle.snippets.map(snippet => snippet.folder ?? "")]
+        .map(path => normalizeFolderPath(path).split(FOLDER_PATH_SEPARATOR)[0])
+        .filter(Boolean));
+      const takenNames = new Set([
+        ...Array.from(names),
+        ...topLevelFolders.map(folder => folder.name),
+        ...(await storage.getTrash(userId)).flatMap(entry => entry.type === "folder" && entry.item.parentId == null ? [entry.item.name] : []),
+      ]);
+      for (const folder of topLevelFolders) {
+        if (names.has(folder.name)) {
+          const name = await nextAvailableName(folder.name, async candidate => takenNames.has(candidate));
+          takenNames.add(name);
+          await storage.updateFolder(folder.id, name, userId);
+          undo.push(() => storage.updateFolder(folder.id, folder.name, userId));
+        }
+        await storage.deleteFolder(folder.id, userId);
+        undo.push(() => storage.restoreFromTrash("folder", folder.id, userId));
+      }
+
+      if (bundle.clipboard) {
+        const cleared = await storage.clearClipboardHistory(userId);
+        undo.push(async () => {
+          for (const id of cleared) await storage.restoreFromTrash("clipboard", id, userId);
+        });
+      }
+    }
+  }
+
+  // Folders by path, including any that snippets refer to without listing them
+  // and the parents of nested ones
+  const folderIds = new Map<string, number>();
+  const currentFolders = replace ? [] : await storage.getFolders(userId);
+  for (const folder of currentFolders) folderIds.set(folderPath(currentFolders, folder.id), folder.id);
+  if (!dryRun) {
+    const general = await storage.ensureGeneralFolder(userId);
+    folderIds.set(GENERAL_FOLDER, general.id);
+  }
+
+  const wantedFolders = new Map<string, number>();
+  for (const folder of bundle.folders) {
+    const path = normalizeFolderPath(folder.name);
+    if (path) wantedFolders.set(path, folder.sortOrder ?? 0);
+  }
+  for (const snippet of bundle.snippets) {
+    const path = normalizeFolderPath(snippet.folder ?? "");
+    if (path && !wantedFolders.has(path)) wantedFolders.set(path, 0);
+  }
+  for (const path of Array.from(wantedFolders.keys())) {
+    for (let parent = parentFolderPath(path); parent; parent = parentFolderPath(parent)) {
+      if (!wantedFolders.has(parent)) wantedFolders.set(parent, 0);
+    }
+  }
+  wantedFolders.delete(GENERAL_FOLDER);
+
+  // Parents before their subfolders
+  const existingPaths = new Set(Array.from(folderIds.keys()));
+  const byDepth = Array.from(wantedFolders.entries())
+    .sort(([a], [b]) => a.split(FOLDER_PATH_SEPARATOR).length - b.split(FOLDER_PATH_SEPARATOR).length);
+  for (const [path, sortOrder] of byDepth) {
+    if (existingPaths.has(path)) {
+      report.folders.existing++;
+      continue;
+    }
+    report.folders.created++;
+    if (!dryRun) {
+      const name = path.slice(path.lastIndexOf(FOLDER_PATH_SEPARATOR) + 1);
+      const parentPath = parentFolderPath(path);
+      const parentId = parentPath ? folderIds.get(parentPath) ?? null : null;
+      const created = await storage.createFolder(name, userId, parentId);
+      undo.push(discard(storage, "folder", created.id, userId));
+      if (sortOrder) await storage.updateFolder(created.id, name, userId, sortOrder);
+      folderIds.set(path, created.id);
+    }
+  }
+
+  // Snippets. Triggers taken by earlier snippets of the same bundle count as conflicts too.
+  const imported = new Map<string, { id?: number; title: string }>();
+  const findConflict = async (trigger: string) =>
+    imported.get(trigger) ?? (replace ? undefined : await storage.getSnippetByTrigger(trigger, userId));
+  // An abbreviation that clashes with one already in use is dropped rather than
+  // failing the import; the snippet can be given another one afterwards
+  const currentSnippets = replace ? [] : await storage.getSnippets(userId);
+  const takenAbbreviations = currentSnippets.map(snippet => snippet.abbreviation);
+  const abbreviationFor = (snippet: BundleSnippet, replacing?: { id?: number; abbreviation?: string | null }) => {
+    const abbreviation = snippet.abbreviation && isValidAbbreviation(snippet.abbreviation) ? snippet.abbreviation : null;
+    const taken = takenAbbreviations.filter(other => other !== replacing?.abbreviation);
+    if (!abbreviation || findAbbreviationConflict(abbreviation, taken)) return null;
+    takenAbbreviations.push(abbreviation);
+    return abbreviation;
+  };
+  // Hotkeys likewise, including those the shortcut settings end up with
+  const takenHotkeys = currentSnippets.map(snippet => snippet.hotkey);
+  const shortcutSettings = { ...(await storage.getSettings(userId)), ...bundle.settings };
+  const hotkeyFor = (snippet: BundleSnippet, replacing?: { id?: number; hotkey?: string | null }) => {
+    const hotkey = snippet.hotkey && isUsableHotkey(snippet.hotkey) ? normalizeHotkey(snippet.hotkey) : null;
+    const taken = takenHotkeys.filter(other => other !== replacing?.hotkey);
+    if (!hotkey || taken.includes(hotkey) || reservedHotkeyConflict(hotkey, shortcutSettings)) return null;
+    takenHotkeys.push(hotkey);
+    return hotkey;
+  };
+  const folderIdFor = (snippet: BundleSnippet) =>
+    folderIds.get(normalizeFolderPath(snippet.folder ?? "") || GENERAL_FOLDER) ?? folderIds.get(GENERAL_FOLDER) ?? null;
+
+  for (const snippet of bundle.snippets) {
+    let trigger = snippet.trigger;
+    const conflict = await findConflict(trigger);
+
+    if (conflict) {
+      const entry: ImportReport["conflicts"][number] = {
+        trigger,
+        title: snippet.title,
+        existingTitle: conflict.title,
+        resolution: onConflict,
+      };
+      report.conflicts.push(entry);
+
+      if (onConflict === "skip") {
+        report.snippets.skipped++;
+        continue;
+      }
+
+      if (onConflict === "overwrite") {
+        report.snippets.updated++;
+        if (!dryRun && conflict.id !== undefined) {
+          const previous = await storage.getSnippet(conflict.id, userId);
+          await storage.updateSnippet(conflict.id, {
+            title: snippet.title,
+            content: snippet.content,
+            hotkey: hotkeyFor(snippet, conflict),
+            abbreviation: abbreviationFor(snippet, conflict),
+            description: snippet.description ?? null,
+            folderId: folderIdFor(snippet),
+            tags: snippet.tags,
+          }, userId);
+          if (previous) {
+            const { title, content, hotkey, abbreviation, description, folderId, tags } = previous;
+            undo.push(() => storage.updateSnippet(previous.id, { title, content, hotkey, abbreviation, description, folderId, tags }, userId));
+          }
+        }
+        imported.set(trigger, { id: conflict.id, title: snippet.title });
+        continue;
+      }
+
+      trigger = await nextAvailableName(trigger, async candidate => !!(await findConflict(candidate)));
+      entry.renamedTo = trigger;
+    }
+
+    report.snippets.created++;
+    if (dryRun) {
+      imported.set(trigger, { title: snippet.title });
+    } else {
+      const created = await storage.createSnippet({
+        title: snippet.title,
+        content: snippet.content,
+        trigger,
+        hotkey: hotkeyFor(snippet),
+        abbreviation: abbreviationFor(snippet),
+        description: snippet.description ?? null,
+        folderId: folderIdFor(snippet),
+        tags: snippet.tags,
+      }, userId);
+      undo.push(discard(storage, "snippet", created.id, userId));
+      imported.set(trigger, created);
+    }
+  }
+
+  // Clipboard history, oldest first so the newest item ends up on top
+  if (bundle.clipboard) {
+    const known = new Set(replace ? [] : (await storage.getClipboardItems(userId)).map(item => item.content));
+    for (const item of bundle.clipboard.slice().reverse()) {
+      if (known.has(item.content)) {
+        report.clipboard.skipped++;
+        continue;
+      }
+      known.add(item.content);
+      report.clipboard.created++;
+      if (!dryRun) {
+        // Classified afresh, as bundles from older versions carry only the old types
+        const created = await storage.createClipboardItem({ content: item.content, ...classifyClipboardContent(item.content) }, userId);
+        undo.push(discard(storage, "clipboard", created.id, userId));
+      }
+    }
+  }
+
+  // The last write, so there is nothing after it that could fail and need it reverted
+  if (bundle.settings && Object.keys(bundle.settings).length > 0) {
+    report.settings = true;
+    if (!dryRun) await storage.updateSettings(bundle.settings, userId);
+  }
+
+  return report;
+}
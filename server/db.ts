@@ -19,6 +19,12 @@ const isDevelopment = process.env.NODE_ENV === 'development';
 const hasDatabaseUrl = !!process.env.DATABASE_URL;
 const useSQLite = isDevelopment && !hasDatabaseUrl;
 
+// Which database db talks to, for the code that differs between the two;
+// null with file storage
+export type DatabaseDialect = 'postgresql' | 'sqlite';
+export const dialect: DatabaseDialect | null = hasDatabaseUrl ? 'postgresql' : useSQLite ? 'sqlite' : null;
+export const isSQLite = dialect === 'sqlite';
+
 let pool: Pool | null = null;
 let sqliteDb: Database.Database | null = null;
 let db: any = null;
@@ -40,7 +46,8 @@ if (hasDatabaseUrl) {
     fs.mkdirSync(dataDir, { recursive: true });
   }
   
-  const dbPath = path.join(dataDir, "snippets.db");
+  // SQLITE_PATH points elsewhere, e.g. a throwaway database for tests
+  const dbPath = process.env.SQLITE_PATH || path.join(dataDir, "snippets.db");
   sqliteDb = new Database(dbPath);
   db = drizzleSQLite(sqliteDb, { schema });
   console.log('Using SQLite database for development');
@@ -3,12 +3,22 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Raised from the 100kb default so library bundles can be imported
+app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: false }));
 
+// Response fields that hold a session, API or share link token, which the
+// request log must not show
+const LOGGED_SECRET_KEYS = new Set(["token", "sessionToken"]);
+
+function redactSecrets(key: string, value: unknown) {
+  return LOGGED_SECRET_KEYS.has(key) && typeof value === "string" ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
-  const path = req.path;
+  // A share link's token is in the path of the request that opens it
+  const path = req.path.replace(/^\/api\/shared\/[^/]+/, "/api/shared/:token");
   let capturedJsonResponse: Record<string, any> | undefined = undefined;
 
   const originalResJson = res.json;
@@ -22,7 +32,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactSecrets)}`;
       }
 
       if (logLine.length > 80) {
@@ -95,6 +105,9 @@ app.use((req, res, next) => {
     } catch (error) {
       console.log("Migration system not available or no migrations needed");
     }
+
+    const { startBackgroundJobs } = await import("./jobs");
+    startBackgroundJobs();
   });
   } catch (error) {
     console.error('Failed to start server:', error);
@@ -0,0 +1,56 @@
+import { storage } from "./storage";
+import { pruneLoginAttempts } from "./auth";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function purgeExpiredTrash() {
+  try {
+    const purged = await storage.purgeExpiredTrash();
+    if (purged > 0) {
+      console.log(`Purged ${purged} expired item(s) from the trash`);
+    }
+  } catch (error) {
+    console.error("Trash purge failed:", error);
+  }
+}
+
+async function pruneClipboardHistory() {
+  try {
+    const pruned = await storage.pruneClipboardHistory();
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} clipboard item(s) past their history limit or retention`);
+    }
+  } catch (error) {
+    console.error("Clipboard pruning failed:", error);
+  }
+}
+
+async function purgeExpiredSessions() {
+  try {
+    const purged = await storage.purgeExpiredAuthSessions();
+    if (purged > 0) {
+      console.log(`Removed ${purged} expired or revoked session(s)`);
+    }
+    const purgedTokens = await storage.purgeExpiredApiTokens();
+    if (purgedTokens > 0) {
+      console.log(`Removed ${purgedTokens} expired or revoked API token(s)`);
+    }
+    const purgedLinks = await storage.purgeExpiredShareLinks();
+    if (purgedLinks > 0) {
+      console.log(`Removed ${purgedLinks} expired, used up or revoked share link(s)`);
+    }
+  } catch (error) {
+    console.error("Session cleanup failed:", error);
+  }
+  pruneLoginAttempts();
+}
+
+// Periodic maintenance that runs for as long as the server is up
+export function startBackgroundJobs() {
+  purgeExpiredTrash();
+  setInterval(purgeExpiredTrash, HOUR_MS).unref();
+  pruneClipboardHistory();
+  setInterval(pruneClipboardHistory, HOUR_MS).unref();
+  purgeExpiredSessions();
+  setInterval(purgeExpiredSessions, HOUR_MS).unref();
+}
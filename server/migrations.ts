@@ -1,4 +1,4 @@
-import { db } from "./db";
+import { db, isSQLite } from "./db";
 import { 
   snippets, 
   clipboardItems, 
@@ -8,6 +8,9 @@ import {
   settingsSQLite
 } from "@shared/schema";
 import { sql } from "drizzle-orm";
+import crypto from "crypto";
+import { splitLegacyTrigger } from "@shared/abbreviations";
+import { findDuplicateHotkeys } from "@shared/hotkeys";
 
 export async function runMigrations() {
   if (!db) {
@@ -16,8 +19,6 @@ export async function runMigrations() {
   }
 
   try {
-    const isSQLite = db.dialect && db.dialect.name === 'sqlite';
-    
     if (isSQLite) {
       console.log("Running SQLite migrations...");
       await runSQLiteMigrations();
@@ -38,78 +39,286 @@ async function runSQLiteMigrations() {
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS folders (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      parent_id INTEGER REFERENCES folders(id),
       created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
-      sort_order INTEGER NOT NULL DEFAULT 0
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      deleted_at INTEGER
     )
   `);
 
-  // Create snippets table with folderId
+  // Create snippets table with folderId. Triggers are unique per user through
+  // snippets_trigger_user_id_unique below, as SQLite can't drop a column constraint
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS snippets (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       title TEXT NOT NULL,
       content TEXT NOT NULL,
-      trigger TEXT NOT NULL UNIQUE,
+      trigger TEXT NOT NULL,
+      hotkey TEXT,
+      abbreviation TEXT,
       description TEXT,
       folder_id INTEGER,
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      usage_count INTEGER NOT NULL DEFAULT 0,
       user_id TEXT NOT NULL,
       created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
       updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      deleted_at INTEGER,
       FOREIGN KEY(folder_id) REFERENCES folders(id)
     )
   `);
 
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS snippet_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      snippet_id INTEGER NOT NULL,
+      user_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      description TEXT,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      FOREIGN KEY(snippet_id) REFERENCES snippets(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Tags, linked to snippets many-to-many through snippet_tags
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+    )
+  `);
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS snippet_tags (
+      snippet_id INTEGER NOT NULL,
+      tag_id INTEGER NOT NULL,
+      FOREIGN KEY(snippet_id) REFERENCES snippets(id) ON DELETE CASCADE,
+      FOREIGN KEY(tag_id) REFERENCES tags(id) ON DELETE CASCADE
+    )
+  `);
+  await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_unique ON tags(user_id, name)`);
+  await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS snippet_tags_unique ON snippet_tags(snippet_id, tag_id)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_snippet_tags_tag_id ON snippet_tags(tag_id)`);
+
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS clipboard_items (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       content TEXT NOT NULL,
       type TEXT NOT NULL DEFAULT 'text',
       user_id TEXT NOT NULL,
-      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now'))
+      pinned INTEGER NOT NULL DEFAULT 0,
+      metadata TEXT,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      deleted_at INTEGER
     )
   `);
 
   await db.run(sql`
     CREATE TABLE IF NOT EXISTS settings (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL,
       snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+;',
       clipboard_shortcut TEXT NOT NULL DEFAULT 'ctrl+shift+v',
+      new_snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+e',
+      search_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+f',
+      settings_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+s',
       clipboard_enabled INTEGER NOT NULL DEFAULT 1,
       history_limit INTEGER NOT NULL DEFAULT 100,
+      clipboard_retention_days INTEGER NOT NULL DEFAULT 0,
       launch_on_startup INTEGER NOT NULL DEFAULT 0,
-      theme TEXT NOT NULL DEFAULT 'light'
+      theme TEXT NOT NULL DEFAULT 'light',
+      trash_retention_days INTEGER NOT NULL DEFAULT 30,
+      snippet_sort TEXT NOT NULL DEFAULT 'recent'
+    )
+  `);
+
+  // Settings used to be a single global row; scope them per user
+  if (!(await sqliteColumnExists("settings", "user_id"))) {
+    console.log("Adding userId column to settings table...");
+    await db.run(sql`ALTER TABLE settings ADD COLUMN user_id TEXT NOT NULL DEFAULT 'default_user'`);
+    console.log("Added userId column to settings table");
+  }
+  await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS settings_user_id_unique ON settings(user_id)`);
+
+  // Trash: deleted rows are kept with a deleted_at timestamp until purged
+  for (const table of ["snippets", "folders", "clipboard_items"]) {
+    if (!(await sqliteColumnExists(table, "deleted_at"))) {
+      await db.run(sql`ALTER TABLE ${sql.raw(table)} ADD COLUMN deleted_at INTEGER`);
+      console.log(`Added deleted_at column to ${table} table`);
+    }
+  }
+  if (!(await sqliteColumnExists("settings", "trash_retention_days"))) {
+    await db.run(sql`ALTER TABLE settings ADD COLUMN trash_retention_days INTEGER NOT NULL DEFAULT 30`);
+  }
+
+  // Manual ordering of snippets within a folder
+  if (!(await sqliteColumnExists("snippets", "sort_order"))) {
+    await db.run(sql`ALTER TABLE snippets ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0`);
+  }
+  if (!(await sqliteColumnExists("settings", "snippet_sort"))) {
+    await db.run(sql`ALTER TABLE settings ADD COLUMN snippet_sort TEXT NOT NULL DEFAULT 'recent'`);
+  }
+  // How often each snippet is used, for sorting by it
+  if (!(await sqliteColumnExists("snippets", "usage_count"))) {
+    await db.run(sql`ALTER TABLE snippets ADD COLUMN usage_count INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  // Clipboard items can expire by age as well as by count
+  if (!(await sqliteColumnExists("settings", "clipboard_retention_days"))) {
+    await db.run(sql`ALTER TABLE settings ADD COLUMN clipboard_retention_days INTEGER NOT NULL DEFAULT 0`);
+  }
+  // Pinned clipboard items are exempt from both
+  if (!(await sqliteColumnExists("clipboard_items", "pinned"))) {
+    await db.run(sql`ALTER TABLE clipboard_items ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0`);
+  }
+
+  // What the classifier found out about a clipboard item (shared/clipboard.ts),
+  // as JSON; older items have none and are classified when shown
+  if (!(await sqliteColumnExists("clipboard_items", "metadata"))) {
+    await db.run(sql`ALTER TABLE clipboard_items ADD COLUMN metadata TEXT`);
+  }
+
+  // Shortcuts for the app's other actions
+  if (!(await sqliteColumnExists("settings", "new_snippet_shortcut"))) {
+    await db.run(sql`ALTER TABLE settings ADD COLUMN new_snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+e'`);
+    await db.run(sql`ALTER TABLE settings ADD COLUMN search_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+f'`);
+    await db.run(sql`ALTER TABLE settings ADD COLUMN settings_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+s'`);
+  }
+
+  // Keyboard shortcuts and typed abbreviations used to share the trigger column
+  if (!(await sqliteColumnExists("snippets", "abbreviation"))) {
+    await db.run(sql`ALTER TABLE snippets ADD COLUMN hotkey TEXT`);
+    await db.run(sql`ALTER TABLE snippets ADD COLUMN abbreviation TEXT`);
+    const rows = await db.all(sql`SELECT id, trigger FROM snippets`);
+    for (const row of rows as Array<{ id: number; trigger: string }>) {
+      const { hotkey, abbreviation } = splitLegacyTrigger(row.trigger);
+      await db.run(sql`UPDATE snippets SET hotkey = ${hotkey}, abbreviation = ${abbreviation} WHERE id = ${row.id}`);
+    }
+    console.log(`Split hotkeys and abbreviations out of ${rows.length} snippet triggers`);
+  }
+
+  // A hotkey belongs to one live snippet; older data can have several sharing one
+  const hotkeyIndex = await db.all(sql`SELECT 1 FROM sqlite_master WHERE type = 'index' AND name = 'snippets_user_hotkey_unique'`);
+  if (hotkeyIndex.length === 0) {
+    const rows = await db.all(sql`
+      SELECT id, user_id AS "userId", hotkey, updated_at AS "updatedAt", deleted_at AS "deletedAt" FROM snippets WHERE hotkey IS NOT NULL
+    `);
+    for (const id of findDuplicateHotkeys(rows)) {
+      await db.run(sql`UPDATE snippets SET hotkey = NULL WHERE id = ${id}`);
+    }
+    await db.run(sql`CREATE UNIQUE INDEX snippets_user_hotkey_unique ON snippets(user_id, hotkey) WHERE hotkey IS NOT NULL AND deleted_at IS NULL`);
+  }
+
+  // Accounts hold the scrypt hash of each user's credentials; sessions are looked up by token hash
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS accounts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id TEXT NOT NULL UNIQUE,
+      login_key TEXT NOT NULL UNIQUE,
+      credential_hash TEXT NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      last_login_at INTEGER
+    )
+  `);
+
+  // Accounts created before credentials could change were found by user_id
+  if (!(await sqliteColumnExists("accounts", "login_key"))) {
+    await db.run(sql`ALTER TABLE accounts ADD COLUMN login_key TEXT`);
+    await db.run(sql`UPDATE accounts SET login_key = user_id`);
+    await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS accounts_login_key_unique ON accounts(login_key)`);
+  }
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      user_agent TEXT,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      last_seen_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER NOT NULL,
+      revoked_at INTEGER
+    )
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_hash TEXT NOT NULL UNIQUE,
+      prefix TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      scope TEXT NOT NULL DEFAULT 'read',
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      last_used_at INTEGER,
+      expires_at INTEGER,
+      revoked_at INTEGER
+    )
+  `);
+
+  await db.run(sql`
+    CREATE TABLE IF NOT EXISTS share_links (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id INTEGER NOT NULL,
+      created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+      expires_at INTEGER,
+      max_views INTEGER,
+      view_count INTEGER NOT NULL DEFAULT 0,
+      last_viewed_at INTEGER,
+      revoked_at INTEGER
     )
   `);
 
+  // Share links first kept their token as is; only its SHA-256 is kept now
+  if (!(await sqliteColumnExists("share_links", "token_hash"))) {
+    await db.run(sql`ALTER TABLE share_links RENAME COLUMN token TO token_hash`);
+    const links = await db.all(sql`SELECT id, token_hash FROM share_links`);
+    for (const link of links as Array<{ id: number; token_hash: string }>) {
+      const tokenHash = crypto.createHash("sha256").update(link.token_hash).digest("hex");
+      await db.run(sql`UPDATE share_links SET token_hash = ${tokenHash} WHERE id = ${link.id}`);
+    }
+    console.log(`Hashed the tokens of ${links.length} share links`);
+  }
+
   // Create indexes for better performance
   await db.run(sql`CREATE INDEX IF NOT EXISTS idx_snippets_user_id ON snippets(user_id)`);
   await db.run(sql`CREATE INDEX IF NOT EXISTS idx_snippets_trigger ON snippets(trigger)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_snippets_folder_id ON snippets(folder_id)`);
   await db.run(sql`CREATE INDEX IF NOT EXISTS idx_clipboard_items_user_id ON clipboard_items(user_id)`);
   await db.run(sql`CREATE INDEX IF NOT EXISTS idx_clipboard_items_created_at ON clipboard_items(created_at)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_snippet_revisions_snippet_id ON snippet_revisions(snippet_id)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id)`);
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON share_links(user_id)`);
+
+  // Full-text search: FTS5 tables kept in sync with their content tables by triggers
+  await createSQLiteSearchIndex("snippets", ["title", "trigger", "description", "content"]);
+  await createSQLiteSearchIndex("clipboard_items", ["content"]);
+
+  // Folders nest through parent_id; a null parent_id is a top-level folder
+  if (!(await sqliteColumnExists("folders", "parent_id"))) {
+    await db.run(sql`ALTER TABLE folders ADD COLUMN parent_id INTEGER REFERENCES folders(id)`);
+    console.log("Added parent_id column to folders table");
+  }
+  await db.run(sql`CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON folders(parent_id)`);
 
   // Create default General folder and assign all existing snippets
-  const result = await db.get(sql`SELECT id FROM folders WHERE name = 'General'`);
+  const result = await db.get(sql`SELECT id FROM folders WHERE name = 'General' AND parent_id IS NULL`);
   let generalFolderId = result?.id;
   if (!generalFolderId) {
     const insert = await db.run(sql`INSERT INTO folders (name) VALUES ('General')`);
-    generalFolderId = insert.lastID;
-  }
-  
-  // Handle existing subfolders by moving their snippets to General and flattening the structure
-  const subfolders = await db.all(sql`SELECT id, name FROM folders WHERE parent_id IS NOT NULL`);
-  for (const subfolder of subfolders) {
-    // Move snippets from subfolder to General
-    await db.run(sql`UPDATE snippets SET folder_id = ? WHERE folder_id = ?`, [generalFolderId, subfolder.id]);
-    console.log(`Moved snippets from subfolder "${subfolder.name}" to General`);
+    generalFolderId = Number(insert.lastInsertRowid);
   }
   
-  // Remove all subfolders (folders with parent_id)
-  await db.run(sql`DELETE FROM folders WHERE parent_id IS NOT NULL`);
-  
   // Ensure all snippets have a folder (assign to General if null)
-  await db.run(sql`UPDATE snippets SET folder_id = ? WHERE folder_id IS NULL`, [generalFolderId]);
+  await db.run(sql`UPDATE snippets SET folder_id = ${generalFolderId} WHERE folder_id IS NULL`);
   
   // Add a trigger to automatically assign new snippets to General folder if no folder is specified
   await db.run(sql`
@@ -122,26 +331,26 @@ async function runSQLiteMigrations() {
   `);
 
   // Add sort_order column to folders if not exist
-  await db.run(sql`ALTER TABLE folders ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0`);
+  if (!(await sqliteColumnExists("folders", "sort_order"))) {
+    await db.run(sql`ALTER TABLE folders ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0`);
+  }
 
   // Check if folders table has userId column
-  const tableInfo = await db.run(sql`PRAGMA table_info(folders)`);
-  const hasUserId = tableInfo.some((row: any) => row.name === 'user_id');
-  
-  if (!hasUserId) {
+  if (!(await sqliteColumnExists("folders", "user_id"))) {
     console.log("Adding userId column to folders table...");
     
     // Add userId column to folders table
     await db.run(sql`ALTER TABLE folders ADD COLUMN user_id TEXT NOT NULL DEFAULT 'default_user'`);
     
-    // Add unique constraint for name + userId
-    await db.run(sql`CREATE UNIQUE INDEX folders_name_user_id_unique ON folders(name, user_id)`);
-    
     console.log("Added userId column to folders table");
   }
+
+  // Folder names only need to be unique among siblings
+  await db.run(sql`DROP INDEX IF EXISTS folders_name_user_id_unique`);
+  await db.run(sql`CREATE UNIQUE INDEX IF NOT EXISTS folders_user_parent_name_unique ON folders(user_id, COALESCE(parent_id, 0), name)`);
   
   // Check if snippets table has unique constraint on trigger + userId
-  const snippetIndexes = await db.run(sql`PRAGMA index_list(snippets)`);
+  const snippetIndexes = await db.all(sql`PRAGMA index_list(snippets)`);
   const hasTriggerUserIdIndex = snippetIndexes.some((row: any) => row.name === 'snippets_trigger_user_id_unique');
   
   if (!hasTriggerUserIdIndex) {
@@ -166,10 +375,12 @@ async function runPostgreSQLMigrations() {
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS folders (
       id SERIAL PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
+      name TEXT NOT NULL,
+      parent_id INTEGER REFERENCES folders(id),
       created_at TIMESTAMP NOT NULL DEFAULT NOW(),
       updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
-      sort_order INTEGER DEFAULT 0
+      sort_order INTEGER DEFAULT 0,
+      deleted_at TIMESTAMP
     )
   `);
 
@@ -180,61 +391,267 @@ async function runPostgreSQLMigrations() {
       title TEXT NOT NULL,
       content TEXT NOT NULL,
       trigger TEXT NOT NULL UNIQUE,
+      hotkey TEXT,
+      abbreviation TEXT,
       description TEXT,
       folder_id INTEGER REFERENCES folders(id),
+      sort_order INTEGER NOT NULL DEFAULT 0,
+      usage_count INTEGER NOT NULL DEFAULT 0,
       user_id TEXT NOT NULL,
       created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      deleted_at TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS snippet_revisions (
+      id SERIAL PRIMARY KEY,
+      snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      description TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
     )
   `);
 
+  // Tags, linked to snippets many-to-many through snippet_tags
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS tags (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    )
+  `);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS snippet_tags (
+      snippet_id INTEGER NOT NULL REFERENCES snippets(id) ON DELETE CASCADE,
+      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (snippet_id, tag_id)
+    )
+  `);
+  await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_unique ON tags(user_id, name)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippet_tags_tag_id ON snippet_tags(tag_id)`);
+
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS clipboard_items (
       id SERIAL PRIMARY KEY,
       content TEXT NOT NULL,
       type TEXT NOT NULL DEFAULT 'text',
       user_id TEXT NOT NULL,
-      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      pinned INTEGER NOT NULL DEFAULT 0,
+      metadata JSONB,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      deleted_at TIMESTAMP
     )
   `);
 
   await db.execute(sql`
     CREATE TABLE IF NOT EXISTS settings (
       id SERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL,
       snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+;',
       clipboard_shortcut TEXT NOT NULL DEFAULT 'ctrl+shift+v',
+      new_snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+e',
+      search_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+f',
+      settings_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+s',
       clipboard_enabled INTEGER NOT NULL DEFAULT 1,
       history_limit INTEGER NOT NULL DEFAULT 100,
+      clipboard_retention_days INTEGER NOT NULL DEFAULT 0,
       launch_on_startup INTEGER NOT NULL DEFAULT 0,
-      theme TEXT NOT NULL DEFAULT 'light'
+      theme TEXT NOT NULL DEFAULT 'light',
+      trash_retention_days INTEGER NOT NULL DEFAULT 30,
+      snippet_sort TEXT NOT NULL DEFAULT 'recent'
+    )
+  `);
+
+  // Settings used to be a single global row; scope them per user
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='settings' AND column_name='user_id') THEN
+        ALTER TABLE settings ADD COLUMN user_id TEXT NOT NULL DEFAULT 'default_user';
+      END IF;
+    END$$;
+  `);
+  await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS settings_user_id_unique ON settings(user_id)`);
+
+  // Trash: deleted rows are kept with a deleted_at timestamp until purged
+  await db.execute(sql`ALTER TABLE snippets ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+  await db.execute(sql`ALTER TABLE folders ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+  await db.execute(sql`ALTER TABLE clipboard_items ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP`);
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30`);
+
+  // Manual ordering of snippets within a folder
+  await db.execute(sql`ALTER TABLE snippets ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0`);
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS snippet_sort TEXT NOT NULL DEFAULT 'recent'`);
+  // How often each snippet is used, for sorting by it
+  await db.execute(sql`ALTER TABLE snippets ADD COLUMN IF NOT EXISTS usage_count INTEGER NOT NULL DEFAULT 0`);
+
+  // Clipboard items can expire by age as well as by count
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS clipboard_retention_days INTEGER NOT NULL DEFAULT 0`);
+  // Pinned clipboard items are exempt from both
+  await db.execute(sql`ALTER TABLE clipboard_items ADD COLUMN IF NOT EXISTS pinned INTEGER NOT NULL DEFAULT 0`);
+
+  // What the classifier found out about a clipboard item (shared/clipboard.ts);
+  // older items have none and are classified when shown
+  await db.execute(sql`ALTER TABLE clipboard_items ADD COLUMN IF NOT EXISTS metadata JSONB`);
+
+  // Shortcuts for the app's other actions
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS new_snippet_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+e'`);
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS search_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+f'`);
+  await db.execute(sql`ALTER TABLE settings ADD COLUMN IF NOT EXISTS settings_shortcut TEXT NOT NULL DEFAULT 'ctrl+k ctrl+s'`);
+
+  // Keyboard shortcuts and typed abbreviations used to share the trigger column
+  const hasAbbreviationColumn = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns WHERE table_name = 'snippets' AND column_name = 'abbreviation'
+  `);
+  if (!hasAbbreviationColumn?.rows || hasAbbreviationColumn.rows.length === 0) {
+    await db.execute(sql`ALTER TABLE snippets ADD COLUMN hotkey TEXT`);
+    await db.execute(sql`ALTER TABLE snippets ADD COLUMN abbreviation TEXT`);
+    const { rows } = await db.execute(sql`SELECT id, trigger FROM snippets`);
+    for (const row of rows as Array<{ id: number; trigger: string }>) {
+      const { hotkey, abbreviation } = splitLegacyTrigger(row.trigger);
+      await db.execute(sql`UPDATE snippets SET hotkey = ${hotkey}, abbreviation = ${abbreviation} WHERE id = ${row.id}`);
+    }
+    console.log(`Split hotkeys and abbreviations out of ${rows.length} snippet triggers`);
+  }
+
+  // A hotkey belongs to one live snippet; older data can have several sharing one
+  const hotkeyIndex = await db.execute(sql`SELECT 1 FROM pg_indexes WHERE indexname = 'snippets_user_hotkey_unique'`);
+  if (!hotkeyIndex?.rows || hotkeyIndex.rows.length === 0) {
+    const { rows } = await db.execute(sql`
+      SELECT id, user_id AS "userId", hotkey, updated_at AS "updatedAt", deleted_at AS "deletedAt" FROM snippets WHERE hotkey IS NOT NULL
+    `);
+    for (const id of findDuplicateHotkeys(rows)) {
+      await db.execute(sql`UPDATE snippets SET hotkey = NULL WHERE id = ${id}`);
+    }
+    await db.execute(sql`CREATE UNIQUE INDEX snippets_user_hotkey_unique ON snippets(user_id, hotkey) WHERE hotkey IS NOT NULL AND deleted_at IS NULL`);
+  }
+
+  // Accounts hold the scrypt hash of each user's credentials; sessions are looked up by token hash
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS accounts (
+      id SERIAL PRIMARY KEY,
+      user_id TEXT NOT NULL UNIQUE,
+      login_key TEXT NOT NULL UNIQUE,
+      credential_hash TEXT NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_login_at TIMESTAMP
+    )
+  `);
+
+  // Accounts created before credentials could change were found by user_id
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='accounts' AND column_name='login_key') THEN
+        ALTER TABLE accounts ADD COLUMN login_key TEXT;
+        UPDATE accounts SET login_key = user_id;
+        ALTER TABLE accounts ALTER COLUMN login_key SET NOT NULL;
+        ALTER TABLE accounts ADD CONSTRAINT accounts_login_key_unique UNIQUE (login_key);
+      END IF;
+    END$$;
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id SERIAL PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      user_agent TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_seen_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP
     )
   `);
 
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS api_tokens (
+      id SERIAL PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      prefix TEXT NOT NULL,
+      user_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      scope TEXT NOT NULL DEFAULT 'read',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_used_at TIMESTAMP,
+      expires_at TIMESTAMP,
+      revoked_at TIMESTAMP
+    )
+  `);
+
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS share_links (
+      id SERIAL PRIMARY KEY,
+      token_hash TEXT NOT NULL UNIQUE,
+      user_id TEXT NOT NULL,
+      target_type TEXT NOT NULL,
+      target_id INTEGER NOT NULL,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      expires_at TIMESTAMP,
+      max_views INTEGER,
+      view_count INTEGER NOT NULL DEFAULT 0,
+      last_viewed_at TIMESTAMP,
+      revoked_at TIMESTAMP
+    )
+  `);
+
+  // Share links first kept their token as is; only its SHA-256 is kept now
+  await db.execute(sql`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name='share_links' AND column_name='token_hash') THEN
+        ALTER TABLE share_links RENAME COLUMN token TO token_hash;
+        UPDATE share_links SET token_hash = encode(sha256(convert_to(token_hash, 'UTF8')), 'hex');
+      END IF;
+    END$$;
+  `);
+
   // Create indexes for better performance
   await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippets_user_id ON snippets(user_id)`);
   await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippets_trigger ON snippets(trigger)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippets_folder_id ON snippets(folder_id)`);
   await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_clipboard_items_user_id ON clipboard_items(user_id)`);
   await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_clipboard_items_created_at ON clipboard_items(created_at)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippet_revisions_snippet_id ON snippet_revisions(snippet_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_id ON auth_sessions(user_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_api_tokens_user_id ON api_tokens(user_id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_share_links_user_id ON share_links(user_id)`);
+
+  // Full-text search: generated tsvector columns for ranking, pg_trgm for typo tolerance
+  await db.execute(sql`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+  await db.execute(sql`
+    ALTER TABLE snippets ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('simple', coalesce(title, '')), 'A') ||
+      setweight(to_tsvector('simple', coalesce(trigger, '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(description, '')), 'B') ||
+      setweight(to_tsvector('simple', coalesce(content, '')), 'C')
+    ) STORED
+  `);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_snippets_search_vector ON snippets USING GIN(search_vector)`);
+  await db.execute(sql`
+    ALTER TABLE clipboard_items ADD COLUMN IF NOT EXISTS search_vector tsvector GENERATED ALWAYS AS (
+      to_tsvector('simple', coalesce(content, ''))
+    ) STORED
+  `);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_clipboard_items_search_vector ON clipboard_items USING GIN(search_vector)`);
+
+  // Folders nest through parent_id; a null parent_id is a top-level folder
+  await db.execute(sql`ALTER TABLE folders ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES folders(id)`);
+  await db.execute(sql`CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON folders(parent_id)`);
 
   // Create default General folder and assign all existing snippets
-  const result = await db.execute(sql`SELECT id FROM folders WHERE name = 'General'`);
+  const result = await db.execute(sql`SELECT id FROM folders WHERE name = 'General' AND parent_id IS NULL`);
   let generalFolderId = result?.rows?.[0]?.id;
   if (!generalFolderId) {
     const insert = await db.execute(sql`INSERT INTO folders (name) VALUES ('General') RETURNING id`);
     generalFolderId = insert?.rows?.[0]?.id;
   }
   
-  // Handle existing subfolders by moving their snippets to General and flattening the structure
-  const subfolders = await db.execute(sql`SELECT id, name FROM folders WHERE parent_id IS NOT NULL`);
-  for (const subfolder of subfolders?.rows || []) {
-    // Move snippets from subfolder to General
-    await db.execute(sql`UPDATE snippets SET folder_id = ${generalFolderId} WHERE folder_id = ${subfolder.id}`);
-    console.log(`Moved snippets from subfolder "${subfolder.name}" to General`);
-  }
-  
-  // Remove all subfolders (folders with parent_id)
-  await db.execute(sql`DELETE FROM folders WHERE parent_id IS NOT NULL`);
-  
   // Ensure all snippets have a folder (assign to General if null)
   await db.execute(sql`UPDATE snippets SET folder_id = ${generalFolderId} WHERE folder_id IS NULL`);
   
@@ -297,17 +714,10 @@ async function runPostgreSQLMigrations() {
     await db.execute(sql`ALTER TABLE folders DROP CONSTRAINT IF EXISTS ${sql.raw(row.constraint_name)}`);
   }
   
-  // Add new unique constraint for name + userId if it doesn't exist
-  const hasNameUserIdConstraint = await db.execute(sql`
-    SELECT constraint_name 
-    FROM information_schema.table_constraints 
-    WHERE table_name = 'folders' AND constraint_name = 'folders_name_user_id_unique'
-  `);
-  
-  if (!hasNameUserIdConstraint?.rows || hasNameUserIdConstraint.rows.length === 0) {
-    await db.execute(sql`ALTER TABLE folders ADD CONSTRAINT folders_name_user_id_unique UNIQUE(name, user_id)`);
-    console.log("Added unique constraint on (name, user_id) for folders");
-  }
+  // Folder names only need to be unique among siblings; a unique index on an
+  // expression lets top-level folders (null parent_id) count as siblings too
+  await db.execute(sql`ALTER TABLE folders DROP CONSTRAINT IF EXISTS folders_name_user_id_unique`);
+  await db.execute(sql`CREATE UNIQUE INDEX IF NOT EXISTS folders_user_parent_name_unique ON folders(user_id, COALESCE(parent_id, 0), name)`);
   
   // Check if snippets table has unique constraint on trigger + userId
   const hasTriggerUserIdConstraint = await db.execute(sql`
@@ -331,4 +741,50 @@ async function runPostgreSQLMigrations() {
     
     console.log("Added unique constraint on trigger + userId for snippets");
   }
-} 
\ No newline at end of file
+} 
+
+// Create an external-content FTS5 index over the given columns of a SQLite table,
+// plus triggers that keep it in sync and an fts5vocab table used for fuzzy matching
+async function createSQLiteSearchIndex(table: string, columns: string[]) {
+  const fts = `${table}_fts`;
+  const existing = await db.get(sql`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ${fts}`);
+  const columnList = columns.join(", ");
+  const newValues = columns.map(column => `new.${column}`).join(", ");
+  const oldValues = columns.map(column => `old.${column}`).join(", ");
+
+  await db.run(sql.raw(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS ${fts} USING fts5(
+      ${columnList}, content='${table}', content_rowid='id', tokenize='unicode61 remove_diacritics 2'
+    )
+  `));
+  await db.run(sql.raw(`CREATE VIRTUAL TABLE IF NOT EXISTS ${fts}_vocab USING fts5vocab(${fts}, 'row')`));
+  await db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${fts}_insert AFTER INSERT ON ${table} BEGIN
+      INSERT INTO ${fts}(rowid, ${columnList}) VALUES (new.id, ${newValues});
+    END
+  `));
+  await db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${fts}_delete AFTER DELETE ON ${table} BEGIN
+      INSERT INTO ${fts}(${fts}, rowid, ${columnList}) VALUES ('delete', old.id, ${oldValues});
+    END
+  `));
+  // Only for the indexed columns: other updates, like set_default_folder's, can
+  // come before the insert trigger has indexed the row
+  await db.run(sql.raw(`
+    CREATE TRIGGER IF NOT EXISTS ${fts}_update AFTER UPDATE OF ${columnList} ON ${table} BEGIN
+      INSERT INTO ${fts}(${fts}, rowid, ${columnList}) VALUES ('delete', old.id, ${oldValues});
+      INSERT INTO ${fts}(rowid, ${columnList}) VALUES (new.id, ${newValues});
+    END
+  `));
+
+  // Index rows that existed before the FTS table did
+  if (!existing) {
+    await db.run(sql.raw(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`));
+  }
+}
+
+// Check whether a column exists on a SQLite table
+async function sqliteColumnExists(table: string, column: string): Promise<boolean> {
+  const columns = await db.all(sql`PRAGMA table_info(${sql.raw(table)})`);
+  return columns.some((row: any) => row.name === column);
+}
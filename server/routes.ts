@@ -1,17 +1,36 @@
 import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertSnippetSchema, insertClipboardItemSchema, insertSettingsSchema } from "@shared/schema";
+import { insertSnippetSchema, insertClipboardItemSchema, insertSettingsSchema, createApiTokenSchema, createShareLinkSchema, trashItemTypes, type ApiToken, type ApiTokenInfo, type ClipboardItem, type InsertSettings, type Snippet, type TrashItemType } from "@shared/schema";
+import { MAX_SEARCH_LIMIT } from "@shared/search";
+import { FOLDER_PATH_SEPARATOR } from "@shared/folders";
+import { findAbbreviationConflict } from "@shared/abbreviations";
+import { SHORTCUT_ACTIONS, reservedHotkeyConflict, shortcutSettingConflict } from "@shared/hotkeys";
+import { classifyClipboardContent } from "@shared/clipboard";
+import { snippetListQuerySchema, clipboardListQuerySchema } from "@shared/listing";
+import { snippetBulkActionSchema, clipboardBulkActionSchema, applyTagChanges, type BulkResult } from "@shared/bulk";
+import { MAX_TAGS_PER_SNIPPET } from "@shared/tags";
+import { importRequestSchema, snippetFormatInfo, snippetFormats } from "@shared/bundle";
+import { exportSnippets, importSnippets } from "@shared/converters";
+import { exportLibrary, importLibrary } from "./bundle";
+import { createShareLink, getShareLinkInfos, openShareLink } from "./sharing";
+import { setupSync, notifyUser, disconnectSession, disconnectOtherSessions, moveUserConnections } from "./sync";
 import { z } from "zod";
 import { 
-  generateUserId, 
   validatePin, 
   validatePassphrase, 
   createSession, 
   getSession,
   removeSession,
-  authenticateUser,
-  type UserCredentials 
+  login,
+  resolveUserId,
+  changeCredentials,
+  createApiToken,
+  authenticateRequest,
+  checkLoginRateLimit,
+  isDevAuthEnabled,
+  type UserCredentials,
+  type CredentialChange
 } from "./auth";
 import fs from "fs";
 import path from "path";
@@ -19,8 +38,15 @@ import path from "path";
 // Extend Request interface to include userId
 interface AuthenticatedRequest extends Request {
   userId?: string;
+  // The login session the request came in on
+  sessionId?: number;
+  // The personal API token the request came in with
+  apiTokenId?: number;
 }
 
+// Requests a read-only API token may make
+const READ_ONLY_METHODS = ["GET", "HEAD", "OPTIONS"];
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint (no authentication required)
   app.get("/api/health", (req, res) => {
@@ -31,11 +57,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Middleware to extract user ID from session or personal API token
+  const authenticateUserMiddleware = async (req: AuthenticatedRequest, res: any, next: any) => {
+    const sessionToken = req.headers["x-session-token"] as string;
+    const userId = req.headers["x-user-id"] as string;
+    const apiToken = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    
+    try {
+      const user = await authenticateRequest(sessionToken, userId, apiToken);
+      if (user) {
+        if (user.apiTokenScope === "read" && !READ_ONLY_METHODS.includes(req.method)) {
+          return res.status(403).json({ message: "This API token is read-only" });
+        }
+        req.userId = user.userId;
+        req.sessionId = user.sessionId;
+        req.apiTokenId = user.apiTokenId;
+        return next();
+      }
+    } catch (error) {
+      console.error("[auth]", error);
+      return res.status(500).json({ message: "Authentication failed" });
+    }
+    
+    res.status(401).json({ message: "Authentication required" });
+  };
+
+  // Sessions, credentials and API tokens are managed from the app only, so a
+  // leaked token cannot mint more tokens or lock the user out
+  const rejectApiTokenMiddleware = (req: AuthenticatedRequest, res: any, next: any) => {
+    if (req.apiTokenId !== undefined) {
+      return res.status(403).json({ message: "API tokens cannot be used for this" });
+    }
+    next();
+  };
+
+  const toApiTokenInfo = ({ tokenHash: _tokenHash, ...token }: ApiToken): ApiTokenInfo => token;
+
   // Authentication routes
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { pin, passphrase } = req.body as UserCredentials;
       
+      // Every attempt counts, so guessing is slow whether or not the guesses are well-formed
+      const retryAfter = checkLoginRateLimit(req.ip || "unknown");
+      if (retryAfter !== null) {
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: `Too many login attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).` });
+      }
+      
       // Validate input
       if (!pin || !passphrase) {
         return res.status(400).json({ message: "PIN and passphrase are required" });
@@ -49,29 +118,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Passphrase must be at least 8 characters and contain only letters, numbers, and special characters" });
       }
       
-      // Generate consistent user ID
-      const userId = generateUserId(pin, passphrase);
-      
-      // Create session
-      const sessionToken = createSession(userId, pin, passphrase);
+      const result = await login(pin, passphrase, req.headers["user-agent"]);
+      if (!result) {
+        return res.status(401).json({ message: "Invalid PIN or passphrase" });
+      }
+      // The user's other devices follow the account to its new id
+      if (result.previousUserId) moveUserConnections(result.previousUserId, result.userId);
       
       res.json({
         success: true,
-        userId,
-        sessionToken,
+        userId: result.userId,
+        sessionToken: result.sessionToken,
         message: "Login successful"
       });
     } catch (error) {
+      console.error("[POST /api/auth/login]", error);
       res.status(500).json({ message: "Login failed" });
     }
   });
 
   app.post("/api/auth/logout", async (req, res) => {
     try {
-      const { sessionToken } = req.body;
+      const sessionToken = (req.headers["x-session-token"] as string) || req.body?.sessionToken;
       
       if (sessionToken) {
-        removeSession(sessionToken);
+        const sessionId = await removeSession(sessionToken);
+        if (sessionId !== undefined) disconnectSession(sessionId);
       }
       
       res.json({ success: true, message: "Logout successful" });
@@ -88,7 +160,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "No session token provided" });
       }
       
-      const session = getSession(sessionToken);
+      const session = await getSession(sessionToken);
       if (!session) {
         return res.status(401).json({ message: "Invalid or expired session" });
       }
@@ -96,6 +168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         success: true,
         userId: session.userId,
+        expiresAt: session.expiresAt,
         message: "Session valid"
       });
     } catch (error) {
@@ -103,8 +176,139 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Development mode authentication bypass
-  if (process.env.NODE_ENV === 'development') {
+  // Signed-in devices of the current user
+  app.get("/api/auth/sessions", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const sessions = await storage.getAuthSessions(userId);
+      res.json(sessions.map(({ tokenHash: _tokenHash, ...session }) => ({
+        ...session,
+        current: session.id === req.sessionId,
+      })));
+    } catch (error) {
+      console.error("[GET /api/auth/sessions]", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every other device
+  app.delete("/api/auth/sessions", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const revoked = await storage.revokeAuthSessions(userId, req.sessionId);
+      disconnectOtherSessions(userId, req.sessionId);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("[DELETE /api/auth/sessions]", error);
+      res.status(500).json({ message: "Failed to revoke sessions" });
+    }
+  });
+
+  app.delete("/api/auth/sessions/:id", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const id = parseInt(req.params.id);
+      const revoked = await storage.revokeAuthSession(id, userId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      disconnectSession(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("[DELETE /api/auth/sessions/:id]", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+
+  // Personal API tokens of the current user
+  app.get("/api/auth/tokens", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const tokens = await storage.getApiTokens(userId);
+      res.json(tokens.map(toApiTokenInfo));
+    } catch (error) {
+      console.error("[GET /api/auth/tokens]", error);
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  // The token itself is in this response only
+  app.post("/api/auth/tokens", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const data = createApiTokenSchema.parse(req.body);
+      const { token, apiToken } = await createApiToken(userId, data);
+      res.status(201).json({ ...toApiTokenInfo(apiToken), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("[POST /api/auth/tokens]", error);
+      res.status(500).json({ message: "Failed to create API token" });
+    }
+  });
+
+  app.delete("/api/auth/tokens/:id", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const revoked = await storage.revokeApiToken(parseInt(req.params.id), userId);
+      if (!revoked) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("[DELETE /api/auth/tokens/:id]", error);
+      res.status(500).json({ message: "Failed to revoke API token" });
+    }
+  });
+
+  // Change the PIN and passphrase while keeping all of the user's data
+  app.post("/api/auth/change-credentials", authenticateUserMiddleware, rejectApiTokenMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { currentPin, currentPassphrase, newPin, newPassphrase } = req.body as CredentialChange;
+      
+      // Checking the current credentials is as much a guess as a login
+      const retryAfter = checkLoginRateLimit(req.ip || "unknown");
+      if (retryAfter !== null) {
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: `Too many attempts. Try again in ${Math.ceil(retryAfter / 60)} minute(s).` });
+      }
+      
+      if (!currentPin || !currentPassphrase || !newPin || !newPassphrase) {
+        return res.status(400).json({ message: "Current and new PIN and passphrase are required" });
+      }
+      
+      if (!validatePin(newPin)) {
+        return res.status(400).json({ message: "PIN must be 4-6 digits" });
+      }
+      
+      if (!validatePassphrase(newPassphrase)) {
+        return res.status(400).json({ message: "Passphrase must be at least 8 characters and contain only letters, numbers, and special characters" });
+      }
+      
+      const newUserId = await changeCredentials(userId, { currentPin, currentPassphrase, newPin, newPassphrase }, req.sessionId);
+      disconnectOtherSessions(userId, req.sessionId);
+      moveUserConnections(userId, newUserId);
+      res.json({ success: true, userId: newUserId, message: "Credentials changed" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      if (message.includes("incorrect")) {
+        return res.status(403).json({ message });
+      }
+      if (message.includes("already in use") || message.includes("must differ")) {
+        return res.status(409).json({ message });
+      }
+      if (message.includes("Account not found")) {
+        return res.status(404).json({ message: "No account to update; log in with your PIN and passphrase first" });
+      }
+      console.error("[POST /api/auth/change-credentials]", error);
+      res.status(500).json({ message: "Failed to change credentials" });
+    }
+  });
+
+  // Development authentication bypass, only with SNIPCLIP_DEV_AUTH=1
+  if (isDevAuthEnabled) {
     app.post("/api/auth/dev-login", async (req, res) => {
       try {
         const { pin, passphrase } = req.body as UserCredentials;
@@ -113,11 +317,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(400).json({ message: "PIN and passphrase are required" });
         }
         
-        // Generate consistent user ID
-        const userId = generateUserId(pin, passphrase);
+        // Same user the credentials log in to, even after they were changed
+        const userId = await resolveUserId(pin, passphrase);
         
-        // Create session
-        const sessionToken = createSession(userId, pin, passphrase);
+        // Create session without checking or storing the credentials
+        const sessionToken = await createSession(userId, req.headers["user-agent"]);
         
         res.json({
           success: true,
@@ -131,33 +335,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   }
 
-  // Middleware to extract user ID from session
-  const authenticateUserMiddleware = (req: AuthenticatedRequest, res: any, next: any) => {
-    const sessionToken = req.headers["x-session-token"] as string;
-    const userId = req.headers["x-user-id"] as string;
-    
-    const authenticatedUserId = authenticateUser(sessionToken, userId);
-    
-    if (authenticatedUserId) {
-      req.userId = authenticatedUserId;
-      return next();
+  // Offline clients send the updatedAt of the snippet they edited; a newer one
+  // on the server means someone else changed it in the meantime
+  const changedSince = (snippet: Snippet, baseUpdatedAt: string | undefined) => {
+    if (!baseUpdatedAt) return false;
+    const base = /^\d+$/.test(baseUpdatedAt) ? Number(baseUpdatedAt) * 1000 : Date.parse(baseUpdatedAt);
+    const updatedAt: Date | number | string = snippet.updatedAt;
+    const current = typeof updatedAt === "number" ? updatedAt * 1000 : new Date(updatedAt).getTime();
+    return !Number.isNaN(base) && current > base;
+  };
+
+  // The abbreviation of another of the user's snippets that this one would clash with
+  const abbreviationClash = async (abbreviation: string, userId: string, snippetId?: number) => {
+    const snippets = await storage.getSnippets(userId);
+    return findAbbreviationConflict(abbreviation, snippets.filter(snippet => snippet.id !== snippetId).map(snippet => snippet.abbreviation));
+  };
+
+  // Why a snippet can't have this hotkey: the app, the user's overlay shortcuts or
+  // another snippet already use it
+  const hotkeyClash = async (hotkey: string, userId: string, snippetId?: number) => {
+    const reserved = reservedHotkeyConflict(hotkey, await storage.getSettings(userId));
+    if (reserved) return `Hotkey is used by ${reserved}`;
+    const existing = await storage.getSnippetByHotkey(hotkey, userId);
+    if (existing && existing.id !== snippetId) return `Hotkey is already used by "${existing.title}"`;
+  };
+
+  // Why a shortcut in a settings update can't be used: the app's own hotkeys,
+  // another shortcut setting or a snippet hotkey already have it
+  const shortcutSettingClash = async (data: Partial<InsertSettings>, userId: string) => {
+    const merged = { ...(await storage.getSettings(userId)), ...data };
+    const snippets = await storage.getSnippets(userId);
+    for (const action of SHORTCUT_ACTIONS) {
+      const shortcut = data[action.setting];
+      const conflict = shortcut && shortcutSettingConflict(action.setting, shortcut, merged, snippets);
+      if (conflict) return `The "${action.label}" shortcut is already used by ${conflict}`;
     }
-    
-    res.status(401).json({ message: "Authentication required" });
   };
 
+  // An ordered list of ids for the reorder routes; each id's position becomes its sortOrder
+  const reorderSchema = z.object({
+    ids: z.array(z.number().int()).min(1).refine(ids => new Set(ids).size === ids.length, "Ids must be unique"),
+  });
+
   // Snippets routes
+  // The whole list, or a page of it once limit or after is given (see shared/listing.ts)
   app.get("/api/snippets", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
-      const snippets = await storage.getSnippets(userId);
-      res.json(snippets);
+      const query = snippetListQuerySchema.parse(req.query);
+      const page = await storage.getSnippetPage(query, userId);
+      res.json(query.limit === undefined ? page.items : page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       console.error("[GET /api/snippets]", error);
       res.status(500).json({ message: "Failed to fetch snippets" });
     }
   });
 
+  // How many snippets there are, in all and in each folder, for what a page of
+  // the list can't tell
+  app.get("/api/snippets/counts", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      res.json(await storage.getSnippetCounts(userId));
+    } catch (error) {
+      console.error("[GET /api/snippets/counts]", error);
+      res.status(500).json({ message: "Failed to fetch snippet counts" });
+    }
+  });
+
   app.post("/api/snippets", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
@@ -166,7 +414,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (existing) {
         return res.status(400).json({ message: "Trigger already exists" });
       }
+      const clash = data.abbreviation && await abbreviationClash(data.abbreviation, userId);
+      if (clash) {
+        return res.status(400).json({ message: `Abbreviation clashes with "${clash}"` });
+      }
+      const hotkeyProblem = data.hotkey && await hotkeyClash(data.hotkey, userId);
+      if (hotkeyProblem) {
+        return res.status(400).json({ message: hotkeyProblem });
+      }
       const snippet = await storage.createSnippet(data, userId);
+      notifyUser(userId, { type: "snippet.saved", snippet });
       res.status(201).json(snippet);
     } catch (error) {
       console.error("[POST /api/snippets]", error);
@@ -181,21 +438,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Arrange snippets in the given order, for the manual sort mode
+  app.patch("/api/snippets/reorder", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderSnippets(ids, userId);
+      if (!reordered) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/snippets"] });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[PATCH /api/snippets/reorder]", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder snippets" });
+    }
+  });
+
+  // Move, trash, duplicate or tag many snippets in one go (see shared/bulk.ts)
+  app.post("/api/snippets/bulk", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const action = snippetBulkActionSchema.parse(req.body);
+      let result: BulkResult<Snippet> | undefined;
+      switch (action.action) {
+        case "move": {
+          const saved = await storage.moveSnippets(action.ids, action.folderId, userId);
+          result = saved && { saved, deleted: [] };
+          break;
+        }
+        case "delete":
+          result = await storage.deleteSnippets(action.ids, userId) ? { saved: [], deleted: action.ids } : undefined;
+          break;
+        case "duplicate": {
+          const saved = await storage.duplicateSnippets(action.ids, userId);
+          result = saved && { saved, deleted: [] };
+          break;
+        }
+        case "tag": {
+          const overfull = (await storage.getSnippets(userId)).find(snippet =>
+            action.ids.includes(snippet.id) && applyTagChanges(snippet.tags ?? [], action).length > MAX_TAGS_PER_SNIPPET
+          );
+          if (overfull) {
+            return res.status(400).json({ message: `"${overfull.title}" would have more than ${MAX_TAGS_PER_SNIPPET} tags` });
+          }
+          const saved = await storage.tagSnippets(action.ids, action, userId);
+          result = saved && { saved, deleted: [] };
+          break;
+        }
+      }
+      if (!result) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/snippets", "/api/tags", "/api/search", "/api/trash"] });
+      res.json(result);
+    } catch (error) {
+      console.error("[POST /api/snippets/bulk]", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && error.message.includes("Folder with ID") && error.message.includes("does not exist")) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update snippets" });
+    }
+  });
+
   app.put("/api/snippets/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
       const id = parseInt(req.params.id);
       const data = insertSnippetSchema.partial().parse(req.body);
+      const current = await storage.getSnippet(id, userId);
+      if (current && changedSince(current, req.headers["x-base-updated-at"] as string | undefined)) {
+        return res.status(409).json({ message: "Snippet was changed elsewhere", snippet: current });
+      }
       if (data.trigger) {
         const existing = await storage.getSnippetByTrigger(data.trigger, userId);
         if (existing && existing.id !== id) {
           return res.status(400).json({ message: "Trigger already exists" });
         }
       }
+      const clash = data.abbreviation && await abbreviationClash(data.abbreviation, userId, id);
+      if (clash) {
+        return res.status(400).json({ message: `Abbreviation clashes with "${clash}"` });
+      }
+      const hotkeyProblem = data.hotkey && await hotkeyClash(data.hotkey, userId, id);
+      if (hotkeyProblem) {
+        return res.status(400).json({ message: hotkeyProblem });
+      }
       const snippet = await storage.updateSnippet(id, data, userId);
       if (!snippet) {
         return res.status(404).json({ message: "Snippet not found" });
       }
+      notifyUser(userId, { type: "snippet.saved", snippet });
       res.json(snippet);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -213,32 +552,115 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const userId = req.userId!;
     try {
       const id = parseInt(req.params.id);
+      const current = await storage.getSnippet(id, userId);
+      if (current && changedSince(current, req.headers["x-base-updated-at"] as string | undefined)) {
+        return res.status(409).json({ message: "Snippet was changed elsewhere", snippet: current });
+      }
       const deleted = await storage.deleteSnippet(id, userId);
       if (!deleted) {
         return res.status(404).json({ message: "Snippet not found" });
       }
-      res.json({ message: "Snippet deleted" });
+      notifyUser(userId, { type: "snippet.deleted", id });
+      res.json({ message: "Snippet moved to trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete snippet" });
     }
   });
 
+  // Called when a snippet is copied or expanded. Counting a use is not an edit,
+  // so other devices aren't told.
+  app.post("/api/snippets/:id/use", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const snippet = await storage.recordSnippetUse(parseInt(req.params.id), userId);
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      res.json(snippet);
+    } catch (error) {
+      console.error("[POST /api/snippets/:id/use]", error);
+      res.status(500).json({ message: "Failed to record snippet use" });
+    }
+  });
+
+  // Snippet revision routes
+  app.get("/api/snippets/:id/revisions", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const id = parseInt(req.params.id);
+      const snippet = await storage.getSnippet(id, userId);
+      if (!snippet) {
+        return res.status(404).json({ message: "Snippet not found" });
+      }
+      const revisions = await storage.getSnippetRevisions(id, userId);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch snippet revisions" });
+    }
+  });
+
+  app.post("/api/snippets/:id/revisions/:revisionId/restore", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const id = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+      const snippet = await storage.restoreSnippetRevision(id, revisionId, userId);
+      if (!snippet) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      notifyUser(userId, { type: "snippet.saved", snippet });
+      res.json(snippet);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to restore snippet revision" });
+    }
+  });
+
+  // Tag routes
+  // Tags with the number of snippets carrying each, for autocomplete and filtering
+  app.get("/api/tags", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const tags = await storage.getTags(userId);
+      res.json(tags);
+    } catch (error) {
+      console.error("[GET /api/tags]", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
   // Clipboard routes
+  // The whole history, or a page of it once limit or after is given (see shared/listing.ts)
   app.get("/api/clipboard", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
-      const items = await storage.getClipboardItems(userId);
-      res.json(items);
+      const query = clipboardListQuerySchema.parse(req.query);
+      const page = await storage.getClipboardPage(query, userId);
+      res.json(query.limit === undefined ? page.items : page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch clipboard items" });
     }
   });
 
+  // The types in the history with how many items have each, for filtering by type
+  app.get("/api/clipboard/types", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      res.json(await storage.getClipboardTypeCounts(userId));
+    } catch (error) {
+      console.error("[GET /api/clipboard/types]", error);
+      res.status(500).json({ message: "Failed to fetch clipboard types" });
+    }
+  });
+
   app.post("/api/clipboard", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
       const data = insertClipboardItemSchema.parse(req.body);
-      const item = await storage.createClipboardItem(data, userId);
+      const item = await storage.createClipboardItem({ ...data, ...classifyClipboardContent(data.content) }, userId);
+      notifyUser(userId, { type: "clipboard.saved", item });
       res.status(201).json(item);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -248,6 +670,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const clipboardPinSchema = z.object({ pinned: z.boolean() });
+
+  app.patch("/api/clipboard/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { pinned } = clipboardPinSchema.parse(req.body);
+      const item = await storage.setClipboardItemPinned(parseInt(req.params.id), pinned, userId);
+      if (!item) {
+        return res.status(404).json({ message: "Clipboard item not found" });
+      }
+      notifyUser(userId, { type: "clipboard.saved", item });
+      res.json(item);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update clipboard item" });
+    }
+  });
+
+  // Trash, pin or unpin many clipboard items in one go (see shared/bulk.ts)
+  app.post("/api/clipboard/bulk", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const action = clipboardBulkActionSchema.parse(req.body);
+      let result: BulkResult<ClipboardItem> | undefined;
+      if (action.action === "delete") {
+        result = await storage.deleteClipboardItems(action.ids, userId) ? { saved: [], deleted: action.ids } : undefined;
+      } else {
+        const saved = await storage.setClipboardItemsPinned(action.ids, action.pinned, userId);
+        result = saved && { saved, deleted: [] };
+      }
+      if (!result) {
+        return res.status(404).json({ message: "Clipboard item not found" });
+      }
+      notifyUser(userId, result.deleted.length > 0
+        ? { type: "clipboard.deleted", ids: result.deleted }
+        : { type: "invalidate", keys: ["/api/clipboard"] });
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("[POST /api/clipboard/bulk]", error);
+      res.status(500).json({ message: "Failed to update clipboard items" });
+    }
+  });
+
   app.delete("/api/clipboard/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
@@ -256,7 +726,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!deleted) {
         return res.status(404).json({ message: "Clipboard item not found" });
       }
-      res.json({ message: "Clipboard item deleted" });
+      notifyUser(userId, { type: "clipboard.deleted", ids: [id] });
+      res.json({ message: "Clipboard item moved to trash" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete clipboard item" });
     }
@@ -265,17 +736,143 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/clipboard", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     const userId = req.userId!;
     try {
-      await storage.clearClipboardHistory(userId);
-      res.json({ message: "Clipboard history cleared" });
+      const ids = await storage.clearClipboardHistory(userId);
+      notifyUser(userId, { type: "clipboard.deleted", ids });
+      res.json({ message: "Clipboard history moved to trash", ids });
     } catch (error) {
       res.status(500).json({ message: "Failed to clear clipboard history" });
     }
   });
 
+  // Trash routes
+  const trashItemParamsSchema = z.object({
+    type: z.enum(trashItemTypes),
+    id: z.coerce.number().int(),
+  });
+  const trashRestoreSchema = z.object({
+    type: z.enum(trashItemTypes),
+    ids: z.array(z.number().int()).min(1),
+  });
+  // Queries that show items of each type, refreshed on other clients after trash changes
+  const trashQueryKeys: Record<TrashItemType, string[]> = {
+    snippet: ["/api/snippets", "/api/tags", "/api/search", "/api/trash"],
+    folder: ["/api/folders", "/api/snippets", "/api/trash"],
+    clipboard: ["/api/clipboard", "/api/search", "/api/trash"],
+  };
+
+  app.get("/api/trash", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const entries = await storage.getTrash(userId);
+      res.json(entries);
+    } catch (error) {
+      console.error("[GET /api/trash]", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:type/:id/restore", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { type, id } = trashItemParamsSchema.parse(req.params);
+      const restored = await storage.restoreFromTrash(type, id, userId);
+      if (!restored) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: trashQueryKeys[type] });
+      res.json({ message: "Item restored" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message.includes("already exists") || error.message.includes("already used"))) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  // Restore several items of one type at once, e.g. to undo clearing the clipboard history
+  app.post("/api/trash/restore", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { type, ids } = trashRestoreSchema.parse(req.body);
+      let restored = 0;
+      for (const id of ids) {
+        if (await storage.restoreFromTrash(type, id, userId)) restored++;
+      }
+      if (restored > 0) notifyUser(userId, { type: "invalidate", keys: trashQueryKeys[type] });
+      res.json({ message: `${restored} item(s) restored`, restored });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof Error && (error.message.includes("already exists") || error.message.includes("already used"))) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore items" });
+    }
+  });
+
+  app.delete("/api/trash/:type/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { type, id } = trashItemParamsSchema.parse(req.params);
+      const purged = await storage.purgeFromTrash(type, id, userId);
+      if (!purged) {
+        return res.status(404).json({ message: "Item not found in trash" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/trash"] });
+      res.json({ message: "Item permanently deleted" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to delete item" });
+    }
+  });
+
+  app.delete("/api/trash", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      await storage.emptyTrash(userId);
+      notifyUser(userId, { type: "invalidate", keys: ["/api/trash"] });
+      res.json({ message: "Trash emptied" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+
+  // Search routes
+  const searchQuerySchema = z.object({
+    q: z.string().trim().min(1, "Search query is required").max(200),
+    type: z.enum(["snippet", "clipboard"]).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_SEARCH_LIMIT).optional(),
+  });
+
+  app.get("/api/search", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { q, type, limit } = searchQuerySchema.parse(req.query);
+      const results = await storage.search(userId, q, {
+        kinds: type ? [type] : undefined,
+        limit,
+      });
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("[GET /api/search]", error);
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
   // Settings routes
   app.get("/api/settings", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
     try {
-      const settings = await storage.getSettings();
+      const settings = await storage.getSettings(userId);
       res.json(settings);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch settings" });
@@ -283,12 +880,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.put("/api/settings", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
     try {
       console.log("PUT /api/settings - Request body:", req.body);
       const data = insertSettingsSchema.partial().parse(req.body);
       console.log("PUT /api/settings - Parsed data:", data);
-      const settings = await storage.updateSettings(data);
+      const shortcutProblem = await shortcutSettingClash(data, userId);
+      if (shortcutProblem) {
+        return res.status(400).json({ message: shortcutProblem });
+      }
+      const settings = await storage.updateSettings(data, userId);
       console.log("PUT /api/settings - Updated settings:", settings);
+      notifyUser(userId, { type: "settings.saved", settings });
+      // A lower limit or a retention period applies to the history right away
+      if (data.historyLimit !== undefined || data.clipboardRetentionDays !== undefined) {
+        if (await storage.pruneClipboardHistory(userId) > 0) {
+          notifyUser(userId, { type: "invalidate", keys: ["/api/clipboard", "/api/search"] });
+        }
+      }
       res.json(settings);
     } catch (error) {
       console.error("PUT /api/settings - Error:", error);
@@ -299,6 +908,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import/export routes
+  const exportQuerySchema = z.object({
+    clipboard: z.enum(["true", "false"]).optional(),
+    // Another expander's file format; a SnipClip bundle when omitted
+    format: z.enum(snippetFormats).optional(),
+  });
+
+  app.get("/api/export", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { clipboard, format } = exportQuerySchema.parse(req.query);
+      const bundle = await exportLibrary(storage, userId, { includeClipboard: clipboard === "true" && !format });
+      const date = bundle.exportedAt.slice(0, 10);
+
+      if (format) {
+        const { extension, mimeType } = snippetFormatInfo[format];
+        const { content, issues } = exportSnippets(format, bundle.snippets);
+        res.setHeader("Content-Type", `${mimeType}; charset=utf-8`);
+        res.setHeader("Content-Disposition", `attachment; filename="snipclip-${date}.${extension}"`);
+        res.setHeader("X-Conversion-Issues", String(issues.length));
+        return res.send(content);
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="snipclip-export-${date}.json"`);
+      res.json(bundle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("[GET /api/export]", error);
+      res.status(500).json({ message: "Failed to export library" });
+    }
+  });
+
+  app.post("/api/import", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { bundle, source, ...options } = importRequestSchema.parse(req.body);
+
+      let converted;
+      if (source) {
+        try {
+          converted = importSnippets(source.format, source.content, source.folder);
+        } catch (error) {
+          const label = snippetFormatInfo[source.format].label;
+          return res.status(400).json({ message: `Could not read the ${label} file: ${(error as Error).message}` });
+        }
+      }
+
+      const report = await importLibrary(storage, converted?.bundle ?? bundle!, options, userId);
+      report.issues = converted?.issues ?? [];
+      if (!report.dryRun) {
+        notifyUser(userId, {
+          type: "invalidate",
+          keys: ["/api/snippets", "/api/tags", "/api/folders", "/api/clipboard", "/api/settings", "/api/search", "/api/trash"],
+        });
+      }
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import bundle", errors: error.errors });
+      }
+      console.error("[POST /api/import]", error);
+      res.status(500).json({ message: "Failed to import library" });
+    }
+  });
+
   // Folders routes
   app.get("/api/folders", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
@@ -313,6 +989,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Arrange folders in the given order; only the order among siblings shows in the tree
+  app.patch("/api/folders/reorder", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const reordered = await storage.reorderFolders(ids, userId);
+      if (!reordered) {
+        return res.status(404).json({ message: "Folder not found" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/folders"] });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("[PATCH /api/folders/reorder]", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to reorder folders" });
+    }
+  });
+
   app.get("/api/folders/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const folder = await storage.getFolder(Number(req.params.id), req.userId!);
@@ -326,21 +1022,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/folders", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
-      const { name } = req.body;
+      const { name, parentId = null } = req.body;
       if (!name) return res.status(400).json({ message: "Folder name is required" });
+      if (name.includes(FOLDER_PATH_SEPARATOR)) {
+        return res.status(400).json({ message: `Folder names cannot contain "${FOLDER_PATH_SEPARATOR}"` });
+      }
+      if (parentId !== null && !Number.isInteger(parentId)) {
+        return res.status(400).json({ message: "Invalid parent folder" });
+      }
       
       // Prevent creation of "General" folder as it's reserved
       if (name.toLowerCase() === "general") {
         return res.status(400).json({ message: "Cannot create folder named 'General' as it's a reserved name" });
       }
       
-      const folder = await storage.createFolder(name, req.userId!);
+      const folder = await storage.createFolder(name, req.userId!, parentId);
+      notifyUser(req.userId!, { type: "folder.saved", folder });
       res.status(201).json(folder);
     } catch (error) {
       console.error("[POST /api/folders]", error);
       if (error instanceof Error && error.message.includes("Folder name already exists")) {
         return res.status(400).json({ message: error.message });
       }
+      if (error instanceof Error && error.message === "Parent folder not found") {
+        return res.status(404).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create folder" });
     }
   });
@@ -350,6 +1056,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { name } = req.body;
       if (!name) return res.status(400).json({ message: "Folder name is required" });
       
+      if (name.includes(FOLDER_PATH_SEPARATOR)) {
+        return res.status(400).json({ message: `Folder names cannot contain "${FOLDER_PATH_SEPARATOR}"` });
+      }
+      
       // Prevent renaming to "General" as it's reserved
       if (name.toLowerCase() === "general") {
         return res.status(400).json({ message: "Cannot rename folder to 'General' as it's a reserved name" });
@@ -357,6 +1067,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const folder = await storage.updateFolder(Number(req.params.id), name, req.userId!);
       if (!folder) return res.status(404).json({ message: "Folder not found" });
+      notifyUser(req.userId!, { type: "folder.saved", folder });
       res.json(folder);
     } catch (error) {
       console.error("[PUT /api/folders/:id]", error);
@@ -373,6 +1084,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { name } = req.body;
       if (!name) return res.status(400).json({ message: "Folder name is required" });
       
+      if (name.includes(FOLDER_PATH_SEPARATOR)) {
+        return res.status(400).json({ message: `Folder names cannot contain "${FOLDER_PATH_SEPARATOR}"` });
+      }
+      
       // Prevent renaming to "General" as it's reserved
       if (name.toLowerCase() === "general") {
         return res.status(400).json({ message: "Cannot rename folder to 'General' as it's a reserved name" });
@@ -380,6 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const folder = await storage.updateFolder(Number(req.params.id), name, req.userId!);
       if (!folder) return res.status(404).json({ message: "Folder not found" });
+      notifyUser(req.userId!, { type: "folder.saved", folder });
       res.json(folder);
     } catch (error) {
       console.error("[PATCH /api/folders/:id/rename]", error);
@@ -390,6 +1106,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move a folder, with its subfolders and snippets, under another folder or to the top level
+  app.patch("/api/folders/:id/move", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    try {
+      const folderId = Number(req.params.id);
+      const { parentId = null } = req.body;
+      if (parentId !== null && !Number.isInteger(parentId)) {
+        return res.status(400).json({ message: "Invalid parent folder" });
+      }
+      
+      const existing = await storage.getFolder(folderId, req.userId!);
+      if (!existing) return res.status(404).json({ message: "Folder not found" });
+      if (existing.name === "General") {
+        return res.status(400).json({ message: "Cannot move the 'General' folder as it's a reserved system folder" });
+      }
+      
+      const folder = await storage.moveFolder(folderId, parentId, req.userId!);
+      if (!folder) return res.status(404).json({ message: "Folder not found" });
+      notifyUser(req.userId!, { type: "folder.saved", folder });
+      res.json(folder);
+    } catch (error) {
+      console.error("[PATCH /api/folders/:id/move]", error);
+      if (error instanceof Error && error.message === "Parent folder not found") {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof Error && (error.message.includes("Folder name already exists") || error.message.includes("Cannot move a folder"))) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to move folder" });
+    }
+  });
+
   app.delete("/api/folders/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
     try {
       const folderId = Number(req.params.id);
@@ -402,6 +1149,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const ok = await storage.deleteFolder(folderId, req.userId!);
       if (!ok) return res.status(404).json({ message: "Folder not found" });
+      notifyUser(req.userId!, { type: "folder.deleted", id: folderId });
+      // The folder is now in the trash and can be restored from there
       res.json({ success: true });
     } catch (error) {
       console.error("[DELETE /api/folders/:id]", error);
@@ -409,6 +1158,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Share links routes
+  // The user's active links, with what each shares
+  app.get("/api/shares", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      res.json(await getShareLinkInfos(userId));
+    } catch (error) {
+      console.error("[GET /api/shares]", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  // The link's token is in this response only
+  app.post("/api/shares", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const data = createShareLinkSchema.parse(req.body);
+      const link = await createShareLink(userId, data);
+      if (!link) {
+        return res.status(404).json({ message: data.targetType === "snippet" ? "Snippet not found" : "Folder not found" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/shares"] });
+      res.status(201).json(link);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      console.error("[POST /api/shares]", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/shares/:id", authenticateUserMiddleware, async (req: AuthenticatedRequest, res) => {
+    const userId = req.userId!;
+    try {
+      const revoked = await storage.revokeShareLink(parseInt(req.params.id), userId);
+      if (!revoked) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      notifyUser(userId, { type: "invalidate", keys: ["/api/shares"] });
+      res.status(204).send();
+    } catch (error) {
+      console.error("[DELETE /api/shares/:id]", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  // What a share link shows, for the page at /s/:token (no authentication
+  // required). Each call counts as a view; unknown, expired, used up and
+  // revoked links all look the same.
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const content = await openShareLink(req.params.token);
+      if (!content) {
+        return res.status(404).json({ message: "This link has expired or does not exist" });
+      }
+      res.set("Cache-Control", "no-store");
+      res.json(content);
+    } catch (error) {
+      console.error("[GET /api/shared/:token]", error);
+      res.status(500).json({ message: "Failed to open share link" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupSync(httpServer);
   return httpServer;
 }
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { hashToken } from "./auth";
+import { FOLDER_PATH_SEPARATOR, descendantFolderIds, folderAncestors, folderPath } from "@shared/folders";
+import type { CreateShareLink, CreatedShareLink, ShareLink, ShareLinkInfo, SharedContent, SharedSnippet, Snippet } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Only what the page at /s/<token> shows; ids, triggers and hotkeys stay private
+function toSharedSnippet({ title, description, content, tags, updatedAt }: Snippet): SharedSnippet {
+  return { title, description, content, tags: tags ?? [], updatedAt };
+}
+
+// Share one of the user's snippets or folders; undefined when it does not
+// exist or is in the trash. The token is only ever returned here; the user has
+// to copy the link now.
+export async function createShareLink(userId: string, { targetType, targetId, expiresInDays, maxViews }: CreateShareLink): Promise<CreatedShareLink | undefined> {
+  const target = targetType === "snippet" ? await storage.getSnippet(targetId, userId) : await storage.getFolder(targetId, userId);
+  if (!target) return undefined;
+  const token = crypto.randomBytes(24).toString("base64url");
+  const { tokenHash: _tokenHash, ...link } = await storage.createShareLink({
+    tokenHash: hashToken(token),
+    userId,
+    targetType,
+    targetId,
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * DAY_MS) : null,
+    maxViews: maxViews ?? null,
+  });
+  return { ...link, token };
+}
+
+// The user's active links, each with the title of what it shares
+export async function getShareLinkInfos(userId: string): Promise<ShareLinkInfo[]> {
+  const [links, snippets, folders] = await Promise.all([
+    storage.getShareLinks(userId),
+    storage.getSnippets(userId),
+    storage.getFolders(userId),
+  ]);
+  return links.map(({ tokenHash: _tokenHash, ...link }) => ({
+    ...link,
+    title: link.targetType === "snippet"
+      ? snippets.find(snippet => snippet.id === link.targetId)?.title ?? null
+      : folders.some(folder => folder.id === link.targetId) ? folderPath(folders, link.targetId) : null,
+  }));
+}
+
+async function sharedContent({ userId, targetType, targetId }: ShareLink): Promise<SharedContent | undefined> {
+  if (targetType === "snippet") {
+    const snippet = await storage.getSnippet(targetId, userId);
+    return snippet && { type: "snippet", snippet: toSharedSnippet(snippet) };
+  }
+
+  const folders = await storage.getFolders(userId);
+  const folder = folders.find(f => f.id === targetId);
+  if (!folder) return undefined;
+  const ids = new Set([targetId, ...descendantFolderIds(folders, targetId)]);
+  const depth = folderAncestors(folders, targetId).length;
+  const snippets = (await storage.getSnippets(userId))
+    .filter(snippet => snippet.folderId != null && ids.has(snippet.folderId))
+    .sort((a, b) => a.title.localeCompare(b.title));
+  return {
+    type: "folder",
+    name: folder.name,
+    snippets: snippets.map(snippet => ({
+      ...toSharedSnippet(snippet),
+      folder: folderAncestors(folders, snippet.folderId!).slice(depth).map(f => f.name).join(FOLDER_PATH_SEPARATOR),
+    })),
+  };
+}
+
+// What the link shows, counting the view. Undefined when there is no such link,
+// it is no longer active, or what it shares has since gone to the trash; a view
+// is only counted when something is shown.
+export async function openShareLink(token: string): Promise<SharedContent | undefined> {
+  const link = await storage.getShareLinkByTokenHash(hashToken(token));
+  if (!link) return undefined;
+  const content = await sharedContent(link);
+  if (!content || !(await storage.recordShareLinkView(link.id))) return undefined;
+  return content;
+}
@@ -5,52 +5,492 @@ import {
   snippetsSQLite,
   clipboardItemsSQLite,
   settingsSQLite,
+  snippetRevisions,
+  snippetRevisionsSQLite,
+  tags,
+  tagsSQLite,
+  snippetTags,
+  snippetTagsSQLite,
   type Snippet, 
+  type TagSummary,
+  type SnippetRevision,
   type InsertSnippet,
   type ClipboardItem,
   type InsertClipboardItem,
   type Settings,
   type InsertSettings,
+  type Folder,
+  type TrashEntry,
+  type TrashItemType,
+  type Account,
+  type InsertAccount,
+  type AccountCredentialsUpdate,
+  type AuthSession,
+  type InsertAuthSession,
+  type ApiToken,
+  type InsertApiToken,
+  type ShareLink,
+  type InsertShareLink,
+  accounts,
+  accountsSQLite,
+  authSessions,
+  authSessionsSQLite,
+  apiTokens,
+  apiTokensSQLite,
+  shareLinks,
+  shareLinksSQLite,
   folders,
   foldersSQLite
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, desc, and, gt } from "drizzle-orm";
+import {
+  SearchIndex,
+  tokenize,
+  editDistance,
+  maxEditsFor,
+  toSnippetResult,
+  toClipboardResult,
+  DEFAULT_SEARCH_LIMIT,
+  type SearchOptions,
+  type SearchResult,
+} from "@shared/search";
+import {
+  listSnippets,
+  listClipboardItems,
+  countSnippets,
+  toListPage,
+  snippetSortKey,
+  clipboardSortKey,
+  SNIPPET_SORT_DIRECTIONS,
+  type ListPage,
+  type SnippetCounts,
+  type SnippetListQuery,
+  type SnippetSort,
+  type ClipboardListQuery,
+  type SortDirection,
+  type SortKey,
+} from "@shared/listing";
+import { clipboardTypes, type ClipboardTypeCount } from "@shared/clipboard";
+import { descendantFolderIds, wouldCreateCycle } from "@shared/folders";
+import { normalizeTags } from "@shared/tags";
+import { applyTagChanges, copyTitle, copyTrigger, type TagChanges } from "@shared/bulk";
+import { splitLegacyTrigger } from "@shared/abbreviations";
+import { findDuplicateHotkeys } from "@shared/hotkeys";
+import { db, isSQLite } from "./db";
+import { eq, ne, asc, desc, and, or, gt, gte, lt, lte, inArray, isNull, isNotNull, sql } from "drizzle-orm";
+import crypto from "crypto";
 import fs from "fs";
 import path from "path";
 
 // Determine which schema to use based on database type
-const isSQLite = db && db.dialect && db.dialect.name === 'sqlite';
 const activeSnippets = isSQLite ? snippetsSQLite : snippets;
 const activeClipboardItems = isSQLite ? clipboardItemsSQLite : clipboardItems;
 const activeSettings = isSQLite ? settingsSQLite : settings;
+const activeSnippetRevisions = isSQLite ? snippetRevisionsSQLite : snippetRevisions;
+const activeTags = isSQLite ? tagsSQLite : tags;
+const activeSnippetTags = isSQLite ? snippetTagsSQLite : snippetTags;
+const activeAccounts = isSQLite ? accountsSQLite : accounts;
+const activeAuthSessions = isSQLite ? authSessionsSQLite : authSessions;
+const activeApiTokens = isSQLite ? apiTokensSQLite : apiTokens;
+const activeShareLinks = isSQLite ? shareLinksSQLite : shareLinks;
+
+// Defaults applied the first time a user's settings are read
+const DEFAULT_SETTINGS: InsertSettings = {
+  snippetShortcut: "ctrl+;",
+  clipboardShortcut: "ctrl+shift+v",
+  newSnippetShortcut: "ctrl+k ctrl+e",
+  searchShortcut: "ctrl+k ctrl+f",
+  settingsShortcut: "ctrl+k ctrl+s",
+  clipboardEnabled: 1,
+  historyLimit: 100,
+  launchOnStartup: 0,
+  theme: "light",
+  trashRetentionDays: 30,
+  clipboardRetentionDays: 0,
+  snippetSort: "recent",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SQLite tables store timestamps as unix seconds
+function toDbTimestamp(date: Date): Date | number {
+  return isSQLite ? Math.floor(date.getTime() / 1000) : date;
+}
+
+function fromDbTimestamp(value: Date | number): Date {
+  return typeof value === "number" ? new Date(value * 1000) : new Date(value);
+}
+
+// Timestamps as compared and ordered when paging: to the millisecond, which
+// is what cursors carry, as PostgreSQL keeps microseconds
+function pageTimestamp(column: any) {
+  return isSQLite ? column : sql`date_trunc('milliseconds', ${column})`;
+}
+
+function pageTimestampValue(ms: number): number | string {
+  return isSQLite ? Math.floor(ms / 1000) : new Date(ms).toISOString();
+}
+
+// What DatabaseStorage orders snippets by for each sort, matching snippetSortKey
+function snippetSortColumns(sort: SnippetSort): any[] {
+  switch (sort) {
+    case "title":
+      return [sql`lower(${activeSnippets.title})`, activeSnippets.id];
+    case "usage":
+      return [activeSnippets.usageCount, activeSnippets.id];
+    case "manual":
+      return [activeSnippets.sortOrder, activeSnippets.id];
+    case "updatedAt":
+      return [pageTimestamp(activeSnippets.updatedAt), activeSnippets.id];
+  }
+}
+
+// Rows whose sort key comes after the cursor's, spelling out the row comparison
+// (a, b) > (x, y) as a > x or (a = x and b > y)
+function afterSortKey(columns: any[], key: SortKey, direction: SortDirection): any {
+  const beyond = direction === "asc" ? gt : lt;
+  const [column, ...restColumns] = columns;
+  const [value, ...restKey] = key;
+  if (restColumns.length === 0) return beyond(column, value);
+  return or(beyond(column, value), and(eq(column, value), afterSortKey(restColumns, restKey, direction)));
+}
+
+// The known clipboard types, in order, with how many items have each; those
+// with none are left out
+function clipboardTypeCounts(rows: Array<{ type: string; count: number }>): ClipboardTypeCount[] {
+  return clipboardTypes
+    .map(type => ({ type, count: rows.filter(row => row.type === type).reduce((sum, row) => sum + Number(row.count), 0) }))
+    .filter(({ count }) => count > 0);
+}
+
+// The ids of clipboard items to drop: those past the history limit, counting
+// from the newest, and those older than the retention period if one is set.
+// Pinned items are neither dropped nor counted.
+function clipboardItemsToPrune(
+  items: Array<Pick<ClipboardItem, "id" | "createdAt" | "pinned">>,
+  { historyLimit, clipboardRetentionDays }: Pick<Settings, "historyLimit" | "clipboardRetentionDays">,
+): number[] {
+  const cutoff = clipboardRetentionDays > 0 ? Date.now() - clipboardRetentionDays * DAY_MS : -Infinity;
+  return items
+    .filter(item => !item.pinned)
+    .map(item => ({ id: item.id, createdAt: new Date(item.createdAt).getTime() }))
+    // Ids break ties between items saved within the same millisecond
+    .sort((a, b) => b.createdAt - a.createdAt || b.id - a.id)
+    .filter((item, index) => index >= historyLimit || item.createdAt < cutoff)
+    .map(item => item.id);
+}
+
+function toAccount(row: any): Account {
+  return {
+    ...row,
+    createdAt: fromDbTimestamp(row.createdAt),
+    lastLoginAt: row.lastLoginAt == null ? null : fromDbTimestamp(row.lastLoginAt),
+  };
+}
+
+function toAuthSession(row: any): AuthSession {
+  return {
+    ...row,
+    createdAt: fromDbTimestamp(row.createdAt),
+    lastSeenAt: fromDbTimestamp(row.lastSeenAt),
+    expiresAt: fromDbTimestamp(row.expiresAt),
+    revokedAt: row.revokedAt == null ? null : fromDbTimestamp(row.revokedAt),
+  };
+}
+
+// Sessions stay usable until they expire or are revoked
+function isActiveSession(session: AuthSession, now = Date.now()): boolean {
+  return !session.revokedAt && new Date(session.expiresAt).getTime() > now;
+}
+
+function toApiToken(row: any): ApiToken {
+  return {
+    ...row,
+    createdAt: fromDbTimestamp(row.createdAt),
+    lastUsedAt: row.lastUsedAt == null ? null : fromDbTimestamp(row.lastUsedAt),
+    expiresAt: row.expiresAt == null ? null : fromDbTimestamp(row.expiresAt),
+    revokedAt: row.revokedAt == null ? null : fromDbTimestamp(row.revokedAt),
+  };
+}
+
+// API tokens work until they are revoked or reach their expiry, if they have one
+function isActiveApiToken(token: ApiToken, now = Date.now()): boolean {
+  return !token.revokedAt && (token.expiresAt == null || new Date(token.expiresAt).getTime() > now);
+}
+
+function toShareLink(row: any): ShareLink {
+  return {
+    ...row,
+    createdAt: fromDbTimestamp(row.createdAt),
+    expiresAt: row.expiresAt == null ? null : fromDbTimestamp(row.expiresAt),
+    lastViewedAt: row.lastViewedAt == null ? null : fromDbTimestamp(row.lastViewedAt),
+    revokedAt: row.revokedAt == null ? null : fromDbTimestamp(row.revokedAt),
+  };
+}
+
+// Share links open until they are revoked, reach their expiry or use up their views
+function isActiveShareLink(link: ShareLink, now = Date.now()): boolean {
+  return !link.revokedAt &&
+    (link.expiresAt == null || new Date(link.expiresAt).getTime() > now) &&
+    (link.maxViews == null || link.viewCount < link.maxViews);
+}
+
+// Whether an update changes any of the snippet fields that revisions keep
+function changesSnippetText(existing: Snippet, updateData: Partial<InsertSnippet>): boolean {
+  return (updateData.title !== undefined && updateData.title !== existing.title) ||
+    (updateData.content !== undefined && updateData.content !== existing.content) ||
+    (updateData.description !== undefined && (updateData.description || null) !== existing.description);
+}
+
+// Older rows have no parentId; they sit at the top level
+function parentOf(folder: { parentId?: number | null }): number | null {
+  return folder.parentId ?? null;
+}
+
+// Check that a folder can move under parentId, given all of the user's folders
+// including trashed ones. Returns the trashed folder of the same name that the
+// move would replace, if there is one.
+function checkFolderMove(folders: any[], folder: any, parentId: number | null): any | undefined {
+  const live = folders.filter(f => !f.deletedAt);
+  if (parentId !== null && !live.some(f => f.id === parentId)) {
+    throw new Error("Parent folder not found");
+  }
+  if (wouldCreateCycle(live, folder.id, parentId)) {
+    throw new Error("Cannot move a folder into itself or one of its subfolders");
+  }
+  const sameName = folders.filter(f => f.id !== folder.id && f.name === folder.name && parentOf(f) === parentId);
+  if (sameName.some(f => !f.deletedAt)) {
+    throw new Error("Folder name already exists in this location");
+  }
+  return sameName.find(f => f.deletedAt);
+}
+
+// Tag names as stored on a snippet: normalized and alphabetical
+function storedTags(names: string[]): string[] {
+  return normalizeTags(names).sort();
+}
+
+// Tag usage across the given snippets, most used first
+function summarizeTags(tagLists: string[][]): TagSummary[] {
+  const counts = new Map<string, number>();
+  tagLists.forEach(list => list.forEach(name => counts.set(name, (counts.get(name) ?? 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+// Sort position that puts an item after the given siblings
+function nextSortOrder(siblings: { sortOrder?: number | null }[]): number {
+  return siblings.reduce((next, item) => Math.max(next, (item.sortOrder ?? 0) + 1), 0);
+}
+
+// Folders in their manual order; ties, e.g. between folders never reordered, by age
+function bySortOrder(a: { id: number; sortOrder?: number | null }, b: { id: number; sortOrder?: number | null }): number {
+  return (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.id - b.id;
+}
+
+// The folder plus the subfolders that went to the trash along with it. They
+// share its deletedAt, and are restored or purged together with it.
+function foldersTrashedWith(folders: any[], id: number): number[] {
+  const root = folders.find(folder => folder.id === id);
+  if (!root?.deletedAt) return [];
+  const deletedAt = fromDbTimestamp(root.deletedAt).getTime();
+  const ids = [id];
+  for (let i = 0; i < ids.length; i++) {
+    for (const folder of folders) {
+      if (parentOf(folder) === ids[i] && folder.deletedAt && !ids.includes(folder.id) &&
+          fromDbTimestamp(folder.deletedAt).getTime() === deletedAt) {
+        ids.push(folder.id);
+      }
+    }
+  }
+  return ids;
+}
+
+// Subfolders trashed with their parent are listed in the trash through it
+function trashedWithParent(folders: any[], folder: any): boolean {
+  const parent = folders.find(f => f.id === parentOf(folder));
+  return !!parent?.deletedAt && fromDbTimestamp(parent.deletedAt).getTime() === fromDbTimestamp(folder.deletedAt).getTime();
+}
+
+// Snippets go to the trash with their folder, like subfolders, and are listed,
+// restored and purged with it rather than on their own
+function trashedWithFolder(folders: any[], snippet: { folderId: number | null; deletedAt: Date | number | null }): boolean {
+  const folder = folders.find(f => f.id === snippet.folderId);
+  return !!folder?.deletedAt && !!snippet.deletedAt && fromDbTimestamp(folder.deletedAt).getTime() === fromDbTimestamp(snippet.deletedAt).getTime();
+}
+
+// Restoring a snippet must not give its trigger or hotkey a second live snippet
+async function checkSnippetRestorable(storage: IStorage, snippet: Snippet, userId: string): Promise<void> {
+  if (await storage.getSnippetByTrigger(snippet.trigger, userId)) {
+    throw new Error(`Cannot restore snippet "${snippet.title}": its trigger is already used by another snippet`);
+  }
+  if (snippet.hotkey && await storage.getSnippetByHotkey(snippet.hotkey, userId)) {
+    throw new Error(`Cannot restore snippet "${snippet.title}": its hotkey is already used by another snippet`);
+  }
+}
+
+// A restored folder goes back under its parent if that is still around, otherwise to the top level
+function restoredParentId(folders: any[], folder: any): number | null {
+  const parentId = parentOf(folder);
+  return folders.some(f => f.id === parentId && !f.deletedAt) ? parentId : null;
+}
+
+function buildSnippetIndex(snippets: Snippet[]): SearchIndex<Snippet> {
+  const index = new SearchIndex<Snippet>();
+  for (const snippet of snippets) {
+    index.add(snippet.id, snippet, [
+      { text: snippet.title, weight: 4 },
+      { text: snippet.trigger, weight: 2 },
+      { text: snippet.description || "", weight: 2 },
+      { text: snippet.content, weight: 1 },
+    ]);
+  }
+  return index;
+}
+
+function buildClipboardIndex(items: ClipboardItem[]): SearchIndex<ClipboardItem> {
+  const index = new SearchIndex<ClipboardItem>();
+  for (const item of items) {
+    index.add(item.id, item, [{ text: item.content, weight: 1 }]);
+  }
+  return index;
+}
+
+// Merge per-kind results into one ranked list
+function mergeSearchResults(results: SearchResult[], limit: number): SearchResult[] {
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
 
 export interface IStorage {
   // Snippets
-  getSnippets(userId: string, folderId?: number): Promise<Snippet[]>;
+  getSnippets(userId: string): Promise<Snippet[]>;
+  // A page of the user's snippets, filtered and sorted as asked (see shared/listing.ts)
+  getSnippetPage(query: SnippetListQuery, userId: string): Promise<ListPage<Snippet>>;
+  // How many snippets the user has outside the trash, in all and in each folder
+  getSnippetCounts(userId: string): Promise<SnippetCounts>;
   getSnippet(id: number, userId: string): Promise<Snippet | undefined>;
   getSnippetByTrigger(trigger: string, userId: string): Promise<Snippet | undefined>;
+  // Hotkeys are matched in their normalized form
+  getSnippetByHotkey(hotkey: string, userId: string): Promise<Snippet | undefined>;
+  // Every trigger the user's snippets hold, those in the trash included
+  getSnippetTriggers(userId: string): Promise<string[]>;
+  // Snippets come back with their tag names; tags in the data replace the snippet's tags
   createSnippet(snippet: InsertSnippet, userId: string): Promise<Snippet>;
   updateSnippet(id: number, snippet: Partial<InsertSnippet>, userId: string): Promise<Snippet | undefined>;
   deleteSnippet(id: number, userId: string): Promise<boolean>;
+  // Gives the snippets sortOrder 0, 1, 2... in the order listed. Nothing changes,
+  // and false is returned, if any of them is missing.
+  reorderSnippets(ids: number[], userId: string): Promise<boolean>;
+  // Counts a copy or expansion of the snippet; like reordering, not an edit
+  recordSnippetUse(id: number, userId: string): Promise<Snippet | undefined>;
+  // Bulk actions (see shared/bulk.ts), each all or nothing like reorderSnippets.
+  // Snippets come back in the order of the ids.
+  moveSnippets(ids: number[], folderId: number | null, userId: string): Promise<Snippet[] | undefined>;
+  deleteSnippets(ids: number[], userId: string): Promise<boolean>;
+  // Returns the copies
+  duplicateSnippets(ids: number[], userId: string): Promise<Snippet[] | undefined>;
+  tagSnippets(ids: number[], changes: TagChanges, userId: string): Promise<Snippet[] | undefined>;
+  
+  // Tags
+  // The tags on the user's snippets outside the trash, most used first
+  getTags(userId: string): Promise<TagSummary[]>;
+  
+  // Snippet revisions
+  getSnippetRevisions(snippetId: number, userId: string): Promise<SnippetRevision[]>;
+  restoreSnippetRevision(snippetId: number, revisionId: number, userId: string): Promise<Snippet | undefined>;
   
   // Folders
   getFolders(userId: string): Promise<any[]>;
   getFolder(id: number, userId: string): Promise<any | undefined>;
-  createFolder(name: string, userId: string): Promise<any>;
+  createFolder(name: string, userId: string, parentId?: number | null): Promise<any>;
   updateFolder(id: number, name: string, userId: string, sortOrder?: number): Promise<any | undefined>;
+  // Moves the folder, with everything below it, under parentId (null for the top level)
+  moveFolder(id: number, parentId: number | null, userId: string): Promise<any | undefined>;
+  // Gives the folders sortOrder 0, 1, 2... in the order listed, all or nothing like reorderSnippets
+  reorderFolders(ids: number[], userId: string): Promise<boolean>;
+  // Moves the folder, its subfolders and their snippets to the trash, to be
+  // restored or purged together
   deleteFolder(id: number, userId: string): Promise<boolean>;
   ensureGeneralFolder(userId: string): Promise<any>;
   
-  // Clipboard
+  // Clipboard; pinned items first, then newest first
   getClipboardItems(userId: string): Promise<ClipboardItem[]>;
+  // A page of the history in the same order, filtered as asked (see shared/listing.ts)
+  getClipboardPage(query: ClipboardListQuery, userId: string): Promise<ListPage<ClipboardItem>>;
+  // The types of the items in the history, in the order of clipboardTypes
+  getClipboardTypeCounts(userId: string): Promise<ClipboardTypeCount[]>;
   createClipboardItem(item: InsertClipboardItem, userId: string): Promise<ClipboardItem>;
   deleteClipboardItem(id: number, userId: string): Promise<boolean>;
-  clearClipboardHistory(userId: string): Promise<void>;
+  setClipboardItemPinned(id: number, pinned: boolean, userId: string): Promise<ClipboardItem | undefined>;
+  // Moves every unpinned item to the trash and returns their ids
+  clearClipboardHistory(userId: string): Promise<number[]>;
+  // Bulk actions, all or nothing like the snippets' ones
+  deleteClipboardItems(ids: number[], userId: string): Promise<boolean>;
+  setClipboardItemsPinned(ids: number[], pinned: boolean, userId: string): Promise<ClipboardItem[] | undefined>;
+  // Deletes unpinned items beyond the user's historyLimit or older than their
+  // clipboardRetentionDays, for one user or everyone; returns how many
+  pruneClipboardHistory(userId?: string): Promise<number>;
   
   // Settings
-  getSettings(): Promise<Settings>;
-  updateSettings(settings: Partial<InsertSettings>): Promise<Settings>;
+  getSettings(userId: string): Promise<Settings>;
+  updateSettings(settings: Partial<InsertSettings>, userId: string): Promise<Settings>;
+  
+  // Trash
+  getTrash(userId: string): Promise<TrashEntry[]>;
+  restoreFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean>;
+  purgeFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean>;
+  emptyTrash(userId: string): Promise<void>;
+  // Permanently removes items trashed longer than their owner's retention; all users when userId is omitted
+  purgeExpiredTrash(userId?: string): Promise<number>;
+  
+  // Accounts
+  getAccount(userId: string): Promise<Account | undefined>;
+  getAccountByLoginKey(loginKey: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  recordLogin(userId: string): Promise<void>;
+  // Sets new credentials and moves all of the account's data, sessions and API
+  // tokens included, to update.userId in one go
+  updateAccountCredentials(userId: string, update: AccountCredentialsUpdate): Promise<Account>;
+  
+  // Auth sessions
+  createAuthSession(session: InsertAuthSession): Promise<AuthSession>;
+  // Returns expired and revoked sessions too; callers check isActiveSession
+  getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined>;
+  // Active sessions only, most recently used first
+  getAuthSessions(userId: string): Promise<AuthSession[]>;
+  touchAuthSession(id: number, expiresAt: Date): Promise<void>;
+  revokeAuthSession(id: number, userId: string): Promise<boolean>;
+  // Revokes every active session of the user except exceptId and returns how many
+  revokeAuthSessions(userId: string, exceptId?: number): Promise<number>;
+  // Deletes expired and revoked sessions
+  purgeExpiredAuthSessions(): Promise<number>;
+
+  // API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  // Returns expired and revoked tokens too; callers check they are still active
+  getApiTokenByTokenHash(tokenHash: string): Promise<ApiToken | undefined>;
+  // Active tokens only, newest first
+  getApiTokens(userId: string): Promise<ApiToken[]>;
+  touchApiToken(id: number): Promise<void>;
+  revokeApiToken(id: number, userId: string): Promise<boolean>;
+  // Deletes expired and revoked tokens
+  purgeExpiredApiTokens(): Promise<number>;
+
+  // Share links
+  createShareLink(link: InsertShareLink): Promise<ShareLink>;
+  // Returns expired, used up and revoked links too
+  getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined>;
+  // Active links only, newest first
+  getShareLinks(userId: string): Promise<ShareLink[]>;
+  // Counts a view if the link is still active and returns it counted; undefined
+  // when it is not, so a link with one view left opens once however many ask
+  recordShareLinkView(id: number): Promise<ShareLink | undefined>;
+  revokeShareLink(id: number, userId: string): Promise<boolean>;
+  // Deletes expired, used up and revoked links
+  purgeExpiredShareLinks(): Promise<number>;
+  
+  // Search
+  search(userId: string, query: string, options?: SearchOptions): Promise<SearchResult[]>;
 }
 
 // File-based storage for persistence across restarts
@@ -60,9 +500,23 @@ export class FileStorage implements IStorage {
   private clipboardFile: string;
   private settingsFile: string;
   private foldersFile: string;
+  private revisionsFile: string;
+  private accountsFile: string;
+  private sessionsFile: string;
+  private apiTokensFile: string;
+  private shareLinksFile: string;
   private currentSnippetId: number;
   private currentClipboardId: number;
   private currentFolderId: number;
+  private currentSettingsId: number;
+  private currentRevisionId: number;
+  private currentAccountId: number;
+  private currentSessionId: number;
+  private currentApiTokenId: number;
+  private currentShareLinkId: number;
+  // Per-user search indexes, dropped whenever the underlying file is rewritten
+  private snippetIndexes = new Map<string, SearchIndex<Snippet>>();
+  private clipboardIndexes = new Map<string, SearchIndex<ClipboardItem>>();
 
   constructor() {
     this.dataDir = path.resolve(process.cwd(), "data");
@@ -70,9 +524,20 @@ export class FileStorage implements IStorage {
     this.clipboardFile = path.join(this.dataDir, "clipboard.json");
     this.settingsFile = path.join(this.dataDir, "settings.json");
     this.foldersFile = path.join(this.dataDir, "folders.json");
+    this.revisionsFile = path.join(this.dataDir, "revisions.json");
+    this.accountsFile = path.join(this.dataDir, "accounts.json");
+    this.sessionsFile = path.join(this.dataDir, "sessions.json");
+    this.apiTokensFile = path.join(this.dataDir, "api-tokens.json");
+    this.shareLinksFile = path.join(this.dataDir, "share-links.json");
     this.currentSnippetId = 1;
     this.currentClipboardId = 1;
     this.currentFolderId = 1;
+    this.currentSettingsId = 1;
+    this.currentRevisionId = 1;
+    this.currentAccountId = 1;
+    this.currentSessionId = 1;
+    this.currentApiTokenId = 1;
+    this.currentShareLinkId = 1;
     
     // Ensure data directory exists
     if (!fs.existsSync(this.dataDir)) {
@@ -99,33 +564,79 @@ export class FileStorage implements IStorage {
       fs.writeFileSync(this.foldersFile, JSON.stringify([], null, 2));
     }
 
-    // Initialize settings file
+    // Initialize settings file (one entry per user, created on first read)
     if (!fs.existsSync(this.settingsFile)) {
-      const defaultSettings = {
-        id: 1,
-        snippetShortcut: "ctrl+;",
-        clipboardShortcut: "ctrl+shift+v",
-        clipboardEnabled: 1,
-        historyLimit: 100,
-        launchOnStartup: 0,
-        theme: "light"
-      };
-      fs.writeFileSync(this.settingsFile, JSON.stringify(defaultSettings, null, 2));
+      fs.writeFileSync(this.settingsFile, JSON.stringify([], null, 2));
+    }
+
+    // Initialize snippet revisions file
+    if (!fs.existsSync(this.revisionsFile)) {
+      fs.writeFileSync(this.revisionsFile, JSON.stringify([], null, 2));
+    }
+
+    // Initialize accounts, login sessions, API tokens and share links files
+    if (!fs.existsSync(this.accountsFile)) {
+      fs.writeFileSync(this.accountsFile, JSON.stringify([], null, 2));
+    }
+    if (!fs.existsSync(this.sessionsFile)) {
+      fs.writeFileSync(this.sessionsFile, JSON.stringify([], null, 2));
+    }
+    if (!fs.existsSync(this.apiTokensFile)) {
+      fs.writeFileSync(this.apiTokensFile, JSON.stringify([], null, 2));
+    }
+    if (!fs.existsSync(this.shareLinksFile)) {
+      fs.writeFileSync(this.shareLinksFile, JSON.stringify([], null, 2));
     }
 
+    this.migrateLegacyTriggers();
+    this.migrateShareLinkTokens();
+
     // Calculate next IDs
     this.calculateNextIds();
   }
 
+  // Snippets saved before the hotkey and abbreviation fields existed keep both in their trigger
+  private migrateLegacyTriggers() {
+    const snippets = this.readSnippets();
+    if (snippets.every(snippet => snippet.hotkey !== undefined)) return;
+    const migrated = snippets.map(snippet =>
+      snippet.hotkey !== undefined ? snippet : { ...snippet, ...splitLegacyTrigger(snippet.trigger) }
+    );
+    // Hotkeys are unique now; the most recently edited snippet keeps a shared one
+    const duplicates = new Set(findDuplicateHotkeys(migrated));
+    this.writeSnippets(migrated.map(snippet => duplicates.has(snippet.id) ? { ...snippet, hotkey: null } : snippet));
+  }
+
+  // Share links first kept their token as is; only its SHA-256 is kept now
+  private migrateShareLinkTokens() {
+    const links = this.readShareLinks() as Array<ShareLink & { token?: string }>;
+    if (links.every(link => link.token === undefined)) return;
+    this.writeShareLinks(links.map(({ token, ...link }) =>
+      token === undefined ? link : { ...link, tokenHash: crypto.createHash("sha256").update(token).digest("hex") }
+    ));
+  }
+
   private calculateNextIds() {
     try {
       const snippets = this.readSnippets();
       const clipboardItems = this.readClipboardItems();
       const folders = this.readFolders();
+      const settings = this.readSettings();
+      const revisions = this.readRevisions();
+      const accounts = this.readAccounts();
+      const sessions = this.readAuthSessions();
+      const apiTokens = this.readApiTokens();
+      const shareLinks = this.readShareLinks();
       
       this.currentSnippetId = snippets.length > 0 ? Math.max(...snippets.map(s => s.id)) + 1 : 1;
       this.currentClipboardId = clipboardItems.length > 0 ? Math.max(...clipboardItems.map(c => c.id)) + 1 : 1;
       this.currentFolderId = folders.length > 0 ? Math.max(...folders.map(f => f.id)) + 1 : 1;
+      this.currentSettingsId = settings.length > 0 ? Math.max(...settings.map(s => s.id)) + 1 : 1;
+      this.currentRevisionId = revisions.length > 0 ? Math.max(...revisions.map(r => r.id)) + 1 : 1;
+      this.currentAccountId = accounts.length > 0 ? Math.max(...accounts.map(a => a.id)) + 1 : 1;
+      this.currentSessionId = sessions.length > 0 ? Math.max(...sessions.map(s => s.id)) + 1 : 1;
+      this.currentApiTokenId = apiTokens.length > 0 ? Math.max(...apiTokens.map(t => t.id)) + 1 : 1;
+      this.currentShareLinkId = shareLinks.length > 0 ? Math.max(...shareLinks.map(l => l.id)) + 1 : 1;
     } catch (error) {
       console.log("Error calculating next IDs, using defaults");
     }
@@ -142,6 +653,7 @@ export class FileStorage implements IStorage {
 
   private writeSnippets(snippets: Snippet[]) {
     fs.writeFileSync(this.snippetsFile, JSON.stringify(snippets, null, 2));
+    this.snippetIndexes.clear();
   }
 
   private readClipboardItems(): ClipboardItem[] {
@@ -155,26 +667,24 @@ export class FileStorage implements IStorage {
 
   private writeClipboardItems(items: ClipboardItem[]) {
     fs.writeFileSync(this.clipboardFile, JSON.stringify(items, null, 2));
+    this.clipboardIndexes.clear();
   }
 
-  private readSettings(): Settings {
+  private readSettings(): Settings[] {
     try {
-      const data = fs.readFileSync(this.settingsFile, 'utf8');
-      return JSON.parse(data);
+      const data = JSON.parse(fs.readFileSync(this.settingsFile, 'utf8'));
+      // Older data directories hold a single global settings object;
+      // treat it like the database migration does and assign it to default_user
+      if (!Array.isArray(data)) {
+        return [{ ...DEFAULT_SETTINGS, ...data, id: 1, userId: "default_user" }];
+      }
+      return data;
     } catch (error) {
-      return {
-        id: 1,
-        snippetShortcut: "ctrl+;",
-        clipboardShortcut: "ctrl+shift+v",
-        clipboardEnabled: 1,
-        historyLimit: 100,
-        launchOnStartup: 0,
-        theme: "light"
-      };
+      return [];
     }
   }
 
-  private writeSettings(settings: Settings) {
+  private writeSettings(settings: Settings[]) {
     fs.writeFileSync(this.settingsFile, JSON.stringify(settings, null, 2));
   }
 
@@ -191,22 +701,104 @@ export class FileStorage implements IStorage {
     fs.writeFileSync(this.foldersFile, JSON.stringify(folders, null, 2));
   }
 
+  private readRevisions(): SnippetRevision[] {
+    try {
+      const data = fs.readFileSync(this.revisionsFile, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeRevisions(revisions: SnippetRevision[]) {
+    fs.writeFileSync(this.revisionsFile, JSON.stringify(revisions, null, 2));
+  }
+
+  private readAccounts(): Account[] {
+    try {
+      const data = fs.readFileSync(this.accountsFile, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeAccounts(accounts: Account[]) {
+    fs.writeFileSync(this.accountsFile, JSON.stringify(accounts, null, 2));
+  }
+
+  private readAuthSessions(): AuthSession[] {
+    try {
+      const data = fs.readFileSync(this.sessionsFile, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeAuthSessions(sessions: AuthSession[]) {
+    fs.writeFileSync(this.sessionsFile, JSON.stringify(sessions, null, 2));
+  }
+
+  private readApiTokens(): ApiToken[] {
+    try {
+      const data = fs.readFileSync(this.apiTokensFile, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeApiTokens(tokens: ApiToken[]) {
+    fs.writeFileSync(this.apiTokensFile, JSON.stringify(tokens, null, 2));
+  }
+
+  private readShareLinks(): ShareLink[] {
+    try {
+      const data = fs.readFileSync(this.shareLinksFile, 'utf8');
+      return JSON.parse(data);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private writeShareLinks(links: ShareLink[]) {
+    fs.writeFileSync(this.shareLinksFile, JSON.stringify(links, null, 2));
+  }
+
   // Snippets
-  async getSnippets(userId: string, folderId?: number): Promise<Snippet[]> {
+  async getSnippets(userId: string): Promise<Snippet[]> {
     const snippets = this.readSnippets();
     return snippets
-      .filter(snippet => snippet.userId === userId && (folderId ? snippet.folderId === folderId : true))
+      .filter(snippet => snippet.userId === userId && !snippet.deletedAt)
       .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
   }
 
+  async getSnippetPage(query: SnippetListQuery, userId: string): Promise<ListPage<Snippet>> {
+    return listSnippets(this.readSnippets().filter(snippet => snippet.userId === userId && !snippet.deletedAt), query);
+  }
+
+  async getSnippetCounts(userId: string): Promise<SnippetCounts> {
+    return countSnippets(this.readSnippets().filter(snippet => snippet.userId === userId && !snippet.deletedAt));
+  }
+
   async getSnippet(id: number, userId: string): Promise<Snippet | undefined> {
     const snippets = this.readSnippets();
-    return snippets.find(snippet => snippet.id === id && snippet.userId === userId);
+    return snippets.find(snippet => snippet.id === id && snippet.userId === userId && !snippet.deletedAt);
   }
 
   async getSnippetByTrigger(trigger: string, userId: string): Promise<Snippet | undefined> {
     const snippets = this.readSnippets();
-    return snippets.find(snippet => snippet.trigger === trigger && snippet.userId === userId);
+    return snippets.find(snippet => snippet.trigger === trigger && snippet.userId === userId && !snippet.deletedAt);
+  }
+
+  async getSnippetByHotkey(hotkey: string, userId: string): Promise<Snippet | undefined> {
+    const snippets = this.readSnippets();
+    return snippets.find(snippet => snippet.hotkey === hotkey && snippet.userId === userId && !snippet.deletedAt);
+  }
+
+  async getSnippetTriggers(userId: string): Promise<string[]> {
+    return this.readSnippets().filter(snippet => snippet.userId === userId).map(snippet => snippet.trigger);
   }
 
   async createSnippet(insertSnippet: InsertSnippet, userId: string): Promise<Snippet> {
@@ -218,16 +810,30 @@ export class FileStorage implements IStorage {
       }
     }
     
+    // A trashed snippet with the same trigger is replaced by the new one
+    const trashed = this.readSnippets().find(s => s.trigger === insertSnippet.trigger && s.userId === userId && s.deletedAt);
+    if (trashed) {
+      await this.purgeFromTrash("snippet", trashed.id, userId);
+    }
+    
     const snippets = this.readSnippets();
     const now = new Date();
+    const folderId = typeof insertSnippet.folderId !== 'undefined' ? insertSnippet.folderId : null;
+    const siblings = snippets.filter(s => s.userId === userId && !s.deletedAt && s.folderId === folderId);
     const snippet: Snippet = {
       ...insertSnippet,
       id: this.currentSnippetId++,
       userId,
+      hotkey: insertSnippet.hotkey ?? null,
+      abbreviation: insertSnippet.abbreviation ?? null,
       description: insertSnippet.description || null,
-      folderId: typeof insertSnippet.folderId !== 'undefined' ? insertSnippet.folderId : null,
+      folderId,
+      tags: storedTags(insertSnippet.tags ?? []),
+      sortOrder: nextSortOrder(siblings),
+      usageCount: 0,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     
     snippets.push(snippet);
@@ -244,14 +850,39 @@ export class FileStorage implements IStorage {
       }
     }
     
+    // A trashed snippet with the new trigger is replaced by this one, as when creating a snippet
+    if (updateData.trigger && await this.getSnippet(id, userId)) {
+      const trashed = this.readSnippets().find(s => s.trigger === updateData.trigger && s.userId === userId && s.deletedAt);
+      if (trashed) {
+        await this.purgeFromTrash("snippet", trashed.id, userId);
+      }
+    }
+    
     const snippets = this.readSnippets();
-    const index = snippets.findIndex(s => s.id === id && s.userId === userId);
+    const index = snippets.findIndex(s => s.id === id && s.userId === userId && !s.deletedAt);
     if (index === -1) return undefined;
     const now = new Date();
+    
+    // Keep the text being replaced as a revision
+    if (changesSnippetText(snippets[index], updateData)) {
+      const revisions = this.readRevisions();
+      revisions.push({
+        id: this.currentRevisionId++,
+        snippetId: id,
+        userId,
+        title: snippets[index].title,
+        content: snippets[index].content,
+        description: snippets[index].description,
+        createdAt: now,
+      });
+      this.writeRevisions(revisions);
+    }
+    
     const updated: Snippet = {
       ...snippets[index],
       ...updateData,
       folderId: typeof updateData.folderId !== 'undefined' ? updateData.folderId : snippets[index].folderId ?? null,
+      tags: updateData.tags ? storedTags(updateData.tags) : snippets[index].tags ?? [],
       updatedAt: now,
     };
     snippets[index] = updated;
@@ -259,48 +890,166 @@ export class FileStorage implements IStorage {
     return updated;
   }
 
+  // Moves the snippet to the trash; purgeFromTrash removes it for good
   async deleteSnippet(id: number, userId: string): Promise<boolean> {
     const snippets = this.readSnippets();
-    const filteredSnippets = snippets.filter(s => !(s.id === id && s.userId === userId));
+    const index = snippets.findIndex(s => s.id === id && s.userId === userId && !s.deletedAt);
     
-    if (filteredSnippets.length === snippets.length) {
+    if (index === -1) {
       return false; // No snippet was deleted
     }
     
-    this.writeSnippets(filteredSnippets);
+    snippets[index] = { ...snippets[index], deletedAt: new Date() };
+    this.writeSnippets(snippets);
     return true;
   }
 
+  // Reordering is not an edit, so updatedAt is left alone
+  async reorderSnippets(ids: number[], userId: string): Promise<boolean> {
+    const snippets = this.readSnippets();
+    const positions = new Map(ids.map((id, index) => [id, index] as const));
+    const found = snippets.filter(s => positions.has(s.id) && s.userId === userId && !s.deletedAt);
+    if (found.length !== positions.size) {
+      return false;
+    }
+    this.writeSnippets(snippets.map(s => found.includes(s) ? { ...s, sortOrder: positions.get(s.id)! } : s));
+    return true;
+  }
+
+  async recordSnippetUse(id: number, userId: string): Promise<Snippet | undefined> {
+    const snippets = this.readSnippets();
+    const index = snippets.findIndex(s => s.id === id && s.userId === userId && !s.deletedAt);
+    if (index === -1) return undefined;
+    // Snippets saved before usage was counted have no usageCount
+    snippets[index] = { ...snippets[index], usageCount: (snippets[index].usageCount ?? 0) + 1 };
+    this.writeSnippets(snippets);
+    return snippets[index];
+  }
+
+  // Moving is an edit, as it is through updateSnippet
+  async moveSnippets(ids: number[], folderId: number | null, userId: string): Promise<Snippet[] | undefined> {
+    if (folderId !== null && !(await this.getFolder(folderId, userId))) {
+      throw new Error(`Cannot move snippets: Folder with ID ${folderId} does not exist. Please select a valid folder or create the folder first.`);
+    }
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({ ...snippet, folderId, updatedAt: now }));
+  }
+
+  async deleteSnippets(ids: number[], userId: string): Promise<boolean> {
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({ ...snippet, deletedAt: now })) !== undefined;
+  }
+
+  async duplicateSnippets(ids: number[], userId: string): Promise<Snippet[] | undefined> {
+    const snippets = this.readSnippets();
+    const originals = ids.map(id => snippets.find(s => s.id === id && s.userId === userId && !s.deletedAt));
+    if (originals.includes(undefined)) return undefined;
+    // Trashed snippets keep their triggers until they are purged
+    const taken = new Set(snippets.filter(s => s.userId === userId).map(s => s.trigger));
+    const now = new Date();
+    const copies = (originals as Snippet[]).map(original => {
+      const trigger = copyTrigger(original.trigger, taken);
+      taken.add(trigger);
+      return {
+        ...original,
+        id: this.currentSnippetId++,
+        title: copyTitle(original.title),
+        trigger,
+        abbreviation: null,
+        hotkey: null,
+        usageCount: 0,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      };
+    });
+    this.writeSnippets([...snippets, ...copies]);
+    return copies;
+  }
+
+  async tagSnippets(ids: number[], changes: TagChanges, userId: string): Promise<Snippet[] | undefined> {
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({
+      ...snippet,
+      tags: storedTags(applyTagChanges(snippet.tags ?? [], changes)),
+      updatedAt: now,
+    }));
+  }
+
+  // Apply update to each of the snippets, or to none if any is missing
+  private updateSnippets(ids: number[], userId: string, update: (snippet: Snippet) => Snippet): Snippet[] | undefined {
+    const snippets = this.readSnippets();
+    const indexes = ids.map(id => snippets.findIndex(s => s.id === id && s.userId === userId && !s.deletedAt));
+    if (indexes.includes(-1)) return undefined;
+    const updated = indexes.map(index => snippets[index] = update(snippets[index]));
+    this.writeSnippets(snippets);
+    return updated;
+  }
+
+  // Tags live on the snippets themselves in the data files
+  async getTags(userId: string): Promise<TagSummary[]> {
+    return summarizeTags(this.readSnippets()
+      .filter(snippet => snippet.userId === userId && !snippet.deletedAt)
+      .map(snippet => snippet.tags ?? []));
+  }
+
+  // Snippet revisions
+  async getSnippetRevisions(snippetId: number, userId: string): Promise<SnippetRevision[]> {
+    return this.readRevisions()
+      .filter(revision => revision.snippetId === snippetId && revision.userId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id - a.id);
+  }
+
+  async restoreSnippetRevision(snippetId: number, revisionId: number, userId: string): Promise<Snippet | undefined> {
+    const revision = (await this.getSnippetRevisions(snippetId, userId)).find(r => r.id === revisionId);
+    if (!revision) return undefined;
+    // Restoring is itself an update, so the text it replaces becomes a revision too
+    return this.updateSnippet(snippetId, {
+      title: revision.title,
+      content: revision.content,
+      description: revision.description,
+    }, userId);
+  }
+
   // Folders
   async getFolders(userId: string): Promise<any[]> {
     const folders = this.readFolders();
     return folders
-      .filter(folder => folder.userId === userId)
-      .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      .filter(folder => folder.userId === userId && !folder.deletedAt)
+      .sort(bySortOrder);
   }
 
   async getFolder(id: number, userId: string): Promise<any | undefined> {
     const folders = this.readFolders();
-    return folders.find(folder => folder.id === id && folder.userId === userId);
+    return folders.find(folder => folder.id === id && folder.userId === userId && !folder.deletedAt);
   }
 
-  async createFolder(name: string, userId: string): Promise<any> {
-    const folders = this.readFolders();
-    
-    // Check if folder name already exists for this user
-    const existingFolder = folders.find(folder => folder.name === name && folder.userId === userId);
+  async createFolder(name: string, userId: string, parentId: number | null = null): Promise<any> {
+    if (parentId !== null && !(await this.getFolder(parentId, userId))) {
+      throw new Error("Parent folder not found");
+    }
+    // Check if the name is already taken among the folder's siblings
+    const existingFolder = this.readFolders().find(folder => folder.name === name && folder.userId === userId && parentOf(folder) === parentId);
+    if (existingFolder && !existingFolder.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    // A trashed folder with the same name is replaced by the new one
     if (existingFolder) {
-      throw new Error("Folder name already exists for this user");
+      await this.purgeFromTrash("folder", existingFolder.id, userId);
     }
     
+    const folders = this.readFolders();
+    
     const now = new Date();
     const folder = {
       id: this.currentFolderId++,
       name,
       userId,
-      sortOrder: 0,
+      parentId,
+      sortOrder: nextSortOrder(folders.filter(f => f.userId === userId && !f.deletedAt && parentOf(f) === parentId)),
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     
     folders.push(folder);
@@ -308,24 +1057,29 @@ export class FileStorage implements IStorage {
     return folder;
   }
 
-  async updateFolder(id: number, name: string, userId: string): Promise<any | undefined> {
-    const folders = this.readFolders();
-    const folderIndex = folders.findIndex(folder => folder.id === id && folder.userId === userId);
-    
-    if (folderIndex === -1) {
+  async updateFolder(id: number, name: string, userId: string, sortOrder?: number): Promise<any | undefined> {
+    const current = await this.getFolder(id, userId);
+    if (!current) {
       return undefined;
     }
     
-    // Check if new name already exists for this user (excluding current folder)
-    const existingFolder = folders.find(folder => folder.name === name && folder.userId === userId && folder.id !== id);
+    // Check if new name already exists among the folder's siblings (excluding current folder)
+    const existingFolder = this.readFolders().find(folder => folder.name === name && folder.userId === userId && folder.id !== id && parentOf(folder) === parentOf(current));
+    if (existingFolder && !existingFolder.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    // A trashed folder with the new name is replaced by this one, as when creating a folder
     if (existingFolder) {
-      throw new Error("Folder name already exists for this user");
+      await this.purgeFromTrash("folder", existingFolder.id, userId);
     }
     
+    const folders = this.readFolders();
+    const folderIndex = folders.findIndex(folder => folder.id === id);
     const now = new Date();
     folders[folderIndex] = {
       ...folders[folderIndex],
       name,
+      ...(typeof sortOrder !== 'undefined' ? { sortOrder } : {}),
       updatedAt: now,
     };
     
@@ -333,26 +1087,59 @@ export class FileStorage implements IStorage {
     return folders[folderIndex];
   }
 
+  async moveFolder(id: number, parentId: number | null, userId: string): Promise<any | undefined> {
+    const folder = await this.getFolder(id, userId);
+    if (!folder) {
+      return undefined;
+    }
+    
+    const replaced = checkFolderMove(this.readFolders().filter(f => f.userId === userId), folder, parentId);
+    // A trashed folder with the same name in the destination is replaced, as when creating one
+    if (replaced) {
+      await this.purgeFromTrash("folder", replaced.id, userId);
+    }
+    
+    const folders = this.readFolders();
+    const folderIndex = folders.findIndex(f => f.id === id);
+    // It goes after the folders already there
+    const sortOrder = nextSortOrder(folders.filter(f => f.userId === userId && f.id !== id && !f.deletedAt && parentOf(f) === parentId));
+    folders[folderIndex] = { ...folders[folderIndex], parentId, sortOrder, updatedAt: new Date() };
+    this.writeFolders(folders);
+    return folders[folderIndex];
+  }
+
+  async reorderFolders(ids: number[], userId: string): Promise<boolean> {
+    const folders = this.readFolders();
+    const positions = new Map(ids.map((id, index) => [id, index] as const));
+    const found = folders.filter(f => positions.has(f.id) && f.userId === userId && !f.deletedAt);
+    if (found.length !== positions.size) {
+      return false;
+    }
+    this.writeFolders(folders.map(f => found.includes(f) ? { ...f, sortOrder: positions.get(f.id)! } : f));
+    return true;
+  }
+
   async deleteFolder(id: number, userId: string): Promise<boolean> {
     const folders = this.readFolders();
-    const folderIndex = folders.findIndex(folder => folder.id === id && folder.userId === userId);
+    const liveFolders = folders.filter(folder => folder.userId === userId && !folder.deletedAt);
     
-    if (folderIndex === -1) {
+    if (!liveFolders.some(folder => folder.id === id)) {
       return false;
     }
     
-    // Move all snippets from this folder to no folder (set folderId to null)
-    const snippets = this.readSnippets();
-    const updatedSnippets = snippets.map(snippet => 
-      snippet.folderId === id && snippet.userId === userId 
-        ? { ...snippet, folderId: null }
-        : snippet
-    );
-    this.writeSnippets(updatedSnippets);
+    // The subfolders go along with the folder
+    const ids = new Set([id, ...descendantFolderIds(liveFolders, id)]);
     
-    // Remove the folder
-    folders.splice(folderIndex, 1);
-    this.writeFolders(folders);
+    // Move the folders and their snippets to the trash, all at the same moment so they come back together
+    const deletedAt = new Date();
+    this.writeSnippets(this.readSnippets().map(snippet =>
+      snippet.folderId != null && ids.has(snippet.folderId) && snippet.userId === userId && !snippet.deletedAt
+        ? { ...snippet, deletedAt }
+        : snippet
+    ));
+    this.writeFolders(folders.map(folder =>
+      ids.has(folder.id) && folder.userId === userId && !folder.deletedAt ? { ...folder, deletedAt } : folder
+    ));
     
     return true;
   }
@@ -361,7 +1148,7 @@ export class FileStorage implements IStorage {
     const folders = this.readFolders();
     
     // Check if General folder already exists for this user
-    const existingFolder = folders.find(folder => folder.name === "General" && folder.userId === userId);
+    const existingFolder = folders.find(folder => folder.name === "General" && folder.userId === userId && parentOf(folder) === null && !folder.deletedAt);
     if (existingFolder) {
       return existingFolder;
     }
@@ -372,9 +1159,11 @@ export class FileStorage implements IStorage {
       id: this.currentFolderId++,
       name: "General",
       userId,
-      sortOrder: 0,
+      parentId: null,
+      sortOrder: nextSortOrder(folders.filter(folder => folder.userId === userId && parentOf(folder) === null && !folder.deletedAt)),
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     
     folders.push(generalFolder);
@@ -386,8 +1175,19 @@ export class FileStorage implements IStorage {
   async getClipboardItems(userId: string): Promise<ClipboardItem[]> {
     const items = this.readClipboardItems();
     return items
-      .filter(item => item.userId === userId)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+      .filter(item => item.userId === userId && !item.deletedAt)
+      // Items saved before pinning existed have no pinned field
+      .sort((a, b) => (b.pinned || 0) - (a.pinned || 0) || new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async getClipboardPage(query: ClipboardListQuery, userId: string): Promise<ListPage<ClipboardItem>> {
+    return listClipboardItems(this.readClipboardItems().filter(item => item.userId === userId && !item.deletedAt), query);
+  }
+
+  async getClipboardTypeCounts(userId: string): Promise<ClipboardTypeCount[]> {
+    return clipboardTypeCounts(this.readClipboardItems()
+      .filter(item => item.userId === userId && !item.deletedAt)
+      .map(item => ({ type: item.type, count: 1 })));
   }
 
   async createClipboardItem(insertItem: InsertClipboardItem, userId: string): Promise<ClipboardItem> {
@@ -397,6 +1197,7 @@ export class FileStorage implements IStorage {
     const fiveSecondsAgo = new Date(Date.now() - 5000);
     const recentItems = items.filter(item => 
       item.userId === userId &&
+      !item.deletedAt &&
       item.content === insertItem.content &&
       item.type === (insertItem.type || "text") &&
       new Date(item.createdAt).getTime() > fiveSecondsAgo.getTime()
@@ -411,100 +1212,580 @@ export class FileStorage implements IStorage {
       id: this.currentClipboardId++,
       userId,
       type: insertItem.type || "text",
+      metadata: insertItem.metadata ?? null,
+      pinned: 0,
       createdAt: new Date(),
+      deletedAt: null,
     };
     
     items.push(item);
-    
-    // Maintain history limit
-    const userItems = items.filter(i => i.userId === userId);
-    if (userItems.length > 100) {
-      const toDelete = userItems.slice(100);
-      const filteredItems = items.filter(i => !toDelete.some(d => d.id === i.id));
-      this.writeClipboardItems(filteredItems);
-    } else {
-      this.writeClipboardItems(items);
-    }
+    this.writeClipboardItems(items);
+    await this.pruneClipboardHistory(userId);
     
     return item;
   }
 
   async deleteClipboardItem(id: number, userId: string): Promise<boolean> {
     const items = this.readClipboardItems();
-    const filteredItems = items.filter(item => !(item.id === id && item.userId === userId));
+    const index = items.findIndex(item => item.id === id && item.userId === userId && !item.deletedAt);
     
-    if (filteredItems.length === items.length) {
+    if (index === -1) {
       return false; // No item was deleted
     }
     
-    this.writeClipboardItems(filteredItems);
+    items[index] = { ...items[index], deletedAt: new Date() };
+    this.writeClipboardItems(items);
     return true;
   }
 
-  async clearClipboardHistory(userId: string): Promise<void> {
+  async clearClipboardHistory(userId: string): Promise<number[]> {
     const items = this.readClipboardItems();
-    const filteredItems = items.filter(item => item.userId !== userId);
-    this.writeClipboardItems(filteredItems);
+    const now = new Date();
+    const cleared: number[] = [];
+    const updatedItems = items.map(item => {
+      if (item.userId !== userId || item.deletedAt || item.pinned) return item;
+      cleared.push(item.id);
+      return { ...item, deletedAt: now };
+    });
+    this.writeClipboardItems(updatedItems);
+    return cleared;
   }
 
-  // Settings
-  async getSettings(): Promise<Settings> {
-    return this.readSettings();
+  async deleteClipboardItems(ids: number[], userId: string): Promise<boolean> {
+    const now = new Date();
+    return this.updateClipboardItems(ids, userId, item => ({ ...item, deletedAt: now })) !== undefined;
   }
 
-  async updateSettings(settings: Partial<InsertSettings>): Promise<Settings> {
-    const currentSettings = this.readSettings();
-    const updatedSettings = { ...currentSettings, ...settings };
-    this.writeSettings(updatedSettings);
-    return updatedSettings;
+  async setClipboardItemsPinned(ids: number[], pinned: boolean, userId: string): Promise<ClipboardItem[] | undefined> {
+    const updated = this.updateClipboardItems(ids, userId, item => ({ ...item, pinned: pinned ? 1 : 0 }));
+    // Unpinning can leave the history over its limit
+    if (updated && !pinned) await this.pruneClipboardHistory(userId);
+    return updated;
   }
-}
 
-export class MemStorage implements IStorage {
-  private snippets: Map<number, Snippet>;
-  private clipboardItems: Map<number, ClipboardItem>;
-  private folders: Map<number, any>;
-  private settings: Settings;
-  private currentSnippetId: number;
-  private currentClipboardId: number;
-  private currentFolderId: number;
+  // Apply update to each of the items, or to none if any is missing
+  private updateClipboardItems(ids: number[], userId: string, update: (item: ClipboardItem) => ClipboardItem): ClipboardItem[] | undefined {
+    const items = this.readClipboardItems();
+    const indexes = ids.map(id => items.findIndex(item => item.id === id && item.userId === userId && !item.deletedAt));
+    if (indexes.includes(-1)) return undefined;
+    const updated = indexes.map(index => items[index] = update(items[index]));
+    this.writeClipboardItems(items);
+    return updated;
+  }
+
+  async setClipboardItemPinned(id: number, pinned: boolean, userId: string): Promise<ClipboardItem | undefined> {
+    const items = this.readClipboardItems();
+    const index = items.findIndex(item => item.id === id && item.userId === userId && !item.deletedAt);
+    if (index === -1) return undefined;
+    items[index] = { ...items[index], pinned: pinned ? 1 : 0 };
+    this.writeClipboardItems(items);
+    // Unpinning can leave the history over its limit
+    if (!pinned) await this.pruneClipboardHistory(userId);
+    return items[index];
+  }
+
+  async pruneClipboardHistory(userId?: string): Promise<number> {
+    const items = this.readClipboardItems();
+    const live = items.filter(item => !item.deletedAt && (!userId || item.userId === userId));
+    const toDelete = new Set<number>();
+    for (const owner of Array.from(new Set(live.map(item => item.userId)))) {
+      const settings = await this.getSettings(owner);
+      clipboardItemsToPrune(live.filter(item => item.userId === owner), settings).forEach(id => toDelete.add(id));
+    }
+    if (toDelete.size > 0) {
+      this.writeClipboardItems(items.filter(item => !toDelete.has(item.id)));
+    }
+    return toDelete.size;
+  }
+
+  // Settings
+  async getSettings(userId: string): Promise<Settings> {
+    const allSettings = this.readSettings();
+    const existing = allSettings.find(s => s.userId === userId);
+    if (existing) {
+      // Settings saved before a setting was added lack it
+      return { ...DEFAULT_SETTINGS, ...existing } as Settings;
+    }
+    
+    // Create default settings for this user
+    const userSettings: Settings = {
+      ...DEFAULT_SETTINGS,
+      id: this.currentSettingsId++,
+      userId,
+    } as Settings;
+    allSettings.push(userSettings);
+    this.writeSettings(allSettings);
+    return userSettings;
+  }
+
+  async updateSettings(settings: Partial<InsertSettings>, userId: string): Promise<Settings> {
+    const currentSettings = await this.getSettings(userId);
+    const updatedSettings = { ...currentSettings, ...settings };
+    const allSettings = this.readSettings().map(s => s.userId === userId ? updatedSettings : s);
+    this.writeSettings(allSettings);
+    return updatedSettings;
+  }
+
+  // Trash
+  async getTrash(userId: string): Promise<TrashEntry[]> {
+    await this.purgeExpiredTrash(userId);
+    const folders = this.readFolders();
+    const entries: TrashEntry[] = [
+      ...this.readSnippets()
+        .filter(s => s.userId === userId && s.deletedAt && !trashedWithFolder(folders, s))
+        .map(item => ({ type: "snippet" as const, item, deletedAt: item.deletedAt! })),
+      ...folders
+        .filter(f => f.userId === userId && f.deletedAt && !trashedWithParent(folders, f))
+        .map(item => ({ type: "folder" as const, item, deletedAt: item.deletedAt })),
+      ...this.readClipboardItems()
+        .filter(i => i.userId === userId && i.deletedAt)
+        .map(item => ({ type: "clipboard" as const, item, deletedAt: item.deletedAt! })),
+    ];
+    return entries.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  }
+
+  async restoreFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    if (type === "snippet") {
+      const snippets = this.readSnippets();
+      const index = snippets.findIndex(s => s.id === id && s.userId === userId && s.deletedAt);
+      if (index === -1) return false;
+      await checkSnippetRestorable(this, snippets[index], userId);
+      // Snippets whose folder is gone go back to General
+      let folderId = snippets[index].folderId;
+      if (folderId && !(await this.getFolder(folderId, userId))) {
+        folderId = (await this.ensureGeneralFolder(userId)).id;
+      }
+      const restored = this.readSnippets().map(s => s.id === id ? { ...s, folderId, deletedAt: null } : s);
+      this.writeSnippets(restored);
+      return true;
+    }
+
+    if (type === "folder") {
+      const folders = this.readFolders();
+      const userFolders = folders.filter(f => f.userId === userId);
+      const folder = userFolders.find(f => f.id === id && f.deletedAt);
+      if (!folder) return false;
+      const parentId = restoredParentId(userFolders, folder);
+      if (userFolders.some(f => f.name === folder.name && parentOf(f) === parentId && !f.deletedAt)) {
+        throw new Error("Folder name already exists in this location");
+      }
+      const ids = new Set(foldersTrashedWith(userFolders, id));
+      const isTrashedWith = (s: Snippet) => s.userId === userId && s.folderId != null && ids.has(s.folderId) && trashedWithFolder(userFolders, s);
+      const snippets = this.readSnippets();
+      for (const snippet of snippets.filter(isTrashedWith)) {
+        await checkSnippetRestorable(this, snippet, userId);
+      }
+      this.writeSnippets(snippets.map(s => isTrashedWith(s) ? { ...s, deletedAt: null } : s));
+      this.writeFolders(folders.map(f =>
+        f.id === id ? { ...f, parentId, deletedAt: null } : ids.has(f.id) ? { ...f, deletedAt: null } : f
+      ));
+      return true;
+    }
+
+    const items = this.readClipboardItems();
+    const index = items.findIndex(i => i.id === id && i.userId === userId && i.deletedAt);
+    if (index === -1) return false;
+    items[index] = { ...items[index], deletedAt: null };
+    this.writeClipboardItems(items);
+    return true;
+  }
+
+  async purgeFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    const isTarget = (row: { id: number; userId: string; deletedAt: Date | null }) =>
+      row.id === id && row.userId === userId && !!row.deletedAt;
+
+    if (type === "snippet") {
+      const snippets = this.readSnippets();
+      if (!snippets.some(isTarget)) return false;
+      this.writeSnippets(snippets.filter(s => !isTarget(s)));
+      this.writeRevisions(this.readRevisions().filter(r => r.snippetId !== id));
+      return true;
+    }
+
+    if (type === "folder") {
+      const folders = this.readFolders();
+      if (!folders.some(isTarget)) return false;
+      const userFolders = folders.filter(f => f.userId === userId);
+      const ids = new Set(foldersTrashedWith(userFolders, id));
+      // The snippets trashed with the folders go with them
+      const snippets = this.readSnippets();
+      const purgedIds = new Set(snippets
+        .filter(s => s.userId === userId && s.folderId != null && ids.has(s.folderId) && trashedWithFolder(userFolders, s))
+        .map(s => s.id));
+      this.writeRevisions(this.readRevisions().filter(r => !purgedIds.has(r.snippetId)));
+      // Subfolders trashed on their own earlier are restored to the top level from now on
+      this.writeFolders(folders
+        .filter(f => !(ids.has(f.id) && f.userId === userId))
+        .map(f => f.userId === userId && f.parentId != null && ids.has(f.parentId) ? { ...f, parentId: null } : f));
+      // Snippets trashed on their own may still point at the folders
+      this.writeSnippets(snippets
+        .filter(s => !purgedIds.has(s.id))
+        .map(s => s.folderId != null && ids.has(s.folderId) && s.userId === userId ? { ...s, folderId: null } : s));
+      return true;
+    }
+
+    const items = this.readClipboardItems();
+    if (!items.some(isTarget)) return false;
+    this.writeClipboardItems(items.filter(i => !isTarget(i)));
+    return true;
+  }
+
+  async emptyTrash(userId: string): Promise<void> {
+    for (const entry of await this.getTrash(userId)) {
+      await this.purgeFromTrash(entry.type, entry.item.id, userId);
+    }
+  }
+
+  async purgeExpiredTrash(userId?: string): Promise<number> {
+    const trashed = [
+      ...this.readSnippets().map(item => ({ type: "snippet" as const, item })),
+      ...this.readFolders().map(item => ({ type: "folder" as const, item })),
+      ...this.readClipboardItems().map(item => ({ type: "clipboard" as const, item })),
+    ].filter(({ item }) => item.deletedAt && (!userId || item.userId === userId));
+
+    let purged = 0;
+    const retentionCutoffs = new Map<string, number>();
+    for (const { type, item } of trashed) {
+      if (!retentionCutoffs.has(item.userId)) {
+        const { trashRetentionDays } = await this.getSettings(item.userId);
+        retentionCutoffs.set(item.userId, Date.now() - trashRetentionDays * DAY_MS);
+      }
+      if (new Date(item.deletedAt).getTime() < retentionCutoffs.get(item.userId)!) {
+        if (await this.purgeFromTrash(type, item.id, item.userId)) purged++;
+      }
+    }
+    return purged;
+  }
+
+  // Accounts
+  async getAccount(userId: string): Promise<Account | undefined> {
+    return this.readAccounts().find(account => account.userId === userId);
+  }
+
+  async getAccountByLoginKey(loginKey: string): Promise<Account | undefined> {
+    return this.readAccounts().find(account => account.loginKey === loginKey);
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const accounts = this.readAccounts();
+    if (accounts.some(account => account.userId === insertAccount.userId)) {
+      throw new Error("An account with this user id already exists");
+    }
+    const account: Account = {
+      ...insertAccount,
+      id: this.currentAccountId++,
+      createdAt: new Date(),
+      lastLoginAt: null,
+    };
+    accounts.push(account);
+    this.writeAccounts(accounts);
+    return account;
+  }
+
+  async recordLogin(userId: string): Promise<void> {
+    this.writeAccounts(this.readAccounts().map(account =>
+      account.userId === userId ? { ...account, lastLoginAt: new Date() } : account
+    ));
+  }
+
+  async updateAccountCredentials(userId: string, update: AccountCredentialsUpdate): Promise<Account> {
+    const accounts = this.readAccounts();
+    const index = accounts.findIndex(account => account.userId === userId);
+    if (index === -1) throw new Error("Account not found");
+    if (accounts.some(account => account.loginKey === update.loginKey && account.userId !== userId)) {
+      throw new Error("Those credentials are already in use");
+    }
+
+    // Read every file before writing any, so a bad file cannot leave the data half moved
+    const rekey = <T extends { userId: string }>(rows: T[]): T[] =>
+      rows.map(row => row.userId === userId ? { ...row, userId: update.userId } : row);
+    const snippets = rekey(this.readSnippets());
+    const revisions = rekey(this.readRevisions());
+    const folders = rekey(this.readFolders());
+    const clipboardItems = rekey(this.readClipboardItems());
+    const settings = rekey(this.readSettings());
+    const sessions = rekey(this.readAuthSessions());
+    const apiTokens = rekey(this.readApiTokens());
+    const shareLinks = rekey(this.readShareLinks());
+    accounts[index] = { ...accounts[index], ...update };
+
+    this.writeSnippets(snippets);
+    this.writeRevisions(revisions);
+    this.writeFolders(folders);
+    this.writeClipboardItems(clipboardItems);
+    this.writeSettings(settings);
+    this.writeAuthSessions(sessions);
+    this.writeApiTokens(apiTokens);
+    this.writeShareLinks(shareLinks);
+    this.writeAccounts(accounts);
+    return accounts[index];
+  }
+
+  // Auth sessions
+  async createAuthSession(insertSession: InsertAuthSession): Promise<AuthSession> {
+    const now = new Date();
+    const session: AuthSession = {
+      ...insertSession,
+      id: this.currentSessionId++,
+      createdAt: now,
+      lastSeenAt: now,
+      revokedAt: null,
+    };
+    const sessions = this.readAuthSessions();
+    sessions.push(session);
+    this.writeAuthSessions(sessions);
+    return session;
+  }
+
+  async getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    return this.readAuthSessions().find(session => session.tokenHash === tokenHash);
+  }
+
+  async getAuthSessions(userId: string): Promise<AuthSession[]> {
+    return this.readAuthSessions()
+      .filter(session => session.userId === userId && isActiveSession(session))
+      .sort((a, b) => new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime());
+  }
+
+  async touchAuthSession(id: number, expiresAt: Date): Promise<void> {
+    this.writeAuthSessions(this.readAuthSessions().map(session =>
+      session.id === id ? { ...session, lastSeenAt: new Date(), expiresAt } : session
+    ));
+  }
+
+  async revokeAuthSession(id: number, userId: string): Promise<boolean> {
+    const sessions = this.readAuthSessions();
+    const index = sessions.findIndex(s => s.id === id && s.userId === userId && isActiveSession(s));
+    if (index === -1) return false;
+    sessions[index] = { ...sessions[index], revokedAt: new Date() };
+    this.writeAuthSessions(sessions);
+    return true;
+  }
+
+  async revokeAuthSessions(userId: string, exceptId?: number): Promise<number> {
+    let revoked = 0;
+    const now = new Date();
+    this.writeAuthSessions(this.readAuthSessions().map(session => {
+      if (session.userId !== userId || session.id === exceptId || !isActiveSession(session)) return session;
+      revoked++;
+      return { ...session, revokedAt: now };
+    }));
+    return revoked;
+  }
+
+  async purgeExpiredAuthSessions(): Promise<number> {
+    const sessions = this.readAuthSessions();
+    const remaining = sessions.filter(session => isActiveSession(session));
+    if (remaining.length !== sessions.length) this.writeAuthSessions(remaining);
+    return sessions.length - remaining.length;
+  }
+
+  // API tokens
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = {
+      ...insertToken,
+      id: this.currentApiTokenId++,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    const tokens = this.readApiTokens();
+    tokens.push(token);
+    this.writeApiTokens(tokens);
+    return token;
+  }
+
+  async getApiTokenByTokenHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return this.readApiTokens().find(token => token.tokenHash === tokenHash);
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return this.readApiTokens()
+      .filter(token => token.userId === userId && isActiveApiToken(token))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    this.writeApiTokens(this.readApiTokens().map(token =>
+      token.id === id ? { ...token, lastUsedAt: new Date() } : token
+    ));
+  }
+
+  async revokeApiToken(id: number, userId: string): Promise<boolean> {
+    const tokens = this.readApiTokens();
+    const index = tokens.findIndex(t => t.id === id && t.userId === userId && isActiveApiToken(t));
+    if (index === -1) return false;
+    tokens[index] = { ...tokens[index], revokedAt: new Date() };
+    this.writeApiTokens(tokens);
+    return true;
+  }
+
+  async purgeExpiredApiTokens(): Promise<number> {
+    const tokens = this.readApiTokens();
+    const remaining = tokens.filter(token => isActiveApiToken(token));
+    if (remaining.length !== tokens.length) this.writeApiTokens(remaining);
+    return tokens.length - remaining.length;
+  }
+
+  // Share links
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const link: ShareLink = {
+      ...insertLink,
+      id: this.currentShareLinkId++,
+      createdAt: new Date(),
+      viewCount: 0,
+      lastViewedAt: null,
+      revokedAt: null,
+    };
+    const links = this.readShareLinks();
+    links.push(link);
+    this.writeShareLinks(links);
+    return link;
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    return this.readShareLinks().find(link => link.tokenHash === tokenHash);
+  }
+
+  async getShareLinks(userId: string): Promise<ShareLink[]> {
+    return this.readShareLinks()
+      .filter(link => link.userId === userId && isActiveShareLink(link))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    const links = this.readShareLinks();
+    const index = links.findIndex(link => link.id === id && isActiveShareLink(link));
+    if (index === -1) return undefined;
+    links[index] = { ...links[index], viewCount: links[index].viewCount + 1, lastViewedAt: new Date() };
+    this.writeShareLinks(links);
+    return links[index];
+  }
+
+  async revokeShareLink(id: number, userId: string): Promise<boolean> {
+    const links = this.readShareLinks();
+    const index = links.findIndex(l => l.id === id && l.userId === userId && isActiveShareLink(l));
+    if (index === -1) return false;
+    links[index] = { ...links[index], revokedAt: new Date() };
+    this.writeShareLinks(links);
+    return true;
+  }
+
+  async purgeExpiredShareLinks(): Promise<number> {
+    const links = this.readShareLinks();
+    const remaining = links.filter(link => isActiveShareLink(link));
+    if (remaining.length !== links.length) this.writeShareLinks(remaining);
+    return links.length - remaining.length;
+  }
+
+  // Search
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const kinds = options.kinds ?? ["snippet", "clipboard"];
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const results: SearchResult[] = [];
+
+    if (kinds.includes("snippet")) {
+      let index = this.snippetIndexes.get(userId);
+      if (!index) {
+        index = buildSnippetIndex(await this.getSnippets(userId));
+        this.snippetIndexes.set(userId, index);
+      }
+      results.push(...index.search(query, limit).map(r => toSnippetResult(r.item, r.score, query)));
+    }
+
+    if (kinds.includes("clipboard")) {
+      let index = this.clipboardIndexes.get(userId);
+      if (!index) {
+        index = buildClipboardIndex(await this.getClipboardItems(userId));
+        this.clipboardIndexes.set(userId, index);
+      }
+      results.push(...index.search(query, limit).map(r => toClipboardResult(r.item, r.score, query)));
+    }
+
+    return mergeSearchResults(results, limit);
+  }
+}
+
+export class MemStorage implements IStorage {
+  private snippets: Map<number, Snippet>;
+  private clipboardItems: Map<number, ClipboardItem>;
+  private folders: Map<number, any>;
+  private settings: Map<string, Settings>;
+  private snippetRevisions: Map<number, SnippetRevision>;
+  private accounts: Map<number, Account>;
+  private authSessions: Map<number, AuthSession>;
+  private apiTokens: Map<number, ApiToken>;
+  private shareLinks: Map<number, ShareLink>;
+  private currentSnippetId: number;
+  private currentClipboardId: number;
+  private currentFolderId: number;
+  private currentSettingsId: number;
+  private currentRevisionId: number;
+  private currentAccountId: number;
+  private currentSessionId: number;
+  private currentApiTokenId: number;
+  private currentShareLinkId: number;
+  // Per-user search indexes, dropped whenever that user's data changes
+  private snippetIndexes = new Map<string, SearchIndex<Snippet>>();
+  private clipboardIndexes = new Map<string, SearchIndex<ClipboardItem>>();
 
   constructor() {
     this.snippets = new Map();
     this.clipboardItems = new Map();
     this.folders = new Map();
+    this.settings = new Map();
+    this.snippetRevisions = new Map();
+    this.accounts = new Map();
+    this.authSessions = new Map();
+    this.apiTokens = new Map();
+    this.shareLinks = new Map();
     this.currentSnippetId = 1;
     this.currentClipboardId = 1;
     this.currentFolderId = 1;
-    this.settings = {
-      id: 1,
-      snippetShortcut: "ctrl+;",
-      clipboardShortcut: "ctrl+shift+v",
-      clipboardEnabled: 1,
-      historyLimit: 100,
-      launchOnStartup: 0,
-      theme: "light"
-    };
+    this.currentSettingsId = 1;
+    this.currentRevisionId = 1;
+    this.currentAccountId = 1;
+    this.currentSessionId = 1;
+    this.currentApiTokenId = 1;
+    this.currentShareLinkId = 1;
     // No default snippets - users start with a clean slate
   }
 
-  async getSnippets(userId: string, folderId?: number): Promise<Snippet[]> {
+  async getSnippets(userId: string): Promise<Snippet[]> {
     return Array.from(this.snippets.values())
-      .filter(snippet => snippet.userId === userId && (folderId ? snippet.folderId === folderId : true))
+      .filter(snippet => snippet.userId === userId && !snippet.deletedAt)
       .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
   }
 
+  async getSnippetPage(query: SnippetListQuery, userId: string): Promise<ListPage<Snippet>> {
+    return listSnippets(Array.from(this.snippets.values()).filter(snippet => snippet.userId === userId && !snippet.deletedAt), query);
+  }
+
+  async getSnippetCounts(userId: string): Promise<SnippetCounts> {
+    return countSnippets(Array.from(this.snippets.values()).filter(snippet => snippet.userId === userId && !snippet.deletedAt));
+  }
+
   async getSnippet(id: number, userId: string): Promise<Snippet | undefined> {
     const snippet = this.snippets.get(id);
-    return snippet && snippet.userId === userId ? snippet : undefined;
+    return snippet && snippet.userId === userId && !snippet.deletedAt ? snippet : undefined;
   }
 
   async getSnippetByTrigger(trigger: string, userId: string): Promise<Snippet | undefined> {
     return Array.from(this.snippets.values()).find(
-      snippet => snippet.trigger === trigger && snippet.userId === userId
+      snippet => snippet.trigger === trigger && snippet.userId === userId && !snippet.deletedAt
+    );
+  }
+
+  async getSnippetByHotkey(hotkey: string, userId: string): Promise<Snippet | undefined> {
+    return Array.from(this.snippets.values()).find(
+      snippet => snippet.hotkey === hotkey && snippet.userId === userId && !snippet.deletedAt
     );
   }
 
+  async getSnippetTriggers(userId: string): Promise<string[]> {
+    return Array.from(this.snippets.values()).filter(snippet => snippet.userId === userId).map(snippet => snippet.trigger);
+  }
+
   async createSnippet(insertSnippet: InsertSnippet, userId: string): Promise<Snippet> {
     // Validate that the folder exists if folderId is provided
     if (insertSnippet.folderId) {
@@ -514,18 +1795,34 @@ export class MemStorage implements IStorage {
       }
     }
     
+    // A trashed snippet with the same trigger is replaced by the new one
+    const trashed = Array.from(this.snippets.values())
+      .find(s => s.trigger === insertSnippet.trigger && s.userId === userId && s.deletedAt);
+    if (trashed) {
+      await this.purgeFromTrash("snippet", trashed.id, userId);
+    }
+    
     const id = this.currentSnippetId++;
     const now = new Date();
+    const folderId = typeof insertSnippet.folderId !== 'undefined' ? insertSnippet.folderId : null;
+    const siblings = Array.from(this.snippets.values()).filter(s => s.userId === userId && !s.deletedAt && s.folderId === folderId);
     const snippet: Snippet = {
       ...insertSnippet,
       id,
       userId,
+      hotkey: insertSnippet.hotkey ?? null,
+      abbreviation: insertSnippet.abbreviation ?? null,
       description: insertSnippet.description || null,
-      folderId: typeof insertSnippet.folderId !== 'undefined' ? insertSnippet.folderId : null,
+      folderId,
+      tags: storedTags(insertSnippet.tags ?? []),
+      sortOrder: nextSortOrder(siblings),
+      usageCount: 0,
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     this.snippets.set(id, snippet);
+    this.snippetIndexes.delete(userId);
     return snippet;
   }
 
@@ -538,75 +1835,223 @@ export class MemStorage implements IStorage {
       }
     }
     
-    const existing = this.snippets.get(id);
-    if (!existing || existing.userId !== userId) return undefined;
+    const existing = await this.getSnippet(id, userId);
+    if (!existing) return undefined;
+    
+    // A trashed snippet with the new trigger is replaced by this one, as when creating a snippet
+    if (updateData.trigger) {
+      const trashed = Array.from(this.snippets.values())
+        .find(s => s.trigger === updateData.trigger && s.userId === userId && s.deletedAt);
+      if (trashed) {
+        await this.purgeFromTrash("snippet", trashed.id, userId);
+      }
+    }
+    
+    // Keep the text being replaced as a revision
+    if (changesSnippetText(existing, updateData)) {
+      const revisionId = this.currentRevisionId++;
+      this.snippetRevisions.set(revisionId, {
+        id: revisionId,
+        snippetId: id,
+        userId,
+        title: existing.title,
+        content: existing.content,
+        description: existing.description,
+        createdAt: new Date(),
+      });
+    }
+    
     const updated: Snippet = {
       ...existing,
       ...updateData,
       folderId: typeof updateData.folderId !== 'undefined' ? updateData.folderId : existing.folderId ?? null,
+      tags: updateData.tags ? storedTags(updateData.tags) : existing.tags ?? [],
       updatedAt: new Date(),
     };
     this.snippets.set(id, updated);
+    this.snippetIndexes.delete(userId);
     return updated;
   }
 
+  // Moves the snippet to the trash; purgeFromTrash removes it for good
   async deleteSnippet(id: number, userId: string): Promise<boolean> {
+    const snippet = await this.getSnippet(id, userId);
+    if (!snippet) return false;
+    this.snippets.set(id, { ...snippet, deletedAt: new Date() });
+    this.snippetIndexes.delete(userId);
+    return true;
+  }
+
+  // Reordering is not an edit, so updatedAt is left alone
+  async reorderSnippets(ids: number[], userId: string): Promise<boolean> {
+    const found = ids.map(id => this.snippets.get(id)).filter(s => s && s.userId === userId && !s.deletedAt);
+    if (found.length !== new Set(ids).size) {
+      return false;
+    }
+    ids.forEach((id, index) => this.snippets.set(id, { ...this.snippets.get(id)!, sortOrder: index }));
+    return true;
+  }
+
+  async recordSnippetUse(id: number, userId: string): Promise<Snippet | undefined> {
     const snippet = this.snippets.get(id);
-    if (!snippet || snippet.userId !== userId) return false;
-    return this.snippets.delete(id);
+    if (!snippet || snippet.userId !== userId || snippet.deletedAt) return undefined;
+    const used = { ...snippet, usageCount: snippet.usageCount + 1 };
+    this.snippets.set(id, used);
+    return used;
+  }
+
+  // Moving is an edit, as it is through updateSnippet
+  async moveSnippets(ids: number[], folderId: number | null, userId: string): Promise<Snippet[] | undefined> {
+    if (folderId !== null && !(await this.getFolder(folderId, userId))) {
+      throw new Error(`Cannot move snippets: Folder with ID ${folderId} does not exist. Please select a valid folder or create the folder first.`);
+    }
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({ ...snippet, folderId, updatedAt: now }));
+  }
+
+  async deleteSnippets(ids: number[], userId: string): Promise<boolean> {
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({ ...snippet, deletedAt: now })) !== undefined;
+  }
+
+  async duplicateSnippets(ids: number[], userId: string): Promise<Snippet[] | undefined> {
+    const originals = ids.map(id => this.snippets.get(id));
+    if (originals.some(s => !s || s.userId !== userId || s.deletedAt)) return undefined;
+    // Trashed snippets keep their triggers until they are purged
+    const taken = new Set(Array.from(this.snippets.values()).filter(s => s.userId === userId).map(s => s.trigger));
+    const now = new Date();
+    const copies = (originals as Snippet[]).map(original => {
+      const trigger = copyTrigger(original.trigger, taken);
+      taken.add(trigger);
+      const copy: Snippet = {
+        ...original,
+        id: this.currentSnippetId++,
+        title: copyTitle(original.title),
+        trigger,
+        abbreviation: null,
+        hotkey: null,
+        usageCount: 0,
+        createdAt: now,
+        updatedAt: now,
+        deletedAt: null,
+      };
+      this.snippets.set(copy.id, copy);
+      return copy;
+    });
+    this.snippetIndexes.delete(userId);
+    return copies;
+  }
+
+  async tagSnippets(ids: number[], changes: TagChanges, userId: string): Promise<Snippet[] | undefined> {
+    const now = new Date();
+    return this.updateSnippets(ids, userId, snippet => ({
+      ...snippet,
+      tags: storedTags(applyTagChanges(snippet.tags ?? [], changes)),
+      updatedAt: now,
+    }));
+  }
+
+  // Apply update to each of the snippets, or to none if any is missing
+  private updateSnippets(ids: number[], userId: string, update: (snippet: Snippet) => Snippet): Snippet[] | undefined {
+    const found = ids.map(id => this.snippets.get(id));
+    if (found.some(s => !s || s.userId !== userId || s.deletedAt)) return undefined;
+    const updated = (found as Snippet[]).map(update);
+    updated.forEach(snippet => this.snippets.set(snippet.id, snippet));
+    this.snippetIndexes.delete(userId);
+    return updated;
+  }
+
+  // Tags
+  async getTags(userId: string): Promise<TagSummary[]> {
+    return summarizeTags(Array.from(this.snippets.values())
+      .filter(snippet => snippet.userId === userId && !snippet.deletedAt)
+      .map(snippet => snippet.tags ?? []));
+  }
+
+  // Snippet revisions
+  async getSnippetRevisions(snippetId: number, userId: string): Promise<SnippetRevision[]> {
+    return Array.from(this.snippetRevisions.values())
+      .filter(revision => revision.snippetId === snippetId && revision.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async restoreSnippetRevision(snippetId: number, revisionId: number, userId: string): Promise<Snippet | undefined> {
+    const revision = this.snippetRevisions.get(revisionId);
+    if (!revision || revision.snippetId !== snippetId || revision.userId !== userId) return undefined;
+    // Restoring is itself an update, so the text it replaces becomes a revision too
+    return this.updateSnippet(snippetId, {
+      title: revision.title,
+      content: revision.content,
+      description: revision.description,
+    }, userId);
   }
 
   // Folders
   async getFolders(userId: string): Promise<any[]> {
     return Array.from(this.folders.values())
-      .filter(folder => folder.userId === userId)
-      .sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+      .filter(folder => folder.userId === userId && !folder.deletedAt)
+      .sort(bySortOrder);
   }
 
   async getFolder(id: number, userId: string): Promise<any | undefined> {
     const folder = this.folders.get(id);
-    return folder && folder.userId === userId ? folder : undefined;
+    return folder && folder.userId === userId && !folder.deletedAt ? folder : undefined;
   }
 
-  async createFolder(name: string, userId: string): Promise<any> {
-    // Check if folder name already exists for this user
+  async createFolder(name: string, userId: string, parentId: number | null = null): Promise<any> {
+    if (parentId !== null && !(await this.getFolder(parentId, userId))) {
+      throw new Error("Parent folder not found");
+    }
+    // Check if the name is already taken among the folder's siblings
     const existingFolder = Array.from(this.folders.values())
-      .find(folder => folder.name === name && folder.userId === userId);
+      .find(folder => folder.name === name && folder.userId === userId && parentOf(folder) === parentId);
+    if (existingFolder && !existingFolder.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    // A trashed folder with the same name is replaced by the new one
     if (existingFolder) {
-      throw new Error("Folder name already exists for this user");
+      await this.purgeFromTrash("folder", existingFolder.id, userId);
     }
     
     const now = new Date();
+    const siblings = Array.from(this.folders.values()).filter(f => f.userId === userId && !f.deletedAt && parentOf(f) === parentId);
     const folder = {
       id: this.currentFolderId++,
       name,
       userId,
-      sortOrder: 0,
+      parentId,
+      sortOrder: nextSortOrder(siblings),
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     
     this.folders.set(folder.id, folder);
     return folder;
   }
 
-  async updateFolder(id: number, name: string, userId: string): Promise<any | undefined> {
-    const folder = this.folders.get(id);
-    if (!folder || folder.userId !== userId) {
+  async updateFolder(id: number, name: string, userId: string, sortOrder?: number): Promise<any | undefined> {
+    const folder = await this.getFolder(id, userId);
+    if (!folder) {
       return undefined;
     }
     
-    // Check if new name already exists for this user (excluding current folder)
+    // Check if new name already exists among the folder's siblings (excluding current folder)
     const existingFolder = Array.from(this.folders.values())
-      .find(f => f.name === name && f.userId === userId && f.id !== id);
+      .find(f => f.name === name && f.userId === userId && f.id !== id && parentOf(f) === parentOf(folder));
+    if (existingFolder && !existingFolder.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    // A trashed folder with the new name is replaced by this one, as when creating a folder
     if (existingFolder) {
-      throw new Error("Folder name already exists for this user");
+      await this.purgeFromTrash("folder", existingFolder.id, userId);
     }
     
     const now = new Date();
     const updatedFolder = {
       ...folder,
       name,
+      ...(typeof sortOrder !== 'undefined' ? { sortOrder } : {}),
       updatedAt: now,
     };
     
@@ -614,27 +2059,62 @@ export class MemStorage implements IStorage {
     return updatedFolder;
   }
 
+  async moveFolder(id: number, parentId: number | null, userId: string): Promise<any | undefined> {
+    const folder = await this.getFolder(id, userId);
+    if (!folder) {
+      return undefined;
+    }
+    
+    const userFolders = Array.from(this.folders.values()).filter(f => f.userId === userId);
+    const replaced = checkFolderMove(userFolders, folder, parentId);
+    // A trashed folder with the same name in the destination is replaced, as when creating one
+    if (replaced) {
+      await this.purgeFromTrash("folder", replaced.id, userId);
+    }
+    
+    // It goes after the folders already there
+    const sortOrder = nextSortOrder(userFolders.filter(f => f.id !== id && !f.deletedAt && parentOf(f) === parentId));
+    const movedFolder = { ...folder, parentId, sortOrder, updatedAt: new Date() };
+    this.folders.set(id, movedFolder);
+    return movedFolder;
+  }
+
+  async reorderFolders(ids: number[], userId: string): Promise<boolean> {
+    const found = ids.map(id => this.folders.get(id)).filter(f => f && f.userId === userId && !f.deletedAt);
+    if (found.length !== new Set(ids).size) {
+      return false;
+    }
+    ids.forEach((id, index) => this.folders.set(id, { ...this.folders.get(id), sortOrder: index }));
+    return true;
+  }
+
   async deleteFolder(id: number, userId: string): Promise<boolean> {
-    const folder = this.folders.get(id);
-    if (!folder || folder.userId !== userId) {
+    const folder = await this.getFolder(id, userId);
+    if (!folder) {
       return false;
     }
     
-    // Move all snippets from this folder to no folder (set folderId to null)
+    // The subfolders go along with the folder
+    const ids = new Set([id, ...descendantFolderIds(await this.getFolders(userId), id)]);
+    
+    // Move the folders and their snippets to the trash, all at the same moment so they come back together
+    const deletedAt = new Date();
     Array.from(this.snippets.values())
-      .filter(snippet => snippet.folderId === id && snippet.userId === userId)
+      .filter(snippet => snippet.folderId != null && ids.has(snippet.folderId) && snippet.userId === userId && !snippet.deletedAt)
       .forEach(snippet => {
-        this.snippets.set(snippet.id, { ...snippet, folderId: null });
+        this.snippets.set(snippet.id, { ...snippet, deletedAt });
       });
-    
-    // Remove the folder
-    return this.folders.delete(id);
+    this.snippetIndexes.delete(userId);
+    Array.from(ids).forEach(folderId => {
+      this.folders.set(folderId, { ...this.folders.get(folderId), deletedAt });
+    });
+    return true;
   }
 
   async ensureGeneralFolder(userId: string): Promise<any> {
     // Check if General folder already exists for this user
     const existingFolder = Array.from(this.folders.values())
-      .find(folder => folder.name === "General" && folder.userId === userId);
+      .find(folder => folder.name === "General" && folder.userId === userId && parentOf(folder) === null && !folder.deletedAt);
     
     if (existingFolder) {
       return existingFolder;
@@ -646,9 +2126,11 @@ export class MemStorage implements IStorage {
       id: this.currentFolderId++,
       name: "General",
       userId,
-      sortOrder: 0,
+      parentId: null,
+      sortOrder: nextSortOrder((await this.getFolders(userId)).filter(folder => parentOf(folder) === null)),
       createdAt: now,
       updatedAt: now,
+      deletedAt: null,
     };
     
     this.folders.set(generalFolder.id, generalFolder);
@@ -658,8 +2140,18 @@ export class MemStorage implements IStorage {
   // Clipboard
   async getClipboardItems(userId: string): Promise<ClipboardItem[]> {
     return Array.from(this.clipboardItems.values())
-      .filter(item => item.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+      .filter(item => item.userId === userId && !item.deletedAt)
+      .sort((a, b) => b.pinned - a.pinned || b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getClipboardPage(query: ClipboardListQuery, userId: string): Promise<ListPage<ClipboardItem>> {
+    return listClipboardItems(Array.from(this.clipboardItems.values()).filter(item => item.userId === userId && !item.deletedAt), query);
+  }
+
+  async getClipboardTypeCounts(userId: string): Promise<ClipboardTypeCount[]> {
+    return clipboardTypeCounts(Array.from(this.clipboardItems.values())
+      .filter(item => item.userId === userId && !item.deletedAt)
+      .map(item => ({ type: item.type, count: 1 })));
   }
 
   async createClipboardItem(insertItem: InsertClipboardItem, userId: string): Promise<ClipboardItem> {
@@ -667,7 +2159,7 @@ export class MemStorage implements IStorage {
     const recentItems = Array.from(this.clipboardItems.values())
       .filter(item => {
         const timeDiff = Date.now() - item.createdAt.getTime();
-        return timeDiff < 5000 && item.userId === userId;
+        return timeDiff < 5000 && item.userId === userId && !item.deletedAt;
       });
     // If the same content was added recently, don't add it again
     const isDuplicate = recentItems.some(item =>
@@ -686,126 +2178,838 @@ export class MemStorage implements IStorage {
       id,
       userId,
       type: insertItem.type || "text",
+      metadata: insertItem.metadata ?? null,
+      pinned: 0,
       createdAt: new Date(),
+      deletedAt: null,
     };
     this.clipboardItems.set(id, item);
-    // Maintain history limit
-    const items = await this.getClipboardItems(userId);
-    if (items.length > this.settings.historyLimit) {
-      const itemsToDelete = items.slice(this.settings.historyLimit);
-      itemsToDelete.forEach(item => this.clipboardItems.delete(item.id));
-    }
+    this.clipboardIndexes.delete(userId);
+    await this.pruneClipboardHistory(userId);
     return item;
   }
 
   async deleteClipboardItem(id: number, userId: string): Promise<boolean> {
     const item = this.clipboardItems.get(id);
-    if (!item || item.userId !== userId) return false;
-    return this.clipboardItems.delete(id);
+    if (!item || item.userId !== userId || item.deletedAt) return false;
+    this.clipboardItems.set(id, { ...item, deletedAt: new Date() });
+    this.clipboardIndexes.delete(userId);
+    return true;
   }
 
-  async clearClipboardHistory(userId: string): Promise<void> {
-    Array.from(this.clipboardItems.values())
-      .filter(item => item.userId === userId)
-      .forEach(item => this.clipboardItems.delete(item.id));
+  async clearClipboardHistory(userId: string): Promise<number[]> {
+    const now = new Date();
+    const items = (await this.getClipboardItems(userId)).filter(item => !item.pinned);
+    items.forEach(item => this.clipboardItems.set(item.id, { ...item, deletedAt: now }));
+    this.clipboardIndexes.delete(userId);
+    return items.map(item => item.id);
   }
 
-  // Settings
-  async getSettings(): Promise<Settings> {
-    return this.settings;
+  async deleteClipboardItems(ids: number[], userId: string): Promise<boolean> {
+    const now = new Date();
+    return this.updateClipboardItems(ids, userId, item => ({ ...item, deletedAt: now })) !== undefined;
   }
 
-  async updateSettings(updateData: Partial<InsertSettings>): Promise<Settings> {
-    this.settings = { ...this.settings, ...updateData };
-    return this.settings;
+  async setClipboardItemsPinned(ids: number[], pinned: boolean, userId: string): Promise<ClipboardItem[] | undefined> {
+    const updated = this.updateClipboardItems(ids, userId, item => ({ ...item, pinned: pinned ? 1 : 0 }));
+    // Unpinning can leave the history over its limit
+    if (updated && !pinned) await this.pruneClipboardHistory(userId);
+    return updated;
   }
-}
 
-export class DatabaseStorage implements IStorage {
-  // Snippets
-  async getSnippets(userId: string, folderId?: number): Promise<Snippet[]> {
-    if (!db) throw new Error("Database not available");
-    return await db.select().from(activeSnippets).where(eq(activeSnippets.userId, userId)).orderBy(desc(activeSnippets.createdAt));
+  // Apply update to each of the items, or to none if any is missing
+  private updateClipboardItems(ids: number[], userId: string, update: (item: ClipboardItem) => ClipboardItem): ClipboardItem[] | undefined {
+    const found = ids.map(id => this.clipboardItems.get(id));
+    if (found.some(item => !item || item.userId !== userId || item.deletedAt)) return undefined;
+    const updated = (found as ClipboardItem[]).map(update);
+    updated.forEach(item => this.clipboardItems.set(item.id, item));
+    this.clipboardIndexes.delete(userId);
+    return updated;
   }
 
-  async getSnippet(id: number, userId: string): Promise<Snippet | undefined> {
-    if (!db) throw new Error("Database not available");
-    const [snippet] = await db.select().from(activeSnippets).where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId)));
-    return snippet;
+  async setClipboardItemPinned(id: number, pinned: boolean, userId: string): Promise<ClipboardItem | undefined> {
+    const item = this.clipboardItems.get(id);
+    if (!item || item.userId !== userId || item.deletedAt) return undefined;
+    const updated = { ...item, pinned: pinned ? 1 : 0 };
+    this.clipboardItems.set(id, updated);
+    // Unpinning can leave the history over its limit
+    if (!pinned) await this.pruneClipboardHistory(userId);
+    return updated;
   }
 
-  async getSnippetByTrigger(trigger: string, userId: string): Promise<Snippet | undefined> {
-    if (!db) throw new Error("Database not available");
-    const [snippet] = await db.select().from(activeSnippets).where(and(eq(activeSnippets.trigger, trigger), eq(activeSnippets.userId, userId)));
-    return snippet;
+  async pruneClipboardHistory(userId?: string): Promise<number> {
+    const live = Array.from(this.clipboardItems.values())
+      .filter(item => !item.deletedAt && (!userId || item.userId === userId));
+    let pruned = 0;
+    for (const owner of Array.from(new Set(live.map(item => item.userId)))) {
+      const settings = await this.getSettings(owner);
+      const toDelete = clipboardItemsToPrune(live.filter(item => item.userId === owner), settings);
+      toDelete.forEach(id => this.clipboardItems.delete(id));
+      if (toDelete.length > 0) this.clipboardIndexes.delete(owner);
+      pruned += toDelete.length;
+    }
+    return pruned;
   }
 
-  async createSnippet(snippet: InsertSnippet, userId: string): Promise<Snippet> {
-    if (!db) throw new Error("Database not available");
-    
-    // Validate that the folder exists if folderId is provided
-    if (snippet.folderId) {
-      const folder = await this.getFolder(snippet.folderId, userId);
-      if (!folder) {
-        throw new Error(`Cannot create snippet: Folder with ID ${snippet.folderId} does not exist. Please select a valid folder or create the folder first.`);
-      }
+  // Settings
+  async getSettings(userId: string): Promise<Settings> {
+    const existing = this.settings.get(userId);
+    if (existing) {
+      return existing;
     }
     
-    const [newSnippet] = await db.insert(activeSnippets).values({
-      ...snippet,
+    // Create default settings for this user
+    const userSettings: Settings = {
+      ...DEFAULT_SETTINGS,
+      id: this.currentSettingsId++,
       userId,
-      updatedAt: new Date()
-    }).returning();
-    return newSnippet;
+    } as Settings;
+    this.settings.set(userId, userSettings);
+    return userSettings;
   }
 
-  async updateSnippet(id: number, updateData: Partial<InsertSnippet>, userId: string): Promise<Snippet | undefined> {
-    if (!db) throw new Error("Database not available");
-    
-    // Validate that the folder exists if folderId is being updated
-    if (updateData.folderId) {
-      const folder = await this.getFolder(updateData.folderId, userId);
+  async updateSettings(updateData: Partial<InsertSettings>, userId: string): Promise<Settings> {
+    const updated = { ...(await this.getSettings(userId)), ...updateData };
+    this.settings.set(userId, updated);
+    return updated;
+  }
+
+  // Trash
+  async getTrash(userId: string): Promise<TrashEntry[]> {
+    await this.purgeExpiredTrash(userId);
+    const folders = Array.from(this.folders.values());
+    const entries: TrashEntry[] = [
+      ...Array.from(this.snippets.values())
+        .filter(s => s.userId === userId && s.deletedAt && !trashedWithFolder(folders, s))
+        .map(item => ({ type: "snippet" as const, item, deletedAt: item.deletedAt! })),
+      ...folders
+        .filter(f => f.userId === userId && f.deletedAt && !trashedWithParent(folders, f))
+        .map(item => ({ type: "folder" as const, item, deletedAt: item.deletedAt })),
+      ...Array.from(this.clipboardItems.values())
+        .filter(i => i.userId === userId && i.deletedAt)
+        .map(item => ({ type: "clipboard" as const, item, deletedAt: item.deletedAt! })),
+    ];
+    return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restoreFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    if (type === "snippet") {
+      const snippet = this.snippets.get(id);
+      if (!snippet || snippet.userId !== userId || !snippet.deletedAt) return false;
+      await checkSnippetRestorable(this, snippet, userId);
+      // Snippets whose folder is gone go back to General
+      let folderId = snippet.folderId;
+      if (folderId && !(await this.getFolder(folderId, userId))) {
+        folderId = (await this.ensureGeneralFolder(userId)).id;
+      }
+      this.snippets.set(id, { ...snippet, folderId, deletedAt: null });
+      this.snippetIndexes.delete(userId);
+      return true;
+    }
+
+    if (type === "folder") {
+      const folder = this.folders.get(id);
+      if (!folder || folder.userId !== userId || !folder.deletedAt) return false;
+      const userFolders = Array.from(this.folders.values()).filter(f => f.userId === userId);
+      const parentId = restoredParentId(userFolders, folder);
+      if ((await this.getFolders(userId)).some(f => f.name === folder.name && parentOf(f) === parentId)) {
+        throw new Error("Folder name already exists in this location");
+      }
+      const ids = new Set(foldersTrashedWith(userFolders, id));
+      const trashedSnippets = Array.from(this.snippets.values())
+        .filter(s => s.userId === userId && s.folderId != null && ids.has(s.folderId) && trashedWithFolder(userFolders, s));
+      for (const snippet of trashedSnippets) {
+        await checkSnippetRestorable(this, snippet, userId);
+      }
+      trashedSnippets.forEach(snippet => this.snippets.set(snippet.id, { ...snippet, deletedAt: null }));
+      this.snippetIndexes.delete(userId);
+      ids.forEach(folderId => {
+        this.folders.set(folderId, { ...this.folders.get(folderId), deletedAt: null });
+      });
+      this.folders.set(id, { ...this.folders.get(id), parentId });
+      return true;
+    }
+
+    const item = this.clipboardItems.get(id);
+    if (!item || item.userId !== userId || !item.deletedAt) return false;
+    this.clipboardItems.set(id, { ...item, deletedAt: null });
+    this.clipboardIndexes.delete(userId);
+    return true;
+  }
+
+  async purgeFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    if (type === "snippet") {
+      const snippet = this.snippets.get(id);
+      if (!snippet || snippet.userId !== userId || !snippet.deletedAt) return false;
+      Array.from(this.snippetRevisions.values())
+        .filter(revision => revision.snippetId === id)
+        .forEach(revision => this.snippetRevisions.delete(revision.id));
+      return this.snippets.delete(id);
+    }
+
+    if (type === "folder") {
+      const folder = this.folders.get(id);
+      if (!folder || folder.userId !== userId || !folder.deletedAt) return false;
+      const userFolders = Array.from(this.folders.values()).filter(f => f.userId === userId);
+      const ids = new Set(foldersTrashedWith(userFolders, id));
+      // The snippets trashed with the folders go with them; ones trashed on
+      // their own may still point at the folders
+      for (const snippet of Array.from(this.snippets.values())) {
+        if (snippet.folderId == null || !ids.has(snippet.folderId) || snippet.userId !== userId) continue;
+        if (trashedWithFolder(userFolders, snippet)) {
+          await this.purgeFromTrash("snippet", snippet.id, userId);
+        } else {
+          this.snippets.set(snippet.id, { ...snippet, folderId: null });
+        }
+      }
+      // Subfolders trashed on their own earlier are restored to the top level from now on
+      userFolders
+        .filter(f => f.parentId != null && ids.has(f.parentId))
+        .forEach(f => this.folders.set(f.id, { ...f, parentId: null }));
+      Array.from(ids).forEach(folderId => this.folders.delete(folderId));
+      return true;
+    }
+
+    const item = this.clipboardItems.get(id);
+    if (!item || item.userId !== userId || !item.deletedAt) return false;
+    return this.clipboardItems.delete(id);
+  }
+
+  async emptyTrash(userId: string): Promise<void> {
+    for (const entry of await this.getTrash(userId)) {
+      await this.purgeFromTrash(entry.type, entry.item.id, userId);
+    }
+  }
+
+  async purgeExpiredTrash(userId?: string): Promise<number> {
+    const trashed = [
+      ...Array.from(this.snippets.values()).map(item => ({ type: "snippet" as const, item })),
+      ...Array.from(this.folders.values()).map(item => ({ type: "folder" as const, item })),
+      ...Array.from(this.clipboardItems.values()).map(item => ({ type: "clipboard" as const, item })),
+    ].filter(({ item }) => item.deletedAt && (!userId || item.userId === userId));
+
+    let purged = 0;
+    const retentionCutoffs = new Map<string, number>();
+    for (const { type, item } of trashed) {
+      if (!retentionCutoffs.has(item.userId)) {
+        const { trashRetentionDays } = await this.getSettings(item.userId);
+        retentionCutoffs.set(item.userId, Date.now() - trashRetentionDays * DAY_MS);
+      }
+      if (item.deletedAt.getTime() < retentionCutoffs.get(item.userId)!) {
+        if (await this.purgeFromTrash(type, item.id, item.userId)) purged++;
+      }
+    }
+    return purged;
+  }
+
+  // Accounts
+  async getAccount(userId: string): Promise<Account | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.userId === userId);
+  }
+
+  async getAccountByLoginKey(loginKey: string): Promise<Account | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.loginKey === loginKey);
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    if (await this.getAccount(insertAccount.userId)) {
+      throw new Error("An account with this user id already exists");
+    }
+    const account: Account = {
+      ...insertAccount,
+      id: this.currentAccountId++,
+      createdAt: new Date(),
+      lastLoginAt: null,
+    };
+    this.accounts.set(account.id, account);
+    return account;
+  }
+
+  async recordLogin(userId: string): Promise<void> {
+    const account = await this.getAccount(userId);
+    if (account) this.accounts.set(account.id, { ...account, lastLoginAt: new Date() });
+  }
+
+  async updateAccountCredentials(userId: string, update: AccountCredentialsUpdate): Promise<Account> {
+    const account = await this.getAccount(userId);
+    if (!account) throw new Error("Account not found");
+    const holder = await this.getAccountByLoginKey(update.loginKey);
+    if (holder && holder.id !== account.id) throw new Error("Those credentials are already in use");
+
+    const updated = { ...account, ...update };
+    this.accounts.set(account.id, updated);
+    if (update.userId === userId) return updated;
+
+    for (const rows of [this.snippets, this.snippetRevisions, this.folders, this.clipboardItems, this.authSessions, this.apiTokens, this.shareLinks] as Map<number, { userId: string }>[]) {
+      Array.from(rows.entries())
+        .filter(([, row]) => row.userId === userId)
+        .forEach(([id, row]) => rows.set(id, { ...row, userId: update.userId }));
+    }
+    const settings = this.settings.get(userId);
+    if (settings) {
+      this.settings.delete(userId);
+      this.settings.set(update.userId, { ...settings, userId: update.userId });
+    }
+    this.snippetIndexes.delete(userId);
+    this.clipboardIndexes.delete(userId);
+    return updated;
+  }
+
+  // Auth sessions
+  async createAuthSession(insertSession: InsertAuthSession): Promise<AuthSession> {
+    const now = new Date();
+    const session: AuthSession = {
+      ...insertSession,
+      id: this.currentSessionId++,
+      createdAt: now,
+      lastSeenAt: now,
+      revokedAt: null,
+    };
+    this.authSessions.set(session.id, session);
+    return session;
+  }
+
+  async getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    return Array.from(this.authSessions.values()).find(session => session.tokenHash === tokenHash);
+  }
+
+  async getAuthSessions(userId: string): Promise<AuthSession[]> {
+    return Array.from(this.authSessions.values())
+      .filter(session => session.userId === userId && isActiveSession(session))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async touchAuthSession(id: number, expiresAt: Date): Promise<void> {
+    const session = this.authSessions.get(id);
+    if (session) this.authSessions.set(id, { ...session, lastSeenAt: new Date(), expiresAt });
+  }
+
+  async revokeAuthSession(id: number, userId: string): Promise<boolean> {
+    const session = this.authSessions.get(id);
+    if (!session || session.userId !== userId || !isActiveSession(session)) return false;
+    this.authSessions.set(id, { ...session, revokedAt: new Date() });
+    return true;
+  }
+
+  async revokeAuthSessions(userId: string, exceptId?: number): Promise<number> {
+    const sessions = await this.getAuthSessions(userId);
+    const now = new Date();
+    let revoked = 0;
+    for (const session of sessions) {
+      if (session.id === exceptId) continue;
+      this.authSessions.set(session.id, { ...session, revokedAt: now });
+      revoked++;
+    }
+    return revoked;
+  }
+
+  async purgeExpiredAuthSessions(): Promise<number> {
+    let purged = 0;
+    for (const session of Array.from(this.authSessions.values())) {
+      if (!isActiveSession(session) && this.authSessions.delete(session.id)) purged++;
+    }
+    return purged;
+  }
+
+  // API tokens
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = {
+      ...insertToken,
+      id: this.currentApiTokenId++,
+      createdAt: new Date(),
+      lastUsedAt: null,
+      revokedAt: null,
+    };
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  async getApiTokenByTokenHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId && isActiveApiToken(token))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    const token = this.apiTokens.get(id);
+    if (token) this.apiTokens.set(id, { ...token, lastUsedAt: new Date() });
+  }
+
+  async revokeApiToken(id: number, userId: string): Promise<boolean> {
+    const token = this.apiTokens.get(id);
+    if (!token || token.userId !== userId || !isActiveApiToken(token)) return false;
+    this.apiTokens.set(id, { ...token, revokedAt: new Date() });
+    return true;
+  }
+
+  async purgeExpiredApiTokens(): Promise<number> {
+    let purged = 0;
+    for (const token of Array.from(this.apiTokens.values())) {
+      if (!isActiveApiToken(token) && this.apiTokens.delete(token.id)) purged++;
+    }
+    return purged;
+  }
+
+  // Share links
+  async createShareLink(insertLink: InsertShareLink): Promise<ShareLink> {
+    const link: ShareLink = {
+      ...insertLink,
+      id: this.currentShareLinkId++,
+      createdAt: new Date(),
+      viewCount: 0,
+      lastViewedAt: null,
+      revokedAt: null,
+    };
+    this.shareLinks.set(link.id, link);
+    return link;
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    return Array.from(this.shareLinks.values()).find(link => link.tokenHash === tokenHash);
+  }
+
+  async getShareLinks(userId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.userId === userId && isActiveShareLink(link))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(id);
+    if (!link || !isActiveShareLink(link)) return undefined;
+    const viewed = { ...link, viewCount: link.viewCount + 1, lastViewedAt: new Date() };
+    this.shareLinks.set(id, viewed);
+    return viewed;
+  }
+
+  async revokeShareLink(id: number, userId: string): Promise<boolean> {
+    const link = this.shareLinks.get(id);
+    if (!link || link.userId !== userId || !isActiveShareLink(link)) return false;
+    this.shareLinks.set(id, { ...link, revokedAt: new Date() });
+    return true;
+  }
+
+  async purgeExpiredShareLinks(): Promise<number> {
+    let purged = 0;
+    for (const link of Array.from(this.shareLinks.values())) {
+      if (!isActiveShareLink(link) && this.shareLinks.delete(link.id)) purged++;
+    }
+    return purged;
+  }
+
+  // Search
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const kinds = options.kinds ?? ["snippet", "clipboard"];
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const results: SearchResult[] = [];
+
+    if (kinds.includes("snippet")) {
+      let index = this.snippetIndexes.get(userId);
+      if (!index) {
+        index = buildSnippetIndex(await this.getSnippets(userId));
+        this.snippetIndexes.set(userId, index);
+      }
+      results.push(...index.search(query, limit).map(r => toSnippetResult(r.item, r.score, query)));
+    }
+
+    if (kinds.includes("clipboard")) {
+      let index = this.clipboardIndexes.get(userId);
+      if (!index) {
+        index = buildClipboardIndex(await this.getClipboardItems(userId));
+        this.clipboardIndexes.set(userId, index);
+      }
+      results.push(...index.search(query, limit).map(r => toClipboardResult(r.item, r.score, query)));
+    }
+
+    return mergeSearchResults(results, limit);
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  // Settles when the SQLite transaction in progress ends; see inTransaction
+  private sqliteTransaction: Promise<void> = Promise.resolve();
+
+  // Snippets
+  async getSnippets(userId: string): Promise<Snippet[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select().from(activeSnippets).where(and(eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt))).orderBy(desc(activeSnippets.createdAt));
+    return this.withTags(rows, userId);
+  }
+
+  async getSnippetPage({ folderId, sort, since, until, after, limit }: SnippetListQuery, userId: string): Promise<ListPage<Snippet>> {
+    if (!db) throw new Error("Database not available");
+    const columns = snippetSortColumns(sort);
+    const direction = SNIPPET_SORT_DIRECTIONS[sort];
+    const query = db.select().from(activeSnippets)
+      .where(and(
+        eq(activeSnippets.userId, userId),
+        isNull(activeSnippets.deletedAt),
+        folderId !== undefined ? eq(activeSnippets.folderId, folderId) : undefined,
+        since ? gte(activeSnippets.updatedAt, toDbTimestamp(since)) : undefined,
+        until ? lt(activeSnippets.updatedAt, toDbTimestamp(until)) : undefined,
+        after ? afterSortKey(columns, sort === "updatedAt" ? [pageTimestampValue(after[0] as number), after[1]] : after, direction) : undefined,
+      ))
+      .orderBy(...columns.map(column => direction === "asc" ? asc(column) : desc(column)));
+    // One more than a page, to tell whether there is another
+    const rows: Snippet[] = await (limit === undefined ? query : query.limit(limit + 1));
+    const page = toListPage(rows, limit, row => snippetSortKey({ ...row, updatedAt: fromDbTimestamp(row.updatedAt) }, sort));
+    return { ...page, items: await this.withTags(page.items, userId) };
+  }
+
+  async getSnippetCounts(userId: string): Promise<SnippetCounts> {
+    if (!db) throw new Error("Database not available");
+    const rows: Array<{ folderId: number | null; count: number; withHotkey: number }> = await db
+      .select({ folderId: activeSnippets.folderId, count: sql<number>`count(*)`, withHotkey: sql<number>`count(${activeSnippets.hotkey})` })
+      .from(activeSnippets)
+      .where(and(eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)))
+      .groupBy(activeSnippets.folderId);
+    const byFolder: Record<number, number> = {};
+    for (const row of rows) {
+      if (row.folderId != null) byFolder[row.folderId] = Number(row.count);
+    }
+    return {
+      total: rows.reduce((sum, row) => sum + Number(row.count), 0),
+      withHotkey: rows.reduce((sum, row) => sum + Number(row.withHotkey), 0),
+      byFolder,
+    };
+  }
+
+  async getSnippet(id: number, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [snippet] = await db.select().from(activeSnippets).where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+    return snippet && (await this.withTags([snippet], userId))[0];
+  }
+
+  async getSnippetByTrigger(trigger: string, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [snippet] = await db.select().from(activeSnippets).where(and(eq(activeSnippets.trigger, trigger), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+    return snippet;
+  }
+
+  async getSnippetByHotkey(hotkey: string, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [snippet] = await db.select().from(activeSnippets).where(and(eq(activeSnippets.hotkey, hotkey), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+    return snippet;
+  }
+
+  async getSnippetTriggers(userId: string): Promise<string[]> {
+    if (!db) throw new Error("Database not available");
+    const rows: Array<{ trigger: string }> = await db.select({ trigger: activeSnippets.trigger }).from(activeSnippets).where(eq(activeSnippets.userId, userId));
+    return rows.map(row => row.trigger);
+  }
+
+  async createSnippet({ tags: tagNames, ...snippet }: InsertSnippet, userId: string): Promise<Snippet> {
+    if (!db) throw new Error("Database not available");
+    
+    // Validate that the folder exists if folderId is provided
+    if (snippet.folderId) {
+      const folder = await this.getFolder(snippet.folderId, userId);
+      if (!folder) {
+        throw new Error(`Cannot create snippet: Folder with ID ${snippet.folderId} does not exist. Please select a valid folder or create the folder first.`);
+      }
+    }
+    
+    // A trashed snippet with the same trigger is replaced by the new one
+    const [trashed] = await db.select({ id: activeSnippets.id }).from(activeSnippets)
+      .where(and(eq(activeSnippets.trigger, snippet.trigger), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt)));
+    if (trashed) {
+      await this.purgeFromTrash("snippet", trashed.id, userId);
+    }
+    
+    const folderId = snippet.folderId ?? null;
+    // The snippet and its tags are saved together or not at all
+    const newSnippet = await this.inTransaction(async (tx) => {
+      const siblings = await tx.select({ sortOrder: activeSnippets.sortOrder }).from(activeSnippets)
+        .where(and(
+          eq(activeSnippets.userId, userId),
+          folderId === null ? isNull(activeSnippets.folderId) : eq(activeSnippets.folderId, folderId),
+          isNull(activeSnippets.deletedAt)
+        ));
+      const [inserted] = await tx.insert(activeSnippets).values({
+        ...snippet,
+        userId,
+        sortOrder: nextSortOrder(siblings),
+        updatedAt: toDbTimestamp(new Date())
+      }).returning();
+      if (tagNames) await this.replaceSnippetTags(tx, inserted.id, tagNames, userId);
+      return inserted;
+    });
+    return (await this.withTags([newSnippet], userId))[0];
+  }
+
+  async updateSnippet(id: number, { tags: tagNames, ...updateData }: Partial<InsertSnippet>, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    
+    // Validate that the folder exists if folderId is being updated
+    if (updateData.folderId) {
+      const folder = await this.getFolder(updateData.folderId, userId);
       if (!folder) {
         throw new Error(`Cannot update snippet: Folder with ID ${updateData.folderId} does not exist. Please select a valid folder or create the folder first.`);
       }
     }
     
-    const [updated] = await db.update(activeSnippets)
-      .set({ ...updateData, updatedAt: new Date() })
-      .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId)))
-      .returning();
-    return updated;
+    const existing = await this.getSnippet(id, userId);
+    if (!existing) return undefined;
+    
+    // A trashed snippet with the new trigger is replaced by this one, as when creating a snippet
+    if (updateData.trigger) {
+      const [trashed] = await db.select({ id: activeSnippets.id }).from(activeSnippets)
+        .where(and(eq(activeSnippets.trigger, updateData.trigger), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt)));
+      if (trashed) {
+        await this.purgeFromTrash("snippet", trashed.id, userId);
+      }
+    }
+    
+    // The edit, its revision and the new tags are saved together or not at all
+    const updated = await this.inTransaction(async (tx) => {
+      // Keep the text being replaced as a revision
+      if (changesSnippetText(existing, updateData)) {
+        await tx.insert(activeSnippetRevisions).values({
+          snippetId: id,
+          userId,
+          title: existing.title,
+          content: existing.content,
+          description: existing.description,
+        });
+      }
+      
+      const [row] = await tx.update(activeSnippets)
+        .set({ ...updateData, updatedAt: toDbTimestamp(new Date()) })
+        .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId)))
+        .returning();
+      if (tagNames) await this.replaceSnippetTags(tx, id, tagNames, userId);
+      return row;
+    });
+    return (await this.withTags([updated], userId))[0];
+  }
+
+  // Attach each snippet's tag names, alphabetically
+  private async withTags(rows: Snippet[], userId: string): Promise<Snippet[]> {
+    if (rows.length === 0) return rows;
+    const links = await db.select({ snippetId: activeSnippetTags.snippetId, name: activeTags.name })
+      .from(activeSnippetTags)
+      .innerJoin(activeTags, eq(activeSnippetTags.tagId, activeTags.id))
+      .where(and(
+        eq(activeTags.userId, userId),
+        inArray(activeSnippetTags.snippetId, rows.map(row => row.id))
+      ))
+      .orderBy(activeTags.name);
+    const names = new Map<number, string[]>();
+    for (const { snippetId, name } of links) {
+      names.set(snippetId, [...(names.get(snippetId) ?? []), name]);
+    }
+    return rows.map(row => ({ ...row, tags: names.get(row.id) ?? [] }));
   }
 
+  // Replace the snippet's tags, creating the ones the user has not used before,
+  // within a transaction that is already open
+  private async replaceSnippetTags(tx: any, snippetId: number, names: string[], userId: string): Promise<void> {
+    const wanted = normalizeTags(names);
+    await tx.delete(activeSnippetTags).where(eq(activeSnippetTags.snippetId, snippetId));
+    if (wanted.length === 0) return;
+    await tx.insert(activeTags).values(wanted.map(name => ({ name, userId }))).onConflictDoNothing();
+    const tagRows = await tx.select({ id: activeTags.id }).from(activeTags)
+      .where(and(eq(activeTags.userId, userId), inArray(activeTags.name, wanted)));
+    await tx.insert(activeSnippetTags).values(tagRows.map((tag: { id: number }) => ({ snippetId, tagId: tag.id })));
+  }
+
+  // Tags
+  async getTags(userId: string): Promise<TagSummary[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select({ name: activeTags.name, count: sql<number>`count(*)` })
+      .from(activeTags)
+      .innerJoin(activeSnippetTags, eq(activeSnippetTags.tagId, activeTags.id))
+      .innerJoin(activeSnippets, eq(activeSnippets.id, activeSnippetTags.snippetId))
+      .where(and(eq(activeTags.userId, userId), isNull(activeSnippets.deletedAt)))
+      .groupBy(activeTags.name);
+    return rows
+      .map((row: { name: string; count: number | string }) => ({ name: row.name, count: Number(row.count) }))
+      .sort((a: TagSummary, b: TagSummary) => b.count - a.count || a.name.localeCompare(b.name));
+  }
+
+  // Moves the snippet to the trash; purgeFromTrash removes it for good
   async deleteSnippet(id: number, userId: string): Promise<boolean> {
     if (!db) throw new Error("Database not available");
-    const result = await db.delete(activeSnippets).where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId)));
-    return result.rowCount !== null && result.rowCount > 0;
+    const deleted = await db.update(activeSnippets)
+      .set({ deletedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  // Reordering is not an edit, so updatedAt is left alone
+  async reorderSnippets(ids: number[], userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    return this.inTransaction(async (tx) => {
+      const found = await tx.select({ id: activeSnippets.id }).from(activeSnippets)
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+      if (found.length !== new Set(ids).size) return false;
+      for (let index = 0; index < ids.length; index++) {
+        await tx.update(activeSnippets).set({ sortOrder: index }).where(eq(activeSnippets.id, ids[index]));
+      }
+      return true;
+    });
+  }
+
+  async recordSnippetUse(id: number, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [snippet] = await db.update(activeSnippets)
+      .set({ usageCount: sql`${activeSnippets.usageCount} + 1` })
+      .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)))
+      .returning();
+    return snippet && (await this.withTags([snippet], userId))[0];
+  }
+
+  // Moving is an edit, as it is through updateSnippet
+  async moveSnippets(ids: number[], folderId: number | null, userId: string): Promise<Snippet[] | undefined> {
+    if (!db) throw new Error("Database not available");
+    if (folderId !== null && !(await this.getFolder(folderId, userId))) {
+      throw new Error(`Cannot move snippets: Folder with ID ${folderId} does not exist. Please select a valid folder or create the folder first.`);
+    }
+    const moved = await this.updateSnippets(ids, userId, { folderId, updatedAt: toDbTimestamp(new Date()) });
+    return moved && this.withTags(moved, userId);
+  }
+
+  async deleteSnippets(ids: number[], userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    return (await this.updateSnippets(ids, userId, { deletedAt: toDbTimestamp(new Date()) })) !== undefined;
+  }
+
+  async duplicateSnippets(ids: number[], userId: string): Promise<Snippet[] | undefined> {
+    if (!db) throw new Error("Database not available");
+    return this.inTransaction(async (tx) => {
+      const rows: Snippet[] = await tx.select().from(activeSnippets)
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+      if (rows.length !== ids.length) return undefined;
+      const originals = await this.withTags(ids.map(id => rows.find(row => row.id === id)!), userId);
+      // Trashed snippets keep their triggers until they are purged
+      const triggers: Array<{ trigger: string }> = await tx.select({ trigger: activeSnippets.trigger }).from(activeSnippets)
+        .where(eq(activeSnippets.userId, userId));
+      const taken = new Set(triggers.map(row => row.trigger));
+      const copies: Snippet[] = [];
+      for (const { id, tags, usageCount, createdAt, updatedAt, deletedAt, ...original } of originals) {
+        const trigger = copyTrigger(original.trigger, taken);
+        taken.add(trigger);
+        const [copy] = await tx.insert(activeSnippets).values({
+          ...original,
+          title: copyTitle(original.title),
+          trigger,
+          abbreviation: null,
+          hotkey: null,
+          updatedAt: toDbTimestamp(new Date()),
+        }).returning();
+        if (tags?.length) await this.replaceSnippetTags(tx, copy.id, tags, userId);
+        copies.push({ ...copy, tags: tags ?? [] });
+      }
+      return copies;
+    });
+  }
+
+  async tagSnippets(ids: number[], changes: TagChanges, userId: string): Promise<Snippet[] | undefined> {
+    if (!db) throw new Error("Database not available");
+    return this.inTransaction(async (tx) => {
+      const found: Snippet[] = await tx.select().from(activeSnippets)
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+      if (found.length !== ids.length) return undefined;
+      const current = await this.withTags(found, userId);
+      const tags = new Map<number, string[]>();
+      for (const snippet of current) {
+        tags.set(snippet.id, applyTagChanges(snippet.tags ?? [], changes).sort());
+        await this.replaceSnippetTags(tx, snippet.id, tags.get(snippet.id)!, userId);
+      }
+      const rows: Snippet[] = await tx.update(activeSnippets).set({ updatedAt: toDbTimestamp(new Date()) })
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId)))
+        .returning();
+      return ids.map(id => ({ ...rows.find(row => row.id === id)!, tags: tags.get(id)! }));
+    });
+  }
+
+  // Set the same columns on each of the snippets, or on none if any is missing.
+  // Returns the updated rows, without their tags, in the order of the ids.
+  private async updateSnippets(ids: number[], userId: string, values: Record<string, unknown>): Promise<Snippet[] | undefined> {
+    return this.inTransaction(async (tx) => {
+      const found = await tx.select({ id: activeSnippets.id }).from(activeSnippets)
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+      if (found.length !== ids.length) return undefined;
+      const rows: Snippet[] = await tx.update(activeSnippets).set(values)
+        .where(and(inArray(activeSnippets.id, ids), eq(activeSnippets.userId, userId)))
+        .returning();
+      return ids.map(id => rows.find(row => row.id === id)!);
+    });
+  }
+
+  // Snippet revisions
+  async getSnippetRevisions(snippetId: number, userId: string): Promise<SnippetRevision[]> {
+    if (!db) throw new Error("Database not available");
+    return await db.select().from(activeSnippetRevisions)
+      .where(and(eq(activeSnippetRevisions.snippetId, snippetId), eq(activeSnippetRevisions.userId, userId)))
+      .orderBy(desc(activeSnippetRevisions.createdAt), desc(activeSnippetRevisions.id));
+  }
+
+  async restoreSnippetRevision(snippetId: number, revisionId: number, userId: string): Promise<Snippet | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [revision] = await db.select().from(activeSnippetRevisions).where(and(
+      eq(activeSnippetRevisions.id, revisionId),
+      eq(activeSnippetRevisions.snippetId, snippetId),
+      eq(activeSnippetRevisions.userId, userId)
+    ));
+    if (!revision) return undefined;
+    // Restoring is itself an update, so the text it replaces becomes a revision too
+    return this.updateSnippet(snippetId, {
+      title: revision.title,
+      content: revision.content,
+      description: revision.description,
+    }, userId);
   }
 
   // Folders
   async getFolders(userId: string): Promise<any[]> {
     if (!db) throw new Error("Database not available");
     const activeFolders = isSQLite ? foldersSQLite : folders;
-    return await db.select().from(activeFolders).where(eq(activeFolders.userId, userId)).orderBy(activeFolders.sortOrder);
+    return await db.select().from(activeFolders).where(and(eq(activeFolders.userId, userId), isNull(activeFolders.deletedAt))).orderBy(activeFolders.sortOrder, activeFolders.id);
   }
 
   async getFolder(id: number, userId: string): Promise<any | undefined> {
     if (!db) throw new Error("Database not available");
     const activeFolders = isSQLite ? foldersSQLite : folders;
-    const result = await db.select().from(activeFolders).where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId)));
+    const result = await db.select().from(activeFolders).where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId), isNull(activeFolders.deletedAt)));
     return result[0];
   }
 
-  async createFolder(name: string, userId: string): Promise<any> {
+  async createFolder(name: string, userId: string, parentId: number | null = null): Promise<any> {
     if (!db) throw new Error("Database not available");
     const activeFolders = isSQLite ? foldersSQLite : folders;
-    const now = new Date();
+    
+    if (parentId !== null && !(await this.getFolder(parentId, userId))) {
+      throw new Error("Parent folder not found");
+    }
+    
+    // Names are unique among the folder's siblings; a trashed folder with the same name is replaced by the new one
+    const [existing] = await db.select({ id: activeFolders.id, deletedAt: activeFolders.deletedAt }).from(activeFolders)
+      .where(and(
+        eq(activeFolders.name, name),
+        eq(activeFolders.userId, userId),
+        parentId === null ? isNull(activeFolders.parentId) : eq(activeFolders.parentId, parentId)
+      ));
+    if (existing && !existing.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    if (existing) {
+      await this.purgeFromTrash("folder", existing.id, userId);
+    }
+    
+    const now = toDbTimestamp(new Date());
+    const siblings = (await this.getFolders(userId)).filter(f => parentOf(f) === parentId);
     // Create folder with userId to make it user-specific
     const [folder] = await db.insert(activeFolders).values({ 
       name, 
       userId, 
-      sortOrder: 0, 
+      parentId,
+      sortOrder: nextSortOrder(siblings), 
       createdAt: now, 
       updatedAt: now 
     }).returning();
@@ -815,31 +3019,96 @@ export class DatabaseStorage implements IStorage {
   async updateFolder(id: number, name: string, userId: string, sortOrder?: number): Promise<any | undefined> {
     if (!db) throw new Error("Database not available");
     const activeFolders = isSQLite ? foldersSQLite : folders;
-    const now = new Date();
+    const existing = await this.getFolder(id, userId);
+    if (!existing) return undefined;
+    
+    // Check if new name already exists among the folder's siblings (excluding current folder)
+    const [sibling] = await db.select({ id: activeFolders.id, deletedAt: activeFolders.deletedAt }).from(activeFolders)
+      .where(and(
+        eq(activeFolders.name, name),
+        eq(activeFolders.userId, userId),
+        ne(activeFolders.id, id),
+        existing.parentId == null ? isNull(activeFolders.parentId) : eq(activeFolders.parentId, existing.parentId)
+      ));
+    if (sibling && !sibling.deletedAt) {
+      throw new Error("Folder name already exists in this location");
+    }
+    // A trashed folder with the new name is replaced by this one, as when creating a folder
+    if (sibling) {
+      await this.purgeFromTrash("folder", sibling.id, userId);
+    }
+    
+    const now = toDbTimestamp(new Date());
     // Allow updating name and sortOrder, but only for the specific user's folder
     const updateData: any = { name, updatedAt: now };
     if (typeof sortOrder !== 'undefined') updateData.sortOrder = sortOrder;
     const [folder] = await db.update(activeFolders)
       .set(updateData)
-      .where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId)))
+      .where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId), isNull(activeFolders.deletedAt)))
       .returning();
     return folder;
   }
 
+  async moveFolder(id: number, parentId: number | null, userId: string): Promise<any | undefined> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+    
+    const folder = await this.getFolder(id, userId);
+    if (!folder) return undefined;
+    
+    const userFolders = await db.select().from(activeFolders).where(eq(activeFolders.userId, userId));
+    const replaced = checkFolderMove(userFolders, folder, parentId);
+    // A trashed folder with the same name in the destination is replaced, as when creating one
+    if (replaced) {
+      await this.purgeFromTrash("folder", replaced.id, userId);
+    }
+    
+    // It goes after the folders already there
+    const sortOrder = nextSortOrder(userFolders.filter((f: Folder) => f.id !== id && !f.deletedAt && parentOf(f) === parentId));
+    const [moved] = await db.update(activeFolders)
+      .set({ parentId, sortOrder, updatedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId)))
+      .returning();
+    return moved;
+  }
+
+  async reorderFolders(ids: number[], userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+    return this.inTransaction(async (tx) => {
+      const found = await tx.select({ id: activeFolders.id }).from(activeFolders)
+        .where(and(inArray(activeFolders.id, ids), eq(activeFolders.userId, userId), isNull(activeFolders.deletedAt)));
+      if (found.length !== new Set(ids).size) return false;
+      for (let index = 0; index < ids.length; index++) {
+        await tx.update(activeFolders).set({ sortOrder: index }).where(eq(activeFolders.id, ids[index]));
+      }
+      return true;
+    });
+  }
+
   async deleteFolder(id: number, userId: string): Promise<boolean> {
     if (!db) throw new Error("Database not available");
     const activeFolders = isSQLite ? foldersSQLite : folders;
     const activeSnippets = isSQLite ? snippetsSQLite : snippets;
     
-    // First, move all snippets from this folder to no folder (set folderId to null)
-    await db.update(activeSnippets)
-      .set({ folderId: null })
-      .where(and(eq(activeSnippets.folderId, id), eq(activeSnippets.userId, userId)));
+    const liveFolders = await this.getFolders(userId);
+    if (!liveFolders.some(folder => folder.id === id)) return false;
+    
+    // The subfolders go along with the folder
+    const ids = [id, ...descendantFolderIds(liveFolders, id)];
     
-    // Then delete the folder (only if it belongs to the user)
-    const result = await db.delete(activeFolders)
-      .where(and(eq(activeFolders.id, id), eq(activeFolders.userId, userId)));
-    return result.rowCount !== null && result.rowCount > 0;
+    // Move the folders and their snippets to the trash, all at the same moment so they come back together
+    const deletedAt = toDbTimestamp(new Date());
+    return this.inTransaction(async (tx) => {
+      await tx.update(activeSnippets)
+        .set({ deletedAt })
+        .where(and(inArray(activeSnippets.folderId, ids), eq(activeSnippets.userId, userId), isNull(activeSnippets.deletedAt)));
+      const deleted = await tx.update(activeFolders)
+        .set({ deletedAt })
+        .where(and(inArray(activeFolders.id, ids), eq(activeFolders.userId, userId), isNull(activeFolders.deletedAt)))
+        .returning();
+      return deleted.length > 0;
+    });
   }
 
   async ensureGeneralFolder(userId: string): Promise<any> {
@@ -849,18 +3118,18 @@ export class DatabaseStorage implements IStorage {
     // Check if General folder already exists for this user
     const [existingFolder] = await db.select()
       .from(activeFolders)
-      .where(and(eq(activeFolders.name, "General"), eq(activeFolders.userId, userId)));
+      .where(and(eq(activeFolders.name, "General"), eq(activeFolders.userId, userId), isNull(activeFolders.parentId), isNull(activeFolders.deletedAt)));
     
     if (existingFolder) {
       return existingFolder;
     }
     
     // Create General folder if it doesn't exist
-    const now = new Date();
+    const now = toDbTimestamp(new Date());
     const [generalFolder] = await db.insert(activeFolders).values({
       name: "General",
       userId,
-      sortOrder: 0,
+      sortOrder: nextSortOrder((await this.getFolders(userId)).filter(folder => parentOf(folder) === null)),
       createdAt: now,
       updatedAt: now
     }).returning();
@@ -871,7 +3140,34 @@ export class DatabaseStorage implements IStorage {
   // Clipboard
   async getClipboardItems(userId: string): Promise<ClipboardItem[]> {
     if (!db) throw new Error("Database not available");
-    return await db.select().from(activeClipboardItems).where(eq(activeClipboardItems.userId, userId)).orderBy(desc(activeClipboardItems.createdAt)).limit(100);
+    // Pruning keeps this to the history limit plus the pinned items
+    return await db.select().from(activeClipboardItems).where(and(eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt))).orderBy(desc(activeClipboardItems.pinned), desc(activeClipboardItems.createdAt));
+  }
+
+  async getClipboardPage({ type, since, until, after, limit }: ClipboardListQuery, userId: string): Promise<ListPage<ClipboardItem>> {
+    if (!db) throw new Error("Database not available");
+    const columns = [activeClipboardItems.pinned, pageTimestamp(activeClipboardItems.createdAt), activeClipboardItems.id];
+    const query = db.select().from(activeClipboardItems)
+      .where(and(
+        eq(activeClipboardItems.userId, userId),
+        isNull(activeClipboardItems.deletedAt),
+        type ? eq(activeClipboardItems.type, type) : undefined,
+        since ? gte(activeClipboardItems.createdAt, toDbTimestamp(since)) : undefined,
+        until ? lt(activeClipboardItems.createdAt, toDbTimestamp(until)) : undefined,
+        after ? afterSortKey(columns, [after[0], pageTimestampValue(after[1] as number), after[2]], "desc") : undefined,
+      ))
+      .orderBy(...columns.map(column => desc(column)));
+    const rows: ClipboardItem[] = await (limit === undefined ? query : query.limit(limit + 1));
+    return toListPage(rows, limit, row => clipboardSortKey({ ...row, createdAt: fromDbTimestamp(row.createdAt) }));
+  }
+
+  async getClipboardTypeCounts(userId: string): Promise<ClipboardTypeCount[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select({ type: activeClipboardItems.type, count: sql<number>`count(*)` })
+      .from(activeClipboardItems)
+      .where(and(eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt)))
+      .groupBy(activeClipboardItems.type);
+    return clipboardTypeCounts(rows);
   }
 
   async createClipboardItem(item: InsertClipboardItem, userId: string): Promise<ClipboardItem> {
@@ -883,63 +3179,662 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         eq(activeClipboardItems.content, item.content),
         eq(activeClipboardItems.type, item.type || "text"),
-        gt(activeClipboardItems.createdAt, fiveSecondsAgo),
-        eq(activeClipboardItems.userId, userId)
+        gt(activeClipboardItems.createdAt, toDbTimestamp(fiveSecondsAgo)),
+        eq(activeClipboardItems.userId, userId),
+        isNull(activeClipboardItems.deletedAt)
       ));
     if (recentItems.length > 0) {
       return recentItems[0];
     }
     const [newItem] = await db.insert(activeClipboardItems).values({ ...item, userId }).returning();
-    // Clean up old items beyond limit
-    const allItems = await db.select().from(activeClipboardItems).where(eq(activeClipboardItems.userId, userId)).orderBy(desc(activeClipboardItems.createdAt));
-    if (allItems.length > 100) {
-      const toDelete = allItems.slice(100);
-      for (const item of toDelete) {
-        await db.delete(activeClipboardItems).where(eq(activeClipboardItems.id, item.id));
-      }
-    }
+    await this.pruneClipboardHistory(userId);
     return newItem;
   }
 
   async deleteClipboardItem(id: number, userId: string): Promise<boolean> {
     if (!db) throw new Error("Database not available");
-    const result = await db.delete(activeClipboardItems).where(and(eq(activeClipboardItems.id, id), eq(activeClipboardItems.userId, userId)));
-    return result.rowCount !== null && result.rowCount > 0;
+    const deleted = await db.update(activeClipboardItems)
+      .set({ deletedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeClipboardItems.id, id), eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async clearClipboardHistory(userId: string): Promise<number[]> {
+    if (!db) throw new Error("Database not available");
+    const cleared = await db.update(activeClipboardItems)
+      .set({ deletedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt), eq(activeClipboardItems.pinned, 0)))
+      .returning({ id: activeClipboardItems.id });
+    return cleared.map((row: { id: number }) => row.id);
+  }
+
+  async deleteClipboardItems(ids: number[], userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    return (await this.updateClipboardItems(ids, userId, { deletedAt: toDbTimestamp(new Date()) })) !== undefined;
+  }
+
+  async setClipboardItemsPinned(ids: number[], pinned: boolean, userId: string): Promise<ClipboardItem[] | undefined> {
+    if (!db) throw new Error("Database not available");
+    const updated = await this.updateClipboardItems(ids, userId, { pinned: pinned ? 1 : 0 });
+    // Unpinning can leave the history over its limit
+    if (updated && !pinned) await this.pruneClipboardHistory(userId);
+    return updated;
+  }
+
+  // Set the same columns on each of the items, or on none if any is missing
+  private async updateClipboardItems(ids: number[], userId: string, values: Record<string, unknown>): Promise<ClipboardItem[] | undefined> {
+    return this.inTransaction(async (tx) => {
+      const found = await tx.select({ id: activeClipboardItems.id }).from(activeClipboardItems)
+        .where(and(inArray(activeClipboardItems.id, ids), eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt)));
+      if (found.length !== ids.length) return undefined;
+      const rows: ClipboardItem[] = await tx.update(activeClipboardItems).set(values)
+        .where(and(inArray(activeClipboardItems.id, ids), eq(activeClipboardItems.userId, userId)))
+        .returning();
+      return ids.map(id => rows.find(row => row.id === id)!);
+    });
   }
 
-  async clearClipboardHistory(userId: string): Promise<void> {
+  async setClipboardItemPinned(id: number, pinned: boolean, userId: string): Promise<ClipboardItem | undefined> {
     if (!db) throw new Error("Database not available");
-    await db.delete(activeClipboardItems).where(eq(activeClipboardItems.userId, userId));
+    const [updated] = await db.update(activeClipboardItems)
+      .set({ pinned: pinned ? 1 : 0 })
+      .where(and(eq(activeClipboardItems.id, id), eq(activeClipboardItems.userId, userId), isNull(activeClipboardItems.deletedAt)))
+      .returning();
+    // Unpinning can leave the history over its limit
+    if (updated && !pinned) await this.pruneClipboardHistory(userId);
+    return updated;
+  }
+
+  async pruneClipboardHistory(userId?: string): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const owners: string[] = userId ? [userId] : (await db.selectDistinct({ userId: activeClipboardItems.userId })
+      .from(activeClipboardItems)
+      .where(isNull(activeClipboardItems.deletedAt))).map((row: { userId: string }) => row.userId);
+    let pruned = 0;
+    for (const owner of owners) {
+      const settings = await this.getSettings(owner);
+      const items = await db.select({ id: activeClipboardItems.id, createdAt: activeClipboardItems.createdAt, pinned: activeClipboardItems.pinned })
+        .from(activeClipboardItems)
+        .where(and(eq(activeClipboardItems.userId, owner), isNull(activeClipboardItems.deletedAt)));
+      const toDelete = clipboardItemsToPrune(items.map((item: any) => ({ ...item, createdAt: fromDbTimestamp(item.createdAt) })), settings);
+      if (toDelete.length > 0) {
+        await db.delete(activeClipboardItems).where(inArray(activeClipboardItems.id, toDelete));
+        pruned += toDelete.length;
+      }
+    }
+    return pruned;
   }
 
   // Settings
-  async getSettings(): Promise<Settings> {
+  async getSettings(userId: string): Promise<Settings> {
     if (!db) throw new Error("Database not available");
-    const [setting] = await db.select().from(activeSettings).limit(1);
+    const [setting] = await db.select().from(activeSettings).where(eq(activeSettings.userId, userId)).limit(1);
     if (!setting) {
-      // Create default settings
-      const [newSettings] = await db.insert(activeSettings).values({
-        snippetShortcut: "ctrl+;",
-        clipboardShortcut: "ctrl+shift+v",
-        clipboardEnabled: 1,
-        historyLimit: 100,
-        launchOnStartup: 0,
-        theme: "light"
-      }).returning();
-      return newSettings;
+      // Create default settings for this user; a concurrent request may win the
+      // insert, in which case the unique user_id index rejects ours and we re-read
+      const [newSettings] = await db.insert(activeSettings)
+        .values({ ...DEFAULT_SETTINGS, userId })
+        .onConflictDoNothing()
+        .returning();
+      if (newSettings) {
+        return newSettings;
+      }
+      const [existing] = await db.select().from(activeSettings).where(eq(activeSettings.userId, userId)).limit(1);
+      return existing;
     }
     return setting;
   }
 
-  async updateSettings(updateData: Partial<InsertSettings>): Promise<Settings> {
+  async updateSettings(updateData: Partial<InsertSettings>, userId: string): Promise<Settings> {
     if (!db) throw new Error("Database not available");
-    const currentSettings = await this.getSettings();
+    const currentSettings = await this.getSettings(userId);
     const [updated] = await db.update(activeSettings)
       .set(updateData)
-      .where(eq(activeSettings.id, currentSettings.id))
+      .where(and(eq(activeSettings.id, currentSettings.id), eq(activeSettings.userId, userId)))
       .returning();
     return updated;
   }
+
+  // Trash
+  async getTrash(userId: string): Promise<TrashEntry[]> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+    await this.purgeExpiredTrash(userId);
+
+    const [trashedSnippets, trashedFolders, trashedItems] = await Promise.all([
+      db.select().from(activeSnippets).where(and(eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt))),
+      db.select().from(activeFolders).where(and(eq(activeFolders.userId, userId), isNotNull(activeFolders.deletedAt))),
+      db.select().from(activeClipboardItems).where(and(eq(activeClipboardItems.userId, userId), isNotNull(activeClipboardItems.deletedAt))),
+    ]);
+    const entries: TrashEntry[] = [
+      ...trashedSnippets
+        .filter((item: Snippet) => !trashedWithFolder(trashedFolders, item))
+        .map((item: Snippet) => ({ type: "snippet" as const, item, deletedAt: fromDbTimestamp(item.deletedAt!) })),
+      ...trashedFolders
+        .filter((item: Folder) => !trashedWithParent(trashedFolders, item))
+        .map((item: Folder) => ({ type: "folder" as const, item, deletedAt: fromDbTimestamp(item.deletedAt!) })),
+      ...trashedItems.map((item: ClipboardItem) => ({ type: "clipboard" as const, item, deletedAt: fromDbTimestamp(item.deletedAt!) })),
+    ];
+    return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  async restoreFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+
+    if (type === "snippet") {
+      const [snippet] = await db.select().from(activeSnippets)
+        .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt)));
+      if (!snippet) return false;
+      await checkSnippetRestorable(this, snippet, userId);
+      // Snippets whose folder is gone go back to General
+      let folderId = snippet.folderId;
+      if (folderId && !(await this.getFolder(folderId, userId))) {
+        folderId = (await this.ensureGeneralFolder(userId)).id;
+      }
+      await db.update(activeSnippets).set({ folderId, deletedAt: null }).where(eq(activeSnippets.id, id));
+      return true;
+    }
+
+    if (type === "folder") {
+      const userFolders = await db.select().from(activeFolders).where(eq(activeFolders.userId, userId));
+      const folder = userFolders.find((f: Folder) => f.id === id && f.deletedAt);
+      if (!folder) return false;
+      const parentId = restoredParentId(userFolders, folder);
+      if (userFolders.some((f: Folder) => f.name === folder.name && parentOf(f) === parentId && !f.deletedAt)) {
+        throw new Error("Folder name already exists in this location");
+      }
+      const ids = foldersTrashedWith(userFolders, id);
+      const trashedSnippets: Snippet[] = (await db.select().from(activeSnippets)
+        .where(and(inArray(activeSnippets.folderId, ids), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt))))
+        .filter((snippet: Snippet) => trashedWithFolder(userFolders, snippet));
+      for (const snippet of trashedSnippets) {
+        await checkSnippetRestorable(this, snippet, userId);
+      }
+      await this.inTransaction(async (tx) => {
+        if (trashedSnippets.length > 0) {
+          await tx.update(activeSnippets).set({ deletedAt: null }).where(inArray(activeSnippets.id, trashedSnippets.map(snippet => snippet.id)));
+        }
+        await tx.update(activeFolders).set({ deletedAt: null }).where(inArray(activeFolders.id, ids));
+        await tx.update(activeFolders).set({ parentId }).where(eq(activeFolders.id, id));
+      });
+      return true;
+    }
+
+    const restored = await db.update(activeClipboardItems)
+      .set({ deletedAt: null })
+      .where(and(eq(activeClipboardItems.id, id), eq(activeClipboardItems.userId, userId), isNotNull(activeClipboardItems.deletedAt)))
+      .returning();
+    return restored.length > 0;
+  }
+
+  async purgeFromTrash(type: TrashItemType, id: number, userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+
+    if (type === "snippet") {
+      // PostgreSQL cascades revisions and tag links through the foreign keys, SQLite does not
+      const [target] = await db.select({ id: activeSnippets.id }).from(activeSnippets)
+        .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt)));
+      if (!target) return false;
+      await db.delete(activeSnippetRevisions).where(and(eq(activeSnippetRevisions.snippetId, id), eq(activeSnippetRevisions.userId, userId)));
+      await db.delete(activeSnippetTags).where(eq(activeSnippetTags.snippetId, id));
+      const purged = await db.delete(activeSnippets)
+        .where(and(eq(activeSnippets.id, id), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt)))
+        .returning();
+      return purged.length > 0;
+    }
+
+    if (type === "folder") {
+      const userFolders = await db.select().from(activeFolders).where(eq(activeFolders.userId, userId));
+      const ids = foldersTrashedWith(userFolders, id);
+      if (ids.length === 0) return false;
+      // The snippets trashed with the folders go with them
+      const trashedSnippets: Snippet[] = (await db.select().from(activeSnippets)
+        .where(and(inArray(activeSnippets.folderId, ids), eq(activeSnippets.userId, userId), isNotNull(activeSnippets.deletedAt))))
+        .filter((snippet: Snippet) => trashedWithFolder(userFolders, snippet));
+      for (const snippet of trashedSnippets) {
+        await this.purgeFromTrash("snippet", snippet.id, userId);
+      }
+      await this.inTransaction(async (tx) => {
+        // Snippets trashed on their own may still point at the folders
+        await tx.update(activeSnippets)
+          .set({ folderId: null })
+          .where(and(inArray(activeSnippets.folderId, ids), eq(activeSnippets.userId, userId)));
+        // Subfolders trashed on their own earlier are restored to the top level from now on
+        await tx.update(activeFolders)
+          .set({ parentId: null })
+          .where(and(inArray(activeFolders.parentId, ids), eq(activeFolders.userId, userId)));
+        await tx.delete(activeFolders)
+          .where(and(inArray(activeFolders.id, ids), eq(activeFolders.userId, userId)));
+      });
+      return true;
+    }
+
+    const purged = await db.delete(activeClipboardItems)
+      .where(and(eq(activeClipboardItems.id, id), eq(activeClipboardItems.userId, userId), isNotNull(activeClipboardItems.deletedAt)))
+      .returning();
+    return purged.length > 0;
+  }
+
+  async emptyTrash(userId: string): Promise<void> {
+    for (const entry of await this.getTrash(userId)) {
+      await this.purgeFromTrash(entry.type, entry.item.id, userId);
+    }
+  }
+
+  async purgeExpiredTrash(userId?: string): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+    const owner = (table: any) => userId ? and(isNotNull(table.deletedAt), eq(table.userId, userId)) : isNotNull(table.deletedAt);
+
+    const trashed: Array<{ type: TrashItemType; id: number; userId: string; deletedAt: Date }> = [];
+    for (const [type, table] of [["snippet", activeSnippets], ["folder", activeFolders], ["clipboard", activeClipboardItems]] as const) {
+      const rows = await db.select({ id: table.id, userId: table.userId, deletedAt: table.deletedAt }).from(table).where(owner(table));
+      trashed.push(...rows.map((row: any) => ({ type, id: row.id, userId: row.userId, deletedAt: fromDbTimestamp(row.deletedAt) })));
+    }
+
+    let purged = 0;
+    const retentionCutoffs = new Map<string, number>();
+    for (const item of trashed) {
+      if (!retentionCutoffs.has(item.userId)) {
+        const { trashRetentionDays } = await this.getSettings(item.userId);
+        retentionCutoffs.set(item.userId, Date.now() - trashRetentionDays * DAY_MS);
+      }
+      if (item.deletedAt.getTime() < retentionCutoffs.get(item.userId)!) {
+        if (await this.purgeFromTrash(item.type, item.id, item.userId)) purged++;
+      }
+    }
+    return purged;
+  }
+
+  // Accounts
+  async getAccount(userId: string): Promise<Account | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [account] = await db.select().from(activeAccounts).where(eq(activeAccounts.userId, userId)).limit(1);
+    return account ? toAccount(account) : undefined;
+  }
+
+  async getAccountByLoginKey(loginKey: string): Promise<Account | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [account] = await db.select().from(activeAccounts).where(eq(activeAccounts.loginKey, loginKey)).limit(1);
+    return account ? toAccount(account) : undefined;
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    if (!db) throw new Error("Database not available");
+    // A concurrent first login may create the account first; the unique user_id index rejects ours
+    const [account] = await db.insert(activeAccounts)
+      .values(insertAccount)
+      .onConflictDoNothing()
+      .returning();
+    if (!account) throw new Error("An account with this user id already exists");
+    return toAccount(account);
+  }
+
+  async recordLogin(userId: string): Promise<void> {
+    if (!db) throw new Error("Database not available");
+    await db.update(activeAccounts)
+      .set({ lastLoginAt: toDbTimestamp(new Date()) })
+      .where(eq(activeAccounts.userId, userId));
+  }
+
+  async updateAccountCredentials(userId: string, update: AccountCredentialsUpdate): Promise<Account> {
+    if (!db) throw new Error("Database not available");
+    const holder = await this.getAccountByLoginKey(update.loginKey);
+    if (holder && holder.userId !== userId) throw new Error("Those credentials are already in use");
+    const activeFolders = isSQLite ? foldersSQLite : folders;
+
+    return this.inTransaction(async (tx) => {
+      const [account] = await tx.update(activeAccounts)
+        .set(update)
+        .where(eq(activeAccounts.userId, userId))
+        .returning();
+      if (!account) throw new Error("Account not found");
+      if (update.userId !== userId) {
+        for (const table of [activeSnippets, activeSnippetRevisions, activeTags, activeFolders, activeClipboardItems, activeSettings, activeAuthSessions, activeApiTokens, activeShareLinks]) {
+          await tx.update(table).set({ userId: update.userId }).where(eq(table.userId, userId));
+        }
+      }
+      return toAccount(account);
+    });
+  }
+
+  // Auth sessions
+  async createAuthSession(session: InsertAuthSession): Promise<AuthSession> {
+    if (!db) throw new Error("Database not available");
+    const now = toDbTimestamp(new Date());
+    const [created] = await db.insert(activeAuthSessions)
+      .values({ ...session, expiresAt: toDbTimestamp(session.expiresAt), createdAt: now, lastSeenAt: now })
+      .returning();
+    return toAuthSession(created);
+  }
+
+  async getAuthSessionByTokenHash(tokenHash: string): Promise<AuthSession | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [session] = await db.select().from(activeAuthSessions).where(eq(activeAuthSessions.tokenHash, tokenHash)).limit(1);
+    return session ? toAuthSession(session) : undefined;
+  }
+
+  async getAuthSessions(userId: string): Promise<AuthSession[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select().from(activeAuthSessions)
+      .where(and(
+        eq(activeAuthSessions.userId, userId),
+        isNull(activeAuthSessions.revokedAt),
+        gt(activeAuthSessions.expiresAt, toDbTimestamp(new Date())),
+      ))
+      .orderBy(desc(activeAuthSessions.lastSeenAt));
+    return rows.map(toAuthSession);
+  }
+
+  async touchAuthSession(id: number, expiresAt: Date): Promise<void> {
+    if (!db) throw new Error("Database not available");
+    await db.update(activeAuthSessions)
+      .set({ lastSeenAt: toDbTimestamp(new Date()), expiresAt: toDbTimestamp(expiresAt) })
+      .where(eq(activeAuthSessions.id, id));
+  }
+
+  async revokeAuthSession(id: number, userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const revoked = await db.update(activeAuthSessions)
+      .set({ revokedAt: toDbTimestamp(new Date()) })
+      .where(and(
+        eq(activeAuthSessions.id, id),
+        eq(activeAuthSessions.userId, userId),
+        isNull(activeAuthSessions.revokedAt),
+        gt(activeAuthSessions.expiresAt, toDbTimestamp(new Date())),
+      ))
+      .returning({ id: activeAuthSessions.id });
+    return revoked.length > 0;
+  }
+
+  async revokeAuthSessions(userId: string, exceptId?: number): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const conditions = [
+      eq(activeAuthSessions.userId, userId),
+      isNull(activeAuthSessions.revokedAt),
+      gt(activeAuthSessions.expiresAt, toDbTimestamp(new Date())),
+    ];
+    if (exceptId !== undefined) conditions.push(ne(activeAuthSessions.id, exceptId));
+    const revoked = await db.update(activeAuthSessions)
+      .set({ revokedAt: toDbTimestamp(new Date()) })
+      .where(and(...conditions))
+      .returning({ id: activeAuthSessions.id });
+    return revoked.length;
+  }
+
+  async purgeExpiredAuthSessions(): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const purged = await db.delete(activeAuthSessions)
+      .where(or(
+        isNotNull(activeAuthSessions.revokedAt),
+        lte(activeAuthSessions.expiresAt, toDbTimestamp(new Date())),
+      ))
+      .returning({ id: activeAuthSessions.id });
+    return purged.length;
+  }
+
+  // API tokens
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    if (!db) throw new Error("Database not available");
+    const [created] = await db.insert(activeApiTokens)
+      .values({
+        ...token,
+        expiresAt: token.expiresAt == null ? null : toDbTimestamp(token.expiresAt),
+        createdAt: toDbTimestamp(new Date()),
+      })
+      .returning();
+    return toApiToken(created);
+  }
+
+  async getApiTokenByTokenHash(tokenHash: string): Promise<ApiToken | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [token] = await db.select().from(activeApiTokens).where(eq(activeApiTokens.tokenHash, tokenHash)).limit(1);
+    return token ? toApiToken(token) : undefined;
+  }
+
+  async getApiTokens(userId: string): Promise<ApiToken[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select().from(activeApiTokens)
+      .where(and(
+        eq(activeApiTokens.userId, userId),
+        isNull(activeApiTokens.revokedAt),
+        or(isNull(activeApiTokens.expiresAt), gt(activeApiTokens.expiresAt, toDbTimestamp(new Date()))),
+      ))
+      .orderBy(desc(activeApiTokens.createdAt), desc(activeApiTokens.id));
+    return rows.map(toApiToken);
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    if (!db) throw new Error("Database not available");
+    await db.update(activeApiTokens)
+      .set({ lastUsedAt: toDbTimestamp(new Date()) })
+      .where(eq(activeApiTokens.id, id));
+  }
+
+  async revokeApiToken(id: number, userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const revoked = await db.update(activeApiTokens)
+      .set({ revokedAt: toDbTimestamp(new Date()) })
+      .where(and(
+        eq(activeApiTokens.id, id),
+        eq(activeApiTokens.userId, userId),
+        isNull(activeApiTokens.revokedAt),
+        or(isNull(activeApiTokens.expiresAt), gt(activeApiTokens.expiresAt, toDbTimestamp(new Date()))),
+      ))
+      .returning({ id: activeApiTokens.id });
+    return revoked.length > 0;
+  }
+
+  async purgeExpiredApiTokens(): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const purged = await db.delete(activeApiTokens)
+      .where(or(
+        isNotNull(activeApiTokens.revokedAt),
+        lte(activeApiTokens.expiresAt, toDbTimestamp(new Date())),
+      ))
+      .returning({ id: activeApiTokens.id });
+    return purged.length;
+  }
+
+  // Share links
+  async createShareLink(link: InsertShareLink): Promise<ShareLink> {
+    if (!db) throw new Error("Database not available");
+    const [created] = await db.insert(activeShareLinks)
+      .values({
+        ...link,
+        expiresAt: link.expiresAt == null ? null : toDbTimestamp(link.expiresAt),
+        createdAt: toDbTimestamp(new Date()),
+      })
+      .returning();
+    return toShareLink(created);
+  }
+
+  async getShareLinkByTokenHash(tokenHash: string): Promise<ShareLink | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [link] = await db.select().from(activeShareLinks).where(eq(activeShareLinks.tokenHash, tokenHash)).limit(1);
+    return link ? toShareLink(link) : undefined;
+  }
+
+  // Conditions for a link that still opens; see isActiveShareLink
+  private activeShareLinkConditions() {
+    return [
+      isNull(activeShareLinks.revokedAt),
+      or(isNull(activeShareLinks.expiresAt), gt(activeShareLinks.expiresAt, toDbTimestamp(new Date()))),
+      or(isNull(activeShareLinks.maxViews), lt(activeShareLinks.viewCount, activeShareLinks.maxViews)),
+    ];
+  }
+
+  async getShareLinks(userId: string): Promise<ShareLink[]> {
+    if (!db) throw new Error("Database not available");
+    const rows = await db.select().from(activeShareLinks)
+      .where(and(eq(activeShareLinks.userId, userId), ...this.activeShareLinkConditions()))
+      .orderBy(desc(activeShareLinks.createdAt), desc(activeShareLinks.id));
+    return rows.map(toShareLink);
+  }
+
+  // One conditional update, so concurrent views cannot go past the limit
+  async recordShareLinkView(id: number): Promise<ShareLink | undefined> {
+    if (!db) throw new Error("Database not available");
+    const [link] = await db.update(activeShareLinks)
+      .set({ viewCount: sql`${activeShareLinks.viewCount} + 1`, lastViewedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeShareLinks.id, id), ...this.activeShareLinkConditions()))
+      .returning();
+    return link ? toShareLink(link) : undefined;
+  }
+
+  async revokeShareLink(id: number, userId: string): Promise<boolean> {
+    if (!db) throw new Error("Database not available");
+    const revoked = await db.update(activeShareLinks)
+      .set({ revokedAt: toDbTimestamp(new Date()) })
+      .where(and(eq(activeShareLinks.id, id), eq(activeShareLinks.userId, userId), ...this.activeShareLinkConditions()))
+      .returning({ id: activeShareLinks.id });
+    return revoked.length > 0;
+  }
+
+  async purgeExpiredShareLinks(): Promise<number> {
+    if (!db) throw new Error("Database not available");
+    const purged = await db.delete(activeShareLinks)
+      .where(or(
+        isNotNull(activeShareLinks.revokedAt),
+        lte(activeShareLinks.expiresAt, toDbTimestamp(new Date())),
+        gte(activeShareLinks.viewCount, activeShareLinks.maxViews),
+      ))
+      .returning({ id: activeShareLinks.id });
+    return purged.length;
+  }
+
+  // Search
+  async search(userId: string, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+    if (!db) throw new Error("Database not available");
+    const kinds = options.kinds ?? ["snippet", "clipboard"];
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const results: SearchResult[] = [];
+    if (isSQLite) {
+      if (kinds.includes("snippet")) {
+        const ranked = await this.searchSQLiteFts("snippets_fts", "snippets", terms, userId, limit);
+        const rows: Snippet[] = ranked.length > 0
+          ? await db.select().from(snippetsSQLite).where(inArray(snippetsSQLite.id, ranked.map(r => r.id)))
+          : [];
+        for (const { id, score } of ranked) {
+          const row = rows.find(r => r.id === id);
+          if (row) results.push(toSnippetResult(row, score, query));
+        }
+      }
+      if (kinds.includes("clipboard")) {
+        const ranked = await this.searchSQLiteFts("clipboard_items_fts", "clipboard_items", terms, userId, limit);
+        const rows: ClipboardItem[] = ranked.length > 0
+          ? await db.select().from(clipboardItemsSQLite).where(inArray(clipboardItemsSQLite.id, ranked.map(r => r.id)))
+          : [];
+        for (const { id, score } of ranked) {
+          const row = rows.find(r => r.id === id);
+          if (row) results.push(toClipboardResult(row, score, query));
+        }
+      }
+      return this.withResultTags(mergeSearchResults(results, limit), userId);
+    }
+
+    // PostgreSQL: prefix matching through the tsvector index, typo tolerance through pg_trgm
+    const tsQuery = terms.map(term => `${term}:*`).join(" | ");
+    if (kinds.includes("snippet")) {
+      const score = sql<number>`ts_rank_cd(snippets.search_vector, to_tsquery('simple', ${tsQuery})) + word_similarity(${query}, ${snippets.title})`;
+      const rows = await db.select({ item: snippets, score })
+        .from(snippets)
+        .where(and(
+          eq(snippets.userId, userId),
+          isNull(snippets.deletedAt),
+          sql`(snippets.search_vector @@ to_tsquery('simple', ${tsQuery})
+            OR word_similarity(${query}, ${snippets.title}) > 0.4
+            OR word_similarity(${query}, ${snippets.content}) > 0.4)`
+        ))
+        .orderBy(desc(score))
+        .limit(limit);
+      results.push(...rows.map((r: { item: Snippet; score: number }) => toSnippetResult(r.item, Number(r.score), query)));
+    }
+    if (kinds.includes("clipboard")) {
+      const score = sql<number>`ts_rank_cd(clipboard_items.search_vector, to_tsquery('simple', ${tsQuery})) + word_similarity(${query}, ${clipboardItems.content})`;
+      const rows = await db.select({ item: clipboardItems, score })
+        .from(clipboardItems)
+        .where(and(
+          eq(clipboardItems.userId, userId),
+          isNull(clipboardItems.deletedAt),
+          sql`(clipboard_items.search_vector @@ to_tsquery('simple', ${tsQuery})
+            OR word_similarity(${query}, ${clipboardItems.content}) > 0.4)`
+        ))
+        .orderBy(desc(score))
+        .limit(limit);
+      results.push(...rows.map((r: { item: ClipboardItem; score: number }) => toClipboardResult(r.item, Number(r.score), query)));
+    }
+    return this.withResultTags(mergeSearchResults(results, limit), userId);
+  }
+
+  // Snippets found come with their tag names, like snippets everywhere else
+  private async withResultTags(results: SearchResult[], userId: string): Promise<SearchResult[]> {
+    const tagged = await this.withTags(results.flatMap(result => result.kind === "snippet" ? [result.item] : []), userId);
+    return results.map(result => result.kind === "snippet"
+      ? { ...result, item: tagged.find(snippet => snippet.id === result.item.id)! }
+      : result);
+  }
+
+  // Run fn inside a transaction. better-sqlite3 cannot hold a transaction open
+  // across awaits through drizzle, so SQLite gets explicit BEGIN and COMMIT on
+  // its one connection, one transaction at a time. fn must only await the
+  // database: its statements then all run in one turn of the event loop, and
+  // only work already in flight in that turn, like a Promise.all sibling, can
+  // run in between.
+  private async inTransaction<T>(fn: (tx: any) => Promise<T>): Promise<T> {
+    if (!isSQLite) return db.transaction(fn);
+    const previous = this.sqliteTransaction;
+    let done!: () => void;
+    this.sqliteTransaction = new Promise<void>(resolve => { done = resolve; });
+    await previous;
+    try {
+      await db.run(sql`BEGIN`);
+      try {
+        const result = await fn(db);
+        await db.run(sql`COMMIT`);
+        return result;
+      } catch (error) {
+        await db.run(sql`ROLLBACK`);
+        throw error;
+      }
+    } finally {
+      done();
+    }
+  }
+
+  // Rank rows of an FTS5 table for the given query terms. Each term also matches
+  // indexed words that start with it or are within a typo or two of it, looked
+  // up through the table's fts5vocab companion.
+  private async searchSQLiteFts(ftsTable: string, contentTable: string, terms: string[], userId: string, limit: number): Promise<Array<{ id: number; score: number }>> {
+    const alternatives: string[] = [];
+    for (const term of terms) {
+      const maxEdits = maxEditsFor(term);
+      const vocab: Array<{ term: string }> = maxEdits > 0
+        ? await db.all(sql`SELECT term FROM ${sql.raw(`${ftsTable}_vocab`)} WHERE length(term) BETWEEN ${term.length - maxEdits} AND ${term.length + maxEdits}`)
+        : [];
+      const similar = vocab
+        .map(row => row.term)
+        .filter(candidate => candidate !== term && editDistance(term, candidate, maxEdits) <= maxEdits);
+      alternatives.push(`"${term}"*`, ...similar.map(candidate => `"${candidate}"`));
+    }
+
+    const rows: Array<{ id: number; rank: number }> = await db.all(sql`
+      SELECT rowid AS id, bm25(${sql.raw(ftsTable)}) AS rank
+      FROM ${sql.raw(ftsTable)}
+      WHERE ${sql.raw(ftsTable)} MATCH ${alternatives.join(" OR ")}
+        AND rowid IN (SELECT id FROM ${sql.raw(contentTable)} WHERE user_id = ${userId} AND deleted_at IS NULL)
+      ORDER BY rank
+      LIMIT ${limit}
+    `);
+    // bm25() is lower-is-better; flip it so scores sort like the other backends
+    return rows.map(row => ({ id: row.id, score: -row.rank }));
+  }
 }
 
 // Use database storage if available (PostgreSQL or SQLite), otherwise use file storage for persistence
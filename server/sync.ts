@@ -0,0 +1,155 @@
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import type { Server } from "http";
+import { authenticateRequest, getSession } from "./auth";
+import {
+  SYNC_PATH,
+  SYNC_CLOSE_UNAUTHORIZED,
+  SYNC_CLOSE_SIGNED_OUT,
+  type SyncEvent,
+  type SyncHello,
+  type SyncServerMessage,
+} from "@shared/sync";
+
+const HELLO_TIMEOUT_MS = 10 * 1000;
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+interface SyncClient {
+  socket: WebSocket;
+  userId: string;
+  sessionId?: number;
+  // To check the session again later; unset for the development userId fallback
+  sessionToken?: string;
+  alive: boolean;
+}
+
+const clients = new Set<SyncClient>();
+
+function send(socket: WebSocket, message: SyncServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function parseHello(data: RawData): SyncHello | null {
+  try {
+    const message = JSON.parse(data.toString());
+    return message?.type === "hello" ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+// Accept sync connections on the API's HTTP server. Browsers cannot set headers
+// on a WebSocket, so the session token arrives in the first message instead.
+export function setupSync(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    // Vite's HMR socket shares this server in development; leave other paths alone
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== SYNC_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit("connection", ws));
+  });
+
+  wss.on("connection", (socket: WebSocket) => {
+    const helloTimer = setTimeout(() => socket.close(SYNC_CLOSE_UNAUTHORIZED, "Authentication required"), HELLO_TIMEOUT_MS);
+
+    socket.once("message", async (data) => {
+      clearTimeout(helloTimer);
+      const hello = parseHello(data);
+      try {
+        const user = hello && await authenticateRequest(hello.sessionToken, hello.userId);
+        if (!user) {
+          socket.close(SYNC_CLOSE_UNAUTHORIZED, "Authentication required");
+          return;
+        }
+        if (socket.readyState !== WebSocket.OPEN) return;
+        const client: SyncClient = {
+          socket,
+          userId: user.userId,
+          sessionId: user.sessionId,
+          sessionToken: user.sessionId !== undefined ? hello.sessionToken : undefined,
+          alive: true,
+        };
+        clients.add(client);
+        socket.on("pong", () => { client.alive = true; });
+        socket.on("close", () => clients.delete(client));
+        send(socket, { type: "ready" });
+      } catch (error) {
+        console.error("[sync] authentication failed:", error);
+        socket.close(1011, "Authentication failed");
+      }
+    });
+  });
+
+  // Drop connections that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    Array.from(clients).forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  const sessionCheck = setInterval(() => void recheckSessions(), SESSION_CHECK_INTERVAL_MS);
+  sessionCheck.unref();
+  wss.on("close", () => {
+    clearInterval(heartbeat);
+    clearInterval(sessionCheck);
+  });
+}
+
+// The session is checked at hello; this closes connections whose session ran
+// out since, or was revoked without disconnectSession, e.g. by another server process
+export async function recheckSessions() {
+  for (const client of Array.from(clients)) {
+    if (!client.sessionToken) continue;
+    try {
+      const session = await getSession(client.sessionToken);
+      if (!session) {
+        client.socket.close(SYNC_CLOSE_UNAUTHORIZED, "Session ended");
+        clients.delete(client);
+      }
+    } catch (error) {
+      console.error("[sync] session check failed:", error);
+    }
+  }
+}
+
+// Push a change to every open connection of the user
+export function notifyUser(userId: string, event: SyncEvent) {
+  Array.from(clients).forEach(client => {
+    if (client.userId === userId) send(client.socket, event);
+  });
+}
+
+function signOut(client: SyncClient) {
+  client.socket.close(SYNC_CLOSE_SIGNED_OUT, "Signed out");
+  clients.delete(client);
+}
+
+// Close the connections of a session that was signed out
+export function disconnectSession(sessionId: number) {
+  Array.from(clients).forEach(client => {
+    if (client.sessionId === sessionId) signOut(client);
+  });
+}
+
+// Close the user's connections except those of keepSessionId
+export function disconnectOtherSessions(userId: string, keepSessionId?: number) {
+  Array.from(clients).forEach(client => {
+    if (client.userId === userId && client.sessionId !== keepSessionId) signOut(client);
+  });
+}
+
+// Follow the user's data to a new id after their credentials changed
+export function moveUserConnections(fromUserId: string, toUserId: string) {
+  Array.from(clients).forEach(client => {
+    if (client.userId === fromUserId) client.userId = toUserId;
+  });
+}
@@ -0,0 +1,66 @@
+import { isUsableHotkey, normalizeHotkey } from "./hotkeys";
+
+// Typed abbreviations: a snippet with the abbreviation ";sig" is expanded in
+// place as soon as ";sig" is typed into a text field. Nothing here touches the
+// DOM, so a browser extension can reuse the matching rules as they are.
+
+export const MIN_ABBREVIATION_LENGTH = 2;
+export const MAX_ABBREVIATION_LENGTH = 32;
+
+export const ABBREVIATION_PATTERN = new RegExp(`^\\S{${MIN_ABBREVIATION_LENGTH},${MAX_ABBREVIATION_LENGTH}}$`);
+
+// Letters in any script count, so "sig" does not fire inside "désig"
+const WORD_CHAR = new RegExp("[\\p{L}\\p{M}\\p{N}_]", "u");
+
+export interface AbbreviationMatch<T> {
+  snippet: T;
+  // Characters before the caret that the expansion replaces
+  length: number;
+}
+
+export function isValidAbbreviation(value: string): boolean {
+  return ABBREVIATION_PATTERN.test(value);
+}
+
+// Expansion fires as soon as an abbreviation is typed, so one that starts
+// another (";s" and ";sig") would always win and make the longer unreachable.
+// Returns the abbreviation among `taken` that clashes with `abbreviation`.
+export function findAbbreviationConflict(abbreviation: string, taken: Array<string | null | undefined>): string | undefined {
+  return taken.find((other): other is string =>
+    !!other && (other.startsWith(abbreviation) || abbreviation.startsWith(other))
+  );
+}
+
+// The snippet whose abbreviation the text before the caret ends with. An
+// abbreviation starting with a letter or digit must also start a word, so "sig"
+// does not fire inside "design"; ";sig" fires anywhere.
+export function matchAbbreviation<T extends { abbreviation?: string | null }>(
+  textBeforeCaret: string,
+  snippets: T[],
+): AbbreviationMatch<T> | null {
+  let best: AbbreviationMatch<T> | null = null;
+  for (const snippet of snippets) {
+    const abbreviation = snippet.abbreviation;
+    if (!abbreviation || !textBeforeCaret.endsWith(abbreviation)) continue;
+    if (best && best.length >= abbreviation.length) continue;
+    const before = textBeforeCaret.charAt(textBeforeCaret.length - abbreviation.length - 1);
+    if (WORD_CHAR.test(abbreviation.charAt(0)) && before && WORD_CHAR.test(before)) continue;
+    best = { snippet, length: abbreviation.length };
+  }
+  return best;
+}
+
+// Triggers used to double as keyboard shortcuts, stored as the shortcut plus
+// one or more "-<Date.now()>" suffixes ("Ctrl+K-1712345678901"). Triggers
+// without the suffix came from imported expander files and were typed
+// abbreviations there. Used to fill the hotkey and abbreviation columns of
+// snippets saved before they existed.
+export function splitLegacyTrigger(trigger: string): { hotkey: string | null; abbreviation: string | null } {
+  const stamped = /^(.*?)(?:-\d{13})+$/.exec(trigger);
+  // Recorded shortcuts always have a modifier. Other triggers that end in 13
+  // digits, like "order-1234567890123" from an expander file, stay abbreviations;
+  // a bare stamp had no shortcut recorded.
+  if (stamped && isUsableHotkey(stamped[1])) return { hotkey: normalizeHotkey(stamped[1]), abbreviation: null };
+  if (stamped && !stamped[1]) return { hotkey: null, abbreviation: null };
+  return { hotkey: null, abbreviation: isValidAbbreviation(trigger) ? trigger : null };
+}
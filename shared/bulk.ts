@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_SNIPPET, normalizeTags } from "./tags";
+
+// Actions over many snippets or clipboard items at once, for
+// POST /api/snippets/bulk and POST /api/clipboard/bulk. Each is all or nothing:
+// if any of the ids is missing, nothing changes.
+
+export const MAX_BULK_IDS = 500;
+
+const bulkIdsSchema = z.array(z.number().int()).min(1).max(MAX_BULK_IDS)
+  .refine(ids => new Set(ids).size === ids.length, "Ids must be unique");
+
+const tagNamesSchema = z.array(z.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_SNIPPET).default([]);
+
+export const snippetBulkActionSchema = z.discriminatedUnion("action", [
+  // Into a folder, or out of every folder with null
+  z.object({ action: z.literal("move"), ids: bulkIdsSchema, folderId: z.number().int().nullable() }),
+  // To the trash
+  z.object({ action: z.literal("delete"), ids: bulkIdsSchema }),
+  // Copies next to the originals; see copyTrigger
+  z.object({ action: z.literal("duplicate"), ids: bulkIdsSchema }),
+  z.object({ action: z.literal("tag"), ids: bulkIdsSchema, add: tagNamesSchema, remove: tagNamesSchema }),
+]);
+
+export const clipboardBulkActionSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("delete"), ids: bulkIdsSchema }),
+  z.object({ action: z.literal("pin"), ids: bulkIdsSchema, pinned: z.boolean() }),
+]);
+
+export type SnippetBulkAction = z.infer<typeof snippetBulkActionSchema>;
+export type ClipboardBulkAction = z.infer<typeof clipboardBulkActionSchema>;
+
+export interface TagChanges {
+  add: string[];
+  remove: string[];
+}
+
+// What an action did: the items it saved (moved, tagged, pinned or the new
+// copies) in the order of the ids, and the ids it moved to the trash
+export interface BulkResult<T> {
+  saved: T[];
+  deleted: number[];
+}
+
+// A snippet's tags after a tag action, normalized; removing wins over adding
+export function applyTagChanges(tags: string[], { add, remove }: TagChanges): string[] {
+  const removed = new Set(normalizeTags(remove));
+  return normalizeTags([...tags, ...add]).filter(tag => !removed.has(tag));
+}
+
+// Copies keep everything but the abbreviation and hotkey, which must stay
+// unique, and get the first free trigger of "sig-copy", "sig-copy-2"...
+export function copyTrigger(trigger: string, taken: Set<string>): string {
+  let candidate = `${trigger}-copy`;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${trigger}-copy-${n}`;
+  }
+  return candidate;
+}
+
+export function copyTitle(title: string): string {
+  return `${title} (copy)`;
+}
@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { insertSettingsSchema } from "./schema";
+import type { ConversionIssue } from "./converters";
+
+// Portable export of a user's library.
+//
+// Snippets refer to their folder by path ("Team/Product/TypeScript") rather than
+// id, so a bundle can be imported into any account and any storage backend.
+// Folders are listed by path too. A null folder means General.
+
+export const BUNDLE_FORMAT = "snipclip-bundle";
+export const BUNDLE_VERSION = 1;
+
+export const bundleFolderSchema = z.object({
+  name: z.string().min(1),
+  sortOrder: z.number().int().nullable().optional(),
+});
+
+export const bundleSnippetSchema = z.object({
+  title: z.string().min(1),
+  content: z.string(),
+  trigger: z.string().min(1),
+  hotkey: z.string().nullable().optional(),
+  abbreviation: z.string().nullable().optional(),
+  description: z.string().nullable().optional(),
+  folder: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
+  createdAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+});
+
+export const bundleClipboardItemSchema = z.object({
+  content: z.string(),
+  type: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+export const libraryBundleSchema = z.object({
+  format: z.literal(BUNDLE_FORMAT),
+  version: z.literal(BUNDLE_VERSION),
+  exportedAt: z.string(),
+  folders: z.array(bundleFolderSchema),
+  snippets: z.array(bundleSnippetSchema),
+  settings: insertSettingsSchema.partial().optional(),
+  clipboard: z.array(bundleClipboardItemSchema).optional(),
+});
+
+export type BundleFolder = z.infer<typeof bundleFolderSchema>;
+export type BundleSnippet = z.infer<typeof bundleSnippetSchema>;
+export type BundleClipboardItem = z.infer<typeof bundleClipboardItemSchema>;
+export type LibraryBundle = z.infer<typeof libraryBundleSchema>;
+
+export const importModes = ["merge", "replace"] as const;
+export type ImportMode = typeof importModes[number];
+
+// What to do with an imported snippet whose trigger is already taken
+export const conflictStrategies = ["skip", "overwrite", "rename"] as const;
+export type ConflictStrategy = typeof conflictStrategies[number];
+
+// Other expanders' file formats we can convert from and to (see converters.ts)
+export const snippetFormats = ["espanso", "textexpander", "vscode"] as const;
+export type SnippetFormat = typeof snippetFormats[number];
+
+export const snippetFormatInfo: Record<SnippetFormat, { label: string; extension: string; mimeType: string }> = {
+  espanso: { label: "espanso", extension: "yml", mimeType: "application/yaml" },
+  textexpander: { label: "TextExpander", extension: "csv", mimeType: "text/csv" },
+  vscode: { label: "VS Code", extension: "code-snippets", mimeType: "application/json" },
+};
+
+export const importSourceSchema = z.object({
+  format: z.enum(snippetFormats),
+  content: z.string(),
+  // Folder the converted snippets go into; defaults to the format's name
+  folder: z.string().min(1).optional(),
+});
+
+export const importRequestSchema = z.object({
+  bundle: libraryBundleSchema.optional(),
+  source: importSourceSchema.optional(),
+  mode: z.enum(importModes).default("merge"),
+  onConflict: z.enum(conflictStrategies).default("skip"),
+  dryRun: z.boolean().default(false),
+}).refine(request => !!request.bundle !== !!request.source, {
+  message: "Provide either a bundle or a source file",
+});
+
+export type ImportRequest = z.infer<typeof importRequestSchema>;
+export type ImportOptions = Pick<ImportRequest, "mode" | "onConflict" | "dryRun">;
+
+export interface ImportConflict {
+  trigger: string;
+  title: string;
+  existingTitle: string;
+  resolution: ConflictStrategy;
+  // New trigger given to the imported snippet when resolution is "rename"
+  renamedTo?: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  mode: ImportMode;
+  // Existing items moved to the trash by a replace import
+  removed: { folders: number; snippets: number; clipboard: number };
+  folders: { created: number; existing: number };
+  snippets: { created: number; updated: number; skipped: number };
+  clipboard: { created: number; skipped: number };
+  settings: boolean;
+  conflicts: ImportConflict[];
+  // Parts of a source file that could not be converted
+  issues: ConversionIssue[];
+}
+
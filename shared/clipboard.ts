@@ -0,0 +1,290 @@
+// Classifies copied text so the clipboard history can filter by kind and show
+// a fitting preview. Shared by the server, which classifies every item it
+// saves, and the client, which classifies items saved before classification
+// existed.
+//
+// The detectors run from the most specific to the least: a value that is
+// exactly a URL, email address, phone number, colour or file path is that;
+// then JSON; then code, with a guess at its language; anything else is text.
+
+export const clipboardTypes = ["text", "url", "email", "phone", "color", "json", "path", "code"] as const;
+export type ClipboardType = typeof clipboardTypes[number];
+
+export const CLIPBOARD_TYPE_LABELS: Record<ClipboardType, string> = {
+  text: "Text",
+  url: "Links",
+  email: "Emails",
+  phone: "Phone numbers",
+  color: "Colours",
+  json: "JSON",
+  path: "File paths",
+  code: "Code",
+};
+
+// A type and how many items in the user's history have it, as listed by GET /api/clipboard/types
+export type ClipboardTypeCount = { type: ClipboardType; count: number };
+
+// What was found out about an item, depending on its type
+export interface ClipboardMetadata {
+  // url: the host name; email: the domain
+  host?: string;
+  // phone: the digits, with a leading "+" if it had one, for tel: links
+  phone?: string;
+  // color: the colour as written, lowercase, usable as a CSS colour
+  color?: string;
+  // json: what the top level is and how many entries it has
+  jsonKind?: "object" | "array";
+  entries?: number;
+  // path: which style of path it is and the last segment
+  pathStyle?: "posix" | "windows";
+  fileName?: string;
+  // code: the guessed language, if any
+  language?: string;
+  lines?: number;
+}
+
+export interface ClipboardClassification {
+  type: ClipboardType;
+  metadata: ClipboardMetadata;
+}
+
+const URL_PATTERN = /^(https?|ftp):\/\/\S+$/i;
+const WWW_PATTERN = /^www\.[^\s/]+\.[a-z]{2,}(\/\S*)?$/i;
+
+function detectUrl(text: string): ClipboardMetadata | null {
+  if (!URL_PATTERN.test(text) && !WWW_PATTERN.test(text)) return null;
+  try {
+    return { host: new URL(text.startsWith("www.") ? `https://${text}` : text).hostname };
+  } catch {
+    return null;
+  }
+}
+
+const EMAIL_PATTERN = /^(mailto:)?([^\s@<>()]+)@([a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,})$/i;
+
+function detectEmail(text: string): ClipboardMetadata | null {
+  const match = text.match(EMAIL_PATTERN);
+  return match ? { host: match[3].toLowerCase() } : null;
+}
+
+const PHONE_PATTERN = /^\+?[\d\s().-]+$/;
+// Number-like values that are not phone numbers
+const NOT_PHONE_PATTERNS = [
+  /^\d{4}-\d{2}-\d{2}$/, // dates
+  /^\d{1,3}(\.\d{1,3}){3}$/, // IPv4 addresses
+  /^\d+\.\d+$/, // decimals
+];
+
+function detectPhone(text: string): ClipboardMetadata | null {
+  if (!PHONE_PATTERN.test(text) || NOT_PHONE_PATTERNS.some(pattern => pattern.test(text))) return null;
+  const digits = text.replace(/\D/g, "");
+  if (digits.length < 7 || digits.length > 15) return null;
+  // A bare run of digits is more likely an id or amount unless it is long enough to dial
+  if (!/[+\s().-]/.test(text) && digits.length < 10) return null;
+  return { phone: (text.startsWith("+") ? "+" : "") + digits };
+}
+
+const COLOR_PATTERNS = [
+  /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i,
+  /^rgba?\(\s*\d{1,3}%?\s*[,\s]\s*\d{1,3}%?\s*[,\s]\s*\d{1,3}%?\s*([,/]\s*[\d.]+%?\s*)?\)$/i,
+  /^hsla?\(\s*[\d.]+(deg)?\s*[,\s]\s*[\d.]+%\s*[,\s]\s*[\d.]+%\s*([,/]\s*[\d.]+%?\s*)?\)$/i,
+];
+
+function detectColor(text: string): ClipboardMetadata | null {
+  return COLOR_PATTERNS.some(pattern => pattern.test(text)) ? { color: text.toLowerCase() } : null;
+}
+
+const POSIX_PATH_PATTERN = /^(~|\.{1,2})?(\/[^/\n]+)+\/?$/;
+const WINDOWS_PATH_PATTERN = /^([a-z]:|\\\\[^\\\n]+)(\\[^\\\n]*)+$/i;
+
+function detectPath(text: string): ClipboardMetadata | null {
+  const pathStyle = POSIX_PATH_PATTERN.test(text) ? "posix" : WINDOWS_PATH_PATTERN.test(text) ? "windows" : null;
+  if (!pathStyle) return null;
+  const segments = text.split(pathStyle === "posix" ? "/" : "\\").filter(Boolean);
+  return { pathStyle, fileName: segments[segments.length - 1] };
+}
+
+function detectJson(text: string): ClipboardMetadata | null {
+  if (!/^[[{]/.test(text)) return null;
+  try {
+    const value = JSON.parse(text);
+    if (Array.isArray(value)) return { jsonKind: "array", entries: value.length };
+    if (value && typeof value === "object") return { jsonKind: "object", entries: Object.keys(value).length };
+  } catch {
+    // Not JSON; may still be code
+  }
+  return null;
+}
+
+// Telltale constructs of each language; the language matching the most wins
+const LANGUAGE_PATTERNS: Array<{ language: string; patterns: RegExp[] }> = [
+  {
+    language: "javascript",
+    patterns: [
+      /\b(const|let|var)\s+[\w$]+\s*=/,
+      /=>/,
+      /\bfunction\s*[\w$]*\s*\(/,
+      /\bconsole\.\w+\(/,
+      /\brequire\(['"]/,
+      /\bexport\s+(default|const|function|class)\b/,
+      /\bimport\s+.+\s+from\s+['"]/,
+    ],
+  },
+  {
+    // Counted on top of the JavaScript patterns
+    language: "typescript",
+    patterns: [
+      /\binterface\s+\w+\s*\{/,
+      /\btype\s+\w+\s*=/,
+      /\bimport\s+type\b/,
+      /[\w)]\s*:\s*(string|number|boolean|void|unknown|any)\b/,
+      /<\w+(\[\])?>\(/,
+    ],
+  },
+  {
+    language: "python",
+    patterns: [
+      /^\s*def\s+\w+\(.*\)\s*(->\s*[\w[\], ]+)?:\s*$/m,
+      /^\s*class\s+\w+(\(.*\))?:\s*$/m,
+      /^\s*from\s+[\w.]+\s+import\s+\w+/m,
+      /\bself\.\w+/,
+      /^\s*(elif|except|with)\b.*:\s*$/m,
+      /\bprint\(/,
+      /^\s*if\s+.+:\s*$/m,
+    ],
+  },
+  {
+    language: "html",
+    patterns: [
+      /<!doctype\s+html>/i,
+      /<(html|head|body|div|span|p|a|ul|ol|li|table|form|script|style|section)\b[^>]*>/i,
+      /<\/\w+>/,
+      /<\w+(\s+[\w-]+="[^"]*")+\s*\/?>/,
+    ],
+  },
+  {
+    language: "css",
+    patterns: [
+      /^\s*[\w.#:[\]="*>~+\s,-]+\{/m,
+      /^\s*[\w-]+\s*:\s*[^;{}]+;\s*$/m,
+      /@(media|import|keyframes|font-face)\b/,
+      /\b\d+(px|rem|em|vh|vw)\b/,
+    ],
+  },
+  {
+    language: "sql",
+    patterns: [
+      /\bselect\b[\s\S]+\bfrom\b/i,
+      /\binsert\s+into\b/i,
+      /\bupdate\s+\w+\s+set\b/i,
+      /\b(create|alter|drop)\s+(table|index|view)\b/i,
+      /\bwhere\s+\w+(\.\w+)?\s*(=|<|>|in\b|like\b|is\b)/i,
+      /\b(inner|left|right)?\s*join\s+\w+\s+on\b/i,
+    ],
+  },
+  {
+    language: "shell",
+    patterns: [
+      /^#!\/(usr\/)?bin\/(env\s+)?(ba|z)?sh/,
+      /^\s*\$\s+\w+/m,
+      /^\s*(sudo|apt(-get)?|brew|npm|npx|yarn|git|cd|ls|echo|export|curl|docker|chmod|mkdir)\s+\S/m,
+      /\s(&&|\|\|)\s|\s\|\s*\w+/,
+      /\$\{?\w+\}?/,
+    ],
+  },
+  {
+    language: "go",
+    patterns: [
+      /^package\s+\w+/m,
+      /\bfunc\s+(\(\w+\s+\*?\w+\)\s*)?\w+\(/,
+      /\w+\s*:=\s*/,
+      /\bfmt\.\w+\(/,
+    ],
+  },
+  {
+    language: "rust",
+    patterns: [
+      /\bfn\s+\w+\s*(<[^>]*>)?\(/,
+      /\blet\s+mut\b/,
+      /\bimpl\b(\s*<[^>]*>)?\s+\w+/,
+      /\w+!\(/,
+      /\buse\s+\w+(::\w+)+/,
+    ],
+  },
+  {
+    language: "java",
+    patterns: [
+      /\bpublic\s+(static\s+)?(final\s+)?(class|void|int|String|boolean)\b/,
+      /\bSystem\.out\.print/,
+      /\b(private|protected)\s+\w+(<[^>]*>)?\s+\w+\s*[;=]/,
+      /@Override\b/,
+    ],
+  },
+];
+
+// Signs of code in general, for code that matches no language well enough
+const CODE_PATTERNS = [
+  /[;{]\s*$/m,
+  /^\s*}/m,
+  /^\s*(\/\/|#include|\/\*)/m,
+  /\w+\([^)]*\)\s*[;{]/,
+  /^( {2,}|\t)\S/m,
+];
+
+function guessLanguage(text: string): string | undefined {
+  const scores = new Map<string, number>();
+  for (const { language, patterns } of LANGUAGE_PATTERNS) {
+    scores.set(language, patterns.filter(pattern => pattern.test(text)).length);
+  }
+  const typescript = scores.get("typescript")!;
+  if (typescript > 0) scores.set("typescript", typescript + scores.get("javascript")!);
+
+  let best: string | undefined;
+  let bestScore = 1; // one telltale alone is too easily found in prose
+  Array.from(scores.entries()).forEach(([language, score]) => {
+    if (score > bestScore) {
+      best = language;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+function detectCode(text: string): ClipboardMetadata | null {
+  const language = guessLanguage(text);
+  const lines = text.split("\n").length;
+  if (language) return { language, lines };
+  return CODE_PATTERNS.filter(pattern => pattern.test(text)).length >= 2 ? { lines } : null;
+}
+
+// Detectors for values that are one thing and nothing else, tried in order
+const SINGLE_VALUE_DETECTORS: Array<[ClipboardType, (text: string) => ClipboardMetadata | null]> = [
+  ["url", detectUrl],
+  ["email", detectEmail],
+  ["color", detectColor],
+  ["phone", detectPhone],
+  ["path", detectPath],
+];
+
+export function classifyClipboardContent(content: string): ClipboardClassification {
+  const text = content.trim();
+  if (!text.includes("\n")) {
+    for (const [type, detect] of SINGLE_VALUE_DETECTORS) {
+      const metadata = detect(text);
+      if (metadata) return { type, metadata };
+    }
+  }
+  const json = detectJson(text);
+  if (json) return { type: "json", metadata: json };
+  const code = detectCode(text);
+  if (code) return { type: "code", metadata: code };
+  return { type: "text", metadata: {} };
+}
+
+// The item's classification, working it out for items saved without one
+export function clipboardClassificationOf(item: { content: string; type: string; metadata?: ClipboardMetadata | null }): ClipboardClassification {
+  if (item.metadata && (clipboardTypes as readonly string[]).includes(item.type)) {
+    return { type: item.type as ClipboardType, metadata: item.metadata };
+  }
+  return classifyClipboardContent(item.content);
+}
@@ -0,0 +1,895 @@
+import YAML from "yaml";
+import { escapeTemplate, getTemplateFields, parseTemplate } from "./templates";
+import { isValidAbbreviation } from "./abbreviations";
+import {
+  BUNDLE_FORMAT,
+  BUNDLE_VERSION,
+  type BundleSnippet,
+  type LibraryBundle,
+  type SnippetFormat,
+  snippetFormatInfo,
+} from "./bundle";
+
+// Converters between SnipClip snippets and the files of other text expanders:
+//
+//   espanso        match files (YAML)               {{var}} with vars, $|$ for the cursor
+//   textexpander   CSV export (abbreviation,         %Y %m %d ..., %clipboard, %|,
+//                  content, label)                   %filltext:name=x:default=y%
+//   vscode         *.code-snippets (JSON with        $1 ${1:default} ${1|a,b|}, $0,
+//                  comments)                         $CLIPBOARD, $CURRENT_YEAR ...
+//
+// Importers produce a library bundle so the regular import (merge/replace,
+// trigger conflicts, dry run) applies to them unchanged. Anything without a
+// SnipClip equivalent is reported as an issue instead of failing the import.
+
+export interface ConversionIssue {
+  // Title or trigger of the snippet concerned
+  snippet: string;
+  message: string;
+}
+
+export interface ConvertedLibrary {
+  bundle: LibraryBundle;
+  issues: ConversionIssue[];
+}
+
+export interface ExportedSnippets {
+  content: string;
+  issues: ConversionIssue[];
+}
+
+// Date and time tokens shared by the formats. date-fns is what our {{date:...}} uses.
+interface DateToken {
+  dateFns: string;
+  strftime: string;
+  textExpander: string;
+  vscode?: string;
+  time?: boolean;
+}
+
+const DATE_TOKENS: DateToken[] = [
+  { dateFns: "yyyy", strftime: "%Y", textExpander: "%Y", vscode: "CURRENT_YEAR" },
+  { dateFns: "yy", strftime: "%y", textExpander: "%y", vscode: "CURRENT_YEAR_SHORT" },
+  { dateFns: "MMMM", strftime: "%B", textExpander: "%B", vscode: "CURRENT_MONTH_NAME" },
+  { dateFns: "MMM", strftime: "%b", textExpander: "%b", vscode: "CURRENT_MONTH_NAME_SHORT" },
+  { dateFns: "MM", strftime: "%m", textExpander: "%m", vscode: "CURRENT_MONTH" },
+  { dateFns: "M", strftime: "%-m", textExpander: "%1m" },
+  { dateFns: "dd", strftime: "%d", textExpander: "%d", vscode: "CURRENT_DATE" },
+  { dateFns: "d", strftime: "%-d", textExpander: "%e" },
+  { dateFns: "EEEE", strftime: "%A", textExpander: "%A", vscode: "CURRENT_DAY_NAME" },
+  { dateFns: "EEE", strftime: "%a", textExpander: "%a", vscode: "CURRENT_DAY_NAME_SHORT" },
+  { dateFns: "HH", strftime: "%H", textExpander: "%H", vscode: "CURRENT_HOUR", time: true },
+  { dateFns: "H", strftime: "%-H", textExpander: "%1H", time: true },
+  { dateFns: "hh", strftime: "%I", textExpander: "%I", time: true },
+  { dateFns: "h", strftime: "%-I", textExpander: "%1I", time: true },
+  { dateFns: "mm", strftime: "%M", textExpander: "%M", vscode: "CURRENT_MINUTE", time: true },
+  { dateFns: "ss", strftime: "%S", textExpander: "%S", vscode: "CURRENT_SECOND", time: true },
+  { dateFns: "a", strftime: "%p", textExpander: "%p", time: true },
+];
+
+const DEFAULT_DATE_FORMAT = "yyyy-MM-dd";
+const DEFAULT_TIME_FORMAT = "HH:mm";
+
+type DatePart = { type: "token"; token: DateToken } | { type: "literal"; text: string };
+
+// Split a date-fns format into known tokens and literal text. Returns the
+// letter runs it does not know as the second value.
+function splitDateFormat(format: string): [DatePart[], string[]] {
+  const parts: DatePart[] = [];
+  const unknown: string[] = [];
+  let i = 0;
+  const pushLiteral = (text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === "literal") last.text += text;
+    else parts.push({ type: "literal", text });
+  };
+
+  while (i < format.length) {
+    const char = format[i];
+    if (char === "'") {
+      const end = format.indexOf("'", i + 1);
+      const quoted = format.slice(i + 1, end === -1 ? format.length : end);
+      pushLiteral(quoted === "" ? "'" : quoted);
+      i = end === -1 ? format.length : end + 1;
+    } else if (/[A-Za-z]/.test(char)) {
+      let end = i;
+      while (format[end] === char) end++;
+      const run = format.slice(i, end);
+      const token = DATE_TOKENS.find(t => t.dateFns === run);
+      if (token) {
+        parts.push({ type: "token", token });
+      } else {
+        unknown.push(run);
+        pushLiteral(run);
+      }
+      i = end;
+    } else {
+      pushLiteral(char);
+      i++;
+    }
+  }
+  return [parts, unknown];
+}
+
+// Literal text inside a date-fns format; letters have to be quoted
+function dateFnsLiteral(text: string): string {
+  return /[A-Za-z']/.test(text) ? `'${text.replace(/'/g, "''")}'` : text;
+}
+
+function strftimeToDateFns(format: string): [string, string[]] {
+  let result = "";
+  const unknown: string[] = [];
+  let i = 0;
+  while (i < format.length) {
+    if (format[i] === "%") {
+      const code = format[i + 1] === "-" ? format.slice(i, i + 3) : format.slice(i, i + 2);
+      if (code === "%%") {
+        result += "%";
+      } else {
+        const token = DATE_TOKENS.find(t => t.strftime === code);
+        if (token) result += token.dateFns;
+        else unknown.push(code);
+      }
+      i += code.length;
+      continue;
+    }
+    let end = i;
+    while (end < format.length && format[end] !== "%") end++;
+    result += dateFnsLiteral(format.slice(i, end));
+    i = end;
+  }
+  return [result, unknown];
+}
+
+// {{date}} / {{time}} placeholder for a date-fns format, using the short form for the defaults
+function datePlaceholder(format: string): string {
+  if (format === DEFAULT_DATE_FORMAT) return "{{date}}";
+  if (format === DEFAULT_TIME_FORMAT) return "{{time}}";
+  const [parts] = splitDateFormat(format);
+  const timeOnly = parts.every(part => part.type === "literal" || part.token.time);
+  return `{{${timeOnly ? "time" : "date"}:${format}}}`;
+}
+
+// Field names must match the template syntax: a letter or underscore, then word characters or dashes
+function toFieldName(name: string): string {
+  const cleaned = name.trim().replace(/[^A-Za-z0-9_-]+/g, "_");
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `_${cleaned}`;
+}
+
+// Intermediate form used by the importers: literal text, date tokens (merged
+// into a single placeholder when only separators lie between them) and
+// finished placeholders
+type Segment =
+  | { kind: "text"; text: string }
+  | { kind: "date"; format: string }
+  | { kind: "placeholder"; value: string };
+
+const DATE_SEPARATOR = /^[\s\-\/:.,]{0,3}$/;
+
+function renderSegments(segments: Segment[]): string {
+  let output = "";
+  let i = 0;
+  while (i < segments.length) {
+    const segment = segments[i];
+    if (segment.kind === "text") {
+      output += escapeTemplate(segment.text);
+      i++;
+    } else if (segment.kind === "placeholder") {
+      output += segment.value;
+      i++;
+    } else {
+      let format = segment.format;
+      i++;
+      while (i < segments.length) {
+        const next = segments[i];
+        if (next.kind === "date") {
+          format += next.format;
+          i++;
+        } else if (next.kind === "text" && DATE_SEPARATOR.test(next.text) && segments[i + 1]?.kind === "date") {
+          format += dateFnsLiteral(next.text) + (segments[i + 1] as { format: string }).format;
+          i += 2;
+        } else {
+          break;
+        }
+      }
+      output += datePlaceholder(format);
+    }
+  }
+  return output;
+}
+
+function toBundle(snippets: BundleSnippet[], folder: string): LibraryBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    folders: snippets.length > 0 ? [{ name: folder }] : [],
+    snippets,
+  };
+}
+
+// Intermediate form used by the exporters, from our template syntax
+type ExportPart =
+  | { kind: "text"; text: string }
+  | { kind: "date"; parts: DatePart[]; unknown: string[] }
+  | { kind: "clipboard" }
+  | { kind: "cursor" }
+  | { kind: "field"; name: string; defaultValue: string };
+
+function toExportParts(content: string): ExportPart[] {
+  const defaults = new Map(getTemplateFields(content).map(field => [field.name, field.defaultValue]));
+  const parts: ExportPart[] = [];
+  for (const token of parseTemplate(content)) {
+    if (token.type === "text") {
+      parts.push({ kind: "text", text: token.value });
+      continue;
+    }
+    switch (token.name) {
+      case "date":
+      case "time": {
+        const format = token.arg || (token.name === "date" ? DEFAULT_DATE_FORMAT : DEFAULT_TIME_FORMAT);
+        const [dateParts, unknown] = splitDateFormat(format);
+        parts.push({ kind: "date", parts: dateParts, unknown });
+        break;
+      }
+      case "clipboard":
+        parts.push({ kind: "clipboard" });
+        break;
+      case "cursor":
+        parts.push({ kind: "cursor" });
+        break;
+      default:
+        parts.push({ kind: "field", name: token.name, defaultValue: defaults.get(token.name) ?? "" });
+    }
+  }
+  return parts;
+}
+
+function snippetLabel(snippet: { title?: string | null; trigger: string }): string {
+  return snippet.title || snippet.trigger;
+}
+
+// Triggers in these formats are typed, so they carry over as abbreviations
+function typedAbbreviation(trigger: string): string | null {
+  return isValidAbbreviation(trigger) ? trigger : null;
+}
+
+// ---------------------------------------------------------------------------
+// espanso
+
+interface EspansoVar {
+  name: string;
+  type: string;
+  params?: Record<string, any>;
+}
+
+function espansoVarSegment(
+  reference: string,
+  vars: Map<string, EspansoVar>,
+  report: (message: string) => void,
+): Segment {
+  // Form fields are referenced as {{form_name.field}}
+  const [varName, fieldName] = reference.split(".", 2);
+  const variable = vars.get(varName);
+
+  if (fieldName !== undefined) {
+    const defaultValue = variable?.params?.fields?.[fieldName]?.default;
+    const name = toFieldName(fieldName);
+    return { kind: "placeholder", value: defaultValue ? `{{${name}:${defaultValue}}}` : `{{${name}}}` };
+  }
+
+  switch (variable?.type) {
+    case "date": {
+      const [format, unknown] = strftimeToDateFns(String(variable.params?.format ?? "%Y-%m-%d"));
+      if (unknown.length > 0) report(`Date codes ${unknown.join(", ")} are not supported and were dropped`);
+      if (variable.params?.offset) report(`Date offset of "${varName}" is not supported; the current date is used`);
+      return { kind: "date", format };
+    }
+    case "clipboard":
+      return { kind: "placeholder", value: "{{clipboard}}" };
+    case "echo":
+      return { kind: "text", text: String(variable.params?.echo ?? "") };
+    case "choice": {
+      const first = variable.params?.values?.[0];
+      const defaultValue = typeof first === "object" && first ? first.id ?? first.label : first;
+      report(`Choice variable "${varName}" became a fill-in field`);
+      const name = toFieldName(varName);
+      return { kind: "placeholder", value: defaultValue ? `{{${name}:${defaultValue}}}` : `{{${name}}}` };
+    }
+    case undefined:
+      report(`Variable "${varName}" is not defined; it became a fill-in field`);
+      return { kind: "placeholder", value: `{{${toFieldName(varName)}}}` };
+    default:
+      report(`"${variable?.type}" variable "${varName}" is not supported; it became a fill-in field`);
+      return { kind: "placeholder", value: `{{${toFieldName(varName)}}}` };
+  }
+}
+
+function convertEspansoText(
+  text: string,
+  vars: Map<string, EspansoVar>,
+  isForm: boolean,
+  report: (message: string) => void,
+): string {
+  const segments: Segment[] = [];
+  const pattern = /\$\|\$|\{\{\s*([\w.-]+)\s*\}\}|\[\[\s*([\w-]+)\s*\]\]/g;
+  let position = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > position) segments.push({ kind: "text", text: text.slice(position, match.index) });
+    if (match[0] === "$|$") {
+      segments.push({ kind: "placeholder", value: "{{cursor}}" });
+    } else if (match[1]) {
+      segments.push(espansoVarSegment(match[1], vars, report));
+    } else if (isForm) {
+      segments.push({ kind: "placeholder", value: `{{${toFieldName(match[2])}}}` });
+    } else {
+      segments.push({ kind: "text", text: match[0] });
+    }
+    position = match.index + match[0].length;
+  }
+  if (position < text.length) segments.push({ kind: "text", text: text.slice(position) });
+  return renderSegments(segments);
+}
+
+export function importEspanso(text: string, folder = "espanso"): ConvertedLibrary {
+  const document = YAML.parse(text);
+  if (!document || !Array.isArray(document.matches)) {
+    throw new Error("Not an espanso match file: missing a matches list");
+  }
+
+  const issues: ConversionIssue[] = [];
+  const snippets: BundleSnippet[] = [];
+  const globalVars: EspansoVar[] = Array.isArray(document.global_vars) ? document.global_vars : [];
+
+  document.matches.forEach((match: Record<string, any>, index: number) => {
+    const triggers: string[] = match.triggers ?? (match.trigger !== undefined ? [match.trigger] : []);
+    const label = String(match.label ?? triggers[0] ?? match.regex ?? `match ${index + 1}`);
+    const report = (message: string) => issues.push({ snippet: label, message });
+
+    if (match.regex) {
+      report("Regex triggers are not supported; skipped");
+      return;
+    }
+    if (triggers.length === 0) {
+      report("No trigger; skipped");
+      return;
+    }
+    if (triggers.length > 1) {
+      report(`Only the first trigger is kept; ${triggers.slice(1).join(", ")} dropped`);
+    }
+
+    let body: string | undefined = match.replace ?? match.form;
+    if (body === undefined && (match.markdown !== undefined || match.html !== undefined)) {
+      body = match.markdown ?? match.html;
+      report("Rich text was imported as plain text");
+    }
+    if (body === undefined) {
+      report(match.image_path ? "Image expansions are not supported; skipped" : "No replacement text; skipped");
+      return;
+    }
+
+    const vars = new Map<string, EspansoVar>();
+    for (const variable of [...globalVars, ...(Array.isArray(match.vars) ? match.vars : [])]) {
+      if (variable?.name) vars.set(variable.name, variable);
+    }
+
+    snippets.push({
+      title: label,
+      content: convertEspansoText(String(body), vars, match.form !== undefined, report),
+      trigger: String(triggers[0]),
+      abbreviation: typedAbbreviation(String(triggers[0])),
+      description: null,
+      folder,
+    });
+  });
+
+  return { bundle: toBundle(snippets, folder), issues };
+}
+
+export function exportEspanso(snippets: BundleSnippet[]): ExportedSnippets {
+  const issues: ConversionIssue[] = [];
+  const matches = snippets.map(snippet => {
+    const report = (message: string) => issues.push({ snippet: snippetLabel(snippet), message });
+    const vars: EspansoVar[] = [];
+    const formFields: Record<string, { default: string }> = {};
+    const formLayout: string[] = [];
+    let replace = "";
+    let dateCount = 0;
+
+    for (const part of toExportParts(snippet.content)) {
+      switch (part.kind) {
+        case "text":
+          if (part.text.includes("{{") || part.text.includes("$|$")) {
+            report("Literal {{ or $|$ would be read as a placeholder by espanso");
+          }
+          replace += part.text;
+          break;
+        case "date": {
+          if (part.unknown.length > 0) report(`Date tokens ${part.unknown.join(", ")} have no strftime equivalent`);
+          const format = part.parts
+            .map(p => (p.type === "token" ? p.token.strftime : p.text.replace(/%/g, "%%")))
+            .join("");
+          const name = `date${++dateCount}`;
+          vars.push({ name, type: "date", params: { format } });
+          replace += `{{${name}}}`;
+          break;
+        }
+        case "clipboard":
+          if (!vars.some(v => v.name === "clipboard")) vars.push({ name: "clipboard", type: "clipboard" });
+          replace += "{{clipboard}}";
+          break;
+        case "cursor":
+          replace += "$|$";
+          break;
+        case "field":
+          if (!(part.name in formFields)) {
+            formFields[part.name] = { default: part.defaultValue };
+            formLayout.push(`${part.name}: [[${part.name}]]`);
+          }
+          replace += `{{form.${part.name}}}`;
+          break;
+      }
+    }
+
+    if (formLayout.length > 0) {
+      vars.unshift({ name: "form", type: "form", params: { layout: formLayout.join("\n"), fields: formFields } });
+    }
+
+    return {
+      trigger: snippet.abbreviation || snippet.trigger,
+      replace,
+      ...(vars.length > 0 ? { vars } : {}),
+      label: snippet.title,
+    };
+  });
+
+  return { content: YAML.stringify({ matches }), issues };
+}
+
+// ---------------------------------------------------------------------------
+// TextExpander CSV
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') quoted = false;
+      else field += char;
+      i++;
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value !== ""));
+}
+
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function convertTextExpanderText(text: string, report: (message: string) => void): string {
+  const segments: Segment[] = [];
+  let literal = "";
+  const flush = () => {
+    if (literal) segments.push({ kind: "text", text: literal });
+    literal = "";
+  };
+  let i = 0;
+
+  while (i < text.length) {
+    if (text[i] !== "%") {
+      literal += text[i++];
+      continue;
+    }
+
+    if (text[i + 1] === "%") {
+      literal += "%";
+      i += 2;
+      continue;
+    }
+    if (text[i + 1] === "|") {
+      flush();
+      segments.push({ kind: "placeholder", value: "{{cursor}}" });
+      i += 2;
+      continue;
+    }
+    if (text.startsWith("%clipboard", i)) {
+      flush();
+      segments.push({ kind: "placeholder", value: "{{clipboard}}" });
+      i += "%clipboard".length;
+      continue;
+    }
+
+    // %name:...% macros
+    const macro = /^%(fill\w+|snippet|key|@)[^%]*%/.exec(text.slice(i));
+    if (macro) {
+      const [whole, kind] = macro;
+      if (kind === "filltext" || kind === "fillarea" || kind === "fillpopup") {
+        const options = whole.slice(1, -1).split(":").slice(1);
+        const name = options.find(o => o.startsWith("name="))?.slice(5) ?? "field";
+        const defaultValue = options.find(o => o.startsWith("default="))?.slice(8) ?? "";
+        if (kind === "fillpopup") report(`Popup "${name}" became a fill-in field with its default value`);
+        flush();
+        segments.push({
+          kind: "placeholder",
+          value: defaultValue ? `{{${toFieldName(name)}:${defaultValue}}}` : `{{${toFieldName(name)}}}`,
+        });
+      } else {
+        report(`${whole} is not supported and was kept as text`);
+        literal += whole;
+      }
+      i += whole.length;
+      continue;
+    }
+
+    const code = text[i + 1] === "1" ? text.slice(i, i + 3) : text.slice(i, i + 2);
+    const token = DATE_TOKENS.find(t => t.textExpander === code);
+    if (token) {
+      flush();
+      segments.push({ kind: "date", format: token.dateFns });
+      i += code.length;
+      continue;
+    }
+
+    literal += "%";
+    i++;
+  }
+
+  flush();
+  return renderSegments(segments);
+}
+
+export function importTextExpander(text: string, folder = "TextExpander"): ConvertedLibrary {
+  const rows = parseCsv(text);
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === "abbreviation") rows.shift();
+
+  const issues: ConversionIssue[] = [];
+  const snippets: BundleSnippet[] = [];
+
+  rows.forEach((row, index) => {
+    const [abbreviation = "", content = "", label = ""] = row;
+    const name = label || abbreviation || `row ${index + 1}`;
+    const report = (message: string) => issues.push({ snippet: name, message });
+    if (row.length < 2) {
+      report("Expected abbreviation and content columns; skipped");
+      return;
+    }
+    if (!abbreviation.trim()) {
+      report("No abbreviation; skipped");
+      return;
+    }
+    snippets.push({
+      title: name,
+      content: convertTextExpanderText(content, report),
+      trigger: abbreviation.trim(),
+      abbreviation: typedAbbreviation(abbreviation.trim()),
+      description: null,
+      folder,
+    });
+  });
+
+  return { bundle: toBundle(snippets, folder), issues };
+}
+
+export function exportTextExpander(snippets: BundleSnippet[]): ExportedSnippets {
+  const issues: ConversionIssue[] = [];
+  const lines = snippets.map(snippet => {
+    const report = (message: string) => issues.push({ snippet: snippetLabel(snippet), message });
+    const content = toExportParts(snippet.content).map(part => {
+      switch (part.kind) {
+        case "text":
+          return part.text.replace(/%/g, "%%");
+        case "date":
+          if (part.unknown.length > 0) report(`Date tokens ${part.unknown.join(", ")} have no TextExpander equivalent`);
+          return part.parts.map(p => (p.type === "token" ? p.token.textExpander : p.text.replace(/%/g, "%%"))).join("");
+        case "clipboard":
+          return "%clipboard";
+        case "cursor":
+          return "%|";
+        case "field":
+          if (/[:%]/.test(part.defaultValue)) report(`Default of "${part.name}" contains : or % and was dropped`);
+          return part.defaultValue && !/[:%]/.test(part.defaultValue)
+            ? `%filltext:name=${part.name}:default=${part.defaultValue}%`
+            : `%filltext:name=${part.name}%`;
+      }
+    }).join("");
+    return [snippet.abbreviation || snippet.trigger, content, snippet.title].map(toCsvField).join(",");
+  });
+
+  return { content: lines.join("\r\n") + (lines.length > 0 ? "\r\n" : ""), issues };
+}
+
+// ---------------------------------------------------------------------------
+// VS Code snippets
+
+// JSON with comments and trailing commas, as VS Code accepts it
+function parseJsonc(text: string): any {
+  let output = "";
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"') end += text[end] === "\\" ? 2 : 1;
+      output += text.slice(i, end + 1);
+      i = end + 1;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (char === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else {
+      output += char;
+      i++;
+    }
+  }
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, "$1"));
+}
+
+const VSCODE_VARIABLE = /^[A-Z_][A-Z0-9_]*/;
+
+class VSCodeBodyParser {
+  private i = 0;
+  readonly segments: Segment[] = [];
+  private literal = "";
+  private fieldDefaults = new Map<string, string>();
+
+  constructor(private text: string, private report: (message: string) => void) {}
+
+  parse(): Segment[] {
+    this.parseUntil(null, this.segments);
+    return this.segments;
+  }
+
+  // Plain text of a placeholder default, dropping anything nested in it
+  private parseDefault(): string {
+    const nested: Segment[] = [];
+    this.parseUntil("}", nested);
+    if (nested.some(segment => segment.kind !== "text")) {
+      this.report("Nested placeholders inside a default value were flattened");
+    }
+    return nested.map(segment => (segment.kind === "text" ? segment.text : "")).join("");
+  }
+
+  private flush(target: Segment[]) {
+    if (this.literal) target.push({ kind: "text", text: this.literal });
+    this.literal = "";
+  }
+
+  private field(index: string, defaultValue: string): Segment {
+    const name = `field_${index}`;
+    // Later occurrences mirror the first one, as tab stops do in VS Code
+    if (!this.fieldDefaults.has(name)) this.fieldDefaults.set(name, defaultValue);
+    const value = this.fieldDefaults.get(name);
+    return { kind: "placeholder", value: value ? `{{${name}:${value}}}` : `{{${name}}}` };
+  }
+
+  private variable(name: string, defaultValue: string | null): Segment {
+    if (name === "CLIPBOARD") return { kind: "placeholder", value: "{{clipboard}}" };
+    const token = DATE_TOKENS.find(t => t.vscode === name);
+    if (token) return { kind: "date", format: token.dateFns };
+    this.report(`Variable $${name} is not supported; ${defaultValue ? "its default was kept" : "it was dropped"}`);
+    return { kind: "text", text: defaultValue ?? "" };
+  }
+
+  private parseUntil(terminator: string | null, target: Segment[]) {
+    const text = this.text;
+    while (this.i < text.length) {
+      const char = text[this.i];
+      if (terminator && char === terminator) {
+        this.i++;
+        break;
+      }
+      if (char === "\\" && /[$}\\,|]/.test(text[this.i + 1] ?? "")) {
+        this.literal += text[this.i + 1];
+        this.i += 2;
+        continue;
+      }
+      if (char !== "$") {
+        this.literal += char;
+        this.i++;
+        continue;
+      }
+
+      const rest = text.slice(this.i + 1);
+      const tabStop = /^\d+/.exec(rest);
+      const variable = VSCODE_VARIABLE.exec(rest);
+
+      if (tabStop) {
+        this.flush(target);
+        this.i += 1 + tabStop[0].length;
+        target.push(tabStop[0] === "0" ? { kind: "placeholder", value: "{{cursor}}" } : this.field(tabStop[0], ""));
+      } else if (variable) {
+        this.flush(target);
+        this.i += 1 + variable[0].length;
+        target.push(this.variable(variable[0], null));
+      } else if (rest[0] === "{") {
+        this.flush(target);
+        this.i += 2;
+        target.push(...this.parseBraced());
+      } else {
+        this.literal += char;
+        this.i++;
+      }
+    }
+    this.flush(target);
+  }
+
+  // ${1}, ${1:default}, ${1|a,b|}, ${NAME}, ${NAME:default}, ${1/regex/format/}
+  private parseBraced(): Segment[] {
+    const rest = this.text.slice(this.i);
+    const head = /^(\d+|[A-Z_][A-Z0-9_]*)([:|/}])?/.exec(rest);
+    if (!head) {
+      this.literal += "${";
+      return [];
+    }
+    const [whole, name, separator] = head;
+    const isTabStop = /^\d/.test(name);
+    this.i += whole.length;
+
+    let defaultValue = "";
+    if (separator === ":") {
+      defaultValue = this.parseDefault();
+    } else if (separator === "|") {
+      const end = this.text.indexOf("|}", this.i);
+      const choices = this.text.slice(this.i, end === -1 ? this.text.length : end).split(",");
+      defaultValue = choices[0] ?? "";
+      this.i = end === -1 ? this.text.length : end + 2;
+      this.report(`Choice $${name} became a fill-in field defaulting to "${defaultValue}"`);
+    } else if (separator === "/") {
+      const end = this.text.indexOf("}", this.i);
+      this.i = end === -1 ? this.text.length : end + 1;
+      this.report(`Transform on $${name} is not supported and was dropped`);
+    }
+
+    if (isTabStop && name === "0") {
+      return defaultValue
+        ? [{ kind: "text", text: defaultValue }, { kind: "placeholder", value: "{{cursor}}" }]
+        : [{ kind: "placeholder", value: "{{cursor}}" }];
+    }
+    return [isTabStop ? this.field(name, defaultValue) : this.variable(name, separator === ":" ? defaultValue : null)];
+  }
+}
+
+export function importVSCode(text: string, folder = "VS Code"): ConvertedLibrary {
+  const document = parseJsonc(text);
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("Not a VS Code snippets file: expected an object of snippets");
+  }
+
+  const issues: ConversionIssue[] = [];
+  const snippets: BundleSnippet[] = [];
+
+  for (const [name, definition] of Object.entries<any>(document)) {
+    const report = (message: string) => issues.push({ snippet: name, message });
+    const prefixes: string[] = Array.isArray(definition?.prefix) ? definition.prefix : definition?.prefix ? [definition.prefix] : [];
+    if (prefixes.length === 0) {
+      report("No prefix; skipped");
+      continue;
+    }
+    if (prefixes.length > 1) {
+      report(`Only the first prefix is kept; ${prefixes.slice(1).join(", ")} dropped`);
+    }
+    if (definition.body === undefined) {
+      report("No body; skipped");
+      continue;
+    }
+    if (definition.scope) {
+      report(`Language scope "${definition.scope}" is not kept`);
+    }
+
+    const body = Array.isArray(definition.body) ? definition.body.join("\n") : String(definition.body);
+    snippets.push({
+      title: name,
+      content: renderSegments(new VSCodeBodyParser(body, report).parse()),
+      trigger: String(prefixes[0]),
+      abbreviation: typedAbbreviation(String(prefixes[0])),
+      description: definition.description ? String(definition.description) : null,
+      folder,
+    });
+  }
+
+  return { bundle: toBundle(snippets, folder), issues };
+}
+
+function escapeVSCode(text: string): string {
+  return text.replace(/[\\$}]/g, "\\$&");
+}
+
+export function exportVSCode(snippets: BundleSnippet[]): ExportedSnippets {
+  const issues: ConversionIssue[] = [];
+  const document: Record<string, { prefix: string; body: string[]; description?: string }> = {};
+
+  for (const snippet of snippets) {
+    const report = (message: string) => issues.push({ snippet: snippetLabel(snippet), message });
+    const tabStops = new Map<string, number>();
+    const body = toExportParts(snippet.content).map(part => {
+      switch (part.kind) {
+        case "text":
+          return escapeVSCode(part.text);
+        case "date":
+          return part.parts.map(p => {
+            if (p.type === "literal") return escapeVSCode(p.text);
+            if (p.token.vscode) return `$${p.token.vscode}`;
+            report(`Date token ${p.token.dateFns} has no VS Code variable and was dropped`);
+            return "";
+          }).join("");
+        case "clipboard":
+          return "$CLIPBOARD";
+        case "cursor":
+          return "$0";
+        case "field": {
+          if (!tabStops.has(part.name)) tabStops.set(part.name, tabStops.size + 1);
+          const index = tabStops.get(part.name);
+          return `\${${index}:${escapeVSCode(part.defaultValue || part.name)}}`;
+        }
+      }
+    }).join("");
+
+    let key = snippet.title;
+    for (let n = 2; key in document; n++) key = `${snippet.title} (${n})`;
+    document[key] = {
+      prefix: snippet.abbreviation || snippet.trigger,
+      body: body.split("\n"),
+      ...(snippet.description ? { description: snippet.description } : {}),
+    };
+  }
+
+  return { content: JSON.stringify(document, null, 2) + "\n", issues };
+}
+
+// ---------------------------------------------------------------------------
+
+export function importSnippets(format: SnippetFormat, text: string, folder?: string): ConvertedLibrary {
+  const name = folder || snippetFormatInfo[format].label;
+  switch (format) {
+    case "espanso":
+      return importEspanso(text, name);
+    case "textexpander":
+      return importTextExpander(text, name);
+    case "vscode":
+      return importVSCode(text, name);
+  }
+}
+
+export function exportSnippets(format: SnippetFormat, snippets: BundleSnippet[]): ExportedSnippets {
+  switch (format) {
+    case "espanso":
+      return exportEspanso(snippets);
+    case "textexpander":
+      return exportTextExpander(snippets);
+    case "vscode":
+      return exportVSCode(snippets);
+  }
+}
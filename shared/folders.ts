@@ -0,0 +1,55 @@
+// Helpers for the folder tree. Folders point at their parent through parentId;
+// a null parentId puts the folder at the top level.
+
+// Separates folder names in a path such as "Team/Product/TypeScript"
+export const FOLDER_PATH_SEPARATOR = "/";
+
+export interface FolderNode {
+  id: number;
+  name: string;
+  parentId: number | null;
+}
+
+// The folder and its ancestors, top-level folder first. Stops at a missing
+// parent or a cycle rather than looping.
+export function folderAncestors<T extends FolderNode>(folders: T[], id: number): T[] {
+  const byId = new Map(folders.map(folder => [folder.id, folder]));
+  const chain: T[] = [];
+  const seen = new Set<number>();
+  let current = byId.get(id);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.unshift(current);
+    current = current.parentId != null ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+}
+
+// "Team/Product/TypeScript" for a folder nested two levels deep
+export function folderPath(folders: FolderNode[], id: number): string {
+  return folderAncestors(folders, id).map(folder => folder.name).join(FOLDER_PATH_SEPARATOR);
+}
+
+// Ids of every folder below the given one, at any depth
+export function descendantFolderIds(folders: FolderNode[], id: number): number[] {
+  const children = new Map<number, number[]>();
+  for (const folder of folders) {
+    if (folder.parentId == null) continue;
+    children.set(folder.parentId, [...(children.get(folder.parentId) ?? []), folder.id]);
+  }
+  const descendants: number[] = [];
+  const pending = [...(children.get(id) ?? [])];
+  while (pending.length > 0) {
+    const next = pending.shift()!;
+    if (next === id || descendants.includes(next)) continue;
+    descendants.push(next);
+    pending.push(...(children.get(next) ?? []));
+  }
+  return descendants;
+}
+
+// Moving a folder under itself or one of its descendants would detach that branch from the tree
+export function wouldCreateCycle(folders: FolderNode[], id: number, parentId: number | null): boolean {
+  if (parentId == null) return false;
+  return parentId === id || descendantFolderIds(folders, id).includes(parentId);
+}
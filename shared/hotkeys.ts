@@ -0,0 +1,258 @@
+// Keyboard hotkeys, as stored on snippets and in the shortcut settings.
+//
+// The normalized form is lowercase, modifiers first in a fixed order, joined
+// with "+": "ctrl+shift+v", "alt+enter", "meta+k". The "+" key itself is
+// written "plus". Anything the user types or records ("Ctrl + Shift + V",
+// "Cmd+K", "control+return") normalizes to the same string, so equal hotkeys
+// compare equal.
+
+export const HOTKEY_MODIFIERS = ["ctrl", "alt", "shift", "meta"] as const;
+export type HotkeyModifier = typeof HOTKEY_MODIFIERS[number];
+
+export interface Hotkey {
+  modifiers: HotkeyModifier[];
+  key: string;
+}
+
+// Keystroke fields of a KeyboardEvent
+export interface HotkeyEvent {
+  key: string;
+  code?: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+const MODIFIER_ALIASES: Record<string, HotkeyModifier> = {
+  ctrl: "ctrl",
+  control: "ctrl",
+  alt: "alt",
+  option: "alt",
+  opt: "alt",
+  shift: "shift",
+  meta: "meta",
+  cmd: "meta",
+  command: "meta",
+  win: "meta",
+  super: "meta",
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  " ": "space",
+  spacebar: "space",
+  esc: "escape",
+  return: "enter",
+  del: "delete",
+  ins: "insert",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  "+": "plus",
+};
+
+const NAMED_KEYS = new Set([
+  "enter", "escape", "tab", "space", "backspace", "delete", "insert", "home", "end",
+  "pageup", "pagedown", "arrowup", "arrowdown", "arrowleft", "arrowright", "plus",
+]);
+
+const KEY_LABELS: Record<string, string> = {
+  escape: "Esc",
+  pageup: "PageUp",
+  pagedown: "PageDown",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+  plus: "+",
+};
+
+const MODIFIER_LABELS: Record<HotkeyModifier, string> = {
+  ctrl: "Ctrl",
+  alt: "Alt",
+  shift: "Shift",
+  meta: "Cmd",
+};
+
+const isFunctionKey = (key: string) => /^f([1-9]|1[0-9]|2[0-4])$/.test(key);
+
+function normalizeKey(name: string): string | null {
+  const lower = name.toLowerCase();
+  const key = KEY_ALIASES[lower] ?? lower;
+  if (NAMED_KEYS.has(key) || isFunctionKey(key)) return key;
+  return key.length === 1 ? key : null;
+}
+
+function toString(hotkey: Hotkey): string {
+  return [...hotkey.modifiers, hotkey.key].join("+");
+}
+
+// Parses "Ctrl+Shift+V" and the like; null if there is not exactly one
+// non-modifier key or it is not one we know
+export function parseHotkey(text: string): Hotkey | null {
+  let rest = text.trim();
+  let key: string | null = null;
+  // A trailing "++" is the plus key, as in "Ctrl++"
+  if (rest.endsWith("++")) {
+    key = "plus";
+    rest = rest.slice(0, -2);
+  }
+  const parts = rest.split("+").map(part => part.trim()).filter(Boolean);
+  const modifiers = new Set<HotkeyModifier>();
+  for (const part of parts) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (modifier) {
+      modifiers.add(modifier);
+    } else if (key === null) {
+      key = normalizeKey(part);
+      if (key === null) return null;
+    } else {
+      return null;
+    }
+  }
+  if (key === null) return null;
+  return { modifiers: HOTKEY_MODIFIERS.filter(modifier => modifiers.has(modifier)), key };
+}
+
+// The normalized form of a hotkey, or null if it does not parse
+export function normalizeHotkey(text: string): string | null {
+  const hotkey = parseHotkey(text);
+  return hotkey ? toString(hotkey) : null;
+}
+
+// For display: "ctrl+shift+v" -> "Ctrl+Shift+V"
+export function formatHotkey(text: string): string {
+  const hotkey = parseHotkey(text);
+  if (!hotkey) return text;
+  const key = KEY_LABELS[hotkey.key] ?? (hotkey.key.length === 1 ? hotkey.key.toUpperCase() : hotkey.key.charAt(0).toUpperCase() + hotkey.key.slice(1));
+  return [...hotkey.modifiers.map(modifier => MODIFIER_LABELS[modifier]), key].join("+");
+}
+
+// The normalized hotkey a keystroke makes, or null while only modifiers are held
+export function hotkeyFromEvent(event: HotkeyEvent): string | null {
+  // Letters and digits by physical key, so Alt+S is not "alt+ß" on a Mac
+  const physical = event.code && /^(Key[A-Z]|Digit[0-9])$/.test(event.code) ? event.code.slice(-1) : null;
+  const key = physical ? physical.toLowerCase() : normalizeKey(event.key);
+  if (!key || MODIFIER_ALIASES[event.key.toLowerCase()]) return null;
+  const modifiers = HOTKEY_MODIFIERS.filter(modifier => event[`${modifier}Key`]);
+  return toString({ modifiers, key });
+}
+
+export function matchesHotkey(event: HotkeyEvent, hotkey: string): boolean {
+  const pressed = hotkeyFromEvent(event);
+  return pressed !== null && pressed === normalizeHotkey(hotkey);
+}
+
+// A snippet hotkey must not type text: it needs Ctrl, Alt or Cmd, or an F key
+export function isUsableHotkey(text: string): boolean {
+  const hotkey = parseHotkey(text);
+  if (!hotkey) return false;
+  return isFunctionKey(hotkey.key) || hotkey.modifiers.some(modifier => modifier !== "shift");
+}
+
+// Shortcut settings can be chords, hotkeys pressed one after the other and
+// written with a space between them: "ctrl+k ctrl+s"
+export const MAX_CHORD_STEPS = 2;
+
+// The normalized steps of a shortcut, or null if one of them does not parse
+export function parseShortcut(text: string): string[] | null {
+  const steps = text.trim().replace(/\s*\+\s*/g, "+").split(/\s+/).filter(Boolean);
+  if (steps.length === 0 || steps.length > MAX_CHORD_STEPS) return null;
+  const normalized = steps.map(normalizeHotkey);
+  return normalized.every((step): step is string => step !== null) ? normalized : null;
+}
+
+export function normalizeShortcut(text: string): string | null {
+  return parseShortcut(text)?.join(" ") ?? null;
+}
+
+// For display: "ctrl+k ctrl+s" -> "Ctrl+K Ctrl+S"
+export function formatShortcut(text: string): string {
+  return parseShortcut(text)?.map(formatHotkey).join(" ") ?? text;
+}
+
+// Only the first step of a chord needs a modifier: "ctrl+k s" is fine
+export function isUsableShortcut(text: string): boolean {
+  const steps = parseShortcut(text);
+  return !!steps && isUsableHotkey(steps[0]);
+}
+
+// The app's own actions, bound to the shortcut settings of the same name
+export const SHORTCUT_ACTIONS = [
+  { setting: "snippetShortcut", label: "Open snippets" },
+  { setting: "clipboardShortcut", label: "Open clipboard history" },
+  { setting: "newSnippetShortcut", label: "New snippet" },
+  { setting: "searchShortcut", label: "Search snippets" },
+  { setting: "settingsShortcut", label: "Open settings" },
+] as const;
+
+export type ShortcutSetting = typeof SHORTCUT_ACTIONS[number]["setting"];
+export type ShortcutSettings = Partial<Record<ShortcutSetting, string | null>>;
+
+// Opens the list of all shortcuts; not configurable, so it is always there to look things up
+export const CHEAT_SHEET_HOTKEY = "ctrl+/";
+
+// Hotkeys the app handles itself
+export const RESERVED_HOTKEYS: Array<{ hotkey: string; label: string }> = [
+  { hotkey: CHEAT_SHEET_HOTKEY, label: "the shortcut cheat sheet" },
+];
+
+const shortcutLabel = (setting: ShortcutSetting) =>
+  `the "${SHORTCUT_ACTIONS.find(action => action.setting === setting)!.label}" shortcut`;
+
+// What a snippet hotkey would collide with among the app's own hotkeys and the
+// user's shortcut settings, or undefined if it is free. A chord collides when
+// it starts with the hotkey, since the hotkey would fire before the chord could
+// be finished.
+export function reservedHotkeyConflict(text: string, settings?: ShortcutSettings): string | undefined {
+  const hotkey = normalizeHotkey(text);
+  if (!hotkey) return undefined;
+  const reserved = RESERVED_HOTKEYS.find(entry => entry.hotkey === hotkey);
+  if (reserved) return reserved.label;
+  const action = SHORTCUT_ACTIONS.find(({ setting }) => parseShortcut(settings?.[setting] ?? "")?.[0] === hotkey);
+  return action && shortcutLabel(action.setting);
+}
+
+// What a shortcut setting would collide with: the app's own hotkeys, another
+// shortcut setting or a snippet hotkey. Shortcuts where one is the start of the
+// other collide too, as the shorter one would always win.
+export function shortcutSettingConflict(
+  setting: ShortcutSetting,
+  text: string,
+  settings: ShortcutSettings,
+  snippets: Array<{ title: string; hotkey: string | null }>,
+): string | undefined {
+  const steps = parseShortcut(text);
+  if (!steps) return undefined;
+  const reserved = RESERVED_HOTKEYS.find(entry => entry.hotkey === steps[0]);
+  if (reserved) return reserved.label;
+  const startsWith = (a: string[], b: string[]) => b.every((step, index) => a[index] === step);
+  for (const action of SHORTCUT_ACTIONS) {
+    const other = action.setting === setting ? null : parseShortcut(settings[action.setting] ?? "");
+    if (other && (startsWith(steps, other) || startsWith(other, steps))) return shortcutLabel(action.setting);
+  }
+  const snippet = snippets.find(snippet => snippet.hotkey === steps[0]);
+  return snippet && `the hotkey of "${snippet.title}"`;
+}
+
+// Snippets saved before hotkeys had to be unique can share one. Returns the ids
+// of those that should lose it: all but the most recently updated live snippet
+// of each user with that hotkey.
+export function findDuplicateHotkeys<T extends { id: number; userId: string; hotkey: string | null; updatedAt: Date | number | string; deletedAt?: unknown }>(
+  snippets: T[],
+): number[] {
+  const seen = new Set<string>();
+  return snippets
+    .filter(snippet => snippet.hotkey && !snippet.deletedAt)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .filter(snippet => {
+      const key = `${snippet.userId}\n${snippet.hotkey}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        return false;
+      }
+      return true;
+    })
+    .map(snippet => snippet.id);
+}
@@ -0,0 +1,199 @@
+import { z } from "zod";
+import type { Snippet, ClipboardItem, SnippetSortMode } from "./schema";
+import { clipboardTypes } from "./clipboard";
+
+// Filtering, sorting and cursor pagination for GET /api/snippets and
+// GET /api/clipboard. Each storage backend lists natively; the in-memory ones,
+// and the client when offline, use listSnippets and listClipboardItems below.
+//
+// Pages are cut by keyset: a cursor holds the sort key of the last item sent
+// and the next page starts after it, so items saved or deleted in between
+// don't shift the pages.
+
+export const snippetSorts = ["updatedAt", "title", "usage", "manual"] as const;
+export type SnippetSort = typeof snippetSorts[number];
+
+export type SortDirection = "asc" | "desc";
+
+// Titles read A to Z and manual order top to bottom; the rest newest or most used first
+export const SNIPPET_SORT_DIRECTIONS: Record<SnippetSort, SortDirection> = {
+  updatedAt: "desc",
+  title: "asc",
+  usage: "desc",
+  manual: "asc",
+};
+
+// The list order for each of the snippet sort settings
+export const SNIPPET_SORT_FOR_MODE: Record<SnippetSortMode, SnippetSort> = {
+  recent: "updatedAt",
+  manual: "manual",
+  title: "title",
+  usage: "usage",
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// What an item is ordered by, ending with its id to break ties. Timestamps are in milliseconds.
+export type SortKey = Array<string | number>;
+
+export interface ListPage<T> {
+  items: T[];
+  // null on the last page
+  nextCursor: string | null;
+}
+
+// Totals for GET /api/snippets/counts, which the paged list can't give
+export interface SnippetCounts {
+  total: number;
+  withHotkey: number;
+  // By folder id; snippets outside every folder are only in the total
+  byFolder: Record<number, number>;
+}
+
+export function encodeCursor(key: SortKey): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(key));
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeCursor(cursor: string): SortKey | null {
+  try {
+    const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const key = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0))));
+    return Array.isArray(key) && key.every(value => typeof value === "string" || typeof value === "number") ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+export function compareSortKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] < b[i]) return -1;
+    if (a[i] > b[i]) return 1;
+  }
+  return 0;
+}
+
+export function snippetSortKey(snippet: Snippet, sort: SnippetSort): SortKey {
+  switch (sort) {
+    case "title":
+      return [snippet.title.toLowerCase(), snippet.id];
+    case "usage":
+      return [snippet.usageCount ?? 0, snippet.id];
+    case "manual":
+      return [snippet.sortOrder ?? 0, snippet.id];
+    case "updatedAt":
+      return [new Date(snippet.updatedAt).getTime(), snippet.id];
+  }
+}
+
+// Pinned items first, then newest first (descending)
+export function clipboardSortKey(item: ClipboardItem): SortKey {
+  return [item.pinned ? 1 : 0, new Date(item.createdAt).getTime(), item.id];
+}
+
+// Parses a cursor whose key is made of values of the given types
+function cursorSchema(types: Array<"string" | "number">) {
+  return z.string().transform((cursor, ctx) => {
+    const key = decodeCursor(cursor);
+    if (!key || key.length !== types.length || key.some((value, i) => typeof value !== types[i])) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid cursor" });
+      return z.NEVER;
+    }
+    return key;
+  });
+}
+
+// Query strings: since is inclusive, until exclusive. A page is sent, rather
+// than the whole list, once limit or after is given.
+const listQuerySchema = z.object({
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  after: z.string().optional(),
+});
+
+// The date range applies to updatedAt
+export const snippetListQuerySchema = listQuerySchema.extend({
+  folderId: z.coerce.number().int().positive().optional(),
+  sort: z.enum(snippetSorts).default("updatedAt"),
+}).transform(({ after, limit, ...query }, ctx) => {
+  const key = after === undefined ? undefined
+    : cursorSchema([query.sort === "title" ? "string" : "number", "number"]).safeParse(after);
+  if (key && !key.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["after"], message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return { ...query, after: key?.data, limit: limit ?? (after !== undefined ? DEFAULT_PAGE_SIZE : undefined) };
+});
+
+// The date range applies to createdAt
+export const clipboardListQuerySchema = listQuerySchema.extend({
+  type: z.enum(clipboardTypes).optional(),
+}).transform(({ after, limit, ...query }, ctx) => {
+  const key = after === undefined ? undefined : cursorSchema(["number", "number", "number"]).safeParse(after);
+  if (key && !key.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["after"], message: "Invalid cursor" });
+    return z.NEVER;
+  }
+  return { ...query, after: key?.data, limit: limit ?? (after !== undefined ? DEFAULT_PAGE_SIZE : undefined) };
+});
+
+export type SnippetListQuery = z.output<typeof snippetListQuerySchema>;
+export type ClipboardListQuery = z.output<typeof clipboardListQuerySchema>;
+
+// The first limit items of rows, which were fetched with one extra to tell
+// whether another page follows. Without a limit every row is one page.
+export function toListPage<T>(rows: T[], limit: number | undefined, keyOf: (item: T) => SortKey): ListPage<T> {
+  if (limit === undefined || rows.length <= limit) return { items: rows, nextCursor: null };
+  const items = rows.slice(0, limit);
+  return { items, nextCursor: encodeCursor(keyOf(items[items.length - 1])) };
+}
+
+function listInMemory<T>(
+  items: T[],
+  keyOf: (item: T) => SortKey,
+  direction: SortDirection,
+  { after, limit }: { after?: SortKey; limit?: number },
+): ListPage<T> {
+  const sign = direction === "asc" ? 1 : -1;
+  const sorted = items
+    .map(item => ({ item, key: keyOf(item) }))
+    .sort((a, b) => sign * compareSortKeys(a.key, b.key))
+    .filter(({ key }) => !after || sign * compareSortKeys(key, after) > 0);
+  const page = toListPage(sorted, limit, ({ key }) => key);
+  return { items: page.items.map(({ item }) => item), nextCursor: page.nextCursor };
+}
+
+function inRange(date: Date | string, since?: Date, until?: Date): boolean {
+  const time = new Date(date).getTime();
+  return (!since || time >= since.getTime()) && (!until || time < until.getTime());
+}
+
+// A page of snippets, which should already be the user's snippets outside the trash
+export function listSnippets(snippets: Snippet[], query: SnippetListQuery): ListPage<Snippet> {
+  const matching = snippets.filter(snippet =>
+    (query.folderId === undefined || snippet.folderId === query.folderId) &&
+    inRange(snippet.updatedAt, query.since, query.until)
+  );
+  return listInMemory(matching, snippet => snippetSortKey(snippet, query.sort), SNIPPET_SORT_DIRECTIONS[query.sort], query);
+}
+
+// A page of clipboard items, which should already be the user's items outside the trash
+export function listClipboardItems(items: ClipboardItem[], query: ClipboardListQuery): ListPage<ClipboardItem> {
+  const matching = items.filter(item =>
+    (!query.type || item.type === query.type) &&
+    inRange(item.createdAt, query.since, query.until)
+  );
+  return listInMemory(matching, clipboardSortKey, "desc", query);
+}
+
+// Counts of snippets, which should already be the user's snippets outside the trash
+export function countSnippets(snippets: Array<Pick<Snippet, "folderId" | "hotkey">>): SnippetCounts {
+  const byFolder: Record<number, number> = {};
+  for (const { folderId } of snippets) {
+    if (folderId != null) byFolder[folderId] = (byFolder[folderId] ?? 0) + 1;
+  }
+  return { total: snippets.length, withHotkey: snippets.filter(snippet => snippet.hotkey).length, byFolder };
+}
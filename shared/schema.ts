@@ -1,53 +1,168 @@
-import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { sqliteTable as sqliteTableCore, text as textSQLite, integer as integerSQLite } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { MAX_TAG_LENGTH, MAX_TAGS_PER_SNIPPET } from "./tags";
+import { ABBREVIATION_PATTERN } from "./abbreviations";
+import { isUsableHotkey, isUsableShortcut, normalizeHotkey, normalizeShortcut } from "./hotkeys";
+import type { ClipboardMetadata } from "./clipboard";
 
 // PostgreSQL schema
 export const folders = pgTable("folders", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   userId: text("user_id").notNull(),
+  parentId: integer("parent_id"), // null for top-level folders
   sortOrder: integer("sort_order").default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the folder is in the trash
 });
 
-// Create a unique constraint on name + userId to prevent duplicate folder names per user
-export const foldersUniqueConstraint = sql`UNIQUE(name, user_id)`;
+// Folder names are unique among the folders sharing a parent
+export const foldersUniqueConstraint = sql`UNIQUE(user_id, parent_id, name)`;
 
 export const snippets = pgTable("snippets", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  trigger: text("trigger").notNull(),
+  trigger: text("trigger").notNull(), // unique key used by imports and exports
+  hotkey: text("hotkey"), // normalized key combination that copies the snippet, e.g. "ctrl+shift+s" (see shared/hotkeys.ts)
+  abbreviation: text("abbreviation"), // typed text that expands into the snippet, e.g. ";sig"
   description: text("description"),
   folderId: integer("folder_id").references(() => folders.id),
+  sortOrder: integer("sort_order").notNull().default(0), // position in the folder's manual order
+  usageCount: integer("usage_count").notNull().default(0), // times the snippet was copied or expanded
   userId: text("user_id").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the snippet is in the trash
 });
 
 // Create a unique constraint on trigger + userId to prevent duplicate triggers per user
 export const snippetsUniqueConstraint = sql`UNIQUE(trigger, user_id)`;
 
+// Tags are per user and shared by the user's snippets through snippet_tags;
+// names are unique per user (see shared/tags.ts for how they are normalized)
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  userId: text("user_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const snippetTags = pgTable("snippet_tags", {
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  tagId: integer("tag_id").notNull().references(() => tags.id, { onDelete: "cascade" }),
+});
+
+// Previous versions of a snippet, recorded each time its text changes
+export const snippetRevisions = pgTable("snippet_revisions", {
+  id: serial("id").primaryKey(),
+  snippetId: integer("snippet_id").notNull().references(() => snippets.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull(),
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const clipboardItems = pgTable("clipboard_items", {
   id: serial("id").primaryKey(),
   content: text("content").notNull(),
-  type: text("type").notNull().default("text"), // text, url, code
+  type: text("type").notNull().default("text"), // one of clipboardTypes in shared/clipboard.ts
   userId: text("user_id").notNull(),
+  pinned: integer("pinned").notNull().default(0), // boolean as int; pinned items are kept through trimming and clearing
+  metadata: jsonb("metadata").$type<ClipboardMetadata>(), // from the classifier; null on items saved before it
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the item is in the trash
 });
 
+// Snippets within a folder are listed most recently updated first, in the
+// order the user arranged them, by title or most used first
+export const snippetSortModes = ["recent", "manual", "title", "usage"] as const;
+export type SnippetSortMode = typeof snippetSortModes[number];
+
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique(),
   snippetShortcut: text("snippet_shortcut").notNull().default("ctrl+;"),
   clipboardShortcut: text("clipboard_shortcut").notNull().default("ctrl+shift+v"),
+  // Shortcuts may be chords such as "ctrl+k ctrl+e" (see shared/hotkeys.ts)
+  newSnippetShortcut: text("new_snippet_shortcut").notNull().default("ctrl+k ctrl+e"),
+  searchShortcut: text("search_shortcut").notNull().default("ctrl+k ctrl+f"),
+  settingsShortcut: text("settings_shortcut").notNull().default("ctrl+k ctrl+s"),
   clipboardEnabled: integer("clipboard_enabled").notNull().default(1), // boolean as int
   historyLimit: integer("history_limit").notNull().default(100),
+  clipboardRetentionDays: integer("clipboard_retention_days").notNull().default(0), // 0 keeps items until the history limit pushes them out
   launchOnStartup: integer("launch_on_startup").notNull().default(0),
   theme: text("theme").notNull().default("light"),
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30),
+  snippetSort: text("snippet_sort").$type<SnippetSortMode>().notNull().default("recent"),
+});
+
+// Login credentials, kept only as a scrypt hash. loginKey is derived from the
+// credentials and finds the account at login; userId owns the data and stays the
+// same when the credentials change.
+export const accounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique(),
+  loginKey: text("login_key").notNull().unique(),
+  credentialHash: text("credential_hash").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastLoginAt: timestamp("last_login_at"),
+});
+
+// Login sessions; the token itself is never stored, only its SHA-256
+export const authSessions = pgTable("auth_sessions", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: text("user_id").notNull(),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Personal API tokens for scripts and integrations, sent as "Authorization:
+// Bearer <token>". As with sessions only the token's SHA-256 is stored; prefix
+// keeps its first characters so the user can tell tokens apart.
+export const apiTokenScopes = ["read", "write"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  scope: text("scope").notNull().default("read"), // read: GET requests only; write: everything
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"), // null: never expires
+  revokedAt: timestamp("revoked_at"),
+});
+
+// Read-only links to a snippet or a folder for people without an account,
+// opened at /s/<token>. As with sessions and API tokens only the token's SHA-256
+// is stored, so the link can only be copied when it is created.
+export const shareTargetTypes = ["snippet", "folder"] as const;
+export type ShareTargetType = typeof shareTargetTypes[number];
+
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  userId: text("user_id").notNull(),
+  targetType: text("target_type").notNull(),
+  targetId: integer("target_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"), // null: never expires
+  maxViews: integer("max_views"), // null: no view limit
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  revokedAt: timestamp("revoked_at"),
 });
 
 // SQLite schema (for development)
@@ -55,9 +170,11 @@ export const foldersSQLite = sqliteTableCore("folders", {
   id: integerSQLite("id").primaryKey({ autoIncrement: true }),
   name: textSQLite("name").notNull(),
   userId: textSQLite("user_id").notNull(),
+  parentId: integerSQLite("parent_id"),
   sortOrder: integerSQLite("sort_order").notNull().default(0),
   createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
   updatedAt: integerSQLite("updated_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  deletedAt: integerSQLite("deleted_at"),
 });
 
 export const snippetsSQLite = sqliteTableCore("snippets", {
@@ -65,11 +182,38 @@ export const snippetsSQLite = sqliteTableCore("snippets", {
   title: textSQLite("title").notNull(),
   content: textSQLite("content").notNull(),
   trigger: textSQLite("trigger").notNull(),
+  hotkey: textSQLite("hotkey"),
+  abbreviation: textSQLite("abbreviation"),
   description: textSQLite("description"),
   folderId: integerSQLite("folder_id"),
+  sortOrder: integerSQLite("sort_order").notNull().default(0),
+  usageCount: integerSQLite("usage_count").notNull().default(0),
   userId: textSQLite("user_id").notNull(),
   createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
   updatedAt: integerSQLite("updated_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  deletedAt: integerSQLite("deleted_at"),
+});
+
+export const tagsSQLite = sqliteTableCore("tags", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  name: textSQLite("name").notNull(),
+  userId: textSQLite("user_id").notNull(),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+});
+
+export const snippetTagsSQLite = sqliteTableCore("snippet_tags", {
+  snippetId: integerSQLite("snippet_id").notNull(),
+  tagId: integerSQLite("tag_id").notNull(),
+});
+
+export const snippetRevisionsSQLite = sqliteTableCore("snippet_revisions", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  snippetId: integerSQLite("snippet_id").notNull(),
+  userId: textSQLite("user_id").notNull(),
+  title: textSQLite("title").notNull(),
+  content: textSQLite("content").notNull(),
+  description: textSQLite("description"),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
 });
 
 export const clipboardItemsSQLite = sqliteTableCore("clipboard_items", {
@@ -77,51 +221,210 @@ export const clipboardItemsSQLite = sqliteTableCore("clipboard_items", {
   content: textSQLite("content").notNull(),
   type: textSQLite("type").notNull().default("text"),
   userId: textSQLite("user_id").notNull(),
+  pinned: integerSQLite("pinned").notNull().default(0),
+  metadata: textSQLite("metadata", { mode: "json" }).$type<ClipboardMetadata>(),
   createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  deletedAt: integerSQLite("deleted_at"),
 });
 
 export const settingsSQLite = sqliteTableCore("settings", {
   id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  userId: textSQLite("user_id").notNull().unique(),
   snippetShortcut: textSQLite("snippet_shortcut").notNull().default("ctrl+;"),
   clipboardShortcut: textSQLite("clipboard_shortcut").notNull().default("ctrl+shift+v"),
+  newSnippetShortcut: textSQLite("new_snippet_shortcut").notNull().default("ctrl+k ctrl+e"),
+  searchShortcut: textSQLite("search_shortcut").notNull().default("ctrl+k ctrl+f"),
+  settingsShortcut: textSQLite("settings_shortcut").notNull().default("ctrl+k ctrl+s"),
   clipboardEnabled: integerSQLite("clipboard_enabled").notNull().default(1),
   historyLimit: integerSQLite("history_limit").notNull().default(100),
+  clipboardRetentionDays: integerSQLite("clipboard_retention_days").notNull().default(0),
   launchOnStartup: integerSQLite("launch_on_startup").notNull().default(0),
   theme: textSQLite("theme").notNull().default("light"),
+  trashRetentionDays: integerSQLite("trash_retention_days").notNull().default(30),
+  snippetSort: textSQLite("snippet_sort").$type<SnippetSortMode>().notNull().default("recent"),
+});
+
+export const accountsSQLite = sqliteTableCore("accounts", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  userId: textSQLite("user_id").notNull().unique(),
+  loginKey: textSQLite("login_key").notNull().unique(),
+  credentialHash: textSQLite("credential_hash").notNull(),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  lastLoginAt: integerSQLite("last_login_at"),
+});
+
+export const authSessionsSQLite = sqliteTableCore("auth_sessions", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  tokenHash: textSQLite("token_hash").notNull().unique(),
+  userId: textSQLite("user_id").notNull(),
+  userAgent: textSQLite("user_agent"),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  lastSeenAt: integerSQLite("last_seen_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  expiresAt: integerSQLite("expires_at").notNull(),
+  revokedAt: integerSQLite("revoked_at"),
+});
+
+export const apiTokensSQLite = sqliteTableCore("api_tokens", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  tokenHash: textSQLite("token_hash").notNull().unique(),
+  prefix: textSQLite("prefix").notNull(),
+  userId: textSQLite("user_id").notNull(),
+  name: textSQLite("name").notNull(),
+  scope: textSQLite("scope").notNull().default("read"),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  lastUsedAt: integerSQLite("last_used_at"),
+  expiresAt: integerSQLite("expires_at"),
+  revokedAt: integerSQLite("revoked_at"),
+});
+
+export const shareLinksSQLite = sqliteTableCore("share_links", {
+  id: integerSQLite("id").primaryKey({ autoIncrement: true }),
+  tokenHash: textSQLite("token_hash").notNull().unique(),
+  userId: textSQLite("user_id").notNull(),
+  targetType: textSQLite("target_type").notNull(),
+  targetId: integerSQLite("target_id").notNull(),
+  createdAt: integerSQLite("created_at").notNull().default(sql`(strftime('%s', 'now'))`),
+  expiresAt: integerSQLite("expires_at"),
+  maxViews: integerSQLite("max_views"),
+  viewCount: integerSQLite("view_count").notNull().default(0),
+  lastViewedAt: integerSQLite("last_viewed_at"),
+  revokedAt: integerSQLite("revoked_at"),
 });
 
 export const insertSnippetSchema = createInsertSchema(snippets).omit({
   id: true,
+  sortOrder: true,
+  usageCount: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
   userId: true,
+}).extend({
+  // Blank means none. Hotkeys are stored normalized.
+  hotkey: z.string().trim()
+    .refine(value => value === "" || isUsableHotkey(value), "Hotkeys need Ctrl, Alt or Cmd plus one other key, or an F key")
+    .nullable().optional().transform(value => value ? normalizeHotkey(value) : value === "" ? null : value),
+  abbreviation: z.string().trim()
+    .refine(value => value === "" || ABBREVIATION_PATTERN.test(value), "Abbreviations are 2 to 32 characters without spaces")
+    .nullable().optional().transform(value => value === "" ? null : value),
+  // Replaces the snippet's tags when given
+  tags: z.array(z.string().trim().min(1).max(MAX_TAG_LENGTH)).max(MAX_TAGS_PER_SNIPPET).optional(),
 });
 
 export const insertFolderSchema = createInsertSchema(folders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+  deletedAt: true,
   userId: true,
 });
 
+// The type and metadata sent are replaced by the server's own classification
 export const insertClipboardItemSchema = createInsertSchema(clipboardItems).omit({
   id: true,
+  pinned: true,
+  metadata: true,
   createdAt: true,
+  deletedAt: true,
   userId: true,
 });
 
-export const insertSettingsSchema = createInsertSchema(settings).omit({
+// Shortcuts for the app's actions; blank turns one off. Stored normalized.
+const shortcutSettingSchema = z.string().trim()
+  .refine(value => value === "" || isUsableShortcut(value), "Shortcuts start with Ctrl, Alt or Cmd plus one other key, or an F key, and have at most two steps")
+  .transform(value => value && (normalizeShortcut(value) ?? value));
+
+export const insertSettingsSchema = createInsertSchema(settings, {
+  snippetShortcut: () => shortcutSettingSchema.optional(),
+  clipboardShortcut: () => shortcutSettingSchema.optional(),
+  newSnippetShortcut: () => shortcutSettingSchema.optional(),
+  searchShortcut: () => shortcutSettingSchema.optional(),
+  settingsShortcut: () => shortcutSettingSchema.optional(),
+  historyLimit: (schema) => schema.int().min(1).max(1000).optional(),
+  clipboardRetentionDays: (schema) => schema.int().min(0).max(365).optional(),
+  trashRetentionDays: (schema) => schema.int().min(1).max(365).optional(),
+  snippetSort: () => z.enum(snippetSortModes).optional(),
+}).omit({
   id: true,
+  userId: true,
 });
 
 export type InsertSnippet = z.infer<typeof insertSnippetSchema>;
-export type Snippet = typeof snippets.$inferSelect;
+// Snippets read through storage carry the names of their tags
+export type Snippet = typeof snippets.$inferSelect & { tags?: string[] };
+
+export type Tag = typeof tags.$inferSelect;
+export type SnippetTag = typeof snippetTags.$inferSelect;
+// A tag and how many of the user's snippets carry it, as listed by GET /api/tags
+export type TagSummary = { name: string; count: number };
+
+export type SnippetRevision = typeof snippetRevisions.$inferSelect;
 
 export type InsertFolder = z.infer<typeof insertFolderSchema>;
 export type Folder = typeof folders.$inferSelect;
 
-export type InsertClipboardItem = z.infer<typeof insertClipboardItemSchema>;
+// Metadata is filled in by the server from classifyClipboardContent
+export type InsertClipboardItem = z.infer<typeof insertClipboardItemSchema> & { metadata?: ClipboardMetadata | null };
 export type ClipboardItem = typeof clipboardItems.$inferSelect;
 
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type Settings = typeof settings.$inferSelect;
+
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = Pick<Account, "userId" | "loginKey" | "credentialHash">;
+// New credentials for an account, and the id its data moves to
+export type AccountCredentialsUpdate = Pick<Account, "userId" | "loginKey" | "credentialHash">;
+
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = Pick<AuthSession, "tokenHash" | "userId" | "userAgent" | "expiresAt">;
+
+export const MAX_API_TOKEN_DAYS = 365;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(apiTokenScopes),
+  // Omitted or null for a token that never expires
+  expiresInDays: z.number().int().min(1).max(MAX_API_TOKEN_DAYS).nullable().optional(),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+export type ApiToken = Omit<typeof apiTokens.$inferSelect, "scope"> & { scope: ApiTokenScope };
+export type InsertApiToken = Pick<ApiToken, "tokenHash" | "prefix" | "userId" | "name" | "scope" | "expiresAt">;
+// What the API shows of a token; the token itself is only returned once, when created
+export type ApiTokenInfo = Omit<ApiToken, "tokenHash">;
+
+export const MAX_SHARE_LINK_DAYS = 365;
+export const MAX_SHARE_LINK_VIEWS = 10000;
+
+export const createShareLinkSchema = z.object({
+  targetType: z.enum(shareTargetTypes),
+  targetId: z.number().int(),
+  // Omitted or null for a link that never expires, or that can be opened any number of times
+  expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).nullable().optional(),
+  maxViews: z.number().int().min(1).max(MAX_SHARE_LINK_VIEWS).nullable().optional(),
+});
+
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>;
+export type ShareLink = Omit<typeof shareLinks.$inferSelect, "targetType"> & { targetType: ShareTargetType };
+export type InsertShareLink = Pick<ShareLink, "tokenHash" | "userId" | "targetType" | "targetId" | "expiresAt" | "maxViews">;
+// A link in its owner's list, with the title of the snippet or the path of the
+// folder it shares; null once that is in the trash or gone
+export type ShareLinkInfo = Omit<ShareLink, "tokenHash"> & { title: string | null };
+// A link just created: the only time its token is returned
+export type CreatedShareLink = Omit<ShareLink, "tokenHash"> & { token: string };
+
+// What a share link shows whoever opens it: the snippet, or every snippet in
+// the folder and the folders below it, each with its folder's path from the
+// shared folder ("" for the shared folder itself)
+export type SharedSnippet = Pick<Snippet, "title" | "description" | "content" | "tags" | "updatedAt">;
+export type SharedContent =
+  | { type: "snippet"; snippet: SharedSnippet }
+  | { type: "folder"; name: string; snippets: Array<SharedSnippet & { folder: string }> };
+
+export const trashItemTypes = ["snippet", "folder", "clipboard"] as const;
+export type TrashItemType = typeof trashItemTypes[number];
+
+export type TrashEntry =
+  | { type: "snippet"; item: Snippet; deletedAt: Date }
+  | { type: "folder"; item: Folder; deletedAt: Date }
+  | { type: "clipboard"; item: ClipboardItem; deletedAt: Date };
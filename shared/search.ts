@@ -0,0 +1,198 @@
+import type { Snippet, ClipboardItem } from "./schema";
+
+export type SearchResultKind = "snippet" | "clipboard";
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+export type SearchResult =
+  | { kind: "snippet"; item: Snippet; score: number; title: HighlightSegment[]; excerpt: HighlightSegment[] }
+  | { kind: "clipboard"; item: ClipboardItem; score: number; title: HighlightSegment[]; excerpt: HighlightSegment[] };
+
+export interface SearchOptions {
+  kinds?: SearchResultKind[];
+  limit?: number;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Letters and digits in any script; built with the constructor because the
+// type-check target predates the "u" regex flag
+const TOKEN_PATTERN = new RegExp("[\\p{L}\\p{N}_]+", "gu");
+const EXCERPT_LENGTH = 160;
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+// Number of typos tolerated for a query term of the given length
+export function maxEditsFor(term: string): number {
+  if (term.length <= 3) return 0;
+  if (term.length <= 6) return 1;
+  return 2;
+}
+
+// Levenshtein distance, giving up as soon as it exceeds maxDistance
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well an indexed term matches a query term: 1 for exact, less for prefix and typo matches, 0 for none
+export function termMatchQuality(queryTerm: string, term: string): number {
+  if (term === queryTerm) return 1;
+  if (queryTerm.length >= 2 && term.startsWith(queryTerm)) return 0.7;
+  const maxEdits = maxEditsFor(queryTerm);
+  if (maxEdits === 0) return 0;
+  const distance = editDistance(queryTerm, term, maxEdits);
+  return distance <= maxEdits ? 0.5 / distance : 0;
+}
+
+function segmentsFromRanges(text: string, ranges: Array<[number, number]>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const [start, end] of ranges) {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+  return segments;
+}
+
+// Mark every word in text that matches one of the query terms (exactly, by prefix or fuzzily).
+// With excerpt set, the text is cut down to a window around the first match.
+export function highlightText(text: string, query: string, excerpt = false): HighlightSegment[] {
+  const queryTerms = tokenize(query);
+  const ranges: Array<[number, number]> = [];
+  const pattern = new RegExp(TOKEN_PATTERN);
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const word = match[0].toLowerCase();
+    if (queryTerms.some(term => termMatchQuality(term, word) > 0)) {
+      ranges.push([match.index, match.index + match[0].length]);
+    }
+  }
+
+  if (!excerpt || text.length <= EXCERPT_LENGTH) {
+    return segmentsFromRanges(text, ranges);
+  }
+
+  const start = ranges.length > 0 ? Math.max(0, ranges[0][0] - 40) : 0;
+  const end = Math.min(text.length, start + EXCERPT_LENGTH);
+  const window = text.slice(start, end);
+  const segments = segmentsFromRanges(
+    window,
+    ranges
+      .filter(([s, e]) => s >= start && e <= end)
+      .map(([s, e]) => [s - start, e - start] as [number, number]),
+  );
+  if (start > 0) segments.unshift({ text: "…", match: false });
+  if (end < text.length) segments.push({ text: "…", match: false });
+  return segments;
+}
+
+export function toSnippetResult(item: Snippet, score: number, query: string): SearchResult {
+  return {
+    kind: "snippet",
+    item,
+    score,
+    title: highlightText(item.title, query),
+    excerpt: highlightText(item.content, query, true),
+  };
+}
+
+export function toClipboardResult(item: ClipboardItem, score: number, query: string): SearchResult {
+  const firstLine = item.content.split("\n")[0].slice(0, 80);
+  return {
+    kind: "clipboard",
+    item,
+    score,
+    title: highlightText(firstLine, query),
+    excerpt: highlightText(item.content, query, true),
+  };
+}
+
+export interface IndexedField {
+  text: string;
+  weight: number;
+}
+
+interface IndexedDocument<T> {
+  item: T;
+  length: number;
+}
+
+// Small in-memory inverted index with field weights, TF-IDF scoring and
+// prefix/typo-tolerant term matching. Used by the storage backends that have
+// no database to push the search down to.
+export class SearchIndex<T> {
+  private postings = new Map<string, Map<number, number>>();
+  private documents = new Map<number, IndexedDocument<T>>();
+
+  add(id: number, item: T, fields: IndexedField[]) {
+    let length = 0;
+    for (const field of fields) {
+      for (const term of tokenize(field.text)) {
+        length++;
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        docs.set(id, (docs.get(id) ?? 0) + field.weight);
+      }
+    }
+    this.documents.set(id, { item, length });
+  }
+
+  search(query: string, limit: number): Array<{ item: T; score: number }> {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) return [];
+
+    const totalDocs = this.documents.size;
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, number>();
+
+    for (const queryTerm of queryTerms) {
+      // Best score this query term contributes to each document
+      const best = new Map<number, number>();
+      this.postings.forEach((docs, term) => {
+        const quality = termMatchQuality(queryTerm, term);
+        if (quality === 0) return;
+        const idf = Math.log(1 + totalDocs / docs.size);
+        docs.forEach((weight, id) => {
+          const length = this.documents.get(id)!.length;
+          const score = quality * idf * (weight / (weight + 1 + length / 100));
+          if (score > (best.get(id) ?? 0)) best.set(id, score);
+        });
+      });
+      best.forEach((score, id) => {
+        scores.set(id, (scores.get(id) ?? 0) + score);
+        matchedTerms.set(id, (matchedTerms.get(id) ?? 0) + 1);
+      });
+    }
+
+    return Array.from(scores.entries())
+      // Documents matching more of the query rank above partial matches
+      .map(([id, score]) => ({ id, score: score * (matchedTerms.get(id)! / queryTerms.length) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ id, score }) => ({ item: this.documents.get(id)!.item, score }));
+  }
+}
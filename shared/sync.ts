@@ -0,0 +1,30 @@
+import type { Snippet, ClipboardItem, Folder, Settings } from "./schema";
+
+// WebSocket endpoint, served from the same HTTP server as the API
+export const SYNC_PATH = "/api/sync";
+
+// Close codes sent by the server; clients should not reconnect after these
+export const SYNC_CLOSE_UNAUTHORIZED = 4401;
+export const SYNC_CLOSE_SIGNED_OUT = 4403;
+
+// The first message a client sends, within a few seconds of connecting
+export interface SyncHello {
+  type: "hello";
+  sessionToken?: string;
+  // Only honoured by servers running with the development auth fallback
+  userId?: string;
+}
+
+// Changes pushed to every open connection of the user who made them
+export type SyncEvent =
+  | { type: "snippet.saved"; snippet: Snippet }
+  | { type: "snippet.deleted"; id: number }
+  | { type: "folder.saved"; folder: Folder }
+  | { type: "folder.deleted"; id: number }
+  | { type: "clipboard.saved"; item: ClipboardItem }
+  | { type: "clipboard.deleted"; ids: number[] }
+  | { type: "settings.saved"; settings: Settings }
+  // Changes too broad to apply item by item; clients refetch these query keys
+  | { type: "invalidate"; keys: string[] };
+
+export type SyncServerMessage = { type: "ready" } | SyncEvent;
@@ -0,0 +1,34 @@
+// Helpers for snippet tags. Tags are free-form labels, stored lowercase with
+// runs of whitespace turned into "-", so "Code Review" and "code-review" are
+// the same tag.
+
+export const MAX_TAG_LENGTH = 40;
+export const MAX_TAGS_PER_SNIPPET = 20;
+
+// Marks a tag in a search query: "#sql #work join" finds snippets tagged both
+// sql and work that match "join"
+export const TAG_QUERY_PREFIX = "#";
+
+export function normalizeTag(name: string): string {
+  return name.trim().replace(/^#+/, "").toLowerCase().replace(/\s+/g, "-").slice(0, MAX_TAG_LENGTH);
+}
+
+// Normalized, without blanks or duplicates, in the order given
+export function normalizeTags(names: string[]): string[] {
+  return Array.from(new Set(names.map(normalizeTag).filter(Boolean)));
+}
+
+// Splits the #tags out of a search query
+export function parseTagQuery(query: string): { tags: string[]; text: string } {
+  const words = query.split(/\s+/).filter(Boolean);
+  const isTag = (word: string) => word.startsWith(TAG_QUERY_PREFIX) && word.length > TAG_QUERY_PREFIX.length;
+  return {
+    tags: normalizeTags(words.filter(isTag)),
+    text: words.filter(word => !isTag(word)).join(" "),
+  };
+}
+
+// Whether the snippet carries every one of the tags
+export function hasAllTags(snippet: { tags?: string[] }, tags: string[]): boolean {
+  return tags.every(tag => snippet.tags?.includes(tag));
+}
@@ -0,0 +1,171 @@
+import { format as formatDate } from "date-fns";
+
+// Snippet template syntax
+//
+//   {{date}}            current date (yyyy-MM-dd), or {{date:dd/MM/yyyy}}
+//   {{time}}            current time (HH:mm), or {{time:HH:mm:ss}}
+//   {{clipboard}}       current clipboard text
+//   {{cursor}}          where the caret should end up after insertion
+//   {{customer_name}}   named field the user fills in before copying,
+//                       optionally with a default: {{customer_name:Acme}}
+//
+// A backslash escapes an opening brace pair, so "\{{date}}" is copied as "{{date}}".
+
+export const BUILTIN_VARIABLES = ["date", "time", "clipboard", "cursor"] as const;
+export type BuiltinVariable = typeof BUILTIN_VARIABLES[number];
+
+const DEFAULT_DATE_FORMAT = "yyyy-MM-dd";
+const DEFAULT_TIME_FORMAT = "HH:mm";
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+export type TemplateToken =
+  | { type: "text"; value: string }
+  | { type: "variable"; name: string; arg: string | null; raw: string };
+
+export interface TemplateField {
+  name: string;
+  defaultValue: string;
+}
+
+export interface TemplateContext {
+  fields?: Record<string, string>;
+  clipboard?: string;
+  now?: Date;
+}
+
+export interface ExpandedTemplate {
+  text: string;
+  // Offset of {{cursor}} in the expanded text, or null if the template has none
+  cursorOffset: number | null;
+}
+
+export function isBuiltinVariable(name: string): name is BuiltinVariable {
+  return (BUILTIN_VARIABLES as readonly string[]).includes(name);
+}
+
+// Split template content into literal text and variable tokens.
+// Anything that looks like braces but is not a valid placeholder is kept as text.
+export function parseTemplate(content: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let text = "";
+  let i = 0;
+
+  const flushText = () => {
+    if (text) {
+      tokens.push({ type: "text", value: text });
+      text = "";
+    }
+  };
+
+  while (i < content.length) {
+    if (content.startsWith("\\{{", i)) {
+      text += "{{";
+      i += 3;
+      continue;
+    }
+
+    if (content.startsWith("{{", i)) {
+      const end = content.indexOf("}}", i + 2);
+      if (end !== -1) {
+        const raw = content.slice(i, end + 2);
+        const body = content.slice(i + 2, end).trim();
+        const separator = body.indexOf(":");
+        const name = (separator === -1 ? body : body.slice(0, separator)).trim();
+        const arg = separator === -1 ? null : body.slice(separator + 1).trim();
+
+        if (NAME_PATTERN.test(name)) {
+          flushText();
+          tokens.push({ type: "variable", name, arg, raw });
+          i = end + 2;
+          continue;
+        }
+      }
+    }
+
+    text += content[i];
+    i++;
+  }
+
+  flushText();
+  return tokens;
+}
+
+export function hasTemplateVariables(content: string): boolean {
+  return parseTemplate(content).some(token => token.type === "variable");
+}
+
+// Named fields the user has to fill in, in order of first appearance
+export function getTemplateFields(content: string): TemplateField[] {
+  const fields: TemplateField[] = [];
+  for (const token of parseTemplate(content)) {
+    if (token.type !== "variable" || isBuiltinVariable(token.name)) continue;
+    const existing = fields.find(field => field.name === token.name);
+    if (!existing) {
+      fields.push({ name: token.name, defaultValue: token.arg ?? "" });
+    } else if (!existing.defaultValue && token.arg) {
+      existing.defaultValue = token.arg;
+    }
+  }
+  return fields;
+}
+
+export function usesClipboard(content: string): boolean {
+  return parseTemplate(content).some(token => token.type === "variable" && token.name === "clipboard");
+}
+
+// Escape literal "{{" so that text is copied verbatim when used as template content
+export function escapeTemplate(text: string): string {
+  return text.replace(/\{\{/g, "\\{{");
+}
+
+// Turn a field name like "customer_name" into "Customer name" for form labels
+export function formatFieldLabel(name: string): string {
+  const words = name.replace(/[_-]+/g, " ").trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatNow(now: Date, pattern: string, fallback: string, raw: string): string {
+  try {
+    return formatDate(now, pattern || fallback);
+  } catch (error) {
+    // Invalid format strings are left in place so the user can see and fix them
+    return raw;
+  }
+}
+
+export function expandTemplate(content: string, context: TemplateContext = {}): ExpandedTemplate {
+  const now = context.now ?? new Date();
+  const fields = context.fields ?? {};
+  // A default given on any occurrence of a field applies to all of them
+  const defaults = Object.fromEntries(getTemplateFields(content).map(field => [field.name, field.defaultValue]));
+  let text = "";
+  let cursorOffset: number | null = null;
+
+  for (const token of parseTemplate(content)) {
+    if (token.type === "text") {
+      text += token.value;
+      continue;
+    }
+
+    switch (token.name) {
+      case "date":
+        text += formatNow(now, token.arg ?? "", DEFAULT_DATE_FORMAT, token.raw);
+        break;
+      case "time":
+        text += formatNow(now, token.arg ?? "", DEFAULT_TIME_FORMAT, token.raw);
+        break;
+      case "clipboard":
+        text += context.clipboard ?? "";
+        break;
+      case "cursor":
+        // Only the first cursor marker counts; later ones are dropped
+        if (cursorOffset === null) cursorOffset = text.length;
+        break;
+      default:
+        text += fields[token.name] ?? defaults[token.name] ?? "";
+    }
+  }
+
+  return { text, cursorOffset };
+}